@@ -7,6 +7,7 @@
 
 import { PrismaClient, Agent, Cookie as PrismaCookie, WorkerStatus } from '@prisma/client';
 import { TwitterApi } from '../api/twitter-api';
+import { decryptCookies, encryptCookieData } from '../db/utils/cookieEncryption';
 import { Cookie } from 'tough-cookie';
 import { createChatCompletion, ChatMessage, ChatCompletion } from '../api/chat';
 import * as dotenv from 'dotenv';
@@ -307,13 +308,13 @@ async function initializeTwitterApi(userId: string): Promise<TwitterApi> {
 
     // 1. Try loading existing cookies from Database
     try {
-        loadedCookies = await prisma.cookie.findMany({
+        loadedCookies = decryptCookies(await prisma.cookie.findMany({
           where: {
             userId,
             key: { not: undefined }, // Ensure key exists
             value: { not: undefined }, // Ensure value exists
           },
-        });
+        }));
         
         console.log(`Loaded ${loadedCookies.length} cookies from database for user ID: ${userId}`);
         
@@ -478,7 +479,8 @@ async function saveCookiesToDatabase(userId: string, api: TwitterApi) {
       }
     }
     
-    const cookieData = {
+    // Values are encrypted at rest
+    const cookieData = encryptCookieData({
       userId,
       key: cookie.key,
       value: cookie.value,
@@ -488,7 +490,7 @@ async function saveCookiesToDatabase(userId: string, api: TwitterApi) {
       secure: cookie.secure,
       httpOnly: cookie.httpOnly,
       sameSite: cookie.sameSite || 'Lax'
-    };
+    });
     
     // Use upsert to update if exists or create if not
     const savedCookie = await prisma.cookie.upsert({
@@ -0,0 +1,91 @@
+import prisma from '../db/utils/dbClient';
+import { agentTweetService } from './agent-tweet-service';
+import { twitterAuthService } from './twitter-auth-service';
+import { quotaService } from './quota-service';
+import { usageService } from './usage-service';
+
+jest.mock('../db/utils/dbClient', () => ({
+  __esModule: true,
+  default: {
+    agent: { findUnique: jest.fn() },
+    tweet: { update: jest.fn(), create: jest.fn() }
+  }
+}));
+jest.mock('./twitter-auth-service', () => ({ twitterAuthService: { verifyAuthentication: jest.fn() } }));
+jest.mock('./quota-service', () => ({ quotaService: { getAgentQuota: jest.fn() } }));
+jest.mock('./usage-service', () => ({ usageService: { record: jest.fn() } }));
+jest.mock('./llm-service', () => ({ __esModule: true, default: {} }));
+jest.mock('./tweet-queue-service', () => ({ getThreadLeaseExpiry: jest.fn() }));
+
+const db = prisma as unknown as {
+  agent: { findUnique: jest.Mock };
+  tweet: { update: jest.Mock; create: jest.Mock };
+};
+const verifyAuthentication = twitterAuthService.verifyAuthentication as jest.Mock;
+const getAgentQuota = quotaService.getAgentQuota as jest.Mock;
+const recordUsage = usageService.record as jest.Mock;
+
+const postTweet = jest.fn();
+const post = () => agentTweetService.postTweet({ agentId: 'agent-1', userId: 'user-1', text: 'Hello', scheduledTweetId: 'tweet-1' });
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  db.agent.findUnique.mockResolvedValue({ agentId: 'agent-1', name: 'agent' });
+  getAgentQuota.mockResolvedValue({ success: true, quota: { used: 0, limit: 100, remaining: 100 } });
+  verifyAuthentication.mockResolvedValue({ authenticated: true, api: { postTweet } });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('postTweet', () => {
+  test('records an accepted tweet on its scheduled row', async () => {
+    postTweet.mockResolvedValue({ success: true, tweetId: '123', url: 'https://x.com/i/status/123' });
+    db.tweet.update.mockResolvedValue({ tweetId: 'tweet-1', text: 'Hello', twitterTweetId: '123', url: 'https://x.com/i/status/123' });
+
+    const result = await post();
+
+    expect(result.success).toBe(true);
+    expect(db.tweet.update.mock.calls[0][0].data).toMatchObject({ status: 'posted', twitterTweetId: '123' });
+    expect(recordUsage).toHaveBeenCalledWith({ userId: 'user-1', agentId: 'agent-1', kind: 'tweet', tweetId: 'tweet-1' });
+  });
+
+  test('never asks for a retry once X has accepted the tweet', async () => {
+    postTweet.mockResolvedValue({ success: true, tweetId: '123', url: 'https://x.com/i/status/123' });
+    db.tweet.update.mockRejectedValue(new Error('Connection lost'));
+
+    const result = await post();
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Posted to X (https://x.com/i/status/123), but the tweet could not be saved: Connection lost',
+      retryable: false
+    });
+    expect(recordUsage).not.toHaveBeenCalled();
+  });
+
+  test('passes on whether X\'s rejection is worth retrying', async () => {
+    postTweet.mockResolvedValue({ success: false, error: 'Status is a duplicate.', retryable: false });
+    await expect(post()).resolves.toEqual({ success: false, error: 'Status is a duplicate.', retryable: false });
+
+    postTweet.mockResolvedValue({ success: false, error: 'Rate limited by X', retryable: true });
+    await expect(post()).resolves.toEqual({ success: false, error: 'Rate limited by X', retryable: true });
+  });
+
+  test('only retries authentication failures when X could not be reached', async () => {
+    verifyAuthentication.mockResolvedValue({ authenticated: false, error: 'Failed to authenticate with X using username/password' });
+    await expect(post()).resolves.toMatchObject({ success: false, retryable: false });
+
+    verifyAuthentication.mockResolvedValue({ authenticated: false, error: 'fetch failed', retryable: true });
+    await expect(post()).resolves.toMatchObject({ success: false, retryable: true });
+  });
+
+  test('retries a failure before anything was posted', async () => {
+    getAgentQuota.mockRejectedValue(new Error('Connection lost'));
+
+    await expect(post()).resolves.toEqual({ success: false, error: 'Connection lost', retryable: true });
+    expect(postTweet).not.toHaveBeenCalled();
+  });
+});
@@ -5,19 +5,47 @@
  */
 
 import prisma from "../db/utils/dbClient";
-import { TwitterApi } from "./twitter-api";
+import { TwitterApi, PostTweetResult } from "./twitter-api";
 import { twitterAuthService } from "./twitter-auth-service";
 import llmService from "./llm-service";
+import { LLMProviderName } from "./llm-providers";
+import { TweetMediaPayload } from "./media-service";
+import { usageService } from "./usage-service";
+import { quotaService } from "./quota-service";
+import { getThreadLeaseExpiry } from "./tweet-queue-service";
+import { ThreadStatus, TweetKind } from "@prisma/client";
 
 export interface AgentTweetOptions {
   agentId: string;
   userId: string;
-  llmProvider?: "openrouter";
+  llmProvider?: LLMProviderName;
   context?: string;
   url?: string;
   xAccountToTag?: string;
 }
 
+export interface AgentQuoteTweetOptions {
+  agentId: string;
+  userId: string;
+  quotedTweetId: string;
+  llmProvider?: LLMProviderName;
+  context?: string;
+  // Skips the lookup on X when the caller already has the tweet (e.g. from a timeline)
+  quotedTweet?: { text: string; username?: string };
+}
+
+export interface AgentThreadResult {
+  success: boolean;
+  thread?: {
+    id: string;
+    status: ThreadStatus;
+    totalParts: number;
+    postedCount: number;
+    postTime?: Date;
+  };
+  error?: string;
+}
+
 export interface AgentTweetResult {
   success: boolean;
   tweet?: {
@@ -26,8 +54,10 @@ export interface AgentTweetResult {
     twitterId?: string;
     url?: string;
     timestamp?: Date;
+    quotedTweetId?: string;
   };
   error?: string;
+  retryable?: boolean; // Failed for a reason that may clear up (rate limit, X outage, network), so a later attempt may succeed
 }
 
 /**
@@ -42,7 +72,7 @@ export const agentTweetService = {
    */
   async generateTweet(options: AgentTweetOptions): Promise<AgentTweetResult> {
     try {
-      const { agentId, userId, context, url, xAccountToTag } = options;
+      const { agentId, userId, context, url, xAccountToTag, llmProvider } = options;
       
       console.log("AgentTweetService.generateTweet called with:", {
         agentId,
@@ -67,8 +97,8 @@ export const agentTweetService = {
         };
       }
       
-      // Generate tweet text using the default llmService
-      const generationResult = await llmService.generateAgentTweet(agentId, context, url, xAccountToTag);
+      // Generate tweet text with the agent's LLM settings (optionally on another provider)
+      const generationResult = await llmService.generateAgentTweet(agentId, context, url, xAccountToTag, llmProvider);
       
       if (!generationResult.success || !generationResult.content) {
         return {
@@ -93,6 +123,79 @@ export const agentTweetService = {
     }
   },
   
+  /**
+   * Generate commentary for quote tweeting another tweet
+   * 
+   * @param options - The agent, the tweet to quote and an optional angle
+   * @returns Promise with the generated commentary
+   */
+  async generateQuoteTweet(options: AgentQuoteTweetOptions): Promise<AgentTweetResult> {
+    try {
+      const { agentId, userId, quotedTweetId, context, llmProvider } = options;
+
+      // Validate agent ownership
+      const agent = await prisma.agent.findUnique({
+        where: {
+          agentId,
+          userId
+        }
+      });
+
+      if (!agent) {
+        return {
+          success: false,
+          error: "Agent not found or access denied"
+        };
+      }
+
+      let quotedTweet = options.quotedTweet;
+
+      if (!quotedTweet) {
+        const lookup = await twitterAuthService.getTweet(userId, quotedTweetId);
+
+        if (!lookup.success || !lookup.tweet) {
+          return {
+            success: false,
+            error: lookup.error || "Could not load the tweet to quote"
+          };
+        }
+
+        quotedTweet = { text: lookup.tweet.text, username: lookup.tweet.user.screenName };
+      }
+
+      if (!quotedTweet.text.trim()) {
+        return {
+          success: false,
+          error: "The tweet to quote has no text to comment on"
+        };
+      }
+
+      const generationResult = await llmService.generateAgentQuoteTweet(agentId, quotedTweet, context, llmProvider);
+
+      if (!generationResult.success || !generationResult.content) {
+        return {
+          success: false,
+          error: generationResult.error || "Failed to generate quote tweet content"
+        };
+      }
+
+      return {
+        success: true,
+        tweet: {
+          id: "",
+          text: generationResult.content,
+          quotedTweetId
+        }
+      };
+    } catch (error) {
+      console.error("Generate quote tweet error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
   /**
    * Generate and post a tweet for an agent
    * 
@@ -129,12 +232,21 @@ export const agentTweetService = {
   /**
    * Post a tweet for an agent
    * 
-   * @param options - The post options including tweet text
+   * @param options - The post options including tweet text; set quotedTweetId to post a quote tweet,
+   *                  or scheduledTweetId to record the post on an existing scheduled tweet instead of a new row
    * @returns Promise with the posting result
    */
-  async postTweet(options: { agentId: string; userId: string; text: string; replyToTweetId?: string }): Promise<AgentTweetResult> {
+  async postTweet(options: {
+    agentId: string;
+    userId: string;
+    text: string;
+    replyToTweetId?: string;
+    quotedTweetId?: string;
+    mediaData?: TweetMediaPayload[];
+    scheduledTweetId?: string;
+  }): Promise<AgentTweetResult> {
     try {
-      const { agentId, userId, text, replyToTweetId } = options;
+      const { agentId, userId, text, replyToTweetId, quotedTweetId, mediaData, scheduledTweetId } = options;
       
       // Verify agent ownership
       const agent = await prisma.agent.findUnique({
@@ -150,6 +262,23 @@ export const agentTweetService = {
           error: "Agent not found or access denied"
         };
       }
+
+      // Check the agent's (or the pooled) tweet quota for this billing period
+      const quotaResult = await quotaService.getAgentQuota(userId, agentId, 'tweet');
+
+      if (!quotaResult.success || !quotaResult.quota) {
+        return {
+          success: false,
+          error: quotaResult.error
+        };
+      }
+
+      if (quotaResult.quota.remaining === 0) {
+        return {
+          success: false,
+          error: `Monthly tweet limit of ${quotaResult.quota.limit} reached. Upgrade plan to post more tweets.`
+        };
+      }
       
       // Get X API authentication
       const authResult = await twitterAuthService.verifyAuthentication(
@@ -160,30 +289,85 @@ export const agentTweetService = {
       if (!authResult.authenticated || !authResult.api) {
         return {
           success: false,
-          error: authResult.error || "X authentication failed"
+          error: authResult.error || "X authentication failed",
+          retryable: authResult.retryable ?? false
         };
       }
       
       // Post the tweet
       const tweetApi: TwitterApi = authResult.api;
-      const postResult = await tweetApi.postTweet(text, replyToTweetId);
+      const postResult = quotedTweetId
+        ? await tweetApi.postQuoteTweet(text, quotedTweetId, mediaData)
+        : await tweetApi.postTweet(text, replyToTweetId, mediaData);
       
       if (!postResult.success) {
         return {
           success: false,
-          error: "Failed to post tweet to X"
+          error: postResult.error || "Failed to post tweet to X",
+          retryable: postResult.retryable ?? false
         };
       }
-      
-      // Save the tweet to the database
-      const savedTweet = await prisma.tweet.create({
-        data: {
-          agentId,
-          text,
-          postTime: postResult.timestamp || new Date(),
-          twitterTweetId: postResult.tweetId || null,
-          url: postResult.url || null
-        }
+
+      // The tweet is live from here on, so nothing below may ask for another attempt
+      return await this.recordPostedTweet(postResult, options);
+    } catch (error) {
+      console.error("Post tweet error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        retryable: true
+      };
+    }
+  },
+
+  /**
+   * Save a tweet X has accepted and count it against the plan
+   *
+   * A failure here never asks for a retry, which would post the tweet again; the scheduler
+   * dead-letters the scheduled row with the error instead
+   *
+   * @param postResult - X's response to the post
+   * @param options - The options the tweet was posted with
+   * @returns Promise with the posting result
+   */
+  async recordPostedTweet(
+    postResult: PostTweetResult,
+    options: { agentId: string; userId: string; text: string; quotedTweetId?: string; scheduledTweetId?: string }
+  ): Promise<AgentTweetResult> {
+    const { agentId, userId, text, quotedTweetId, scheduledTweetId } = options;
+
+    try {
+      // Save the tweet to the database, completing the scheduled row when there is one
+      const savedTweet = scheduledTweetId
+        ? await prisma.tweet.update({
+            where: { tweetId: scheduledTweetId },
+            data: {
+              status: 'posted',
+              postTime: postResult.timestamp || new Date(),
+              twitterTweetId: postResult.tweetId || null,
+              url: postResult.url || null,
+              leaseExpiresAt: null,
+              nextAttemptAt: null,
+              lastError: null
+            }
+          })
+        : await prisma.tweet.create({
+            data: {
+              agentId,
+              text,
+              postTime: postResult.timestamp || new Date(),
+              twitterTweetId: postResult.tweetId || null,
+              url: postResult.url || null,
+              kind: quotedTweetId ? TweetKind.quote : TweetKind.original,
+              quotedTweetId: quotedTweetId || null
+            }
+          });
+
+      await usageService.record({
+        userId,
+        agentId,
+        kind: 'tweet',
+        tweetId: savedTweet.tweetId
       });
       
       return {
@@ -193,14 +377,16 @@ export const agentTweetService = {
           text: savedTweet.text,
           twitterId: savedTweet.twitterTweetId || undefined,
           url: savedTweet.url || undefined,
-          timestamp: savedTweet.postTime || undefined
+          timestamp: savedTweet.postTime || undefined,
+          quotedTweetId: savedTweet.quotedTweetId || undefined
         }
       };
     } catch (error) {
-      console.error("Post tweet error:", error);
+      console.error("Tweet was posted to X but could not be saved:", error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : String(error)
+        error: `Posted to X${postResult.url ? ` (${postResult.url})` : ''}, but the tweet could not be saved: ${error instanceof Error ? error.message : String(error)}`,
+        retryable: false
       };
     }
   },
@@ -216,9 +402,10 @@ export const agentTweetService = {
     userId: string;
     text: string;
     scheduleTime: Date;
+    quotedTweetId?: string;
   }): Promise<AgentTweetResult> {
     try {
-      const { agentId, userId, text, scheduleTime } = options;
+      const { agentId, userId, text, scheduleTime, quotedTweetId } = options;
       
       // Verify agent ownership
       const agent = await prisma.agent.findUnique({
@@ -240,7 +427,9 @@ export const agentTweetService = {
           agentId,
           text,
           postTime: scheduleTime,
-          status: 'scheduled'
+          status: 'scheduled',
+          kind: quotedTweetId ? TweetKind.quote : TweetKind.original,
+          quotedTweetId: quotedTweetId || null
         }
       });
       
@@ -249,7 +438,8 @@ export const agentTweetService = {
         tweet: {
           id: scheduledTweet.tweetId,
           text: scheduledTweet.text,
-          timestamp: scheduledTweet.postTime || undefined
+          timestamp: scheduledTweet.postTime || undefined,
+          quotedTweetId: scheduledTweet.quotedTweetId || undefined
         }
       };
     } catch (error) {
@@ -259,5 +449,269 @@ export const agentTweetService = {
         error: error instanceof Error ? error.message : String(error)
       };
     }
+  },
+
+  /**
+   * Schedule a thread for later posting
+   * 
+   * @param options - Thread parts (in order) and schedule time
+   * @returns Promise with the scheduling result
+   */
+  async scheduleThread(options: {
+    agentId: string;
+    userId: string;
+    parts: string[];
+    scheduleTime: Date;
+    context?: string;
+  }): Promise<AgentThreadResult> {
+    try {
+      const { agentId, userId, parts, scheduleTime, context } = options;
+
+      // Verify agent ownership
+      const agent = await prisma.agent.findUnique({
+        where: {
+          agentId,
+          userId
+        }
+      });
+
+      if (!agent) {
+        return {
+          success: false,
+          error: "Agent not found or access denied"
+        };
+      }
+
+      const thread = await this.createThread(agentId, parts, scheduleTime, ThreadStatus.scheduled, context);
+
+      return {
+        success: true,
+        thread: {
+          id: thread.threadId,
+          status: thread.status,
+          totalParts: parts.length,
+          postedCount: 0,
+          postTime: thread.postTime || undefined
+        }
+      };
+    } catch (error) {
+      console.error("Schedule thread error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
+  /**
+   * Post a thread immediately
+   * 
+   * @param options - Thread parts (in order)
+   * @returns Promise with the posting result
+   */
+  async postThread(options: {
+    agentId: string;
+    userId: string;
+    parts: string[];
+    context?: string;
+  }): Promise<AgentThreadResult> {
+    try {
+      const { agentId, userId, parts, context } = options;
+
+      // Verify agent ownership
+      const agent = await prisma.agent.findUnique({
+        where: {
+          agentId,
+          userId
+        }
+      });
+
+      if (!agent) {
+        return {
+          success: false,
+          error: "Agent not found or access denied"
+        };
+      }
+
+      // Created as 'posting' so the scheduler never picks it up
+      const thread = await this.createThread(agentId, parts, new Date(), ThreadStatus.posting, context);
+
+      return await this.publishThread(thread.threadId, userId);
+    } catch (error) {
+      console.error("Post thread error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
+  /**
+   * Create a thread with one Tweet row per part
+   */
+  async createThread(agentId: string, parts: string[], postTime: Date, status: ThreadStatus, context?: string) {
+    return prisma.thread.create({
+      data: {
+        agentId,
+        status,
+        postTime,
+        context: context || null,
+        leaseExpiresAt: status === ThreadStatus.posting ? getThreadLeaseExpiry() : null,
+        tweets: {
+          create: parts.map((text, index) => ({
+            agentId,
+            text,
+            postTime,
+            status: 'scheduled',
+            threadPosition: index,
+            context: context || null
+          }))
+        }
+      }
+    });
+  },
+
+  /**
+   * Post the parts of a thread in order, each replying to the previous one.
+   * 
+   * Posting stops at the first failed part; the parts already on X are kept
+   * and the thread is recorded as 'partial' (or 'failed' if nothing was posted).
+   * The caller is expected to have moved the thread to 'posting'.
+   * 
+   * @param threadId - Thread to publish
+   * @param userId - Owner of the agent
+   * @returns Promise with the posting result
+   */
+  async publishThread(threadId: string, userId: string): Promise<AgentThreadResult> {
+    const thread = await prisma.thread.findUnique({
+      where: { threadId },
+      include: {
+        agent: { select: { name: true } },
+        tweets: { orderBy: { threadPosition: 'asc' } }
+      }
+    });
+
+    if (!thread) {
+      return {
+        success: false,
+        error: "Thread not found"
+      };
+    }
+
+    const totalParts = thread.tweets.length;
+    let postedCount = 0;
+    let failure: string | null = null;
+
+    try {
+      // A thread is only started if every part still to be posted fits in the tweet quota
+      const partsToPost = thread.tweets.filter(part => !(part.status === 'posted' && part.twitterTweetId)).length;
+      const quotaResult = await quotaService.getAgentQuota(userId, thread.agentId, 'tweet');
+
+      if (!quotaResult.success || !quotaResult.quota) {
+        throw new Error(quotaResult.error || "User profile or plan not found");
+      }
+
+      if (quotaResult.quota.remaining < partsToPost) {
+        throw new Error(`Thread needs ${partsToPost} tweets but only ${quotaResult.quota.remaining} of the monthly limit of ${quotaResult.quota.limit} remain`);
+      }
+
+      // Get X API authentication once for the whole thread
+      const authResult = await twitterAuthService.verifyAuthentication(userId, thread.agent.name);
+
+      if (!authResult.authenticated || !authResult.api) {
+        failure = authResult.error || "X authentication failed";
+      } else {
+        const tweetApi: TwitterApi = authResult.api;
+        let previousTweetId: string | undefined;
+
+        for (const part of thread.tweets) {
+          const position = (part.threadPosition ?? 0) + 1;
+
+          // Parts already on X (e.g. from an interrupted run) are only chained to
+          if (part.status === 'posted' && part.twitterTweetId) {
+            previousTweetId = part.twitterTweetId;
+            postedCount++;
+            continue;
+          }
+
+          await prisma.tweet.update({
+            where: { tweetId: part.tweetId },
+            data: { status: 'posting' }
+          });
+
+          const postResult = await tweetApi.postTweet(part.text, previousTweetId);
+
+          if (!postResult.success) {
+            await prisma.tweet.update({
+              where: { tweetId: part.tweetId },
+              data: { status: 'failed' }
+            });
+            failure = `Part ${position} of ${totalParts} could not be posted to X${postResult.error ? `: ${postResult.error}` : ''}`;
+            break;
+          }
+
+          await prisma.tweet.update({
+            where: { tweetId: part.tweetId },
+            data: {
+              status: 'posted',
+              postTime: postResult.timestamp || new Date(),
+              twitterTweetId: postResult.tweetId || null,
+              url: postResult.url || null
+            }
+          });
+          postedCount++;
+
+          // Every part of a thread is a tweet against the plan
+          await usageService.record({
+            userId,
+            agentId: thread.agentId,
+            kind: 'tweet',
+            tweetId: part.tweetId
+          });
+
+          // Without the new tweet's ID the next part can't reply to it
+          if (!postResult.tweetId && position < totalParts) {
+            failure = `Part ${position} of ${totalParts} was posted but its ID could not be read, so the thread could not continue`;
+            break;
+          }
+
+          previousTweetId = postResult.tweetId;
+        }
+      }
+    } catch (error) {
+      console.error(`[Threads] Error publishing thread ${threadId}:`, error);
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    if (failure) {
+      // Parts after the failure are never posted
+      await prisma.tweet.updateMany({
+        where: { threadId, status: { in: ['scheduled', 'posting'] } },
+        data: { status: 'failed' }
+      });
+    }
+
+    const status = !failure
+      ? ThreadStatus.posted
+      : postedCount > 0 ? ThreadStatus.partial : ThreadStatus.failed;
+
+    await prisma.thread.update({
+      where: { threadId },
+      data: { status, error: failure, leaseExpiresAt: null }
+    });
+
+    console.log(`[Threads] Thread ${threadId} finished with status ${status} (${postedCount}/${totalParts} parts posted)`);
+
+    return {
+      success: !failure,
+      thread: {
+        id: threadId,
+        status,
+        totalParts,
+        postedCount,
+        postTime: thread.postTime || undefined
+      },
+      ...(failure && { error: failure })
+    };
   }
-}; 
\ No newline at end of file
+};
@@ -1,6 +1,8 @@
 import { NextResponse, NextRequest } from "next/server";
 import { requireAuth } from "@/app/api/utils/auth";
 import prisma from "@/app/db/utils/dbClient";
+import { autoFollowService } from "@/app/api/auto-follow-service";
+import { tweetMetricsService } from "@/app/api/tweet-metrics-service";
 
 /**
  * GET - Get auto-engage analytics and performance metrics
@@ -207,7 +209,33 @@ export async function GET(
       ((postedReplies - previousPostedReplies) / previousPostedReplies) * 100 : 
       postedReplies > 0 ? 100 : 0;
 
-    // 12. Return analytics data
+    // 12. Count likes, retweets and quotes given in the period
+    const engagementStats = await prisma.engagement.groupBy({
+      by: ['action'],
+      where: {
+        agentId,
+        status: 'done',
+        createdAt: {
+          gte: startDate,
+          lte: endDate
+        }
+      },
+      _count: {
+        action: true
+      }
+    });
+
+    const likes = engagementStats.find(stat => stat.action === 'like')?._count.action || 0;
+    const retweets = engagementStats.find(stat => stat.action === 'retweet')?._count.action || 0;
+    const quotes = engagementStats.find(stat => stat.action === 'quote')?._count.action || 0;
+
+    // 13. Follows made by auto-follow in the period and how many followed back
+    const followStats = await autoFollowService.getFollowStats(agentId, startDate);
+
+    // 14. How posted replies performed by quality score, target account size and time of day
+    const replyPerformance = await tweetMetricsService.getReplyPerformance(agentId, startDate);
+
+    // 15. Return analytics data
     return NextResponse.json({
       success: true,
       analytics: {
@@ -224,7 +252,13 @@ export async function GET(
           failedReplies,
           successRate: Math.round(successRate * 100) / 100,
           avgScore: Math.round((avgMetrics._avg.score || 0) * 100) / 100,
-          avgConfidence: Math.round((avgMetrics._avg.confidence || 0) * 100) / 100
+          avgConfidence: Math.round((avgMetrics._avg.confidence || 0) * 100) / 100,
+          likes,
+          retweets,
+          quotes,
+          follows: followStats.followed,
+          followBacks: followStats.followedBack,
+          followBackRate: followStats.followBackRate
         },
         trends: {
           replyGrowth: Math.round(replyGrowth * 100) / 100,
@@ -233,6 +267,7 @@ export async function GET(
         dailyActivity,
         topReplies,
         recentActivity: recentReplies,
+        replyPerformance,
         configuration: {
           enabled: agent.autoEngageEnabled,
           frequencyHours: agent.autoEngageFrequencyHours,
@@ -1,6 +1,9 @@
 import { NextResponse, NextRequest } from "next/server";
 import { requireAuth } from "@/app/api/utils/auth";
 import prisma from "@/app/db/utils/dbClient";
+import { engageFeedSourcesSchema } from "@/app/api/schemas/validation";
+
+const ENGAGE_SOURCES = ['timeline', 'search', 'lists', 'accounts'];
 
 /**
  * GET - Get auto-engage configuration for an agent
@@ -38,6 +41,19 @@ export async function GET(
         autoEngageAutoReply: true,
         autoEngageQualityFilter: true,
         autoEngageStrictnessLevel: true,
+        autoEngageSource: true,
+        autoEngageListIds: true,
+        autoEngageTargetHandles: true,
+        autoEngageFreshnessMinutes: true,
+        autoEngageLikeEnabled: true,
+        autoEngageLikeMinScore: true,
+        autoEngageMaxDailyLikes: true,
+        autoEngageRetweetEnabled: true,
+        autoEngageRetweetMinScore: true,
+        autoEngageMaxDailyRetweets: true,
+        autoEngageQuoteEnabled: true,
+        autoEngageQuoteMinScore: true,
+        autoEngageMaxDailyQuotes: true,
         lastAutoEngageTime: true
       }
     });
@@ -60,6 +76,19 @@ export async function GET(
         autoReply: agent.autoEngageAutoReply,
         qualityFilter: agent.autoEngageQualityFilter,
         strictnessLevel: agent.autoEngageStrictnessLevel,
+        source: agent.autoEngageSource,
+        listIds: agent.autoEngageListIds,
+        targetHandles: agent.autoEngageTargetHandles,
+        freshnessMinutes: agent.autoEngageFreshnessMinutes,
+        likeEnabled: agent.autoEngageLikeEnabled,
+        likeMinScore: agent.autoEngageLikeMinScore,
+        maxDailyLikes: agent.autoEngageMaxDailyLikes,
+        retweetEnabled: agent.autoEngageRetweetEnabled,
+        retweetMinScore: agent.autoEngageRetweetMinScore,
+        maxDailyRetweets: agent.autoEngageMaxDailyRetweets,
+        quoteEnabled: agent.autoEngageQuoteEnabled,
+        quoteMinScore: agent.autoEngageQuoteMinScore,
+        maxDailyQuotes: agent.autoEngageMaxDailyQuotes,
         lastRunTime: agent.lastAutoEngageTime
       }
     });
@@ -101,7 +130,17 @@ export async function PUT(
       minScore, 
       autoReply,
       qualityFilter,
-      strictnessLevel
+      strictnessLevel,
+      source,
+      likeEnabled,
+      likeMinScore,
+      maxDailyLikes,
+      retweetEnabled,
+      retweetMinScore,
+      maxDailyRetweets,
+      quoteEnabled,
+      quoteMinScore,
+      maxDailyQuotes
     } = body;
 
     // 3. Validate input
@@ -140,6 +179,94 @@ export async function PUT(
       );
     }
 
+    for (const [label, score] of [['Like', likeMinScore], ['Retweet', retweetMinScore], ['Quote', quoteMinScore]]) {
+      if (score !== undefined && (!Number.isInteger(score) || score < 1 || score > 10)) {
+        return NextResponse.json(
+          { error: `${label} min score must be a whole number between 1 and 10` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (maxDailyLikes !== undefined && (!Number.isInteger(maxDailyLikes) || maxDailyLikes < 0 || maxDailyLikes > 200)) {
+      return NextResponse.json(
+        { error: "Max daily likes must be between 0 and 200" },
+        { status: 400 }
+      );
+    }
+
+    if (maxDailyRetweets !== undefined && (!Number.isInteger(maxDailyRetweets) || maxDailyRetweets < 0 || maxDailyRetweets > 50)) {
+      return NextResponse.json(
+        { error: "Max daily retweets must be between 0 and 50" },
+        { status: 400 }
+      );
+    }
+
+    // Quote tweets are posted tweets, so they are also counted against the tweet quota
+    if (maxDailyQuotes !== undefined && (!Number.isInteger(maxDailyQuotes) || maxDailyQuotes < 0 || maxDailyQuotes > 10)) {
+      return NextResponse.json(
+        { error: "Max daily quotes must be between 0 and 10" },
+        { status: 400 }
+      );
+    }
+
+    if (source !== undefined && !ENGAGE_SOURCES.includes(source)) {
+      return NextResponse.json(
+        { error: `Source must be one of ${ENGAGE_SOURCES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const feedValidation = engageFeedSourcesSchema.safeParse({
+      listIds: body.listIds,
+      targetHandles: body.targetHandles,
+      freshnessMinutes: body.freshnessMinutes
+    });
+
+    if (!feedValidation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid lists or target accounts",
+          details: feedValidation.error.errors.map(e => e.message).join(', ')
+        },
+        { status: 400 }
+      );
+    }
+
+    const { listIds, targetHandles, freshnessMinutes } = feedValidation.data;
+
+    // The search source has nothing to engage with until a search is saved
+    if (enabled && source === 'search') {
+      const enabledSearches = await prisma.engageSearchQuery.count({
+        where: { agentId, enabled: true, agent: { userId } }
+      });
+
+      if (enabledSearches === 0) {
+        return NextResponse.json(
+          { error: "Add at least one saved search before engaging from search results" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Lists and target accounts need at least one entry, either sent now or already saved
+    if (enabled && (source === 'lists' || source === 'accounts')) {
+      const saved = await prisma.agent.findFirst({
+        where: { agentId, userId },
+        select: { autoEngageListIds: true, autoEngageTargetHandles: true }
+      });
+      const entries = source === 'lists'
+        ? (listIds ?? saved?.autoEngageListIds ?? [])
+        : (targetHandles ?? saved?.autoEngageTargetHandles ?? []);
+
+      if (entries.length === 0) {
+        return NextResponse.json(
+          { error: source === 'lists' ? "Add at least one X List before engaging from lists" : "Add at least one target account before engaging with target accounts" },
+          { status: 400 }
+        );
+      }
+    }
+
     // 4. Update agent configuration with ownership validation in single query
     const updatedAgent = await prisma.agent.updateMany({
       where: { 
@@ -153,7 +280,21 @@ export async function PUT(
         autoEngageMinScore: enabled ? minScore : null,
         autoEngageAutoReply: enabled ? (autoReply || false) : false,
         autoEngageQualityFilter: enabled ? (qualityFilter !== undefined ? qualityFilter : true) : true,
-        autoEngageStrictnessLevel: enabled ? (strictnessLevel !== undefined ? strictnessLevel : 2) : 2
+        autoEngageStrictnessLevel: enabled ? (strictnessLevel !== undefined ? strictnessLevel : 2) : 2,
+        // The source settings are kept when auto-engage is switched off so they're remembered next time
+        ...(source !== undefined && { autoEngageSource: source }),
+        ...(listIds !== undefined && { autoEngageListIds: listIds }),
+        ...(targetHandles !== undefined && { autoEngageTargetHandles: targetHandles }),
+        ...(freshnessMinutes !== undefined && { autoEngageFreshnessMinutes: freshnessMinutes }),
+        ...(likeEnabled !== undefined && { autoEngageLikeEnabled: !!likeEnabled }),
+        ...(likeMinScore !== undefined && { autoEngageLikeMinScore: likeMinScore }),
+        ...(maxDailyLikes !== undefined && { autoEngageMaxDailyLikes: maxDailyLikes }),
+        ...(retweetEnabled !== undefined && { autoEngageRetweetEnabled: !!retweetEnabled }),
+        ...(retweetMinScore !== undefined && { autoEngageRetweetMinScore: retweetMinScore }),
+        ...(maxDailyRetweets !== undefined && { autoEngageMaxDailyRetweets: maxDailyRetweets }),
+        ...(quoteEnabled !== undefined && { autoEngageQuoteEnabled: !!quoteEnabled }),
+        ...(quoteMinScore !== undefined && { autoEngageQuoteMinScore: quoteMinScore }),
+        ...(maxDailyQuotes !== undefined && { autoEngageMaxDailyQuotes: maxDailyQuotes })
       }
     });
 
@@ -175,7 +316,20 @@ export async function PUT(
         autoEngageMinScore: true,
         autoEngageAutoReply: true,
         autoEngageQualityFilter: true,
-        autoEngageStrictnessLevel: true
+        autoEngageStrictnessLevel: true,
+        autoEngageSource: true,
+        autoEngageListIds: true,
+        autoEngageTargetHandles: true,
+        autoEngageFreshnessMinutes: true,
+        autoEngageLikeEnabled: true,
+        autoEngageLikeMinScore: true,
+        autoEngageMaxDailyLikes: true,
+        autoEngageRetweetEnabled: true,
+        autoEngageRetweetMinScore: true,
+        autoEngageMaxDailyRetweets: true,
+        autoEngageQuoteEnabled: true,
+        autoEngageQuoteMinScore: true,
+        autoEngageMaxDailyQuotes: true
       }
     });
 
@@ -186,7 +340,8 @@ export async function PUT(
       minScore: agent?.autoEngageMinScore,
       autoReply: agent?.autoEngageAutoReply,
       qualityFilter: agent?.autoEngageQualityFilter,
-      strictnessLevel: agent?.autoEngageStrictnessLevel
+      strictnessLevel: agent?.autoEngageStrictnessLevel,
+      source: agent?.autoEngageSource
     });
 
     return NextResponse.json({
@@ -199,7 +354,20 @@ export async function PUT(
         minScore: agent?.autoEngageMinScore,
         autoReply: agent?.autoEngageAutoReply,
         qualityFilter: agent?.autoEngageQualityFilter,
-        strictnessLevel: agent?.autoEngageStrictnessLevel
+        strictnessLevel: agent?.autoEngageStrictnessLevel,
+        source: agent?.autoEngageSource,
+        listIds: agent?.autoEngageListIds,
+        targetHandles: agent?.autoEngageTargetHandles,
+        freshnessMinutes: agent?.autoEngageFreshnessMinutes,
+        likeEnabled: agent?.autoEngageLikeEnabled,
+        likeMinScore: agent?.autoEngageLikeMinScore,
+        maxDailyLikes: agent?.autoEngageMaxDailyLikes,
+        retweetEnabled: agent?.autoEngageRetweetEnabled,
+        retweetMinScore: agent?.autoEngageRetweetMinScore,
+        maxDailyRetweets: agent?.autoEngageMaxDailyRetweets,
+        quoteEnabled: agent?.autoEngageQuoteEnabled,
+        quoteMinScore: agent?.autoEngageQuoteMinScore,
+        maxDailyQuotes: agent?.autoEngageMaxDailyQuotes
       }
     });
 
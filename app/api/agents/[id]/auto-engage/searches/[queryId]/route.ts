@@ -0,0 +1,116 @@
+/**
+ * Next.js API Route: Auto-Engage Saved Search
+ *
+ * Endpoints for editing, pausing and removing one of an agent's saved searches
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { updateEngageSearchQuerySchema } from "@/app/api/schemas/validation";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH - Update a saved search's query, search mode or enabled flag
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; queryId: string } }
+) {
+  const { id: agentId, queryId } = params;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Validate request body
+    const validation = updateEngageSearchQuerySchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: validation.error.errors.map(e => e.message).join(', ')
+        },
+        { status: 400 }
+      );
+    }
+
+    // 3. Update, scoped to the user's agent
+    const updated = await prisma.engageSearchQuery.updateMany({
+      where: { queryId, agentId, agent: { userId } },
+      data: validation.data
+    });
+
+    if (updated.count === 0) {
+      return NextResponse.json(
+        { error: "Saved search not found" },
+        { status: 404 }
+      );
+    }
+
+    const search = await prisma.engageSearchQuery.findUnique({
+      where: { queryId }
+    });
+
+    return NextResponse.json({
+      success: true,
+      search
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Auto-Engage Searches PATCH] Error for search ${queryId} (agent ${agentId}):`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Remove a saved search
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; queryId: string } }
+) {
+  const { id: agentId, queryId } = params;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Delete, scoped to the user's agent
+    const deleted = await prisma.engageSearchQuery.deleteMany({
+      where: { queryId, agentId, agent: { userId } }
+    });
+
+    if (deleted.count === 0) {
+      return NextResponse.json(
+        { error: "Saved search not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Saved search removed"
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Auto-Engage Searches DELETE] Error for search ${queryId} (agent ${agentId}):`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
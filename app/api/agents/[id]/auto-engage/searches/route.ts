@@ -0,0 +1,144 @@
+/**
+ * Next.js API Route: Auto-Engage Saved Searches
+ *
+ * Endpoints for listing and adding the X searches an agent engages with
+ * when its auto-engage source is set to search
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { engageSearchQuerySchema } from "@/app/api/schemas/validation";
+
+export const dynamic = 'force-dynamic';
+
+// Only a few searches run per cycle, so a long list would just rotate slowly
+const MAX_SEARCHES_PER_AGENT = 10;
+
+/**
+ * GET - List an agent's saved searches
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Verify agent ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: { agentId: true }
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Fetch searches
+    const searches = await prisma.engageSearchQuery.findMany({
+      where: { agentId },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return NextResponse.json({
+      success: true,
+      searches
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Auto-Engage Searches GET] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Save a new search for an agent
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Validate request body
+    const validation = engageSearchQuerySchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: validation.error.errors.map(e => e.message).join(', ')
+        },
+        { status: 400 }
+      );
+    }
+
+    // 3. Verify agent ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: {
+        agentId: true,
+        _count: { select: { searchQueries: true } }
+      }
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    if (agent._count.searchQueries >= MAX_SEARCHES_PER_AGENT) {
+      return NextResponse.json(
+        { error: `An agent can have at most ${MAX_SEARCHES_PER_AGENT} saved searches` },
+        { status: 400 }
+      );
+    }
+
+    // 4. Save the search
+    const { query, searchMode, enabled } = validation.data;
+    const search = await prisma.engageSearchQuery.create({
+      data: {
+        agentId,
+        query,
+        searchMode,
+        enabled
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      search
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Auto-Engage Searches POST] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Next.js API Route: Auto-Follow
+ *
+ * Endpoints for reading and updating an agent's auto-follow settings,
+ * along with its recent follow and follow-back counts
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { autoFollowConfigSchema } from "@/app/api/schemas/validation";
+import { autoFollowService } from "@/app/api/auto-follow-service";
+
+export const dynamic = 'force-dynamic';
+
+// Window for the follow stats shown next to the settings
+const STATS_PERIOD_DAYS = 30;
+
+const AUTO_FOLLOW_SELECT = {
+  autoFollowEnabled: true,
+  autoFollowMaxDaily: true,
+  autoFollowFromEngagers: true,
+  autoFollowFromTargetFollowers: true,
+  autoFollowCheckAfterDays: true,
+  autoEngageTargetHandles: true,
+  lastAutoFollowTime: true
+} as const;
+
+type AutoFollowAgent = {
+  autoFollowEnabled: boolean;
+  autoFollowMaxDaily: number;
+  autoFollowFromEngagers: boolean;
+  autoFollowFromTargetFollowers: boolean;
+  autoFollowCheckAfterDays: number;
+  autoEngageTargetHandles: string[];
+  lastAutoFollowTime: Date | null;
+};
+
+function toConfig(agent: AutoFollowAgent) {
+  return {
+    enabled: agent.autoFollowEnabled,
+    maxDaily: agent.autoFollowMaxDaily,
+    fromEngagers: agent.autoFollowFromEngagers,
+    fromTargetFollowers: agent.autoFollowFromTargetFollowers,
+    checkAfterDays: agent.autoFollowCheckAfterDays,
+    targetHandles: agent.autoEngageTargetHandles,
+    lastRunTime: agent.lastAutoFollowTime
+  };
+}
+
+/**
+ * GET - Get auto-follow settings and follow-back stats for an agent
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Get agent and verify ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: AUTO_FOLLOW_SELECT
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Follow stats for the recent period
+    const since = new Date(Date.now() - STATS_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+    const stats = await autoFollowService.getFollowStats(agentId, since);
+
+    return NextResponse.json({
+      success: true,
+      config: toConfig(agent),
+      stats: {
+        periodDays: STATS_PERIOD_DAYS,
+        ...stats
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Auto-Follow GET] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT - Update auto-follow settings for an agent
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Validate request body
+    const validation = autoFollowConfigSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: validation.error.errors.map(e => e.message).join(', ')
+        },
+        { status: 400 }
+      );
+    }
+
+    const { enabled, maxDaily, fromEngagers, fromTargetFollowers, checkAfterDays } = validation.data;
+
+    // 3. Verify agent ownership
+    const existing = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: { agentId: true }
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 4. Update settings
+    const agent = await prisma.agent.update({
+      where: { agentId },
+      data: {
+        ...(enabled !== undefined && { autoFollowEnabled: enabled }),
+        ...(maxDaily !== undefined && { autoFollowMaxDaily: maxDaily }),
+        ...(fromEngagers !== undefined && { autoFollowFromEngagers: fromEngagers }),
+        ...(fromTargetFollowers !== undefined && { autoFollowFromTargetFollowers: fromTargetFollowers }),
+        ...(checkAfterDays !== undefined && { autoFollowCheckAfterDays: checkAfterDays })
+      },
+      select: AUTO_FOLLOW_SELECT
+    });
+
+    console.log(`[Auto-Follow PUT] Updated settings for agent ${agentId}: enabled=${agent.autoFollowEnabled}, maxDaily=${agent.autoFollowMaxDaily}`);
+
+    return NextResponse.json({
+      success: true,
+      config: toConfig(agent)
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Auto-Follow PUT] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
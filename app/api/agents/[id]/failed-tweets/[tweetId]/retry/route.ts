@@ -0,0 +1,69 @@
+/**
+ * Next.js API Route: Retry Failed Tweet
+ *
+ * Puts a failed scheduled tweet back in the posting queue so the
+ * scheduler posts it on its next run
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { tweetQueueService } from "@/app/api/tweet-queue-service";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST - Retry a failed tweet now
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; tweetId: string } }
+) {
+  const { id: agentId, tweetId } = params;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Verify agent ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: { agentId: true }
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Requeue the tweet, only while it is still failed
+    const requeued = await tweetQueueService.retryNow(agentId, tweetId);
+
+    if (!requeued) {
+      return NextResponse.json(
+        { error: "Tweet not found or not failed" },
+        { status: 404 }
+      );
+    }
+
+    console.log(`[Failed Tweets POST] Tweet ${tweetId} requeued for agent ${agentId}`);
+
+    return NextResponse.json({
+      success: true,
+      message: "Tweet queued for posting"
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Failed Tweets POST] Error retrying tweet ${tweetId} for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Next.js API Route: Failed Tweets
+ *
+ * Lists an agent's scheduled tweets that ran out of posting attempts,
+ * with the error from their last attempt
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { tweetQueueService } from "@/app/api/tweet-queue-service";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - List failed tweets for an agent
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Verify agent ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: { agentId: true }
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Fetch failed tweets
+    const tweets = await tweetQueueService.listDeadLettered(agentId);
+
+    return NextResponse.json({
+      success: true,
+      tweets
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Failed Tweets GET] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
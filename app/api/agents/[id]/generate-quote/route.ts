@@ -0,0 +1,99 @@
+/**
+ * Next.js API Route: Generate Quote Tweet
+ *
+ * Endpoint for writing commentary on another tweet in the agent's voice, to be
+ * posted or scheduled as a quote tweet
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import { agentTweetService } from "@/app/api/agent-tweet-service";
+import { generateQuoteTweetSchema } from "@/app/api/schemas/validation";
+import { incrementCustomGenerations, checkCustomGenerationsAvailable } from "@/app/api/utils/profile-service";
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Parse and validate request body (the tweet can be given by URL or ID)
+    const body = await request.json();
+    const validation = generateQuoteTweetSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: validation.error.errors.map(e => e.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const { quotedTweetId, context, llmProvider, isRegeneration } = validation.data;
+
+    // 3. Regenerations count against the custom generation allowance, like single tweets
+    if (isRegeneration) {
+      const generationsAvailable = await checkCustomGenerationsAvailable(userId);
+
+      if (!generationsAvailable.available) {
+        return NextResponse.json(
+          {
+            error: "Custom generation limit reached",
+            generationsInfo: generationsAvailable
+          },
+          { status: 403 }
+        );
+      }
+    }
+
+    // 4. Look up the quoted tweet and generate the commentary (also verifies agent ownership)
+    const result = await agentTweetService.generateQuoteTweet({
+      agentId,
+      userId,
+      quotedTweetId,
+      context,
+      llmProvider
+    });
+
+    if (!result.success || !result.tweet) {
+      return NextResponse.json(
+        { error: result.error || "Failed to generate quote tweet" },
+        { status: result.error === "Agent not found or access denied" ? 404 : 500 }
+      );
+    }
+
+    const generationsInfo = isRegeneration
+      ? await incrementCustomGenerations(userId, agentId)
+      : await checkCustomGenerationsAvailable(userId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Quote tweet generated successfully',
+      tweet: {
+        text: result.tweet.text,
+        quotedTweetId
+      },
+      generationsInfo: {
+        used: generationsInfo.used,
+        total: generationsInfo.total,
+        remaining: generationsInfo.remaining
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Generate Quote] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
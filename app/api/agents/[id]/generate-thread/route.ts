@@ -0,0 +1,105 @@
+/**
+ * Next.js API Route: Generate Thread
+ *
+ * Endpoint for expanding a topic into a multi-tweet thread using agent personalities
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import llmService from "@/app/api/llm-service";
+import { generateThreadSchema } from "@/app/api/schemas/validation";
+import { incrementCustomGenerations, checkCustomGenerationsAvailable } from "@/app/api/utils/profile-service";
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = generateThreadSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: validation.error.errors.map(e => e.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const { topic, parts, llmProvider, isRegeneration } = validation.data;
+
+    // 3. Verify agent ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: { agentId: true }
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 4. Regenerations count against the custom generation allowance, like single tweets
+    if (isRegeneration) {
+      const generationsAvailable = await checkCustomGenerationsAvailable(userId);
+
+      if (!generationsAvailable.available) {
+        return NextResponse.json(
+          {
+            error: "Custom generation limit reached",
+            generationsInfo: generationsAvailable
+          },
+          { status: 403 }
+        );
+      }
+    }
+
+    // 5. Generate the thread
+    const result = await llmService.generateAgentThread(agentId, topic, parts, llmProvider);
+
+    if (!result.success || !result.parts) {
+      return NextResponse.json(
+        { error: result.error || "Failed to generate thread" },
+        { status: 500 }
+      );
+    }
+
+    const generationsInfo = isRegeneration
+      ? await incrementCustomGenerations(userId, agentId)
+      : await checkCustomGenerationsAvailable(userId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Thread generated successfully',
+      thread: {
+        parts: result.parts
+      },
+      generationsInfo: {
+        used: generationsInfo.used,
+        total: generationsInfo.total,
+        remaining: generationsInfo.remaining
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Generate Thread] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
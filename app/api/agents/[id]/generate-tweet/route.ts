@@ -11,13 +11,14 @@ import { incrementCustomGenerations, checkCustomGenerationsAvailable } from '@/a
 import llmService from '@/app/api/llm-service';
 import { agentTweetService } from '@/app/api/agent-tweet-service';
 import prisma from '@/app/db/utils/dbClient';
+import { LLMProviderName, LLM_PROVIDER_NAMES } from '@/app/api/llm-providers';
 
 // Add this to make the route dynamic and not static
 export const dynamic = 'force-dynamic';
 
 interface GenerateTweetRequestBody {
   context?: string;
-  llmProvider?: "openrouter";
+  llmProvider?: LLMProviderName;
   post?: boolean;
   text?: string;
   url?: string;
@@ -62,9 +63,17 @@ export const POST = withSecurity(undefined, false)(async (
       post,
       context: context || 'none',
       url: url || 'none',
-      xAccountToTag: xAccountToTag || 'none'
+      xAccountToTag: xAccountToTag || 'none',
+      llmProvider: llmProvider || 'agent default'
     });
 
+    if (llmProvider && !LLM_PROVIDER_NAMES.includes(llmProvider)) {
+      return NextResponse.json(
+        { error: `Invalid LLM provider. Must be one of: ${LLM_PROVIDER_NAMES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     // Verify agent ownership
     const agent = await prisma.agent.findUnique({
       where: {
@@ -119,7 +128,7 @@ export const POST = withSecurity(undefined, false)(async (
     }
 
     // Generate the tweet using LLM service
-    const generationResult = await llmService.generateAgentTweet(agentId, context, url, xAccountToTag);
+    const generationResult = await llmService.generateAgentTweet(agentId, context, url, xAccountToTag, llmProvider);
 
     if (!generationResult.success || !generationResult.content) {
       return NextResponse.json(
@@ -145,7 +154,7 @@ export const POST = withSecurity(undefined, false)(async (
 
       // Include generation tracking for posted tweets if this is a regeneration
       if (isRegeneration) {
-        const generationsResult = await incrementCustomGenerations(userId);
+        const generationsResult = await incrementCustomGenerations(userId, agentId);
         return NextResponse.json({
           message: 'Tweet generated and posted successfully',
           tweet: postResult.tweet,
@@ -167,7 +176,7 @@ export const POST = withSecurity(undefined, false)(async (
     let generationsInfo;
     if (isRegeneration) {
       // For regenerations, increment the counter
-      const generationsResult = await incrementCustomGenerations(userId);
+      const generationsResult = await incrementCustomGenerations(userId, agentId);
       generationsInfo = {
         used: generationsResult.used,
         total: generationsResult.total,
@@ -0,0 +1,66 @@
+/**
+ * Next.js API Route: Tweet Media Item
+ *
+ * Endpoint for discarding an upload that has not been attached to a tweet yet
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { mediaService } from "@/app/api/media-service";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE - Remove an unattached upload and its stored file
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; mediaId: string } }
+) {
+  const { id: agentId, mediaId } = params;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Verify agent ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: { agentId: true }
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Only uploads that aren't part of a tweet can be discarded
+    const removed = await mediaService.remove({ mediaId, agentId, tweetId: null });
+
+    if (removed === 0) {
+      return NextResponse.json(
+        { error: "Media not found or already attached to a tweet" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Media removed"
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Media] Delete error for media ${mediaId} (agent ${agentId}):`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
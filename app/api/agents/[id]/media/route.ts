@@ -0,0 +1,98 @@
+/**
+ * Next.js API Route: Tweet Media
+ *
+ * Endpoint for uploading images, GIFs and videos to attach to a tweet. The returned
+ * media ID is passed as `mediaIds` when posting or scheduling the tweet.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { mediaService, validateUpload } from "@/app/api/media-service";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST - Upload a single media file (multipart form field `file`)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Verify agent ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: { agentId: true }
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Read the uploaded file
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: "Invalid request", details: "A 'file' upload is required" },
+        { status: 400 }
+      );
+    }
+
+    // Reject unsupported or oversized files before reading them into memory
+    const uploadError = validateUpload(file.type, file.size);
+    if (uploadError) {
+      return NextResponse.json(
+        { error: "Failed to upload media", details: uploadError },
+        { status: 400 }
+      );
+    }
+
+    // 4. Store it until the tweet is posted or scheduled
+    const result = await mediaService.upload({
+      agentId,
+      data: Buffer.from(await file.arrayBuffer()),
+      mimeType: file.type
+    });
+
+    if (!result.success || !result.media) {
+      return NextResponse.json(
+        { error: "Failed to upload media", details: result.error },
+        { status: 400 }
+      );
+    }
+
+    const [media] = result.media;
+
+    return NextResponse.json({
+      success: true,
+      media: {
+        id: media.mediaId,
+        mediaType: media.mediaType,
+        mimeType: media.mimeType,
+        sizeBytes: media.sizeBytes
+      }
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Media] Upload error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
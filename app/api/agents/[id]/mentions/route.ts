@@ -0,0 +1,165 @@
+/**
+ * Next.js API Route: Mentions
+ *
+ * Endpoints for reading and updating whether an agent answers its mentions,
+ * along with its recent mention reply counts
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { mentionsConfigSchema } from "@/app/api/schemas/validation";
+
+export const dynamic = 'force-dynamic';
+
+// Window for the reply counts shown next to the settings
+const STATS_PERIOD_DAYS = 30;
+
+const MENTIONS_SELECT = {
+  mentionsEnabled: true,
+  mentionsMaxDepth: true,
+  lastMentionsCheckTime: true
+} as const;
+
+type MentionsAgent = {
+  mentionsEnabled: boolean;
+  mentionsMaxDepth: number;
+  lastMentionsCheckTime: Date | null;
+};
+
+function toConfig(agent: MentionsAgent) {
+  return {
+    enabled: agent.mentionsEnabled,
+    maxDepth: agent.mentionsMaxDepth,
+    lastCheckTime: agent.lastMentionsCheckTime
+  };
+}
+
+/**
+ * GET - Get mention settings and reply counts for an agent
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Get agent and verify ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: MENTIONS_SELECT
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Mention replies for the recent period
+    const since = new Date(Date.now() - STATS_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+    const counts = await prisma.reply.groupBy({
+      by: ['status'],
+      where: { agentId, source: 'mention', createdAt: { gte: since } },
+      _count: { _all: true }
+    });
+    const countFor = (status: string) => counts.find(count => count.status === status)?._count._all || 0;
+
+    return NextResponse.json({
+      success: true,
+      config: toConfig(agent),
+      stats: {
+        periodDays: STATS_PERIOD_DAYS,
+        posted: countFor('posted'),
+        pending: countFor('pending')
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Mentions GET] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT - Update mention settings for an agent
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Validate request body
+    const validation = mentionsConfigSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: validation.error.errors.map(e => e.message).join(', ')
+        },
+        { status: 400 }
+      );
+    }
+
+    const { enabled, maxDepth } = validation.data;
+
+    // 3. Verify agent ownership
+    const existing = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: { agentId: true }
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 4. Update settings
+    const agent = await prisma.agent.update({
+      where: { agentId },
+      data: {
+        ...(enabled !== undefined && { mentionsEnabled: enabled }),
+        ...(maxDepth !== undefined && { mentionsMaxDepth: maxDepth })
+      },
+      select: MENTIONS_SELECT
+    });
+
+    console.log(`[Mentions PUT] Updated settings for agent ${agentId}: enabled=${agent.mentionsEnabled}, maxDepth=${agent.mentionsMaxDepth}`);
+
+    return NextResponse.json({
+      success: true,
+      config: toConfig(agent)
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Mentions PUT] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
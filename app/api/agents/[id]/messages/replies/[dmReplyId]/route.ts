@@ -0,0 +1,114 @@
+/**
+ * Next.js API Route: DM Reply
+ *
+ * Endpoint for reviewing a reply the agent drafted in its DM inbox
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { updateDmReplySchema } from "@/app/api/schemas/validation";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH - Approve, reject or edit a drafted DM reply
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; dmReplyId: string } }
+) {
+  const { id: agentId, dmReplyId } = params;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Validate request body
+    const validation = updateDmReplySchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: validation.error.errors.map(e => e.message).join(', ')
+        },
+        { status: 400 }
+      );
+    }
+
+    const { action, replyText } = validation.data;
+
+    // 3. Get the reply, scoped to the user's agent
+    const reply = await prisma.dmReply.findFirst({
+      where: { dmReplyId, agentId, agent: { userId } },
+      select: { status: true }
+    });
+
+    if (!reply) {
+      return NextResponse.json(
+        { error: "DM reply not found" },
+        { status: 404 }
+      );
+    }
+
+    if (reply.status === 'sent' || reply.status === 'sending') {
+      return NextResponse.json(
+        { error: "Cannot modify a reply that has already been sent" },
+        { status: 400 }
+      );
+    }
+
+    // 4. Perform the requested action
+    let data: any = {};
+    let message = "";
+
+    switch (action) {
+      case 'approve':
+        data = {
+          status: 'approved',
+          scheduledTime: new Date(),
+          error: null,
+          ...(replyText && { replyText }) // Allow edit-and-approve in one step
+        };
+        message = "Reply approved and queued for sending";
+        break;
+
+      case 'reject':
+        data = { status: 'rejected', scheduledTime: null };
+        message = "Reply rejected";
+        break;
+
+      case 'edit':
+        data = { replyText, status: 'pending', scheduledTime: null };
+        message = "Reply updated";
+        break;
+    }
+
+    const updated = await prisma.dmReply.update({
+      where: { dmReplyId },
+      data
+    });
+
+    console.log(`[DM Reply PATCH] ${action} action performed on DM reply ${dmReplyId} for agent ${agentId}`);
+
+    // Approved replies are sent by the scheduler (processDirectMessages)
+
+    return NextResponse.json({
+      success: true,
+      message,
+      reply: updated
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[DM Reply PATCH] Error for DM reply ${dmReplyId} (agent ${agentId}):`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
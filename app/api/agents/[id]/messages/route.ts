@@ -0,0 +1,146 @@
+/**
+ * Next.js API Route: DM Inbox
+ *
+ * Endpoints for listing an agent's synced X conversations with their drafted replies,
+ * and for syncing the inbox on demand
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { dmInboxActionSchema } from "@/app/api/schemas/validation";
+import { dmService } from "@/app/api/dm-service";
+
+export const dynamic = 'force-dynamic';
+
+const MAX_CONVERSATIONS = 50;
+const MESSAGES_PER_CONVERSATION = 20;
+
+/**
+ * GET - List conversations, newest first; `?filter=needs_reply` keeps only unanswered ones
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Verify agent ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: { agentId: true, dmInboxEnabled: true, lastDmSyncTime: true }
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Fetch conversations with their latest messages and open drafts
+    const { searchParams } = new URL(request.url);
+    const needsReplyOnly = searchParams.get('filter') === 'needs_reply';
+
+    const conversations = await prisma.dmConversation.findMany({
+      where: {
+        agentId,
+        ...(needsReplyOnly && { needsReply: true })
+      },
+      orderBy: { lastMessageAt: 'desc' },
+      take: MAX_CONVERSATIONS,
+      include: {
+        messages: {
+          orderBy: { sentAt: 'desc' },
+          take: MESSAGES_PER_CONVERSATION
+        },
+        replies: {
+          where: { status: { in: ['pending', 'approved', 'sending', 'failed'] } },
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      enabled: agent.dmInboxEnabled,
+      lastSyncTime: agent.lastDmSyncTime,
+      conversations: conversations.map(({ messages, replies, ...conversation }) => ({
+        ...conversation,
+        messages: messages.reverse(),
+        draft: replies[0] || null
+      }))
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[DM Inbox GET] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Sync the inbox from X now
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Validate request body
+    const validation = dmInboxActionSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: validation.error.errors.map(e => e.message).join(', ')
+        },
+        { status: 400 }
+      );
+    }
+
+    // 3. Sync (verifies ownership and that the inbox is enabled)
+    const result = await dmService.syncInbox(agentId, userId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || "Failed to sync DM inbox" },
+        { status: result.error === 'Agent not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Synced ${result.results?.conversations || 0} conversations`,
+      results: result.results
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[DM Inbox POST] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Next.js API Route: DM Inbox Settings
+ *
+ * Endpoints for turning an agent's DM inbox on or off and configuring
+ * which FAQ answers it may send without review
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { dmSettingsSchema } from "@/app/api/schemas/validation";
+
+export const dynamic = 'force-dynamic';
+
+const DM_SETTINGS_SELECT = {
+  dmInboxEnabled: true,
+  dmAutoSendEnabled: true,
+  dmFaq: true,
+  lastDmSyncTime: true
+} as const;
+
+function toSettings(agent: { dmInboxEnabled: boolean; dmAutoSendEnabled: boolean; dmFaq: string | null; lastDmSyncTime: Date | null }) {
+  return {
+    enabled: agent.dmInboxEnabled,
+    autoSendEnabled: agent.dmAutoSendEnabled,
+    faq: agent.dmFaq,
+    lastSyncTime: agent.lastDmSyncTime
+  };
+}
+
+/**
+ * GET - Get DM inbox settings for an agent
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Get agent and verify ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: DM_SETTINGS_SELECT
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      settings: toSettings(agent)
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[DM Settings GET] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT - Update DM inbox settings for an agent
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Validate request body
+    const validation = dmSettingsSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: validation.error.errors.map(e => e.message).join(', ')
+        },
+        { status: 400 }
+      );
+    }
+
+    const { enabled, autoSendEnabled, faq } = validation.data;
+
+    // 3. Verify agent ownership
+    const existing = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: { agentId: true }
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 4. Update settings
+    const agent = await prisma.agent.update({
+      where: { agentId },
+      data: {
+        ...(enabled !== undefined && { dmInboxEnabled: enabled }),
+        ...(autoSendEnabled !== undefined && { dmAutoSendEnabled: autoSendEnabled }),
+        ...(faq !== undefined && { dmFaq: faq || null })
+      },
+      select: DM_SETTINGS_SELECT
+    });
+
+    console.log(`[DM Settings PUT] Updated settings for agent ${agentId}: enabled=${agent.dmInboxEnabled}, autoSend=${agent.dmAutoSendEnabled}`);
+
+    return NextResponse.json({
+      success: true,
+      settings: toSettings(agent)
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[DM Settings PUT] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
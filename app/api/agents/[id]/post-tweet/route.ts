@@ -1,18 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withSecurity, handleError } from '@/app/api/middleware/security';
-import { validatePathParams, agentIdParamSchema } from '../../../schemas/validation';
+import { validatePathParams, agentIdParamSchema, postTweetSchema } from '../../../schemas/validation';
 import { TwitterApi as CustomTwitterApiWrapper } from '../../../twitter-api';
+import { mediaService } from '../../../media-service';
+import { usageService } from '../../../usage-service';
+import { quotaService } from '../../../quota-service';
 import prisma from '@/app/db/utils/dbClient';
+import { TweetKind } from '@prisma/client';
+import { decryptCookies } from '@/app/db/utils/cookieEncryption';
 
 interface TweetRequestBody {
   tweet?: {
     text: string;
     replyToTweetId?: string;
+    quotedTweetId?: string;
     context?: string;
+    mediaIds?: string[];
   };
   text?: string;
   replyToTweetId?: string;
+  quotedTweetId?: string;
   context?: string;
+  mediaIds?: string[];
 }
 
 export const POST = withSecurity(undefined, false)(async (
@@ -80,22 +89,58 @@ export const POST = withSecurity(undefined, false)(async (
     // Parse request body
     const body: TweetRequestBody = await request.json();
     const tweetObj = body.tweet || body;
-    const text = tweetObj.text || body.text;
-    const replyToTweetId = tweetObj.replyToTweetId || body.replyToTweetId;
     const context = tweetObj.context || body.context;
 
-    if (!text || typeof text !== 'string') {
+    const validation = postTweetSchema.safeParse({
+      text: tweetObj.text || body.text,
+      replyToTweetId: tweetObj.replyToTweetId || body.replyToTweetId,
+      quotedTweetId: tweetObj.quotedTweetId || body.quotedTweetId,
+      mediaIds: tweetObj.mediaIds || body.mediaIds
+    });
+
+    if (!validation.success) {
       return NextResponse.json(
         { 
           error: "Invalid request body", 
-          details: "'text' is required and must be a string" 
+          details: validation.error.errors.map(e => e.message).join(', ')
         },
         { status: 400 }
       );
     }
 
+    const { text, replyToTweetId, quotedTweetId, mediaIds = [] } = validation.data;
+
+    // Make sure any attached media was uploaded for this agent and hasn't been used yet
+    const attachable = await mediaService.getAttachable(agentId, mediaIds);
+    if (!attachable.success || !attachable.media) {
+      return NextResponse.json(
+        { error: "Invalid media", details: attachable.error },
+        { status: 400 }
+      );
+    }
+
+    // Check the agent's (or the pooled) tweet quota for this billing period
+    const quotaResult = await quotaService.getAgentQuota(agent.userId, agentId, 'tweet');
+    if (!quotaResult.success || !quotaResult.quota) {
+      return NextResponse.json(
+        { error: quotaResult.error || "User profile or plan not found" },
+        { status: 400 }
+      );
+    }
+
+    if (quotaResult.quota.remaining === 0) {
+      return NextResponse.json(
+        {
+          error: "Tweet limit reached",
+          details: `Monthly tweet limit of ${quotaResult.quota.limit} reached. Upgrade plan to post more tweets.`,
+          quota: { ...quotaResult.quota, mode: quotaResult.mode }
+        },
+        { status: 403 }
+      );
+    }
+
     // Get valid cookies for the user
-    const validCookies = await prisma.cookie.findMany({
+    const validCookies = decryptCookies(await prisma.cookie.findMany({
       where: {
         userId,
         OR: [
@@ -103,7 +148,7 @@ export const POST = withSecurity(undefined, false)(async (
           { expires: { gt: new Date() } }
         ]
       }
-    });
+    }));
 
     if (!validCookies || validCookies.length === 0) {
       return NextResponse.json({
@@ -142,11 +187,13 @@ export const POST = withSecurity(undefined, false)(async (
     // Post the tweet
     let tweetResponse;
     try {
-      if (replyToTweetId) {
-        tweetResponse = await scraper.sendTweet(text, replyToTweetId);
-      } else {
-        tweetResponse = await scraper.sendTweet(text);
-      }
+      const mediaData = attachable.media.length > 0
+        ? await mediaService.load(attachable.media)
+        : undefined;
+
+      tweetResponse = quotedTweetId
+        ? await scraper.sendQuoteTweet(text, quotedTweetId, mediaData ? { mediaData } : undefined)
+        : await scraper.sendTweet(text, replyToTweetId, mediaData);
       
       const responseText = await tweetResponse.text();
       const responseData = JSON.parse(responseText);
@@ -176,7 +223,9 @@ export const POST = withSecurity(undefined, false)(async (
           text,
           postTime: timestamp,
           url,
-          context: context || null
+          context: context || null,
+          kind: quotedTweetId ? TweetKind.quote : TweetKind.original,
+          quotedTweetId: quotedTweetId || null
         },
         create: {
           agentId,
@@ -184,9 +233,22 @@ export const POST = withSecurity(undefined, false)(async (
           postTime: timestamp,
           twitterTweetId: tweetId,
           url,
-          context: context || null
+          context: context || null,
+          kind: quotedTweetId ? TweetKind.quote : TweetKind.original,
+          quotedTweetId: quotedTweetId || null
         }
       });
+
+      if (mediaIds.length > 0) {
+        await mediaService.attachToTweet(savedTweet.tweetId, mediaIds);
+      }
+
+      await usageService.record({
+        userId: agent.userId,
+        agentId,
+        kind: 'tweet',
+        tweetId: savedTweet.tweetId
+      });
       
       return NextResponse.json({
         success: true,
@@ -196,7 +258,9 @@ export const POST = withSecurity(undefined, false)(async (
           twitterId: tweetId,
           url,
           text,
-          postedAt: timestamp
+          postedAt: timestamp,
+          mediaCount: mediaIds.length,
+          quotedTweetId: quotedTweetId || null
         }
       }, { status: 201 });
       
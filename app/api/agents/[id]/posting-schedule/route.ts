@@ -0,0 +1,164 @@
+/**
+ * Next.js API Route: Posting Schedule
+ *
+ * Endpoints for reading and updating when an agent's auto-tweets and auto-engage
+ * may run (time zone, active hours, blackout dates, jitter), along with a preview
+ * of their next runs
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { postingScheduleSchema } from "@/app/api/schemas/validation";
+import { postingScheduleService, PostingSchedule } from "@/app/api/posting-schedule-service";
+import { postingTimeService } from "@/app/api/posting-time-service";
+
+export const dynamic = 'force-dynamic';
+
+const POSTING_SCHEDULE_SELECT = {
+  timezone: true,
+  activeHours: true,
+  blackoutDates: true,
+  scheduleJitterMinutes: true,
+  optimizePostingTimes: true
+} as const;
+
+/**
+ * Upcoming runs, with auto-tweets planned in the best-performing hours when the agent optimizes its posting times
+ */
+async function getPreview(agentId: string, config: PostingSchedule, optimizePostingTimes: boolean) {
+  const preferredHours = optimizePostingTimes
+    ? await postingTimeService.getPreferredHours(agentId, config.timezone)
+    : undefined;
+
+  return postingScheduleService.getPreview(agentId, preferredHours);
+}
+
+/**
+ * GET - Get the posting schedule and upcoming runs for an agent
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Get agent and verify ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: POSTING_SCHEDULE_SELECT
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Preview the next runs from the saved settings
+    const config = postingScheduleService.fromAgent(agent);
+    const preview = await getPreview(agentId, config, agent.optimizePostingTimes);
+
+    return NextResponse.json({
+      success: true,
+      config,
+      preview
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Posting Schedule GET] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT - Update the posting schedule for an agent
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Validate request body
+    const validation = postingScheduleSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: validation.error.errors.map(e => e.message).join(', ')
+        },
+        { status: 400 }
+      );
+    }
+
+    const { timezone, activeHours, blackoutDates, jitterMinutes } = validation.data;
+
+    // 3. Verify agent ownership
+    const existing = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: { agentId: true }
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 4. Update settings
+    const agent = await prisma.agent.update({
+      where: { agentId },
+      data: {
+        ...(timezone !== undefined && { timezone }),
+        ...(activeHours !== undefined && {
+          activeHours: activeHours && activeHours.length > 0 ? activeHours : Prisma.DbNull
+        }),
+        ...(blackoutDates !== undefined && { blackoutDates: Array.from(new Set(blackoutDates)).sort() }),
+        ...(jitterMinutes !== undefined && { scheduleJitterMinutes: jitterMinutes })
+      },
+      select: POSTING_SCHEDULE_SELECT
+    });
+
+    console.log(`[Posting Schedule PUT] Updated schedule for agent ${agentId}: timezone=${agent.timezone}, jitter=${agent.scheduleJitterMinutes}m`);
+
+    const config = postingScheduleService.fromAgent(agent);
+    const preview = await getPreview(agentId, config, agent.optimizePostingTimes);
+
+    return NextResponse.json({
+      success: true,
+      config,
+      preview
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Posting Schedule PUT] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
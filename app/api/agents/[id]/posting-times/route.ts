@@ -0,0 +1,145 @@
+/**
+ * Next.js API Route: Posting Times
+ *
+ * Endpoints for an agent's engagement by hour of the week, the hours recommended
+ * for posting, and whether auto-tweets are steered into those hours
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { postingTimesSchema } from "@/app/api/schemas/validation";
+import { postingScheduleService } from "@/app/api/posting-schedule-service";
+import { postingTimeService, ANALYSIS_PERIOD_DAYS } from "@/app/api/posting-time-service";
+
+export const dynamic = 'force-dynamic';
+
+const POSTING_TIMES_SELECT = {
+  timezone: true,
+  activeHours: true,
+  blackoutDates: true,
+  scheduleJitterMinutes: true,
+  optimizePostingTimes: true
+} as const;
+
+/**
+ * GET - Get the posting time analysis; `?period=` sets the window in days (default 90)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Get agent and verify ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: POSTING_TIMES_SELECT
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Parse period
+    const { searchParams } = new URL(request.url);
+    const periodDays = Math.min(
+      Math.max(parseInt(searchParams.get('period') || String(ANALYSIS_PERIOD_DAYS)) || ANALYSIS_PERIOD_DAYS, 7),
+      365
+    );
+
+    // 4. Analyze in the agent's posting schedule time zone
+    const { timezone } = postingScheduleService.fromAgent(agent);
+    const analysis = await postingTimeService.analyze(agentId, timezone, periodDays);
+
+    return NextResponse.json({
+      success: true,
+      optimize: agent.optimizePostingTimes,
+      analysis
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Posting Times GET] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT - Turn placing auto-tweets in the recommended hours on or off
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Validate request body
+    const validation = postingTimesSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request body",
+          details: validation.error.errors.map(e => e.message).join(', ')
+        },
+        { status: 400 }
+      );
+    }
+
+    // 3. Verify agent ownership
+    const existing = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: { agentId: true }
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 4. Update setting; takes effect from the next auto-tweet cycle
+    const agent = await prisma.agent.update({
+      where: { agentId },
+      data: { optimizePostingTimes: validation.data.optimize },
+      select: { optimizePostingTimes: true }
+    });
+
+    console.log(`[Posting Times PUT] ${agent.optimizePostingTimes ? 'Enabled' : 'Disabled'} posting time optimization for agent ${agentId}`);
+
+    return NextResponse.json({
+      success: true,
+      optimize: agent.optimizePostingTimes
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Posting Times PUT] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
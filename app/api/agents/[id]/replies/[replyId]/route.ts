@@ -72,9 +72,9 @@ export async function GET(
 }
 
 /**
- * PUT - Update reply status (approve, reject, or edit)
+ * PATCH - Review a reply from the inbox (approve, reject, edit, or schedule)
  */
-export async function PUT(
+export async function PATCH(
   request: NextRequest,
   { params }: { params: { id: string; replyId: string } }
 ) {
@@ -102,6 +102,13 @@ export async function PUT(
       );
     }
 
+    if (replyText !== undefined && (typeof replyText !== 'string' || !replyText.trim() || replyText.length > 280)) {
+      return NextResponse.json(
+        { error: "Reply text must be between 1 and 280 characters" },
+        { status: 400 }
+      );
+    }
+
     // 3. Verify agent ownership
     const agent = await prisma.agent.findUnique({
       where: { agentId },
@@ -159,10 +166,11 @@ export async function PUT(
     switch (action) {
       case 'approve':
         updateData = { 
-          status: 'pending',
-          scheduledTime: scheduledTime ? new Date(scheduledTime) : new Date(Date.now() + 60000) // 1 minute delay
+          status: 'approved',
+          scheduledTime: scheduledTime ? new Date(scheduledTime) : new Date(),
+          ...(replyText && { replyText }) // Allow edit-and-approve in one step
         };
-        message = "Reply approved and scheduled for posting";
+        message = "Reply approved and queued for posting";
         break;
 
       case 'reject':
@@ -179,7 +187,8 @@ export async function PUT(
         }
         updateData = { 
           replyText,
-          status: 'pending' // Reset to pending after edit
+          status: 'pending', // Reset to pending after edit so it goes back through review
+          scheduledTime: null
         };
         message = "Reply updated";
         break;
@@ -200,7 +209,7 @@ export async function PUT(
         }
         updateData = { 
           scheduledTime: scheduleDate,
-          status: 'pending'
+          status: 'approved'
         };
         message = "Reply scheduled successfully";
         break;
@@ -212,14 +221,9 @@ export async function PUT(
       data: updateData
     });
 
-    console.log(`[Reply PUT] ${action} action performed on reply ${replyId} for agent ${agent.name} (${agentId})`);
+    console.log(`[Reply PATCH] ${action} action performed on reply ${replyId} for agent ${agent.name} (${agentId})`);
 
-    // 8. If approved/scheduled, attempt to post immediately if time is due
-    // Note: Immediate posting functionality disabled - postReply method doesn't exist in autoEngageService
-    // Replies will be posted by the scheduler service instead
-    if (action === 'approve' && updateData.scheduledTime && updateData.scheduledTime <= new Date()) {
-      message += " and scheduled for posting by the scheduler";
-    }
+    // Approved replies are posted by the scheduler (processApprovedReplies) once scheduledTime is due
 
     return NextResponse.json({
       success: true,
@@ -228,7 +232,7 @@ export async function PUT(
     });
 
   } catch (error) {
-    console.error("[Reply PUT] Error:", error);
+    console.error("[Reply PATCH] Error:", error);
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
@@ -236,6 +240,9 @@ export async function PUT(
   }
 }
 
+// Keep PUT for existing clients
+export const PUT = PATCH;
+
 /**
  * DELETE - Delete a specific reply
  */
@@ -0,0 +1,98 @@
+import { NextResponse, NextRequest } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { bulkReplyActionSchema } from "@/app/api/schemas/validation";
+
+/**
+ * POST - Approve or reject several inbox replies at once
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+    const agentId = params.id;
+
+    if (!agentId) {
+      return NextResponse.json(
+        { error: "Agent ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = bulkReplyActionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: validation.error.errors.map(e => e.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const { action, replyIds } = validation.data;
+
+    // 3. Verify agent ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId },
+      select: { userId: true, name: true }
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found" },
+        { status: 404 }
+      );
+    }
+
+    if (agent.userId !== userId) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 403 }
+      );
+    }
+
+    // 4. Update replies that are still awaiting review (posted/posting replies are never touched)
+    const result = action === 'approve'
+      ? await prisma.reply.updateMany({
+          where: {
+            agentId,
+            replyId: { in: replyIds },
+            status: { in: ['pending', 'failed'] }
+          },
+          data: {
+            status: 'approved',
+            scheduledTime: new Date()
+          }
+        })
+      : await prisma.reply.updateMany({
+          where: {
+            agentId,
+            replyId: { in: replyIds },
+            status: { in: ['pending', 'approved', 'failed'] }
+          },
+          data: { status: 'rejected' }
+        });
+
+    console.log(`[Replies Bulk] ${action} applied to ${result.count}/${replyIds.length} replies for agent ${agent.name} (${agentId})`);
+
+    return NextResponse.json({
+      success: true,
+      message: action === 'approve'
+        ? `${result.count} replies approved and queued for posting`
+        : `${result.count} replies rejected`,
+      updated: result.count,
+      skipped: replyIds.length - result.count
+    });
+
+  } catch (error) {
+    console.error("[Replies Bulk] Error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -53,7 +53,7 @@ export async function GET(
     // 4. Build query filters
     const whereClause: any = { agentId };
     
-    if (status && ['pending', 'posting', 'posted', 'failed', 'rejected'].includes(status)) {
+    if (status && ['pending', 'approved', 'posting', 'posted', 'failed', 'rejected'].includes(status)) {
       whereClause.status = status;
     }
 
@@ -75,6 +75,7 @@ export async function GET(
         status: true,
         score: true,
         confidence: true,
+        source: true,
         scheduledTime: true,
         postedTime: true,
         twitterReplyId: true,
@@ -166,8 +167,24 @@ export async function POST(
 
     // 4. Run auto-engage cycle using local service (no Express forwarding)
     const { autoEngageService } = await import("@/app/api/auto-engage-service");
-    
-    const result = await autoEngageService.runAutoEngageCycle(agentId, userId);
+
+    // Never run alongside a scheduled cycle (or another manual one) for the same agent
+    const claimed = await autoEngageService.claimCycle(agentId, false);
+    if (!claimed) {
+      return NextResponse.json(
+        { error: "An auto-engage cycle is already running for this agent" },
+        { status: 409 }
+      );
+    }
+
+    let result: Awaited<ReturnType<typeof autoEngageService.runAutoEngageCycle>>;
+    try {
+      result = await autoEngageService.runAutoEngageCycle(agentId, userId);
+    } finally {
+      await autoEngageService.releaseCycle(agentId).catch(error => {
+        console.error(`[Next API Replies Route] Failed to release auto-engage cycle for Agent ${agentId}:`, error);
+      });
+    }
     
     if (!result.success) {
       console.error(`[Next API Replies Route] Auto-engage cycle failed for Agent ${agentId}:`, result.error);
@@ -190,7 +207,11 @@ export async function POST(
         tweetsFetched: result.results?.tweetsFetched || 0,
         repliesGenerated: result.results?.repliesGenerated || 0,
         repliesPosted: result.results?.repliesPosted || 0,
-        repliesFailed: result.results?.repliesFailed || 0
+        repliesFailed: result.results?.repliesFailed || 0,
+        repliesQueued: result.results?.repliesQueued || 0,
+        likesGiven: result.results?.likesGiven || 0,
+        retweetsGiven: result.results?.retweetsGiven || 0,
+        quotesGiven: result.results?.quotesGiven || 0
       }
     });
 
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/app/db/utils/dbClient';
 import { z } from 'zod';
 import { withSecurity, handleError } from '../../middleware/security';
-import { updateAgentSchema, agentIdParamSchema, validatePathParams } from '../../schemas/validation';
+import { updateAgentSchema, agentIdParamSchema, agentLlmSettingsSchema, validatePathParams } from '../../schemas/validation';
 import { requireAuth } from '../../utils/auth';
 
 export const GET = withSecurity(undefined, false)(async (
@@ -34,6 +34,7 @@ export const GET = withSecurity(undefined, false)(async (
       },
       include: {
         tweets: {
+          where: { status: { not: 'reserved' } }, // Auto-tweet slots have no text yet
           orderBy: { postTime: 'desc' },
           take: 10
         }
@@ -76,6 +77,9 @@ export async function PUT(
     if (!agent) {
       return NextResponse.json({ error: "Agent not found or permission denied" }, { status: 404 });
     }
+
+    // Validate LLM settings (throws ZodError -> 400)
+    const llmSettings = agentLlmSettingsSchema.parse(json);
     
     // Log the update operation for debugging
     console.log(`Updating agent ${agentId} with data:`, 
@@ -86,7 +90,8 @@ export async function PUT(
       json.specialHooks ? `specialHooks updated` : "",
       json.autoTweetEnabled !== undefined ? `enabled=${json.autoTweetEnabled}` : "(unchanged)",
       json.autoTweetFrequencyHours !== undefined ? `frequency=${json.autoTweetFrequencyHours}h` : "",
-      json.autoTweetCount !== undefined ? `count=${json.autoTweetCount}` : ""
+      json.autoTweetCount !== undefined ? `count=${json.autoTweetCount}` : "",
+      json.autoTweetTrendsEnabled !== undefined ? `trends=${json.autoTweetTrendsEnabled}` : ""
     );
 
     // Update the agent data
@@ -112,6 +117,9 @@ export async function PUT(
         ...(json.autoTweetCount !== undefined && { 
           autoTweetCount: json.autoTweetCount 
         }),
+        ...(json.autoTweetTrendsEnabled !== undefined && { 
+          autoTweetTrendsEnabled: json.autoTweetTrendsEnabled 
+        }),
         
         // Auto-engage configuration - only update if provided
         ...(json.autoEngageEnabled !== undefined && { 
@@ -129,6 +137,9 @@ export async function PUT(
         ...(json.autoEngageAutoReply !== undefined && { 
           autoEngageAutoReply: json.autoEngageAutoReply 
         }),
+
+        // LLM settings - only update if provided
+        ...llmSettings,
       },
       // Include relations if needed by the frontend after update
       include: { twitterAuth: { select: { twitterScreenName: true } } }
@@ -194,6 +205,9 @@ export async function PATCH(
       return NextResponse.json({ error: "Agent not found or permission denied" }, { status: 404 });
     }
 
+    // Validate LLM settings (throws ZodError -> 400)
+    const llmSettings = agentLlmSettingsSchema.parse(json);
+
     // Log the update operation for debugging - use new interval field if present
     console.log(`Updating agent ${agentId} with data:`,
       Object.entries(json).map(([key, value]) => `${key}=${value}`).join(', ')
@@ -219,6 +233,9 @@ export async function PATCH(
             // Ensure count is null if disabled
             autoTweetCount: json.autoTweetEnabled === false ? null : json.autoTweetCount
         }),
+        ...(json.autoTweetTrendsEnabled !== undefined && {
+          autoTweetTrendsEnabled: json.autoTweetTrendsEnabled
+        }),
         
         // Auto-engage configuration - update based on request
         ...(json.autoEngageEnabled !== undefined && {
@@ -236,6 +253,9 @@ export async function PATCH(
         ...(json.autoEngageAutoReply !== undefined && {
           autoEngageAutoReply: json.autoEngageAutoReply
         }),
+
+        // LLM settings - only update if provided
+        ...llmSettings,
       },
       // Select fields needed for the response, including the count
       select: {
@@ -247,6 +267,7 @@ export async function PATCH(
           autoTweetEnabled: true,
           autoTweetFrequencyHours: true,
           autoTweetCount: true, // Include count in response
+          autoTweetTrendsEnabled: true,
           lastAutoTweetTime: true,
           autoEngageEnabled: true,
           autoEngageFrequencyHours: true,
@@ -254,6 +275,10 @@ export async function PATCH(
           autoEngageMinScore: true,
           autoEngageAutoReply: true,
           lastAutoEngageTime: true,
+          llmProvider: true,
+          llmModel: true,
+          llmTemperature: true,
+          llmMaxTokens: true,
           twitterAuth: { select: { twitterScreenName: true } }
       }
     });
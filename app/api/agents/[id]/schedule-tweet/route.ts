@@ -8,6 +8,9 @@ import { NextResponse } from "next/server";
 import { requireAuth } from "@/app/api/utils/auth";
 import prisma from "@/app/db/utils/dbClient";
 import { twitterV2Service } from "@/app/api/twitter-v2-service";
+import { mediaService } from "@/app/api/media-service";
+import { scheduleTweetSchema } from "@/app/api/schemas/validation";
+import { TweetKind } from "@prisma/client";
 
 export async function POST(
   request: Request,
@@ -35,24 +38,28 @@ export async function POST(
       return NextResponse.json({ error: "Unauthorized access to agent" }, { status: 403 });
     }
 
-    // 3. Parse the request body
+    // 3. Parse and validate the request body (including that the time is in the future)
     const body = await request.json();
-    const { scheduledAt, tweet } = body;
+    const validation = scheduleTweetSchema.safeParse(body);
 
-    if (!scheduledAt || !tweet || typeof tweet.text !== 'string') {
+    if (!validation.success) {
       console.log("[Next API /schedule-tweet] Invalid request body:", body);
       return NextResponse.json({ 
-        error: "Invalid request body: 'scheduledAt' and 'tweet.text' are required." 
+        error: "Invalid request body",
+        details: validation.error.errors.map(e => e.message).join(', ')
       }, { status: 400 });
     }
-    
-    // 4. Validate scheduled time is in the future
+
+    const { scheduledAt, tweet } = validation.data;
     const scheduledTime = new Date(scheduledAt);
-    const now = new Date();
-    
-    if (scheduledTime <= now) {
+    const mediaIds = tweet.mediaIds || [];
+
+    // 4. Validate attached media belongs to this agent and is not used by another tweet
+    const attachable = await mediaService.getAttachable(agentId, mediaIds);
+    if (!attachable.success) {
       return NextResponse.json({ 
-        error: "Schedule time must be in the future" 
+        error: "Invalid media",
+        details: attachable.error
       }, { status: 400 });
     }
     
@@ -74,10 +81,17 @@ export async function POST(
         postTime: scheduledTime, // Use postTime for the scheduled time
         status: 'scheduled', // Use the TweetStatus enum value
         context: tweet.context || null,
-        url: tweet.url || null
+        url: tweet.url || null,
+        kind: tweet.quotedTweetId ? TweetKind.quote : TweetKind.original,
+        quotedTweetId: tweet.quotedTweetId || null
         // Note: xAccountToTag is not in the Tweet model, so we omit it
       }
     });
+
+    // The scheduler loads these from storage when the tweet is posted
+    if (mediaIds.length > 0) {
+      await mediaService.attachToTweet(scheduledTweet.tweetId, mediaIds);
+    }
     
     // 7. Return successful response with scheduled tweet details
     console.log(`[Next API /schedule-tweet] Tweet scheduled successfully. ID: ${scheduledTweet.tweetId}`);
@@ -88,7 +102,9 @@ export async function POST(
       scheduledTweet: {
         id: scheduledTweet.tweetId,
         text: scheduledTweet.text,
-        scheduledAt: scheduledTweet.postTime
+        scheduledAt: scheduledTweet.postTime,
+        mediaCount: mediaIds.length,
+        quotedTweetId: scheduledTweet.quotedTweetId
       }
     });
 
@@ -0,0 +1,222 @@
+/**
+ * Next.js API Route: Scheduled Tweet
+ * 
+ * Reschedule, edit or cancel a single scheduled tweet. Parts of a scheduled
+ * thread are rescheduled and cancelled together with their thread.
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { mediaService } from "@/app/api/media-service";
+
+type RouteParams = { params: { id: string; tweetId: string } };
+
+/**
+ * Load a tweet that belongs to the user's agent and is still waiting to be posted
+ */
+async function findEditableTweet(userId: string, agentId: string, tweetId: string) {
+  const agent = await prisma.agent.findUnique({
+    where: { agentId },
+    select: { userId: true }
+  });
+
+  if (!agent) {
+    return { error: NextResponse.json({ error: "Agent not found" }, { status: 404 }) };
+  }
+
+  if (agent.userId !== userId) {
+    return { error: NextResponse.json({ error: "Unauthorized access to agent" }, { status: 403 }) };
+  }
+
+  const tweet = await prisma.tweet.findFirst({
+    where: { tweetId, agentId }
+  });
+
+  if (!tweet) {
+    return { error: NextResponse.json({ error: "Tweet not found" }, { status: 404 }) };
+  }
+
+  if (tweet.status !== 'scheduled') {
+    return {
+      error: NextResponse.json({
+        error: `Only scheduled tweets can be changed (this tweet is ${tweet.status})`
+      }, { status: 400 })
+    };
+  }
+
+  return { tweet };
+}
+
+/**
+ * PATCH - Reschedule and/or edit a scheduled tweet
+ * Body: { postTime?: string, text?: string }
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { id: agentId, tweetId } = params;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Parse the request body
+    const body = await request.json();
+    const { postTime, text } = body;
+
+    if (postTime === undefined && text === undefined) {
+      return NextResponse.json({
+        error: "Invalid request body: provide 'postTime' and/or 'text'."
+      }, { status: 400 });
+    }
+
+    let newPostTime: Date | undefined;
+    if (postTime !== undefined) {
+      newPostTime = new Date(postTime);
+      if (isNaN(newPostTime.getTime())) {
+        return NextResponse.json({ error: "Invalid postTime" }, { status: 400 });
+      }
+      if (newPostTime <= new Date()) {
+        return NextResponse.json({ error: "Schedule time must be in the future" }, { status: 400 });
+      }
+    }
+
+    if (text !== undefined && (typeof text !== 'string' || !text.trim() || text.length > 280)) {
+      return NextResponse.json({ error: "Tweet text must be between 1 and 280 characters" }, { status: 400 });
+    }
+
+    // 3. Verify ownership and that the tweet hasn't been picked up by the scheduler
+    const result = await findEditableTweet(userId, agentId, tweetId);
+    if (result.error) {
+      return result.error;
+    }
+
+    // 4. Update only while still scheduled, so we never race the scheduler
+    const threadId = result.tweet.threadId;
+    const updated = threadId
+      ? await prisma.$transaction(async (tx) => {
+          // The thread row is what the scheduler claims, so guard on its status
+          const thread = await tx.thread.updateMany({
+            where: { threadId, status: 'scheduled' },
+            data: { status: 'scheduled', ...(newPostTime && { postTime: newPostTime }) }
+          });
+
+          if (thread.count === 0) {
+            return thread;
+          }
+
+          if (newPostTime) {
+            await tx.tweet.updateMany({
+              where: { threadId },
+              data: { postTime: newPostTime }
+            });
+          }
+
+          if (text !== undefined) {
+            await tx.tweet.update({
+              where: { tweetId },
+              data: { text: text.trim() }
+            });
+          }
+
+          return thread;
+        })
+      : await prisma.tweet.updateMany({
+          where: { tweetId, status: 'scheduled' },
+          data: {
+            // A new time replaces any pending retry backoff
+            ...(newPostTime && { postTime: newPostTime, nextAttemptAt: null }),
+            ...(text !== undefined && { text: text.trim() })
+          }
+        });
+
+    if (updated.count === 0) {
+      return NextResponse.json({ error: "Tweet is already being posted" }, { status: 409 });
+    }
+
+    const tweet = await prisma.tweet.findUnique({
+      where: { tweetId },
+      select: { tweetId: true, text: true, postTime: true, status: true, url: true, twitterTweetId: true, threadId: true, threadPosition: true }
+    });
+
+    console.log(`[Next API /scheduled-tweets] Tweet ${tweetId} updated for agent ${agentId}`);
+
+    return NextResponse.json({
+      success: true,
+      message: "Scheduled tweet updated",
+      tweet
+    });
+
+  } catch (error: any) {
+    console.error(`[Next API /scheduled-tweets] Error updating tweet ${tweetId} for agent ${agentId}:`, error);
+
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update scheduled tweet", details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Cancel a scheduled tweet
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { id: agentId, tweetId } = params;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Verify ownership and that the tweet hasn't been picked up by the scheduler
+    const result = await findEditableTweet(userId, agentId, tweetId);
+    if (result.error) {
+      return result.error;
+    }
+
+    // 3. Delete only while still scheduled (cancelling a thread part cancels the whole thread)
+    const threadId = result.tweet.threadId;
+    const media = await prisma.tweetMedia.findMany({
+      where: threadId ? { tweet: { threadId } } : { tweetId },
+      select: { storageKey: true }
+    });
+
+    const deleted = threadId
+      ? await prisma.thread.deleteMany({
+          where: { threadId, status: 'scheduled' }
+        })
+      : await prisma.tweet.deleteMany({
+          where: { tweetId, status: 'scheduled' }
+        });
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: "Tweet is already being posted" }, { status: 409 });
+    }
+
+    // Media rows went with the tweet, so only the stored files are left to clean up
+    await mediaService.deleteFiles(media).catch(error => {
+      console.error(`[Next API /scheduled-tweets] Failed to delete media files for ${threadId ? `thread ${threadId}` : `tweet ${tweetId}`}:`, error);
+    });
+
+    console.log(`[Next API /scheduled-tweets] ${threadId ? `Thread ${threadId}` : `Tweet ${tweetId}`} cancelled for agent ${agentId}`);
+
+    return NextResponse.json({
+      success: true,
+      message: threadId ? "Scheduled thread cancelled" : "Scheduled tweet cancelled"
+    });
+
+  } catch (error: any) {
+    console.error(`[Next API /scheduled-tweets] Error cancelling tweet ${tweetId} for agent ${agentId}:`, error);
+
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to cancel scheduled tweet", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Next.js API Route: Scheduled Tweets (calendar feed)
+ * 
+ * Lists an agent's scheduled, posted and failed tweets within a date range
+ */
+
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+
+// Keep calendar queries bounded (a month view spans at most 6 weeks)
+const MAX_RANGE_DAYS = 62;
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Parse and validate the date range
+    const { searchParams } = new URL(request.url);
+    const from = new Date(searchParams.get('from') || '');
+    const to = new Date(searchParams.get('to') || '');
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json({
+        error: "Query parameters 'from' and 'to' must be valid dates with 'from' before 'to'"
+      }, { status: 400 });
+    }
+
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json({
+        error: `Date range cannot exceed ${MAX_RANGE_DAYS} days`
+      }, { status: 400 });
+    }
+
+    // 3. Verify agent ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId },
+      select: { userId: true }
+    });
+
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+
+    if (agent.userId !== userId) {
+      return NextResponse.json({ error: "Unauthorized access to agent" }, { status: 403 });
+    }
+
+    // 4. Fetch tweets in range
+    const tweets = await prisma.tweet.findMany({
+      where: {
+        agentId,
+        postTime: { gte: from, lt: to },
+        status: { not: 'reserved' } // Auto-tweet slots have no text yet
+      },
+      orderBy: { postTime: 'asc' },
+      select: {
+        tweetId: true,
+        text: true,
+        postTime: true,
+        status: true,
+        url: true,
+        twitterTweetId: true,
+        threadId: true,
+        threadPosition: true,
+        attempts: true,
+        lastError: true
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      tweets
+    });
+
+  } catch (error: any) {
+    console.error(`[Next API /scheduled-tweets] Error fetching tweets for agent ${agentId}:`, error);
+
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch scheduled tweets", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Next.js API Route: Threads
+ *
+ * Endpoint for posting or scheduling multi-tweet threads
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import { agentTweetService } from "@/app/api/agent-tweet-service";
+import { createThreadSchema } from "@/app/api/schemas/validation";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST - Post a thread now, or schedule it when `scheduledAt` is given
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Parse and validate request body
+    const body = await request.json();
+    const validation = createThreadSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: validation.error.errors.map(e => e.message).join(', ') },
+        { status: 400 }
+      );
+    }
+
+    const { parts, scheduledAt, context } = validation.data;
+
+    // 3. Schedule the thread for the scheduler to post later
+    if (scheduledAt) {
+      const result = await agentTweetService.scheduleThread({
+        agentId,
+        userId,
+        parts,
+        scheduleTime: new Date(scheduledAt),
+        context
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error || "Failed to schedule thread" },
+          { status: result.error === "Agent not found or access denied" ? 404 : 500 }
+        );
+      }
+
+      console.log(`[Threads] ${parts.length}-part thread scheduled for agent ${agentId} at ${scheduledAt}`);
+
+      return NextResponse.json({
+        success: true,
+        message: "Thread scheduled successfully",
+        thread: result.thread
+      }, { status: 201 });
+    }
+
+    // 4. Post the thread now, stopping at the first part that fails
+    const result = await agentTweetService.postThread({
+      agentId,
+      userId,
+      parts,
+      context
+    });
+
+    if (!result.success) {
+      if (!result.thread) {
+        return NextResponse.json(
+          { error: result.error || "Failed to post thread" },
+          { status: result.error === "Agent not found or access denied" ? 404 : 500 }
+        );
+      }
+
+      // Some parts may already be live on X, so report exactly how far the thread got
+      return NextResponse.json({
+        error: result.error || "Failed to post thread",
+        thread: result.thread
+      }, { status: 502 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Thread posted successfully",
+      thread: result.thread
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Threads] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
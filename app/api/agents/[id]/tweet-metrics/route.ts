@@ -0,0 +1,83 @@
+/**
+ * Next.js API Route: Tweet Metrics
+ *
+ * Endpoint for an agent's average engagement per posted tweet and how
+ * that engagement grows in the hours and days after posting
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import prisma from "@/app/db/utils/dbClient";
+import { tweetMetricsService } from "@/app/api/tweet-metrics-service";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Get engagement averages and growth curve; `?period=` sets the window in days (default 30)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const agentId = params.id;
+
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Verify agent ownership
+    const agent = await prisma.agent.findUnique({
+      where: { agentId, userId },
+      select: { agentId: true }
+    });
+
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Parse period
+    const { searchParams } = new URL(request.url);
+    const periodDays = Math.min(Math.max(parseInt(searchParams.get('period') || '30') || 30, 1), 365);
+    const since = new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000);
+
+    // 4. Averages across posted tweets, and the growth curve from their snapshots
+    const [totals, growthCurve] = await Promise.all([
+      prisma.tweet.aggregate({
+        where: { agentId, status: 'posted', postTime: { gte: since } },
+        _avg: { likes: true, retweets: true, replies: true },
+        _max: { metricsSyncedAt: true },
+        _count: { _all: true }
+      }),
+      tweetMetricsService.getGrowthCurve(agentId, since)
+    ]);
+
+    const round = (value: number | null) => Math.round((value ?? 0) * 10) / 10;
+
+    return NextResponse.json({
+      success: true,
+      metrics: {
+        periodDays,
+        tweets: totals._count._all,
+        avgLikes: round(totals._avg.likes),
+        avgRetweets: round(totals._avg.retweets),
+        avgReplies: round(totals._avg.replies),
+        lastSyncedAt: totals._max.metricsSyncedAt,
+        growthCurve
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[Tweet Metrics GET] Error for agent ${agentId}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
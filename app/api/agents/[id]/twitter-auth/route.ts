@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { requireAuth } from '../../../utils/auth';
 import { twitterAuthSchema } from '../../../schemas/validation';
 import prisma from '@/app/db/utils/dbClient';
+import { encryptCookieData } from '@/app/db/utils/cookieEncryption';
 
 export async function POST(
   request: Request,
@@ -53,7 +54,7 @@ export async function POST(
       where: { userId }
     });
     
-    // 5. Save new cookies to database
+    // 5. Save new cookies to database (values are encrypted at rest)
     const cookiesToSave = [
       {
         userId,
@@ -91,7 +92,7 @@ export async function POST(
     ];
     
     await prisma.cookie.createMany({
-      data: cookiesToSave
+      data: cookiesToSave.map(cookie => encryptCookieData(cookie))
     });
     
     // console.log(`[Twitter-Auth Route] Successfully saved cookies for agent ${agentId}`);
@@ -3,6 +3,7 @@ import { agentService } from '@/app/db/services';
 import { requireAuth } from '@/app/api/utils/auth';
 import { AgentStatus } from '@prisma/client';
 import prisma from '@/app/db/utils/dbClient';
+import { decryptCookies } from '@/app/db/utils/cookieEncryption';
 import { TwitterApi as CustomTwitterApiWrapper } from '../../../twitter-api';
 
 export async function POST(
@@ -26,7 +27,7 @@ export async function POST(
     }
 
     // Check for valid Twitter cookies
-    const validCookies = await prisma.cookie.findMany({
+    const validCookies = decryptCookies(await prisma.cookie.findMany({
       where: {
         userId,
         OR: [
@@ -34,7 +35,7 @@ export async function POST(
           { expires: { gt: new Date() } }
         ]
       }
-    });
+    }));
 
     if (!validCookies || validCookies.length === 0) {
       return NextResponse.json(
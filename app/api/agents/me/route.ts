@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { requireAuth } from "@/app/api/utils/auth";
 import prisma from "@/app/db/utils/dbClient";
+import { decryptCookies } from "@/app/db/utils/cookieEncryption";
 import { Scraper } from "agent-twitter-client";
 
 export const dynamic = 'force-dynamic';
@@ -10,7 +11,7 @@ export const dynamic = 'force-dynamic';
  */
 async function getValidCookiesFromDatabase(userId: string) {
   try {
-    return await prisma.cookie.findMany({
+    return decryptCookies(await prisma.cookie.findMany({
       where: {
         userId,
         OR: [
@@ -18,7 +19,7 @@ async function getValidCookiesFromDatabase(userId: string) {
           { expires: { gt: new Date() } } // Non-expired cookies
         ]
       }
-    });
+    }));
   } catch (error) {
     console.error(`Error fetching cookies for user ${userId}:`, error);
     return [];
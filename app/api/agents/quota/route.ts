@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/app/db/utils/dbClient';
 import { requireAuth } from '../../utils/auth';
+import { quotaService } from '../../quota-service';
 
 export const dynamic = 'force-dynamic';
 
@@ -40,12 +41,16 @@ export async function GET(request: Request) {
     // Calculate remaining and whether user can create more
     const remaining = maxAgents - agentCount;
     const canCreate = agentCount < maxAgents;
+
+    // Tweet and reply quotas per agent (or the shared pool on pooled plans)
+    const usage = await quotaService.getSummary(userId);
     
     return NextResponse.json({
       used: agentCount,
       limit: maxAgents,
       remaining,
-      canCreate
+      canCreate,
+      usage
     });
   } catch (error) {
     console.error('Error getting agent quota:', error);
@@ -33,6 +33,7 @@ export const GET = withSecurity(undefined, false)(async (request: NextRequest, c
         autoTweetEnabled: true,
         autoTweetFrequencyHours: true,
         autoTweetCount: true,
+        autoTweetTrendsEnabled: true,
         lastAutoTweetTime: true,
 
         twitterAuth: {
@@ -27,7 +27,8 @@ export async function GET(request: Request) {
       where: {
         agent: {
           userId
-        }
+        },
+        status: { not: 'reserved' } // Auto-tweet slots have no text yet
       }
     });
     
@@ -0,0 +1,152 @@
+import prisma from '../db/utils/dbClient';
+import { autoEngageService } from './auto-engage-service';
+
+jest.mock('../db/utils/dbClient', () => ({
+  __esModule: true,
+  default: {
+    $queryRaw: jest.fn(),
+    agent: { update: jest.fn() },
+    reply: { update: jest.fn(), updateMany: jest.fn() }
+  },
+  schedulerQueries: {}
+}));
+jest.mock('./twitter-auth-service', () => ({ twitterAuthService: {} }));
+jest.mock('./llm-service', () => ({ __esModule: true, default: {} }));
+jest.mock('./twitter-api', () => ({ TwitterApi: jest.fn() }));
+jest.mock('./tweet-filter-service', () => ({ tweetFilterService: {} }));
+jest.mock('../scraper', () => ({ Scraper: jest.fn() }));
+jest.mock('./notification-service', () => ({ notificationService: {} }));
+jest.mock('./usage-service', () => ({ usageService: { record: jest.fn() } }));
+jest.mock('./quota-service', () => ({ quotaService: {} }));
+jest.mock('./agent-tweet-service', () => ({ agentTweetService: {} }));
+
+const db = prisma as unknown as {
+  $queryRaw: jest.Mock;
+  agent: { update: jest.Mock };
+  reply: { update: jest.Mock; updateMany: jest.Mock };
+};
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const approved = (replyId: string) => ({ replyId, originalTweetId: `tweet-${replyId}`, replyText: `Reply ${replyId}` });
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.useFakeTimers({ now: NOW });
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('claimApprovedReply', () => {
+  test('moves a reply that is still approved to posting under a lease', async () => {
+    db.reply.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(autoEngageService.claimApprovedReply('r1')).resolves.toBe(true);
+    expect(db.reply.updateMany).toHaveBeenCalledWith({
+      where: { replyId: 'r1', status: 'approved' },
+      data: { status: 'posting', leaseExpiresAt: new Date(NOW.getTime() + 10 * 60 * 1000) }
+    });
+  });
+
+  test('fails when another run claimed the reply or it changed', async () => {
+    db.reply.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(autoEngageService.claimApprovedReply('r1')).resolves.toBe(false);
+  });
+});
+
+describe('postApprovedReplies', () => {
+  const sendTweet = jest.fn();
+
+  const postAll = async (replies: ReturnType<typeof approved>[]) => {
+    const posting = autoEngageService.postApprovedReplies('agent-1', 'user-1', replies);
+    await jest.runAllTimersAsync();
+    return posting;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(autoEngageService, 'getReplyQuota').mockResolvedValue({ success: true, used: 0, limit: 50, remaining: 50 });
+    jest.spyOn(autoEngageService, 'loginScraper').mockResolvedValue({ success: true, scraper: { sendTweet } as any });
+    sendTweet.mockResolvedValue({ json: async () => ({}) });
+    db.reply.update.mockResolvedValue({});
+  });
+
+  test('only sends the replies this run claimed', async () => {
+    db.reply.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    const result = await postAll([approved('r1'), approved('r2')]);
+
+    expect(result).toEqual({ success: true, posted: 1, failed: 0 });
+    expect(sendTweet).toHaveBeenCalledTimes(1);
+    expect(sendTweet).toHaveBeenCalledWith('Reply r1', 'tweet-r1');
+  });
+
+  test('fails a claimed reply whose post throws instead of leaving it in posting', async () => {
+    db.reply.updateMany.mockResolvedValue({ count: 1 });
+    sendTweet.mockRejectedValue(new Error('Connection lost'));
+
+    const result = await postAll([approved('r1')]);
+
+    expect(result).toEqual({ success: true, posted: 0, failed: 1 });
+    expect(db.reply.updateMany).toHaveBeenLastCalledWith({
+      where: { replyId: 'r1', status: 'posting' },
+      data: { status: 'failed', leaseExpiresAt: null }
+    });
+  });
+});
+
+describe('recoverExpiredReplyLeases', () => {
+  test('fails replies whose posting run died', async () => {
+    db.reply.updateMany.mockResolvedValue({ count: 2 });
+
+    await expect(autoEngageService.recoverExpiredReplyLeases()).resolves.toBe(2);
+    expect(db.reply.updateMany).toHaveBeenCalledWith({
+      where: {
+        status: 'posting',
+        OR: [
+          { leaseExpiresAt: { lt: NOW } },
+          { leaseExpiresAt: null, updatedAt: { lt: new Date(NOW.getTime() - 10 * 60 * 1000) } }
+        ]
+      },
+      data: { status: 'failed', leaseExpiresAt: null }
+    });
+  });
+});
+
+describe('claimCycle', () => {
+  test('owns the cycle when the agent row was leased', async () => {
+    db.$queryRaw.mockResolvedValue([{ agent_id: 'agent-1' }]);
+
+    await expect(autoEngageService.claimCycle('agent-1', true)).resolves.toBe(true);
+
+    // Template values: lease minutes, agent ID, requireDue
+    expect(db.$queryRaw.mock.calls[0].slice(2)).toEqual(['agent-1', true]);
+  });
+
+  test('gives up when another instance holds the lease or the cycle is not due', async () => {
+    db.$queryRaw.mockResolvedValue([]);
+
+    await expect(autoEngageService.claimCycle('agent-1', false)).resolves.toBe(false);
+    expect(db.$queryRaw.mock.calls[0].slice(2)).toEqual(['agent-1', false]);
+  });
+});
+
+describe('releaseCycle', () => {
+  test('clears the agent\'s cycle lease', async () => {
+    db.agent.update.mockResolvedValue({});
+
+    await autoEngageService.releaseCycle('agent-1');
+
+    expect(db.agent.update).toHaveBeenCalledWith({
+      where: { agentId: 'agent-1' },
+      data: { autoEngageLeaseExpiresAt: null }
+    });
+  });
+});
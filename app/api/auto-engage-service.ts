@@ -2,6 +2,7 @@
  * Auto-Engage Service - Simplified Version
  * 
  * Simple automated engagement: fetch tweets → generate replies → post sequentially
+ * (or queue them for review when the agent's auto-reply setting is off)
  */
 
 import prisma, { schedulerQueries } from '../db/utils/dbClient';
@@ -10,13 +11,20 @@ import llmService from './llm-service';
 import { TwitterApi } from './twitter-api';
 import { tweetFilterService, TweetQualityScore, FilterConfig } from './tweet-filter-service';
 import { Scraper } from '../scraper';
+import { notificationService } from './notification-service';
+import { usageService } from './usage-service';
+import { quotaService } from './quota-service';
+import { agentTweetService } from './agent-tweet-service';
+import { EngagementAction } from '@prisma/client';
 
 // Define ReplyStatus enum locally
 enum ReplyStatus {
   POSTING = 'posting',
   POSTED = 'posted',
   FAILED = 'failed',
-  PENDING = 'pending'
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected'
 }
 
 // Define interfaces
@@ -46,10 +54,75 @@ interface AutoEngageConfig {
   minQualityScore?: number; // Minimum quality score (1-10)
 }
 
+interface ApprovedReply {
+  replyId: string;
+  originalTweetId: string;
+  replyText: string;
+}
+
+// Saved searches run per cycle (least recently run first) and results fetched per search
+const MAX_SEARCHES_PER_CYCLE = 3;
+const SEARCH_RESULTS_PER_QUERY = 20;
+
+// Target accounts read per cycle (sampled at random) and tweets fetched per list or account
+const MAX_ACCOUNTS_PER_CYCLE = 5;
+const FEED_RESULTS_PER_SOURCE = 20;
+
+// How long a claimed cycle keeps other instances off the agent; outlasts any real cycle so a
+// crashed one only blocks the agent until it expires
+const CYCLE_LEASE_MINUTES = 30;
+
+// How long a reply may stay in `posting` before the run posting it is considered dead
+const REPLY_LEASE_MINUTES = 10;
+
+// Tweets flagged with any of these are never replied to, liked, retweeted or quoted
+const CATEGORY_BLACKLIST = ['spam', 'crypto', 'engagement-bait', 'offensive'];
+
+const ENGAGEMENT_ACTION_LABELS: Record<EngagementAction, string> = {
+  like: 'Liked',
+  retweet: 'Retweeted',
+  quote: 'Quoted'
+};
+
+/**
+ * When a reply moved to `posting` now should be considered interrupted
+ */
+export function getReplyLeaseExpiry(): Date {
+  return new Date(Date.now() + REPLY_LEASE_MINUTES * 60 * 1000);
+}
+
 /**
  * Auto-Engage Service - Simplified
  */
 export const autoEngageService = {
+  /**
+   * Fetch candidate tweets from the agent's configured engagement source
+   * 
+   * @param userId User ID for authentication
+   * @param agent Agent configuration
+   * @param config Auto-engage configuration
+   * @returns Selected tweets for replies
+   */
+  async fetchEngageTweets(
+    userId: string,
+    agent: any,
+    config: AutoEngageConfig
+  ): Promise<{
+    success: boolean;
+    tweets?: TimelineTweet[];
+    error?: string;
+  }> {
+    switch (agent.autoEngageSource) {
+      case 'search':
+        return this.fetchSearchTweets(userId, agent, config);
+      case 'lists':
+      case 'accounts':
+        return this.fetchFeedTweets(userId, agent, config);
+      default:
+        return this.fetchTimelineTweets(userId, agent, config);
+    }
+  },
+
   /**
    * Fetch timeline tweets with basic filtering
    * 
@@ -106,6 +179,200 @@ export const autoEngageService = {
     }
   },
 
+  /**
+   * Fetch tweets from the agent's saved X searches with basic filtering
+   * 
+   * @param userId User ID for authentication
+   * @param agent Agent configuration
+   * @param config Auto-engage configuration
+   * @returns Selected tweets for replies
+   */
+  async fetchSearchTweets(
+    userId: string,
+    agent: any,
+    config: AutoEngageConfig
+  ): Promise<{
+    success: boolean;
+    tweets?: TimelineTweet[];
+    error?: string;
+  }> {
+    try {
+      // Rotate through the saved searches so every query gets run
+      const searches = await prisma.engageSearchQuery.findMany({
+        where: { agentId: agent.agentId, enabled: true },
+        orderBy: [
+          { lastRunAt: { sort: 'asc', nulls: 'first' } },
+          { createdAt: 'asc' }
+        ],
+        take: MAX_SEARCHES_PER_CYCLE
+      });
+
+      if (searches.length === 0) {
+        return {
+          success: false,
+          error: 'No saved searches are enabled for this agent'
+        };
+      }
+
+      console.log(`[Auto-Engage] Running ${searches.length} saved search(es) for agent ${agent.agentId}`);
+
+      const searchResult = await twitterAuthService.searchTweets(
+        userId,
+        searches.map(search => ({ query: search.query, mode: search.searchMode })),
+        SEARCH_RESULTS_PER_QUERY
+      );
+
+      if (!searchResult.success || !searchResult.results) {
+        return {
+          success: false,
+          error: searchResult.error || 'Failed to run saved searches'
+        };
+      }
+
+      await prisma.engageSearchQuery.updateMany({
+        where: { queryId: { in: searches.map(search => search.queryId) } },
+        data: { lastRunAt: new Date() }
+      });
+
+      if (searchResult.results.every(result => result.error)) {
+        return {
+          success: false,
+          error: `All saved searches failed: ${searchResult.results[0].error}`
+        };
+      }
+
+      // The same tweet often matches several searches
+      const tweetsById = new Map<string, TimelineTweet>();
+      for (const result of searchResult.results) {
+        for (const tweet of result.tweets as TimelineTweet[]) {
+          if (!tweetsById.has(tweet.id)) {
+            tweetsById.set(tweet.id, tweet);
+          }
+        }
+      }
+
+      const searchTweets = Array.from(tweetsById.values());
+      console.log(`[Auto-Engage] Saved searches returned ${searchTweets.length} unique tweets`);
+
+      // Skips our own tweets, retweets and anything we've already replied to
+      const eligibleTweets = await this.basicFilter(searchTweets, agent.agentId, agent.twitterUsername);
+
+      // Search results are noisier than the timeline, so give the quality filter a wider pick
+      const selectedTweets = eligibleTweets.slice(0, config.maxReplies * 2);
+
+      console.log(`[Auto-Engage] Selected ${selectedTweets.length} search tweets as reply candidates`);
+
+      return {
+        success: true,
+        tweets: selectedTweets
+      };
+
+    } catch (error) {
+      console.error('[Auto-Engage] Error fetching search tweets:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
+  /**
+   * Fetch fresh posts from the agent's X Lists or target accounts with basic filtering
+   * 
+   * @param userId User ID for authentication
+   * @param agent Agent configuration
+   * @param config Auto-engage configuration
+   * @returns Selected tweets for replies
+   */
+  async fetchFeedTweets(
+    userId: string,
+    agent: any,
+    config: AutoEngageConfig
+  ): Promise<{
+    success: boolean;
+    tweets?: TimelineTweet[];
+    error?: string;
+  }> {
+    try {
+      const isLists = agent.autoEngageSource === 'lists';
+      const ids: string[] = isLists ? agent.autoEngageListIds : agent.autoEngageTargetHandles;
+
+      if (!ids || ids.length === 0) {
+        return {
+          success: false,
+          error: isLists ? 'No X Lists are configured for this agent' : 'No target accounts are configured for this agent'
+        };
+      }
+
+      // Each account costs its own requests, so only a sample is read per cycle
+      const selectedIds = isLists
+        ? ids
+        : [...ids].sort(() => Math.random() - 0.5).slice(0, MAX_ACCOUNTS_PER_CYCLE);
+
+      console.log(`[Auto-Engage] Reading ${selectedIds.length} ${isLists ? 'list(s)' : 'target account(s)'} for agent ${agent.agentId}`);
+
+      const feedResult = await twitterAuthService.fetchFeedTweets(
+        userId,
+        selectedIds.map(id => ({ type: isLists ? 'list' as const : 'account' as const, id })),
+        FEED_RESULTS_PER_SOURCE
+      );
+
+      if (!feedResult.success || !feedResult.results) {
+        return {
+          success: false,
+          error: feedResult.error || 'Failed to read lists and target accounts'
+        };
+      }
+
+      if (feedResult.results.every(result => result.error)) {
+        return {
+          success: false,
+          error: `All ${isLists ? 'lists' : 'target accounts'} failed: ${feedResult.results[0].error}`
+        };
+      }
+
+      // Only reply to posts made within the freshness window, skipping their replies to others
+      const freshSince = Date.now() - (agent.autoEngageFreshnessMinutes || 180) * 60 * 1000;
+      const tweetsById = new Map<string, TimelineTweet>();
+
+      for (const result of feedResult.results) {
+        for (const tweet of result.tweets as TimelineTweet[]) {
+          const postedAt = tweet.createdAt ? new Date(tweet.createdAt).getTime() : NaN;
+          if (tweet.isReply || isNaN(postedAt) || postedAt < freshSince) {
+            continue;
+          }
+          if (!tweetsById.has(tweet.id)) {
+            tweetsById.set(tweet.id, tweet);
+          }
+        }
+      }
+
+      // Newest first, so the freshest posts get the first replies
+      const feedTweets = Array.from(tweetsById.values())
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+      console.log(`[Auto-Engage] Found ${feedTweets.length} fresh posts within ${agent.autoEngageFreshnessMinutes || 180} minutes`);
+
+      // Skips our own tweets, retweets and anything we've already replied to
+      const eligibleTweets = await this.basicFilter(feedTweets, agent.agentId, agent.twitterUsername);
+      const selectedTweets = eligibleTweets.slice(0, config.maxReplies * 2);
+
+      console.log(`[Auto-Engage] Selected ${selectedTweets.length} fresh posts as reply candidates`);
+
+      return {
+        success: true,
+        tweets: selectedTweets
+      };
+
+    } catch (error) {
+      console.error('[Auto-Engage] Error fetching list and account tweets:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
   /**
    * Basic filtering - only essential filters
    * 
@@ -119,8 +386,8 @@ export const autoEngageService = {
     agentId: string,
     agentTwitterUsername?: string
   ): Promise<TimelineTweet[]> {
-    // Get tweets we've already replied to or are in the process of replying to
-    // Include ALL statuses except 'failed' and 'rejected' to prevent duplicates
+    // Get tweets we've already replied to, queued for review, or rejected during review
+    // Include ALL statuses except 'failed' to prevent duplicates
     const existingReplies = await prisma.reply.findMany({
       where: {
         agentId,
@@ -128,7 +395,9 @@ export const autoEngageService = {
           in: [
             ReplyStatus.POSTED, 
             ReplyStatus.POSTING, 
-            ReplyStatus.PENDING
+            ReplyStatus.PENDING,
+            ReplyStatus.APPROVED,
+            ReplyStatus.REJECTED
           ] 
         }
       },
@@ -177,6 +446,7 @@ export const autoEngageService = {
     success: boolean;
     filteredTweets?: TimelineTweet[];
     qualityScores?: TweetQualityScore[];
+    allScores?: TweetQualityScore[];
     error?: string;
   }> {
     try {
@@ -195,7 +465,7 @@ export const autoEngageService = {
       // Configure filtering
       const filterConfig: FilterConfig = {
         minQualityScore: config.minQualityScore || 6,
-        categoryBlacklist: ['spam', 'crypto', 'engagement-bait', 'offensive'],
+        categoryBlacklist: CATEGORY_BLACKLIST,
         maxBatchSize: 5
       };
 
@@ -223,7 +493,8 @@ export const autoEngageService = {
       return {
         success: true,
         filteredTweets: filterResult.filteredTweets || [],
-        qualityScores: filterResult.scores || []
+        qualityScores: filterResult.scores || [],
+        allScores: filterResult.allScores || []
       };
 
     } catch (error) {
@@ -311,174 +582,363 @@ export const autoEngageService = {
   },
 
   /**
-   * Post replies sequentially
+   * Check how many replies the agent can still post this billing period
    * 
-   * @param agentId Agent ID
    * @param userId User ID
-   * @param tweets Original tweets
-   * @param replies Generated replies
-   * @returns Posting results
+   * @param agentId Agent ID
+   * @returns Current usage, monthly limit and remaining replies (the shared pool's on pooled plans)
    */
-  async postReplies(
-    agentId: string,
-    userId: string,
-    tweets: TimelineTweet[],
-    replies: Array<{ tweetId: string; replyText: string }>
-  ): Promise<{
+  async getReplyQuota(userId: string, agentId: string): Promise<{
     success: boolean;
-    posted?: number;
-    failed?: number;
+    used?: number;
+    limit?: number;
+    remaining?: number;
     error?: string;
   }> {
-    try {
-      console.log(`[Auto-Engage] Starting to post ${replies.length} replies for agent ${agentId}`);
-      
-      // Check reply usage limits before posting
-      const profile = await prisma.profile.findUnique({
-        where: { userId },
-        include: {
-          plan: {
-            select: {
-              maxRepliesPerAgent: true
-            }
-          }
-        }
-      });
+    const result = await quotaService.getAgentQuota(userId, agentId, 'reply');
 
-      if (!profile || !profile.plan) {
-        return {
-          success: false,
-          error: 'User profile or plan not found'
-        };
-      }
+    if (!result.success || !result.quota) {
+      return {
+        success: false,
+        error: result.error || 'User profile or plan not found'
+      };
+    }
 
-      const currentUsage = profile.repliesUsed;
-      const monthlyLimit = profile.plan.maxRepliesPerAgent;
-      const remaining = Math.max(0, monthlyLimit - currentUsage);
+    const { used, limit, remaining } = result.quota;
+    const pooled = result.mode === 'pooled';
 
-      console.log(`[Auto-Engage] Reply usage check: ${currentUsage}/${monthlyLimit} used, ${remaining} remaining`);
+    console.log(`[Auto-Engage] Reply usage check for agent ${agentId} (${pooled ? 'pooled' : 'per agent'}): ${used}/${limit} used, ${remaining} remaining`);
 
-      if (remaining === 0) {
-        return {
-          success: false,
-          error: `Monthly reply limit of ${monthlyLimit} reached. Upgrade to Standard plan for 200 replies/month.`
-        };
-      }
+    if (remaining === 0) {
+      await notificationService.create({
+        userId,
+        // Per-agent quotas run out independently, so dedupe per agent
+        agentId: pooled ? undefined : agentId,
+        type: 'quota_exhausted',
+        title: 'Monthly reply limit reached',
+        message: pooled
+          ? `Your agents have used all ${limit} replies for this billing period. Auto-engage will resume after your usage resets.`
+          : `This agent has used all ${limit} of its replies for this billing period. Auto-engage will resume after your usage resets.`,
+        dedupeWindowMinutes: 24 * 60
+      });
 
-      // Limit replies to what's available within the monthly quota
-      const repliesToPost = replies.slice(0, remaining);
-      const skippedDueToLimit = replies.length - repliesToPost.length;
+      return {
+        success: false,
+        used,
+        limit,
+        remaining,
+        error: pooled
+          ? `Monthly reply limit of ${limit} reached. Upgrade to Standard plan for 200 replies/month.`
+          : `Monthly reply limit of ${limit} for this agent reached. Upgrade to Standard plan for 200 replies/month.`
+      };
+    }
+
+    return { success: true, used, limit, remaining };
+  },
+
+  /**
+   * Log in to X for the agent, handling Cloudflare blocks and expired sessions
+   * 
+   * @param agentId Agent ID
+   * @param userId User ID
+   * @returns Logged-in scraper instance
+   */
+  async loginScraper(
+    agentId: string,
+    userId: string
+  ): Promise<{
+    success: boolean;
+    scraper?: Scraper;
+    error?: string;
+  }> {
+    const agent = await prisma.agent.findUnique({
+      where: { agentId },
+      include: {
+        twitterAuth: true
+      }
+    });
+    
+    if (!agent?.twitterAuth?.accessToken) {
+      return {
+        success: false,
+        error: 'Twitter authentication required'
+      };
+    }
+    
+    const scraper = new Scraper();
+    
+    // Check if login is successful and handle Cloudflare blocks
+    try {
+      await scraper.login(agent.twitterAuth.accessToken, agent.twitterAuth.accessSecret);
       
-      if (skippedDueToLimit > 0) {
-        console.log(`[Auto-Engage] Limiting to ${repliesToPost.length} replies due to monthly quota (${skippedDueToLimit} skipped)`);
+      // Verify login by checking if we can access basic account info
+      const loginVerification = await scraper.getProfile(agent.twitterAuth.username || 'me');
+      if (!loginVerification) {
+        throw new Error('Login verification failed - session may be expired');
       }
       
-      const agent = await prisma.agent.findUnique({
-        where: { agentId },
-        include: {
-          twitterAuth: true
-        }
-      });
+      return { success: true, scraper };
       
-      if (!agent?.twitterAuth?.accessToken) {
+    } catch (loginError: any) {
+      const errorMessage = loginError.message || String(loginError);
+      
+      // Check for Cloudflare blocks
+      if (errorMessage.includes('<!DOCTYPE html>') && errorMessage.includes('Cloudflare')) {
+        console.error('[Auto-Engage] Twitter login blocked by Cloudflare bot protection');
+        
+        // Notify user about the issue
+        await this.createUserNotification(
+          userId,
+          agentId,
+          'cloudflare_block',
+          'Auto-engage temporarily blocked by X. System will retry automatically in 30 minutes.'
+        );
+        
         return {
           success: false,
-          error: 'Twitter authentication required'
+          error: 'Twitter access temporarily blocked. Please try again in 15-30 minutes or re-authenticate your X account.'
         };
       }
       
-      const scraper = new Scraper();
-      
-      // Check if login is successful and handle Cloudflare blocks
-      try {
-        await scraper.login(agent.twitterAuth.accessToken, agent.twitterAuth.accessSecret);
-        
-        // Verify login by checking if we can access basic account info
-        const loginVerification = await scraper.getProfile(agent.twitterAuth.username || 'me');
-        if (!loginVerification) {
-          throw new Error('Login verification failed - session may be expired');
-        }
-        
-      } catch (loginError: any) {
-        const errorMessage = loginError.message || String(loginError);
+      // Check for authentication errors
+      if (errorMessage.includes('401') || errorMessage.includes('authentication') || errorMessage.includes('unauthorized')) {
+        console.error('[Auto-Engage] Twitter authentication expired or invalid');
         
-                 // Check for Cloudflare blocks
-         if (errorMessage.includes('<!DOCTYPE html>') && errorMessage.includes('Cloudflare')) {
-           console.error('[Auto-Engage] Twitter login blocked by Cloudflare bot protection');
-           
-           // Notify user about the issue
-           await this.createUserNotification(
-             userId,
-             agentId,
-             'cloudflare_block',
-             'Auto-engage temporarily blocked by X. System will retry automatically in 30 minutes.'
-           );
-           
-           return {
-             success: false,
-             error: 'Twitter access temporarily blocked. Please try again in 15-30 minutes or re-authenticate your X account.',
-             posted: 0,
-             failed: replies.length
-           };
-         }
-         
-         // Check for authentication errors
-         if (errorMessage.includes('401') || errorMessage.includes('authentication') || errorMessage.includes('unauthorized')) {
-           console.error('[Auto-Engage] Twitter authentication expired or invalid');
-           
-           // Notify user about expired authentication
-           await this.createUserNotification(
-             userId,
-             agentId,
-             'auth_expired',
-             'X account authentication expired. Please reconnect your X account in agent settings.'
-           );
-           
-           return {
-             success: false,
-             error: 'X account authentication expired. Please reconnect your X account in the agent settings.',
-             posted: 0,
-             failed: replies.length
-           };
-         }
+        // Notify user about expired authentication
+        await this.createUserNotification(
+          userId,
+          agentId,
+          'auth_expired',
+          'X account authentication expired. Please reconnect your X account in agent settings.'
+        );
         
-        // General login error
-        console.error('[Auto-Engage] Twitter login failed:', errorMessage);
         return {
           success: false,
-          error: 'Unable to connect to X. Please check your account connection and try again.',
-          posted: 0,
-          failed: replies.length
+          error: 'X account authentication expired. Please reconnect your X account in the agent settings.'
         };
       }
       
-      let posted = 0;
-      let failed = 0;
+      // General login error
+      console.error('[Auto-Engage] Twitter login failed:', errorMessage);
       
-      for (const reply of repliesToPost) {
-        try {
-          const matchingTweet = tweets.find(t => t.id === reply.tweetId);
-          if (!matchingTweet) {
-            console.warn(`[Auto-Engage] No matching tweet found for reply ${reply.tweetId}`);
-            failed++;
-            continue;
-          }
-          
-          // Save reply to database first
-          let savedReply;
-          try {
-            savedReply = await prisma.reply.create({
-              data: {
-                agentId,
-                originalTweetId: reply.tweetId,
-                originalTweetText: matchingTweet.text.substring(0, 500),
-                originalTweetUser: matchingTweet.user.screenName,
-                replyText: reply.replyText,
-                status: ReplyStatus.POSTING,
-                score: 0,
-                confidence: 0.8
-              }
-            });
+      await this.createUserNotification(
+        userId,
+        agentId,
+        'connection_error',
+        'Auto-engage could not connect to X. Check your account connection in agent settings.'
+      );
+      
+      return {
+        success: false,
+        error: 'Unable to connect to X. Please check your account connection and try again.'
+      };
+    }
+  },
+
+  /**
+   * Send a saved reply to X and record the outcome
+   * 
+   * The caller must already own the reply in `posting` (created that way, or claimed with
+   * claimApprovedReply), so no other run can send it at the same time
+   * 
+   * @param scraper Logged-in scraper
+   * @param agentId Agent ID (for usage tracking)
+   * @param userId User ID (for usage tracking)
+   * @param reply Saved reply row
+   * @returns True if the reply was posted
+   */
+  async sendReply(
+    scraper: Scraper,
+    agentId: string,
+    userId: string,
+    reply: ApprovedReply
+  ): Promise<boolean> {
+    const replyResponse = await scraper.sendTweet(reply.replyText, reply.originalTweetId);
+    
+    if (!replyResponse) {
+      // Update to failed
+      await prisma.reply.update({
+        where: { replyId: reply.replyId },
+        data: { status: ReplyStatus.FAILED, leaseExpiresAt: null }
+      });
+      
+      console.error(`[Auto-Engage] Failed to post reply to tweet ${reply.originalTweetId}`);
+      return false;
+    }
+
+    // Extract reply ID if possible
+    let twitterReplyId: string | null = null;
+    try {
+      const responseData = await replyResponse.json();
+      twitterReplyId = responseData?.data?.create_tweet?.tweet_results?.result?.rest_id;
+    } catch (parseError) {
+      console.warn('[Auto-Engage] Could not parse reply ID from response');
+    }
+    
+    // Update to posted
+    await prisma.reply.update({
+      where: { replyId: reply.replyId },
+      data: { 
+        status: ReplyStatus.POSTED,
+        postedTime: new Date(),
+        leaseExpiresAt: null,
+        twitterReplyId
+      }
+    });
+    
+    // Record the reply against the user's monthly quota
+    await usageService.record({
+      userId,
+      agentId,
+      kind: 'reply',
+      replyId: reply.replyId
+    });
+    
+    return true;
+  },
+
+  /**
+   * Claim an approved reply for posting by moving it to `posting` under a lease, only if it is still approved
+   * 
+   * @param replyId Reply ID
+   * @returns False when another run already claimed it (or it was edited or rejected meanwhile)
+   */
+  async claimApprovedReply(replyId: string): Promise<boolean> {
+    const claimed = await prisma.reply.updateMany({
+      where: { replyId, status: ReplyStatus.APPROVED },
+      data: { status: ReplyStatus.POSTING, leaseExpiresAt: getReplyLeaseExpiry() }
+    });
+
+    return claimed.count > 0;
+  },
+
+  /**
+   * Mark a reply that errored mid-post as failed, so it doesn't stay in `posting`
+   * 
+   * @param replyId Reply ID
+   */
+  async failPostingReply(replyId: string): Promise<void> {
+    await prisma.reply.updateMany({
+      where: { replyId, status: ReplyStatus.POSTING },
+      data: { status: ReplyStatus.FAILED, leaseExpiresAt: null }
+    }).catch(error => {
+      console.error(`[Auto-Engage] Could not mark reply ${replyId} as failed:`, error);
+    });
+  },
+
+  /**
+   * Fail replies left in `posting` by a run that died mid-post, so they can be edited,
+   * retried or deleted from the reply inbox again
+   * 
+   * The reply may or may not have reached X, so it is never posted again automatically
+   * 
+   * @returns Number of replies recovered
+   */
+  async recoverExpiredReplyLeases(): Promise<number> {
+    const now = new Date();
+    const leaseCutoff = new Date(now.getTime() - REPLY_LEASE_MINUTES * 60 * 1000);
+
+    const recovered = await prisma.reply.updateMany({
+      where: {
+        status: ReplyStatus.POSTING,
+        OR: [
+          { leaseExpiresAt: { lt: now } },
+          { leaseExpiresAt: null, updatedAt: { lt: leaseCutoff } } // Claimed before leases existed
+        ]
+      },
+      data: { status: ReplyStatus.FAILED, leaseExpiresAt: null }
+    });
+
+    if (recovered.count > 0) {
+      console.log(`[Auto-Engage] Marked ${recovered.count} reply(s) stuck in posting as failed`);
+    }
+
+    return recovered.count;
+  },
+
+  /**
+   * Post replies sequentially
+   * 
+   * @param agentId Agent ID
+   * @param userId User ID
+   * @param tweets Original tweets
+   * @param replies Generated replies
+   * @param qualityScores Quality scores for the original tweets, stored with each reply
+   * @returns Posting results
+   */
+  async postReplies(
+    agentId: string,
+    userId: string,
+    tweets: TimelineTweet[],
+    replies: Array<{ tweetId: string; replyText: string }>,
+    qualityScores: TweetQualityScore[] = []
+  ): Promise<{
+    success: boolean;
+    posted?: number;
+    failed?: number;
+    error?: string;
+  }> {
+    try {
+      console.log(`[Auto-Engage] Starting to post ${replies.length} replies for agent ${agentId}`);
+      
+      // Check reply usage limits before posting
+      const quota = await this.getReplyQuota(userId, agentId);
+
+      if (!quota.success) {
+        return {
+          success: false,
+          error: quota.error
+        };
+      }
+
+      // Limit replies to what's available within the monthly quota
+      const repliesToPost = replies.slice(0, quota.remaining);
+      const skippedDueToLimit = replies.length - repliesToPost.length;
+      
+      if (skippedDueToLimit > 0) {
+        console.log(`[Auto-Engage] Limiting to ${repliesToPost.length} replies due to monthly quota (${skippedDueToLimit} skipped)`);
+      }
+      
+      const login = await this.loginScraper(agentId, userId);
+      
+      if (!login.success || !login.scraper) {
+        return {
+          success: false,
+          error: login.error,
+          posted: 0,
+          failed: replies.length
+        };
+      }
+      
+      let posted = 0;
+      let failed = 0;
+      
+      for (const reply of repliesToPost) {
+        let savedReply;
+
+        try {
+          const matchingTweet = tweets.find(t => t.id === reply.tweetId);
+          if (!matchingTweet) {
+            console.warn(`[Auto-Engage] No matching tweet found for reply ${reply.tweetId}`);
+            failed++;
+            continue;
+          }
+          
+          // Save reply to database first
+          try {
+            savedReply = await prisma.reply.create({
+              data: {
+                agentId,
+                originalTweetId: reply.tweetId,
+                originalTweetText: matchingTweet.text.substring(0, 500),
+                originalTweetUser: matchingTweet.user.screenName,
+                replyText: reply.replyText,
+                status: ReplyStatus.POSTING,
+                leaseExpiresAt: getReplyLeaseExpiry(),
+                score: qualityScores.find(score => score.tweetId === reply.tweetId)?.score ?? 0,
+                confidence: 0.8
+              }
+            });
           } catch (error: any) {
             // Handle unique constraint violation gracefully
             if (error.code === 'P2002' && error.meta?.target?.includes('agent_id') && error.meta?.target?.includes('original_tweet_id')) {
@@ -489,49 +949,11 @@ export const autoEngageService = {
           }
           
           // Post the reply
-          const replyResponse = await scraper.sendTweet(reply.replyText, reply.tweetId);
-          
-          if (replyResponse) {
-            // Extract reply ID if possible
-            let twitterReplyId: string | null = null;
-            try {
-              const responseData = await replyResponse.json();
-              twitterReplyId = responseData?.data?.create_tweet?.tweet_results?.result?.rest_id;
-            } catch (parseError) {
-              console.warn('[Auto-Engage] Could not parse reply ID from response');
-            }
-            
-            // Update to posted
-            await prisma.reply.update({
-              where: { replyId: savedReply.replyId },
-              data: { 
-                status: ReplyStatus.POSTED,
-                postedTime: new Date(),
-                twitterReplyId
-              }
-            });
-            
-            // Increment reply usage counter
-            await prisma.profile.update({
-              where: { userId },
-              data: {
-                repliesUsed: {
-                  increment: 1
-                }
-              }
-            });
-            
+          if (await this.sendReply(login.scraper, agentId, userId, savedReply)) {
             posted++;
-            console.log(`[Auto-Engage] Posted reply to tweet ${reply.tweetId} - usage now: ${currentUsage + posted}/${monthlyLimit}`);
+            console.log(`[Auto-Engage] Posted reply to tweet ${reply.tweetId} - usage now: ${quota.used! + posted}/${quota.limit}`);
           } else {
-            // Update to failed
-            await prisma.reply.update({
-              where: { replyId: savedReply.replyId },
-              data: { status: ReplyStatus.FAILED }
-            });
-            
             failed++;
-            console.error(`[Auto-Engage] Failed to post reply to tweet ${reply.tweetId}`);
           }
           
           // Delay between posts to avoid rate limiting
@@ -540,6 +962,10 @@ export const autoEngageService = {
         } catch (error) {
           failed++;
           console.error(`[Auto-Engage] Error posting reply to tweet ${reply.tweetId}:`, error);
+
+          if (savedReply) {
+            await this.failPostingReply(savedReply.replyId);
+          }
         }
       }
       
@@ -560,6 +986,428 @@ export const autoEngageService = {
     }
   },
 
+  /**
+   * Like, retweet and quote tweet scored tweets that clear the agent's thresholds, within its daily caps
+   * 
+   * @param agent Agent configuration
+   * @param userId User ID
+   * @param tweets Tweets fetched this cycle
+   * @param scores Quality scores for every assessed tweet
+   * @returns Counts of likes, retweets and quote tweets given and actions that failed
+   */
+  async performEngagementActions(
+    agent: any,
+    userId: string,
+    tweets: TimelineTweet[],
+    scores: TweetQualityScore[]
+  ): Promise<{
+    success: boolean;
+    liked?: number;
+    retweeted?: number;
+    quoted?: number;
+    failed?: number;
+    error?: string;
+  }> {
+    const limits: Record<EngagementAction, { enabled: boolean; minScore: number; dailyCap: number }> = {
+      [EngagementAction.like]: {
+        enabled: agent.autoEngageLikeEnabled,
+        minScore: agent.autoEngageLikeMinScore,
+        dailyCap: agent.autoEngageMaxDailyLikes
+      },
+      [EngagementAction.retweet]: {
+        enabled: agent.autoEngageRetweetEnabled,
+        minScore: agent.autoEngageRetweetMinScore,
+        dailyCap: agent.autoEngageMaxDailyRetweets
+      },
+      [EngagementAction.quote]: {
+        enabled: agent.autoEngageQuoteEnabled,
+        minScore: agent.autoEngageQuoteMinScore,
+        dailyCap: agent.autoEngageMaxDailyQuotes
+      }
+    };
+    const actions = Object.values(EngagementAction).filter(action => limits[action].enabled);
+
+    if (actions.length === 0) {
+      return { success: true, liked: 0, retweeted: 0, quoted: 0, failed: 0 };
+    }
+
+    // Likes, retweets and quotes are driven by the quality scores, so they need the LLM filter
+    if (scores.length === 0) {
+      console.log(`[Auto-Engage] No quality scores for agent ${agent.agentId}, skipping likes, retweets and quotes`);
+      return { success: true, liked: 0, retweeted: 0, quoted: 0, failed: 0 };
+    }
+
+    try {
+      const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+      const [existing, todayCounts] = await Promise.all([
+        prisma.engagement.findMany({
+          where: { agentId: agent.agentId, tweetId: { in: scores.map(score => score.tweetId) } },
+          select: { tweetId: true, action: true }
+        }),
+        prisma.engagement.groupBy({
+          by: ['action'],
+          where: { agentId: agent.agentId, status: 'done', createdAt: { gte: dayAgo } },
+          _count: { action: true }
+        })
+      ]);
+
+      const alreadyDone = new Set(existing.map(engagement => `${engagement.action}:${engagement.tweetId}`));
+      const planned: Array<{ action: EngagementAction; score: TweetQualityScore }> = [];
+
+      for (const action of actions) {
+        const { minScore, dailyCap } = limits[action];
+        const usedToday = todayCounts.find(group => group.action === action)?._count.action || 0;
+
+        const candidates = scores
+          .filter(score =>
+            score.score >= minScore &&
+            !score.flags.some(flag => CATEGORY_BLACKLIST.includes(flag)) &&
+            !alreadyDone.has(`${action}:${score.tweetId}`) &&
+            // Retweeting and quoting the same tweet would show it twice on the agent's profile
+            !(action === EngagementAction.quote && (
+              alreadyDone.has(`${EngagementAction.retweet}:${score.tweetId}`) ||
+              planned.some(item => item.action === EngagementAction.retweet && item.score.tweetId === score.tweetId)
+            ))
+          )
+          .sort((a, b) => b.score - a.score)
+          .slice(0, Math.max(0, dailyCap - usedToday));
+
+        if (usedToday >= dailyCap) {
+          console.log(`[Auto-Engage] Daily ${action} cap of ${dailyCap} reached for agent ${agent.agentId}`);
+        }
+
+        planned.push(...candidates.map(score => ({ action, score })));
+      }
+
+      if (planned.length === 0) {
+        return { success: true, liked: 0, retweeted: 0, quoted: 0, failed: 0 };
+      }
+
+      const login = await this.loginScraper(agent.agentId, userId);
+
+      if (!login.success || !login.scraper) {
+        return {
+          success: false,
+          error: login.error,
+          liked: 0,
+          retweeted: 0,
+          quoted: 0,
+          failed: planned.length
+        };
+      }
+
+      let liked = 0;
+      let retweeted = 0;
+      let quoted = 0;
+      let failed = 0;
+
+      for (const { action, score } of planned) {
+        let error: string | null = null;
+        const tweet = tweets.find(item => item.id === score.tweetId);
+
+        try {
+          if (action === EngagementAction.like) {
+            await login.scraper.likeTweet(score.tweetId);
+            liked++;
+          } else if (action === EngagementAction.retweet) {
+            await login.scraper.retweet(score.tweetId);
+            retweeted++;
+          } else {
+            await this.postQuoteTweet(agent.agentId, userId, score.tweetId, tweet);
+            quoted++;
+          }
+          console.log(`[Auto-Engage] ${ENGAGEMENT_ACTION_LABELS[action]} tweet ${score.tweetId} (score ${score.score})`);
+        } catch (actionError) {
+          failed++;
+          error = actionError instanceof Error ? actionError.message : String(actionError);
+          console.error(`[Auto-Engage] Failed to ${action} tweet ${score.tweetId}:`, actionError);
+        }
+
+        try {
+          await prisma.engagement.create({
+            data: {
+              agentId: agent.agentId,
+              action,
+              status: error ? 'failed' : 'done',
+              tweetId: score.tweetId,
+              tweetUser: tweet?.user.screenName,
+              score: score.score,
+              error
+            }
+          });
+        } catch (logError: any) {
+          // Another cycle got to the same tweet first
+          if (logError.code !== 'P2002') {
+            console.error(`[Auto-Engage] Failed to log ${action} of tweet ${score.tweetId}:`, logError);
+          }
+        }
+
+        // Delay between actions to avoid rate limiting
+        await new Promise(resolve => setTimeout(resolve, 1500));
+      }
+
+      console.log(`[Auto-Engage] Engagement actions completed: ${liked} liked, ${retweeted} retweeted, ${quoted} quoted, ${failed} failed`);
+
+      return {
+        success: true,
+        liked,
+        retweeted,
+        quoted,
+        failed
+      };
+
+    } catch (error) {
+      console.error('[Auto-Engage] Error performing likes, retweets and quotes:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
+  /**
+   * Write commentary on a tweet in the agent's voice and post it as a quote tweet.
+   * Posting goes through the agent tweet service, so it counts against the tweet quota.
+   * 
+   * @param agentId Agent ID
+   * @param userId User ID
+   * @param tweetId ID of the tweet to quote
+   * @param tweet The tweet from this cycle's fetch, if available
+   * @throws Error when generation or posting fails
+   */
+  async postQuoteTweet(agentId: string, userId: string, tweetId: string, tweet?: TimelineTweet): Promise<void> {
+    const generation = await agentTweetService.generateQuoteTweet({
+      agentId,
+      userId,
+      quotedTweetId: tweetId,
+      quotedTweet: tweet ? { text: tweet.text, username: tweet.user.screenName } : undefined
+    });
+
+    if (!generation.success || !generation.tweet) {
+      throw new Error(generation.error || 'Failed to generate quote tweet');
+    }
+
+    const postResult = await agentTweetService.postTweet({
+      agentId,
+      userId,
+      text: generation.tweet.text,
+      quotedTweetId: tweetId
+    });
+
+    if (!postResult.success) {
+      throw new Error(postResult.error || 'Failed to post quote tweet');
+    }
+  },
+
+  /**
+   * Save generated replies as pending so they can be reviewed in the reply inbox
+   * 
+   * @param agentId Agent ID
+   * @param tweets Original tweets
+   * @param replies Generated replies
+   * @param qualityScores Quality scores from the LLM filter (if any)
+   * @returns Number of replies queued
+   */
+  async queueRepliesForReview(
+    agentId: string,
+    tweets: TimelineTweet[],
+    replies: Array<{ tweetId: string; replyText: string }>,
+    qualityScores: TweetQualityScore[] = []
+  ): Promise<{
+    success: boolean;
+    queued?: number;
+    error?: string;
+  }> {
+    try {
+      console.log(`[Auto-Engage] Queueing ${replies.length} replies for review for agent ${agentId}`);
+      
+      let queued = 0;
+      
+      for (const reply of replies) {
+        const matchingTweet = tweets.find(t => t.id === reply.tweetId);
+        if (!matchingTweet) {
+          console.warn(`[Auto-Engage] No matching tweet found for reply ${reply.tweetId}`);
+          continue;
+        }
+        
+        const qualityScore = qualityScores.find(score => score.tweetId === reply.tweetId);
+        
+        try {
+          await prisma.reply.create({
+            data: {
+              agentId,
+              originalTweetId: reply.tweetId,
+              originalTweetText: matchingTweet.text.substring(0, 500),
+              originalTweetUser: matchingTweet.user.screenName,
+              replyText: reply.replyText,
+              status: ReplyStatus.PENDING,
+              score: qualityScore?.score ?? 0,
+              confidence: 0.8
+            }
+          });
+          queued++;
+        } catch (error: any) {
+          // Handle unique constraint violation gracefully
+          if (error.code === 'P2002') {
+            console.log(`[Auto-Engage] Skipping duplicate reply for tweet ${reply.tweetId} - already exists`);
+            continue;
+          }
+          throw error;
+        }
+      }
+      
+      console.log(`[Auto-Engage] Queued ${queued} replies for review`);
+      
+      return {
+        success: true,
+        queued
+      };
+      
+    } catch (error) {
+      console.error('[Auto-Engage] Error queueing replies for review:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
+  /**
+   * Post replies that were approved in the reply inbox
+   * 
+   * @param agentId Agent ID
+   * @param userId User ID
+   * @param replies Approved replies that are due
+   * @returns Posting results
+   */
+  async postApprovedReplies(
+    agentId: string,
+    userId: string,
+    replies: ApprovedReply[]
+  ): Promise<{
+    success: boolean;
+    posted?: number;
+    failed?: number;
+    error?: string;
+  }> {
+    try {
+      console.log(`[Auto-Engage] Posting ${replies.length} approved replies for agent ${agentId}`);
+      
+      // Approved replies stay approved when over quota so they go out after the next reset
+      const quota = await this.getReplyQuota(userId, agentId);
+
+      if (!quota.success) {
+        return {
+          success: false,
+          error: quota.error
+        };
+      }
+
+      const login = await this.loginScraper(agentId, userId);
+      
+      if (!login.success || !login.scraper) {
+        // Push the approved replies back so a blocked or expired session isn't retried every minute
+        await prisma.reply.updateMany({
+          where: { replyId: { in: replies.map(reply => reply.replyId) } },
+          data: { scheduledTime: new Date(Date.now() + 30 * 60 * 1000) }
+        });
+        
+        return {
+          success: false,
+          error: login.error,
+          posted: 0,
+          failed: 0
+        };
+      }
+
+      let posted = 0;
+      let failed = 0;
+
+      for (const reply of replies.slice(0, quota.remaining)) {
+        try {
+          // Another run (or instance) may have picked the reply up since it was listed
+          if (!(await this.claimApprovedReply(reply.replyId))) {
+            console.log(`[Auto-Engage] Skipping approved reply ${reply.replyId}, already claimed or changed`);
+            continue;
+          }
+
+          if (await this.sendReply(login.scraper, agentId, userId, reply)) {
+            posted++;
+            console.log(`[Auto-Engage] Posted approved reply ${reply.replyId} to tweet ${reply.originalTweetId}`);
+          } else {
+            failed++;
+          }
+          
+          // Delay between posts to avoid rate limiting
+          await new Promise(resolve => setTimeout(resolve, 2000));
+          
+        } catch (error) {
+          failed++;
+          console.error(`[Auto-Engage] Error posting approved reply ${reply.replyId}:`, error);
+          
+          await this.failPostingReply(reply.replyId);
+        }
+      }
+
+      return {
+        success: true,
+        posted,
+        failed
+      };
+      
+    } catch (error) {
+      console.error('[Auto-Engage] Error posting approved replies:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
+  /**
+   * Claim an agent's auto-engage cycle so only one instance runs it at a time
+   *
+   * The agent row is locked with SKIP LOCKED, so an instance racing for the same agent gives up
+   * instead of waiting, and the lease then holds the agent until the cycle is released
+   *
+   * @param agentId Agent ID
+   * @param requireDue Only claim when the agent's auto-engage interval has passed (scheduled runs)
+   * @returns true when this caller owns the cycle and must release it
+   */
+  async claimCycle(agentId: string, requireDue: boolean): Promise<boolean> {
+    const claimed = await prisma.$queryRaw<{ agent_id: string }[]>`
+      UPDATE agents
+      SET auto_engage_lease_expires_at = now() + ${CYCLE_LEASE_MINUTES}::int * interval '1 minute'
+      WHERE agent_id = (
+        SELECT agent_id FROM agents
+        WHERE agent_id = ${agentId}::uuid
+          AND (auto_engage_lease_expires_at IS NULL OR auto_engage_lease_expires_at < now())
+          AND (
+            ${requireDue} = false
+            OR last_auto_engage_time IS NULL
+            OR last_auto_engage_time + auto_engage_frequency_hours * interval '1 hour' <= now() + interval '5 seconds'
+          )
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING agent_id
+    `;
+
+    return claimed.length > 0;
+  },
+
+  /**
+   * Release a claimed auto-engage cycle
+   *
+   * @param agentId Agent ID
+   */
+  async releaseCycle(agentId: string): Promise<void> {
+    await prisma.agent.update({
+      where: { agentId },
+      data: { autoEngageLeaseExpiresAt: null }
+    });
+  },
+
   /**
    * Run simplified auto-engage cycle
    * 
@@ -578,6 +1426,10 @@ export const autoEngageService = {
       repliesGenerated: number;
       repliesPosted: number;
       repliesFailed: number;
+      repliesQueued: number;
+      likesGiven: number;
+      retweetsGiven: number;
+      quotesGiven: number;
       qualityScores: TweetQualityScore[];
     };
     error?: string;
@@ -612,8 +1464,8 @@ export const autoEngageService = {
         minQualityScore: getQualityScoreFromStrictness(agent.autoEngageStrictnessLevel || 2)
       };
       
-      // Step 1: Fetch timeline tweets
-      const fetchResult = await this.fetchTimelineTweets(userId, agent, config);
+      // Step 1: Fetch tweets from the agent's engagement source (timeline, saved searches, lists or target accounts)
+      const fetchResult = await this.fetchEngageTweets(userId, agent, config);
       
       if (!fetchResult.success || !fetchResult.tweets) {
         return {
@@ -642,13 +1494,40 @@ export const autoEngageService = {
         };
       }
       
-      // Step 4: Post all replies sequentially
-      const postResult = await this.postReplies(
-        agentId,
+      // Step 4: Post all replies sequentially, or hold them for review when auto-reply is off
+      let postResult: { success: boolean; posted?: number; failed?: number; error?: string } = { success: true };
+      let queuedCount = 0;
+      
+      if (agent.autoEngageAutoReply) {
+        postResult = await this.postReplies(
+          agentId,
+          userId,
+          filterResult.filteredTweets,
+          replyResult.replies,
+          filterResult.qualityScores
+        );
+      } else {
+        const queueResult = await this.queueRepliesForReview(
+          agentId,
+          filterResult.filteredTweets,
+          replyResult.replies,
+          filterResult.qualityScores
+        );
+        postResult = { success: queueResult.success, error: queueResult.error };
+        queuedCount = queueResult.queued || 0;
+      }
+      
+      // Step 5: Like, retweet and quote the tweets that scored above the agent's thresholds
+      const actionResult = await this.performEngagementActions(
+        agent,
         userId,
-        filterResult.filteredTweets,
-        replyResult.replies
+        fetchResult.tweets,
+        filterResult.allScores || []
       );
+
+      if (!actionResult.success) {
+        console.warn(`[Auto-Engage] Likes, retweets and quotes failed for agent ${agentId}: ${actionResult.error}`);
+      }
       
       // Always update lastAutoEngageTime to prevent rapid retries, regardless of posting success
       // This prevents the agent from being picked up again immediately on the next cron cycle
@@ -663,6 +1542,10 @@ export const autoEngageService = {
         repliesGenerated: replyResult.replies.length,
         repliesPosted: postResult.posted || 0,
         repliesFailed: postResult.failed || 0,
+        repliesQueued: queuedCount,
+        likesGiven: actionResult.liked || 0,
+        retweetsGiven: actionResult.retweeted || 0,
+        quotesGiven: actionResult.quoted || 0,
         qualityScores: filterResult.qualityScores || []
       };
       
@@ -700,24 +1583,18 @@ export const autoEngageService = {
     type: 'cloudflare_block' | 'auth_expired' | 'connection_error',
     message: string
   ): Promise<void> {
-    try {
-      // Store notification in database (you might want to create a notifications table)
-      // For now, we'll log it and could extend this to email/dashboard notifications
-      console.log(`[Auto-Engage] Notification for user ${userId}: ${message}`);
-      
-      // Update agent status to reflect the issue
-      await prisma.agent.update({
-        where: { agentId },
-        data: {
-          // You could add a status field or notes field to track issues
-          status: type === 'auth_expired' ? 'disconnected' : 'running'
-        }
-      });
-      
-      // Future: Send email notification, dashboard alert, etc.
-      
-    } catch (error) {
-      console.error('[Auto-Engage] Failed to create user notification:', error);
-    }
+    const titles = {
+      cloudflare_block: 'Auto-engage paused by X',
+      auth_expired: 'X account disconnected',
+      connection_error: 'Could not connect to X'
+    };
+
+    await notificationService.create({
+      userId,
+      agentId,
+      type,
+      title: titles[type],
+      message
+    });
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,368 @@
+/**
+ * Auto-Follow Service
+ *
+ * Opt-in organic growth: follows people who engage with the agent and followers of its
+ * target accounts under a strict daily cap, then checks who followed back
+ */
+
+import prisma from '../db/utils/dbClient';
+import { autoEngageService } from './auto-engage-service';
+import { Scraper } from '../scraper';
+import { SearchMode } from '../search';
+import { FollowSource, FollowStatus } from '@prisma/client';
+
+// An agent's follow cycle runs at most this often, so follows trickle out over the day
+export const AUTO_FOLLOW_INTERVAL_HOURS = 2;
+
+// Follows per cycle, on top of the agent's daily cap
+const MAX_FOLLOWS_PER_CYCLE = 5;
+
+// Replies to the agent read per cycle, and target accounts (sampled at random) whose followers are read
+const ENGAGER_SEARCH_RESULTS = 50;
+const TARGET_ACCOUNTS_PER_CYCLE = 2;
+const FOLLOWERS_PER_TARGET = 20;
+
+// Follow-backs are matched against the agent's newest followers, newest first
+const FOLLOWER_PAGE_SIZE = 100;
+const MAX_FOLLOWERS_TO_SCAN = 1000;
+
+const FOLLOW_DELAY_MS = 3000;
+
+interface FollowCandidate {
+  twitterUserId: string;
+  username: string;
+  source: FollowSource;
+  sourceRef?: string;
+}
+
+export interface FollowStats {
+  followed: number;
+  followedBack: number;
+  notFollowedBack: number;
+  awaitingCheck: number;
+  failed: number;
+  followBackRate: number | null;
+}
+
+/**
+ * Auto-Follow Service
+ */
+export const autoFollowService = {
+  /**
+   * Run one auto-follow cycle: record follow-backs, then follow new candidates within the caps
+   *
+   * @param agentId Agent ID
+   * @param userId User ID
+   * @returns Counts of follows made and follow-backs checked
+   */
+  async runAutoFollowCycle(agentId: string, userId: string): Promise<{
+    success: boolean;
+    results?: {
+      followed: number;
+      failed: number;
+      checked: number;
+      followedBack: number;
+    };
+    error?: string;
+  }> {
+    try {
+      const agent = await prisma.agent.findUnique({
+        where: { agentId, userId },
+        include: { twitterAuth: true }
+      });
+
+      if (!agent) {
+        return { success: false, error: 'Agent not found' };
+      }
+
+      if (!agent.autoFollowEnabled) {
+        return { success: false, error: 'Auto-follow is disabled for this agent' };
+      }
+
+      // Mark the cycle as started so a failing agent isn't retried on every scheduler tick
+      await prisma.agent.update({
+        where: { agentId },
+        data: { lastAutoFollowTime: new Date() }
+      });
+
+      const login = await autoEngageService.loginScraper(agentId, userId);
+
+      if (!login.success || !login.scraper) {
+        return { success: false, error: login.error || 'X login failed' };
+      }
+
+      const scraper = login.scraper;
+      const me = agent.twitterAuth?.twitterUserId && agent.twitterAuth?.twitterScreenName
+        ? { userId: agent.twitterAuth.twitterUserId, username: agent.twitterAuth.twitterScreenName }
+        : await scraper.me();
+
+      if (!me?.userId || !me.username) {
+        return { success: false, error: 'Could not determine the agent\'s X account' };
+      }
+
+      // Step 1: Follow-backs for follows old enough to judge
+      const checkResult = await this.checkFollowBacks(agentId, scraper, me.userId, agent.autoFollowCheckAfterDays);
+
+      // Step 2: Work out how many follows are left today
+      const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      const followedToday = await prisma.follow.count({
+        where: {
+          agentId,
+          status: { not: FollowStatus.failed },
+          createdAt: { gte: dayAgo }
+        }
+      });
+
+      const allowance = Math.min(MAX_FOLLOWS_PER_CYCLE, agent.autoFollowMaxDaily - followedToday);
+
+      if (allowance <= 0) {
+        console.log(`[Auto-Follow] Daily follow cap of ${agent.autoFollowMaxDaily} reached for agent ${agentId}`);
+        return {
+          success: true,
+          results: { followed: 0, failed: 0, ...checkResult }
+        };
+      }
+
+      // Step 3: Pick candidates the agent has never followed
+      const candidates = await this.findCandidates(agent, scraper, me, allowance);
+
+      // Step 4: Follow them one at a time
+      let followed = 0;
+      let failed = 0;
+
+      for (const candidate of candidates) {
+        let error: string | null = null;
+
+        try {
+          await scraper.followUser(candidate.username);
+          followed++;
+          console.log(`[Auto-Follow] Agent ${agentId} followed @${candidate.username} (${candidate.source})`);
+        } catch (followError) {
+          failed++;
+          error = followError instanceof Error ? followError.message : String(followError);
+          console.error(`[Auto-Follow] Failed to follow @${candidate.username} for agent ${agentId}:`, followError);
+        }
+
+        try {
+          await prisma.follow.create({
+            data: {
+              agentId,
+              twitterUserId: candidate.twitterUserId,
+              username: candidate.username,
+              source: candidate.source,
+              sourceRef: candidate.sourceRef,
+              status: error ? FollowStatus.failed : FollowStatus.following,
+              error
+            }
+          });
+        } catch (logError: any) {
+          // Another cycle got to the same account first
+          if (logError.code !== 'P2002') {
+            console.error(`[Auto-Follow] Failed to log follow of @${candidate.username}:`, logError);
+          }
+        }
+
+        // Delay between follows to avoid rate limiting
+        await new Promise(resolve => setTimeout(resolve, FOLLOW_DELAY_MS));
+      }
+
+      console.log(`[Auto-Follow] Cycle completed for agent ${agentId}: ${followed} followed, ${failed} failed, ${checkResult.followedBack}/${checkResult.checked} followed back`);
+
+      return {
+        success: true,
+        results: { followed, failed, ...checkResult }
+      };
+
+    } catch (error) {
+      console.error(`[Auto-Follow] Error in cycle for agent ${agentId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
+  /**
+   * Mark follows made at least `checkAfterDays` ago as followed back or not
+   *
+   * @param agentId Agent ID
+   * @param scraper Logged-in scraper
+   * @param agentTwitterUserId The agent's X user ID
+   * @param checkAfterDays Days to give an account before checking
+   * @returns Number of follows checked and how many followed back
+   */
+  async checkFollowBacks(
+    agentId: string,
+    scraper: Scraper,
+    agentTwitterUserId: string,
+    checkAfterDays: number
+  ): Promise<{ checked: number; followedBack: number }> {
+    const cutoff = new Date(Date.now() - checkAfterDays * 24 * 60 * 60 * 1000);
+
+    const due = await prisma.follow.findMany({
+      where: {
+        agentId,
+        status: FollowStatus.following,
+        createdAt: { lte: cutoff }
+      },
+      select: { followId: true, twitterUserId: true }
+    });
+
+    if (due.length === 0) {
+      return { checked: 0, followedBack: 0 };
+    }
+
+    try {
+      const followerIds = new Set<string>();
+      let cursor: string | undefined;
+
+      while (followerIds.size < MAX_FOLLOWERS_TO_SCAN) {
+        const page = await scraper.fetchProfileFollowers(agentTwitterUserId, FOLLOWER_PAGE_SIZE, cursor);
+
+        page.profiles.forEach(profile => profile.userId && followerIds.add(profile.userId));
+
+        if (!page.next || page.profiles.length === 0) break;
+        cursor = page.next;
+      }
+
+      const followedBackIds = due.filter(follow => followerIds.has(follow.twitterUserId)).map(follow => follow.followId);
+      const notFollowedBackIds = due.filter(follow => !followerIds.has(follow.twitterUserId)).map(follow => follow.followId);
+      const checkedAt = new Date();
+
+      await prisma.$transaction([
+        prisma.follow.updateMany({
+          where: { followId: { in: followedBackIds } },
+          data: { status: FollowStatus.followed_back, checkedAt }
+        }),
+        prisma.follow.updateMany({
+          where: { followId: { in: notFollowedBackIds } },
+          data: { status: FollowStatus.not_followed_back, checkedAt }
+        })
+      ]);
+
+      return { checked: due.length, followedBack: followedBackIds.length };
+
+    } catch (error) {
+      // Left as 'following', so the next cycle tries again
+      console.error(`[Auto-Follow] Follow-back check failed for agent ${agentId}:`, error);
+      return { checked: 0, followedBack: 0 };
+    }
+  },
+
+  /**
+   * Collect accounts to follow from the agent's enabled candidate sources
+   *
+   * @param agent Agent configuration
+   * @param scraper Logged-in scraper
+   * @param me The agent's own X account
+   * @param limit Maximum candidates to return
+   * @returns Candidates the agent has never followed (or tried to follow)
+   */
+  async findCandidates(
+    agent: any,
+    scraper: Scraper,
+    me: { userId: string; username: string },
+    limit: number
+  ): Promise<FollowCandidate[]> {
+    const candidates = new Map<string, FollowCandidate>();
+    const addCandidate = (candidate: FollowCandidate) => {
+      if (candidate.twitterUserId !== me.userId && !candidates.has(candidate.twitterUserId)) {
+        candidates.set(candidate.twitterUserId, candidate);
+      }
+    };
+
+    // People replying to the agent's tweets and replies
+    if (agent.autoFollowFromEngagers) {
+      try {
+        for await (const tweet of scraper.searchTweets(`to:${me.username}`, ENGAGER_SEARCH_RESULTS, SearchMode.Latest)) {
+          if (tweet.userId && tweet.username) {
+            addCandidate({
+              twitterUserId: tweet.userId,
+              username: tweet.username,
+              source: FollowSource.engager,
+              sourceRef: tweet.id
+            });
+          }
+        }
+      } catch (error) {
+        console.error(`[Auto-Follow] Failed to read replies to @${me.username}:`, error);
+      }
+    }
+
+    // Followers of the accounts the agent targets in auto-engage
+    if (agent.autoFollowFromTargetFollowers && agent.autoEngageTargetHandles.length > 0) {
+      const targets = [...agent.autoEngageTargetHandles as string[]]
+        .sort(() => Math.random() - 0.5)
+        .slice(0, TARGET_ACCOUNTS_PER_CYCLE);
+
+      for (const handle of targets) {
+        try {
+          const targetUserId = await scraper.getUserIdByScreenName(handle);
+          const page = await scraper.fetchProfileFollowers(targetUserId, FOLLOWERS_PER_TARGET);
+
+          for (const profile of page.profiles) {
+            // Private accounts only show up as a follow request
+            if (profile.userId && profile.username && !profile.isPrivate) {
+              addCandidate({
+                twitterUserId: profile.userId,
+                username: profile.username,
+                source: FollowSource.target_follower,
+                sourceRef: handle
+              });
+            }
+          }
+        } catch (error) {
+          console.error(`[Auto-Follow] Failed to read followers of @${handle}:`, error);
+        }
+      }
+    }
+
+    if (candidates.size === 0) {
+      return [];
+    }
+
+    const known = await prisma.follow.findMany({
+      where: { agentId: agent.agentId, twitterUserId: { in: Array.from(candidates.keys()) } },
+      select: { twitterUserId: true }
+    });
+    known.forEach(follow => candidates.delete(follow.twitterUserId));
+
+    // Engagers first: they already know the agent, so they are likelier to follow back
+    return Array.from(candidates.values())
+      .sort((a, b) => (a.source === b.source ? 0 : a.source === FollowSource.engager ? -1 : 1))
+      .slice(0, limit);
+  },
+
+  /**
+   * Follow counts and follow-back rate for an agent
+   *
+   * @param agentId Agent ID
+   * @param since Only count follows made from this date on
+   * @returns Follow counts by outcome; the rate covers checked follows only
+   */
+  async getFollowStats(agentId: string, since?: Date): Promise<FollowStats> {
+    const groups = await prisma.follow.groupBy({
+      by: ['status'],
+      where: {
+        agentId,
+        ...(since && { createdAt: { gte: since } })
+      },
+      _count: { status: true }
+    });
+
+    const countFor = (status: FollowStatus) => groups.find(group => group.status === status)?._count.status || 0;
+    const followedBack = countFor(FollowStatus.followed_back);
+    const notFollowedBack = countFor(FollowStatus.not_followed_back);
+    const awaitingCheck = countFor(FollowStatus.following);
+    const checked = followedBack + notFollowedBack;
+
+    return {
+      followed: followedBack + notFollowedBack + awaitingCheck,
+      followedBack,
+      notFollowedBack,
+      awaitingCheck,
+      failed: countFor(FollowStatus.failed),
+      followBackRate: checked > 0 ? Math.round((followedBack / checked) * 10000) / 100 : null
+    };
+  }
+};
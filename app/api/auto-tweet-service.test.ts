@@ -0,0 +1,160 @@
+import prisma from '../db/utils/dbClient';
+import { autoTweetService, ReservedSlot } from './auto-tweet-service';
+import { agentTweetService } from './agent-tweet-service';
+import { trendService } from './trend-service';
+import { PostingSchedule } from './posting-schedule-service';
+
+jest.mock('../db/utils/dbClient', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+    agent: { updateMany: jest.fn() },
+    tweet: { createMany: jest.fn(), updateMany: jest.fn(), deleteMany: jest.fn() }
+  }
+}));
+jest.mock('./agent-tweet-service', () => ({ agentTweetService: { generateTweet: jest.fn() } }));
+jest.mock('./trend-service', () => ({ trendService: { getRelevantTrends: jest.fn() } }));
+
+const db = prisma as unknown as {
+  $transaction: jest.Mock;
+  $queryRaw: jest.Mock;
+  agent: { updateMany: jest.Mock };
+  tweet: { createMany: jest.Mock; updateMany: jest.Mock; deleteMany: jest.Mock };
+};
+const generateTweet = agentTweetService.generateTweet as jest.Mock;
+const getRelevantTrends = trendService.getRelevantTrends as jest.Mock;
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const anyTime: PostingSchedule = { timezone: 'UTC', activeHours: null, blackoutDates: [], jitterMinutes: 0 };
+
+const slot = (overrides: Partial<ReservedSlot> = {}): ReservedSlot => ({
+  tweetId: 'slot-1',
+  agentId: 'agent-1',
+  userId: 'user-1',
+  trendsEnabled: false,
+  attempts: 1,
+  ...overrides
+});
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.useFakeTimers({ now: NOW });
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  db.$transaction.mockImplementation(async (run: (tx: typeof db) => unknown) => run(db));
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('reserveCycle', () => {
+  const agent = { agentId: 'agent-1', lastAutoTweetTime: new Date('2025-06-01T06:00:00Z'), autoTweetFrequencyHours: 6, autoTweetCount: 3 };
+
+  test('claims the cycle and reserves one empty slot per tweet', async () => {
+    db.agent.updateMany.mockResolvedValue({ count: 1 });
+    db.tweet.createMany.mockImplementation(async ({ data }) => ({ count: data.length }));
+
+    await expect(autoTweetService.reserveCycle(agent, anyTime, NOW)).resolves.toBe(3);
+    expect(db.agent.updateMany).toHaveBeenCalledWith({
+      where: { agentId: 'agent-1', lastAutoTweetTime: agent.lastAutoTweetTime },
+      data: { lastAutoTweetTime: NOW }
+    });
+
+    const slots = db.tweet.createMany.mock.calls[0][0].data;
+    expect(slots.every(data => data.status === 'reserved' && data.text === '')).toBe(true);
+    expect(slots.every(data => data.postTime > NOW && data.postTime < new Date(NOW.getTime() + 6 * 60 * 60 * 1000))).toBe(true);
+  });
+
+  test('reserves nothing when another run started the cycle first', async () => {
+    db.agent.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(autoTweetService.reserveCycle(agent, anyTime, NOW)).resolves.toBeNull();
+    expect(db.tweet.createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('claimNextSlot', () => {
+  test('returns the claimed slot', async () => {
+    db.$queryRaw.mockResolvedValue([slot()]);
+
+    await expect(autoTweetService.claimNextSlot()).resolves.toEqual(slot());
+  });
+
+  test('returns null when no slot is due', async () => {
+    db.$queryRaw.mockResolvedValue([]);
+
+    await expect(autoTweetService.claimNextSlot()).resolves.toBeNull();
+  });
+});
+
+describe('fillSlot', () => {
+  test('writes the tweet and hands the slot to the posting queue', async () => {
+    generateTweet.mockResolvedValue({ success: true, tweet: { id: '', text: 'Fresh take' } });
+    db.tweet.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(autoTweetService.fillSlot(slot())).resolves.toBe(true);
+    expect(db.tweet.updateMany).toHaveBeenCalledWith({
+      where: { tweetId: 'slot-1', status: 'reserved' },
+      data: expect.objectContaining({ text: 'Fresh take', status: 'scheduled', attempts: 0, leaseExpiresAt: null })
+    });
+  });
+
+  test('rides a fresh trend when trend riding is on', async () => {
+    getRelevantTrends.mockResolvedValue({ success: true, trends: ['#LaunchDay'] });
+    generateTweet.mockResolvedValue({ success: true, tweet: { id: '', text: 'On #LaunchDay' } });
+    db.tweet.updateMany.mockResolvedValue({ count: 1 });
+
+    await autoTweetService.fillSlot(slot({ trendsEnabled: true }));
+
+    expect(generateTweet).toHaveBeenCalledWith(expect.objectContaining({ context: 'Trending on X right now: #LaunchDay' }));
+    expect(db.tweet.updateMany.mock.calls[0][0].data.context).toBe('#LaunchDay');
+  });
+
+  test('discards the tweet when the slot was removed while it was written', async () => {
+    generateTweet.mockResolvedValue({ success: true, tweet: { id: '', text: 'Fresh take' } });
+    db.tweet.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(autoTweetService.fillSlot(slot())).resolves.toBe(false);
+    expect(console.log).not.toHaveBeenCalledWith(expect.stringContaining('Wrote slot'));
+  });
+
+  test('backs off after a failed generation attempt', async () => {
+    generateTweet.mockResolvedValue({ success: false, error: 'LLM unavailable' });
+
+    await expect(autoTweetService.fillSlot(slot({ attempts: 2 }))).resolves.toBe(false);
+    expect(db.tweet.updateMany).toHaveBeenCalledWith({
+      where: { tweetId: 'slot-1', status: 'reserved' },
+      data: { nextAttemptAt: new Date(NOW.getTime() + 2 * 60 * 1000), leaseExpiresAt: null, lastError: 'LLM unavailable' }
+    });
+    expect(db.tweet.deleteMany).not.toHaveBeenCalled();
+  });
+
+  test('drops the slot after the last generation attempt fails', async () => {
+    generateTweet.mockRejectedValue(new Error('LLM unavailable'));
+
+    await expect(autoTweetService.fillSlot(slot({ attempts: 3 }))).resolves.toBe(false);
+    expect(db.tweet.deleteMany).toHaveBeenCalledWith({ where: { tweetId: 'slot-1', status: 'reserved' } });
+    expect(db.tweet.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('pruneSlots', () => {
+  test('drops slots of agents with auto-tweeting off and slots long past their post time', async () => {
+    db.tweet.deleteMany.mockResolvedValue({ count: 2 });
+
+    await expect(autoTweetService.pruneSlots()).resolves.toBe(2);
+    expect(db.tweet.deleteMany).toHaveBeenCalledWith({
+      where: {
+        status: 'reserved',
+        OR: [
+          { agent: { autoTweetEnabled: false } },
+          { postTime: { lt: new Date(NOW.getTime() - 60 * 60 * 1000) } }
+        ]
+      }
+    });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Auto-Tweet Service
+ *
+ * Runs interval-based auto-tweeting in two steps: a cycle only reserves time slots spread across
+ * the active hours in the agent's interval, and each slot's text is generated shortly before it
+ * posts (with a fresh trend when trend riding is on), so tweets aren't stale and no single run
+ * generates a whole cycle
+ */
+
+import prisma from '../db/utils/dbClient';
+import { agentTweetService } from './agent-tweet-service';
+import { trendService } from './trend-service';
+import { getBackoffMinutes } from './tweet-queue-service';
+import { postingScheduleService, PostingSchedule } from './posting-schedule-service';
+
+// How far ahead of its post time a slot's tweet is written
+const SLOT_LEAD_MINUTES = 10;
+
+// How long a claimed slot is held while its tweet is written
+const SLOT_LEASE_MINUTES = 3;
+
+// Generation attempts per slot before the slot is dropped
+const MAX_GENERATION_ATTEMPTS = 3;
+
+// Slots still unwritten this long after their post time are dropped rather than posted late
+const STALE_SLOT_MINUTES = 60;
+
+export interface ReservedSlot {
+  tweetId: string;
+  agentId: string;
+  userId: string;
+  trendsEnabled: boolean;
+  attempts: number; // Including the attempt just claimed
+}
+
+/**
+ * Auto-Tweet Service
+ */
+export const autoTweetService = {
+  /**
+   * Start an auto-tweet cycle by reserving its slots
+   *
+   * The cycle is claimed by moving lastAutoTweetTime on from the value the caller read, so an
+   * overlapping run that read the same value reserves nothing
+   *
+   * @param agent - Agent due for a cycle, as read by the caller
+   * @param schedule - Agent's posting schedule; slots only land in its active hours
+   * @param now - Start of the cycle
+   * @returns Number of slots reserved (0 when the cycle has no active hours), or null when
+   *          another run started the cycle first
+   */
+  async reserveCycle(
+    agent: {
+      agentId: string;
+      lastAutoTweetTime: Date | null;
+      autoTweetFrequencyHours: number;
+      autoTweetCount: number;
+    },
+    schedule: PostingSchedule,
+    now: Date
+  ): Promise<number | null> {
+    const intervalMs = agent.autoTweetFrequencyHours * 60 * 60 * 1000;
+
+    // Start slightly in the future, then spread across the active time in the interval
+    const slotTimes = postingScheduleService.planSlots(
+      schedule,
+      new Date(now.getTime() + 5000),
+      new Date(now.getTime() + intervalMs),
+      agent.autoTweetCount
+    );
+
+    return prisma.$transaction(async (tx) => {
+      const claimed = await tx.agent.updateMany({
+        where: { agentId: agent.agentId, lastAutoTweetTime: agent.lastAutoTweetTime },
+        data: { lastAutoTweetTime: now } // Mark the start of this cycle
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const created = await tx.tweet.createMany({
+        data: slotTimes.map(postTime => ({
+          agentId: agent.agentId,
+          text: '',
+          status: 'reserved' as const,
+          postTime
+        }))
+      });
+      return created.count;
+    });
+  },
+
+  /**
+   * Claim the next slot that is due to be written, counting the attempt and taking a lease on it
+   *
+   * @returns The claimed slot, or null when none are due
+   */
+  async claimNextSlot(): Promise<ReservedSlot | null> {
+    const claimed = await prisma.$queryRaw<ReservedSlot[]>`
+      UPDATE tweets
+      SET attempts = tweets.attempts + 1,
+          lease_expires_at = now() + ${SLOT_LEASE_MINUTES}::int * interval '1 minute'
+      FROM agents
+      WHERE agents.agent_id = tweets.agent_id
+        AND tweets.tweet_id = (
+          SELECT t.tweet_id FROM tweets t
+          JOIN agents a ON a.agent_id = t.agent_id
+          WHERE t.status = 'reserved'
+            AND t.post_time <= now() + ${SLOT_LEAD_MINUTES}::int * interval '1 minute'
+            AND (t.next_attempt_at IS NULL OR t.next_attempt_at <= now())
+            AND (t.lease_expires_at IS NULL OR t.lease_expires_at < now())
+            AND a.status = 'running'
+            AND a.auto_tweet_enabled = true
+          ORDER BY t.post_time ASC
+          LIMIT 1
+          FOR UPDATE OF t SKIP LOCKED
+        )
+      RETURNING tweets.tweet_id AS "tweetId",
+                tweets.agent_id AS "agentId",
+                agents.user_id AS "userId",
+                agents.auto_tweet_trends_enabled AS "trendsEnabled",
+                tweets.attempts
+    `;
+
+    return claimed[0] ?? null;
+  },
+
+  /**
+   * Write a claimed slot's tweet and hand it to the posting queue, or schedule another attempt
+   *
+   * @param slot - Slot returned by claimNextSlot
+   * @returns Whether the slot's tweet was written
+   */
+  async fillSlot(slot: ReservedSlot): Promise<boolean> {
+    let error: string;
+
+    try {
+      // Trend riding: a relevant trend not used in the last day, picked now rather than at the cycle start
+      let trend: string | undefined;
+      if (slot.trendsEnabled) {
+        const trendResult = await trendService.getRelevantTrends(slot.agentId, slot.userId, 1);
+        if (trendResult.success) {
+          trend = trendResult.trends?.[0];
+        } else {
+          console.error(`[Auto-Tweet] Could not fetch trends for agent ${slot.agentId}, generating without them: ${trendResult.error}`);
+        }
+      }
+
+      const generationResult = await agentTweetService.generateTweet({
+        agentId: slot.agentId,
+        userId: slot.userId,
+        ...(trend && { context: `Trending on X right now: ${trend}` })
+      });
+
+      if (generationResult.success && generationResult.tweet?.text) {
+        // Posting attempts are counted from zero once the text exists
+        const written = await prisma.tweet.updateMany({
+          where: { tweetId: slot.tweetId, status: 'reserved' },
+          data: {
+            text: generationResult.tweet.text,
+            status: 'scheduled',
+            context: trend ?? null,
+            attempts: 0,
+            nextAttemptAt: null,
+            leaseExpiresAt: null,
+            lastError: null
+          }
+        });
+
+        // Pruned or removed while the tweet was being written
+        if (written.count === 0) {
+          console.log(`[Auto-Tweet] Slot ${slot.tweetId} of agent ${slot.agentId} was removed while its tweet was written, discarding it`);
+          return false;
+        }
+
+        console.log(`[Auto-Tweet] Wrote slot ${slot.tweetId} for agent ${slot.agentId}${trend ? ` (trend: ${trend})` : ''}`);
+        return true;
+      }
+
+      error = generationResult.error || 'Failed to generate tweet content';
+
+    } catch (generationError) {
+      error = generationError instanceof Error ? generationError.message : String(generationError);
+    }
+
+    if (slot.attempts < MAX_GENERATION_ATTEMPTS) {
+      const backoffMinutes = getBackoffMinutes(slot.attempts);
+
+      await prisma.tweet.updateMany({
+        where: { tweetId: slot.tweetId, status: 'reserved' },
+        data: {
+          nextAttemptAt: new Date(Date.now() + backoffMinutes * 60 * 1000),
+          leaseExpiresAt: null,
+          lastError: error
+        }
+      });
+
+      console.error(`[Auto-Tweet] Generation attempt ${slot.attempts}/${MAX_GENERATION_ATTEMPTS} failed for slot ${slot.tweetId} of agent ${slot.agentId}, retrying in ${backoffMinutes} minute(s): ${error}`);
+      return false;
+    }
+
+    await prisma.tweet.deleteMany({
+      where: { tweetId: slot.tweetId, status: 'reserved' }
+    });
+
+    console.error(`[Auto-Tweet] Dropped slot ${slot.tweetId} of agent ${slot.agentId} after ${slot.attempts} failed generation attempts: ${error}`);
+    return false;
+  },
+
+  /**
+   * Drop slots that will never be written: those of agents that turned auto-tweeting off, and
+   * those left unwritten long past their post time (e.g. while the agent was stopped)
+   *
+   * @returns Number of slots dropped
+   */
+  async pruneSlots(): Promise<number> {
+    const staleCutoff = new Date(Date.now() - STALE_SLOT_MINUTES * 60 * 1000);
+
+    const pruned = await prisma.tweet.deleteMany({
+      where: {
+        status: 'reserved',
+        OR: [
+          { agent: { autoTweetEnabled: false } },
+          { postTime: { lt: staleCutoff } }
+        ]
+      }
+    });
+
+    if (pruned.count > 0) {
+      console.log(`[Auto-Tweet] Dropped ${pruned.count} slot(s) that can no longer be written`);
+    }
+
+    return pruned.count;
+  }
+};
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { schedulerService } from '../../scheduler-service';
+import { mediaService } from '../../media-service';
 
 /**
  * API Route for processing scheduled tweets
@@ -16,6 +17,8 @@ export async function GET(request: NextRequest) {
 
     console.log('[Cron] Processing scheduled tweets...');
     await schedulerService.processScheduledTweets();
+    await schedulerService.processScheduledThreads();
+    await mediaService.purgeUnattached();
     
     return NextResponse.json({ 
       success: true, 
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { usageResetService } from '../../usage-reset-service';
+
+/**
+ * API Route for resetting monthly usage counters on each profile's reset day
+ * Called by Vercel Cron Jobs every hour
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify the request is coming from Vercel Cron (optional security)
+    const authHeader = request.headers.get('authorization');
+    // Skip auth check in development for testing
+    if (process.env.CRON_SECRET && process.env.NODE_ENV === 'production' && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.log('[Cron] Processing usage resets...');
+    const result = await usageResetService.processDueResets();
+    
+    return NextResponse.json({ 
+      success: true, 
+      message: 'Usage resets processed successfully',
+      result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('[Cron] Error processing usage resets:', error);
+    return NextResponse.json({ 
+      error: 'Failed to process usage resets',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Allow POST as well for manual triggering
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -0,0 +1,101 @@
+import prisma from '../db/utils/dbClient';
+import { dmService } from './dm-service';
+
+jest.mock('../db/utils/dbClient', () => ({
+  __esModule: true,
+  default: {
+    dmReply: { update: jest.fn(), updateMany: jest.fn() },
+    directMessage: { createMany: jest.fn() },
+    dmConversation: { update: jest.fn() }
+  }
+}));
+jest.mock('./auto-engage-service', () => ({ autoEngageService: {} }));
+jest.mock('./llm-service', () => ({ __esModule: true, default: {} }));
+jest.mock('../scraper', () => ({ Scraper: jest.fn() }));
+
+const db = prisma as unknown as {
+  dmReply: { update: jest.Mock; updateMany: jest.Mock };
+  directMessage: { createMany: jest.Mock };
+  dmConversation: { update: jest.Mock };
+};
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const reply = {
+  dmReplyId: 'dm-reply-1',
+  dmConversationId: 'dm-conversation-1',
+  replyText: 'Happy to help!',
+  conversation: { conversationId: 'x-conversation-1' }
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.useFakeTimers({ now: NOW });
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  db.dmReply.update.mockResolvedValue({});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('sendReplies', () => {
+  const sendDirectMessage = jest.fn();
+
+  const sendAll = async () => {
+    const sending = dmService.sendReplies({ sendDirectMessage } as any, 'agent-1', [reply]);
+    await jest.runAllTimersAsync();
+    return sending;
+  };
+
+  test('claims a reply under a lease and clears it once sent', async () => {
+    db.dmReply.updateMany.mockResolvedValue({ count: 1 });
+    sendDirectMessage.mockResolvedValue({ entries: [] });
+
+    await expect(sendAll()).resolves.toEqual({ sent: 1, failed: 0 });
+    expect(db.dmReply.updateMany).toHaveBeenCalledWith({
+      where: { dmReplyId: 'dm-reply-1', status: 'approved' },
+      data: { status: 'sending', leaseExpiresAt: new Date(NOW.getTime() + 10 * 60 * 1000) }
+    });
+    expect(db.dmReply.update.mock.calls[0][0].data).toMatchObject({ status: 'sent', leaseExpiresAt: null });
+  });
+
+  test('skips a reply another run already claimed', async () => {
+    db.dmReply.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(sendAll()).resolves.toEqual({ sent: 0, failed: 0 });
+    expect(sendDirectMessage).not.toHaveBeenCalled();
+  });
+
+  test('fails a reply X rejects and clears its lease', async () => {
+    db.dmReply.updateMany.mockResolvedValue({ count: 1 });
+    sendDirectMessage.mockRejectedValue(new Error('You cannot send messages to this user'));
+
+    await expect(sendAll()).resolves.toEqual({ sent: 0, failed: 1 });
+    expect(db.dmReply.update.mock.calls[0][0].data).toEqual({
+      status: 'failed',
+      leaseExpiresAt: null,
+      error: 'You cannot send messages to this user'
+    });
+  });
+});
+
+describe('recoverExpiredSendLeases', () => {
+  test('fails replies whose sending run died', async () => {
+    db.dmReply.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(dmService.recoverExpiredSendLeases()).resolves.toBe(1);
+    expect(db.dmReply.updateMany).toHaveBeenCalledWith({
+      where: {
+        status: 'sending',
+        OR: [
+          { leaseExpiresAt: { lt: NOW } },
+          { leaseExpiresAt: null, updatedAt: { lt: new Date(NOW.getTime() - 10 * 60 * 1000) } }
+        ]
+      },
+      data: expect.objectContaining({ status: 'failed', leaseExpiresAt: null })
+    });
+  });
+});
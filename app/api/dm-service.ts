@@ -0,0 +1,405 @@
+/**
+ * DM Service
+ *
+ * Syncs an agent's X direct messages into its DM inbox, drafts replies with the agent's
+ * persona and sends them once approved (or straight away for FAQ answers when auto-send is on)
+ */
+
+import prisma from '../db/utils/dbClient';
+import { autoEngageService } from './auto-engage-service';
+import llmService from './llm-service';
+import { Scraper } from '../scraper';
+import { DmReplyStatus } from '@prisma/client';
+
+// An agent's inbox is synced at most this often
+export const DM_SYNC_INTERVAL_MINUTES = 15;
+
+// Drafts per sync, so a flood of new messages can't run up LLM costs in one go
+const MAX_DRAFTS_PER_SYNC = 5;
+
+// Messages of history given to the LLM when drafting
+const DRAFT_HISTORY_MESSAGES = 10;
+
+const SEND_DELAY_MS = 2000;
+
+// How long a claimed reply may stay in 'sending' before it's considered abandoned
+const SEND_LEASE_MINUTES = 10;
+
+export interface ApprovedDmReply {
+  dmReplyId: string;
+  dmConversationId: string;
+  replyText: string;
+  conversation: {
+    conversationId: string;
+  };
+}
+
+/**
+ * DM Service
+ */
+export const dmService = {
+  /**
+   * Pull recent conversations from X, draft replies to unanswered ones and send any auto-approved drafts
+   *
+   * @param agentId Agent ID
+   * @param userId User ID
+   * @returns Sync counts
+   */
+  async syncInbox(agentId: string, userId: string): Promise<{
+    success: boolean;
+    results?: {
+      conversations: number;
+      newMessages: number;
+      drafted: number;
+      autoSent: number;
+    };
+    error?: string;
+  }> {
+    try {
+      const agent = await prisma.agent.findUnique({
+        where: { agentId, userId },
+        include: { twitterAuth: true }
+      });
+
+      if (!agent) {
+        return { success: false, error: 'Agent not found' };
+      }
+
+      if (!agent.dmInboxEnabled) {
+        return { success: false, error: 'DM inbox is disabled for this agent' };
+      }
+
+      // Mark the sync as started so a failing agent isn't retried on every scheduler tick
+      await prisma.agent.update({
+        where: { agentId },
+        data: { lastDmSyncTime: new Date() }
+      });
+
+      const login = await autoEngageService.loginScraper(agentId, userId);
+
+      if (!login.success || !login.scraper) {
+        return { success: false, error: login.error || 'X login failed' };
+      }
+
+      const scraper = login.scraper;
+      const agentXUserId = agent.twitterAuth?.twitterUserId || (await scraper.me())?.userId;
+
+      if (!agentXUserId) {
+        return { success: false, error: 'Could not determine the agent\'s X account' };
+      }
+
+      // Step 1: Store conversations and messages
+      const inbox = await scraper.getDirectMessageConversations(agentXUserId);
+
+      let conversations = 0;
+      let newMessages = 0;
+      const unanswered: Array<{ dmConversationId: string; participantUsername: string | null; lastMessageId: string }> = [];
+
+      for (const conversation of inbox.conversations) {
+        const others = conversation.participants.filter(participant => participant.id !== agentXUserId);
+        const lastMessage = conversation.messages[conversation.messages.length - 1];
+
+        // Group chats are left to the user
+        if (others.length !== 1 || !lastMessage) continue;
+
+        const needsReply = lastMessage.senderId !== agentXUserId;
+        const lastMessageAt = new Date(Number(lastMessage.createdAt));
+
+        const dmConversation = await prisma.dmConversation.upsert({
+          where: {
+            agentId_conversationId: { agentId, conversationId: conversation.conversationId }
+          },
+          create: {
+            agentId,
+            conversationId: conversation.conversationId,
+            participantId: others[0].id,
+            participantUsername: others[0].screenName,
+            lastMessageAt,
+            needsReply
+          },
+          update: {
+            participantUsername: others[0].screenName,
+            lastMessageAt,
+            needsReply
+          }
+        });
+
+        const created = await prisma.directMessage.createMany({
+          data: conversation.messages.map(message => ({
+            dmConversationId: dmConversation.dmConversationId,
+            xMessageId: message.id,
+            senderId: message.senderId,
+            text: message.text || '',
+            fromAgent: message.senderId === agentXUserId,
+            sentAt: new Date(Number(message.createdAt))
+          })),
+          skipDuplicates: true
+        });
+
+        conversations++;
+        newMessages += created.count;
+
+        if (needsReply) {
+          unanswered.push({
+            dmConversationId: dmConversation.dmConversationId,
+            participantUsername: dmConversation.participantUsername,
+            lastMessageId: lastMessage.id
+          });
+        }
+      }
+
+      // Step 2: Draft replies to messages that don't have one yet
+      const drafted = await prisma.dmReply.findMany({
+        where: {
+          dmConversationId: { in: unanswered.map(conversation => conversation.dmConversationId) }
+        },
+        select: { dmConversationId: true, inReplyToMessageId: true }
+      });
+      const draftedKeys = new Set(drafted.map(reply => `${reply.dmConversationId}:${reply.inReplyToMessageId}`));
+      const toDraft = unanswered
+        .filter(conversation => !draftedKeys.has(`${conversation.dmConversationId}:${conversation.lastMessageId}`))
+        .slice(0, MAX_DRAFTS_PER_SYNC);
+
+      let draftCount = 0;
+      const autoApproved: ApprovedDmReply[] = [];
+
+      for (const conversation of toDraft) {
+        const history = await prisma.directMessage.findMany({
+          where: { dmConversationId: conversation.dmConversationId },
+          orderBy: { sentAt: 'desc' },
+          take: DRAFT_HISTORY_MESSAGES,
+          select: { fromAgent: true, text: true }
+        });
+
+        const draft = await llmService.generateAgentDmReply(agent, {
+          participantUsername: conversation.participantUsername,
+          messages: history.reverse()
+        });
+
+        if (!draft.success || !draft.content) {
+          console.error(`[DM] Failed to draft a reply in conversation ${conversation.dmConversationId}: ${draft.error}`);
+          continue;
+        }
+
+        const autoSend = agent.dmAutoSendEnabled && draft.faqAnswer === true;
+
+        try {
+          const reply = await prisma.dmReply.create({
+            data: {
+              dmConversationId: conversation.dmConversationId,
+              agentId,
+              inReplyToMessageId: conversation.lastMessageId,
+              replyText: draft.content,
+              status: autoSend ? DmReplyStatus.approved : DmReplyStatus.pending,
+              autoSent: autoSend,
+              scheduledTime: autoSend ? new Date() : null
+            },
+            include: { conversation: { select: { conversationId: true } } }
+          });
+
+          draftCount++;
+          if (autoSend) {
+            autoApproved.push(reply);
+          }
+        } catch (error: any) {
+          // Another sync drafted this message first
+          if (error.code !== 'P2002') {
+            throw error;
+          }
+        }
+      }
+
+      // Step 3: FAQ answers go out right away on the same session
+      const autoSent = autoApproved.length > 0
+        ? (await this.sendReplies(scraper, agentId, autoApproved)).sent
+        : 0;
+
+      console.log(`[DM] Synced inbox for agent ${agentId}: ${conversations} conversations, ${newMessages} new messages, ${draftCount} drafted, ${autoSent} auto-sent`);
+
+      return {
+        success: true,
+        results: { conversations, newMessages, drafted: draftCount, autoSent }
+      };
+
+    } catch (error) {
+      console.error(`[DM] Error syncing inbox for agent ${agentId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
+  /**
+   * Send DM replies approved in the inbox
+   *
+   * @param agentId Agent ID
+   * @param userId User ID
+   * @param replies Approved replies for this agent
+   * @returns Number of replies sent and failed
+   */
+  async sendApprovedReplies(
+    agentId: string,
+    userId: string,
+    replies: ApprovedDmReply[]
+  ): Promise<{
+    success: boolean;
+    sent?: number;
+    failed?: number;
+    error?: string;
+  }> {
+    try {
+      const login = await autoEngageService.loginScraper(agentId, userId);
+
+      if (!login.success || !login.scraper) {
+        // Push the approved replies back so a blocked or expired session isn't retried every minute
+        await prisma.dmReply.updateMany({
+          where: { dmReplyId: { in: replies.map(reply => reply.dmReplyId) } },
+          data: { scheduledTime: new Date(Date.now() + 30 * 60 * 1000) }
+        });
+
+        return {
+          success: false,
+          error: login.error,
+          sent: 0,
+          failed: 0
+        };
+      }
+
+      const result = await this.sendReplies(login.scraper, agentId, replies);
+
+      return {
+        success: true,
+        ...result
+      };
+
+    } catch (error) {
+      console.error(`[DM] Error sending approved replies for agent ${agentId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
+  /**
+   * Send replies on an already logged-in scraper and record the outcome
+   *
+   * @param scraper Logged-in scraper
+   * @param agentId Agent ID
+   * @param replies Approved replies to send
+   * @returns Number of replies sent and failed
+   */
+  async sendReplies(
+    scraper: Scraper,
+    agentId: string,
+    replies: ApprovedDmReply[]
+  ): Promise<{ sent: number; failed: number }> {
+    let sent = 0;
+    let failed = 0;
+
+    for (const reply of replies) {
+      // Claim the reply so an overlapping run can't send it twice
+      const claimed = await prisma.dmReply.updateMany({
+        where: { dmReplyId: reply.dmReplyId, status: DmReplyStatus.approved },
+        data: {
+          status: DmReplyStatus.sending,
+          leaseExpiresAt: new Date(Date.now() + SEND_LEASE_MINUTES * 60 * 1000)
+        }
+      });
+
+      if (claimed.count === 0) continue;
+
+      try {
+        const response = await scraper.sendDirectMessage(reply.conversation.conversationId, reply.replyText);
+        const message = response.entries?.[0]?.message?.message_data;
+        const sentAt = new Date();
+
+        await prisma.dmReply.update({
+          where: { dmReplyId: reply.dmReplyId },
+          data: {
+            status: DmReplyStatus.sent,
+            xMessageId: message?.id || null,
+            sentAt,
+            leaseExpiresAt: null,
+            error: null
+          }
+        });
+
+        if (message?.id) {
+          await prisma.directMessage.createMany({
+            data: [{
+              dmConversationId: reply.dmConversationId,
+              xMessageId: message.id,
+              senderId: message.sender_id,
+              text: reply.replyText,
+              fromAgent: true,
+              sentAt
+            }],
+            skipDuplicates: true
+          });
+        }
+
+        await prisma.dmConversation.update({
+          where: { dmConversationId: reply.dmConversationId },
+          data: { needsReply: false, lastMessageAt: sentAt }
+        });
+
+        sent++;
+        console.log(`[DM] Sent reply ${reply.dmReplyId} for agent ${agentId}`);
+
+      } catch (error) {
+        failed++;
+        console.error(`[DM] Failed to send reply ${reply.dmReplyId} for agent ${agentId}:`, error);
+
+        await prisma.dmReply.update({
+          where: { dmReplyId: reply.dmReplyId },
+          data: {
+            status: DmReplyStatus.failed,
+            leaseExpiresAt: null,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        }).catch(() => undefined);
+      }
+
+      // Delay between sends to avoid rate limiting
+      await new Promise(resolve => setTimeout(resolve, SEND_DELAY_MS));
+    }
+
+    return { sent, failed };
+  },
+
+  /**
+   * Fail replies left in 'sending' by a run that died mid-send, so they show up in the
+   * DM inbox again and can be edited, re-approved or rejected
+   *
+   * The message may or may not have reached X, so it is never sent again automatically
+   *
+   * @returns Number of replies recovered
+   */
+  async recoverExpiredSendLeases(): Promise<number> {
+    const now = new Date();
+    const leaseCutoff = new Date(now.getTime() - SEND_LEASE_MINUTES * 60 * 1000);
+
+    const recovered = await prisma.dmReply.updateMany({
+      where: {
+        status: DmReplyStatus.sending,
+        OR: [
+          { leaseExpiresAt: { lt: now } },
+          { leaseExpiresAt: null, updatedAt: { lt: leaseCutoff } } // Claimed before leases existed
+        ]
+      },
+      data: {
+        status: DmReplyStatus.failed,
+        leaseExpiresAt: null,
+        error: 'Sending was interrupted; check the conversation on X before approving it again'
+      }
+    });
+
+    if (recovered.count > 0) {
+      console.log(`[DM] Marked ${recovered.count} reply(s) stuck in sending as failed`);
+    }
+
+    return recovered.count;
+  }
+};
@@ -0,0 +1,111 @@
+/**
+ * LLM Providers
+ *
+ * Registry of OpenAI-compatible chat completion providers (OpenRouter, OpenAI and
+ * self-hosted endpoints such as Ollama or llama.cpp) and per-agent model settings
+ */
+
+import OpenAI from "openai";
+import { LlmProvider } from "@prisma/client";
+
+export type LLMProviderName = LlmProvider;
+
+export interface LLMProviderDefinition {
+  name: LLMProviderName;
+  label: string;
+  baseURL?: string;
+  apiKey?: string;
+  defaultModel: string;
+}
+
+/**
+ * Generation settings that can be overridden per agent or per call.
+ * Unset values fall back to the service defaults.
+ */
+export interface LLMGenerationSettings {
+  provider?: LLMProviderName;
+  model?: string | null;
+  temperature?: number | null;
+  maxTokens?: number | null;
+}
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openrouter', 'openai', 'local'];
+
+/**
+ * Resolve a provider definition from the environment
+ *
+ * @param name - Provider name
+ * @returns Provider connection details and default model
+ */
+export function getProviderDefinition(name: LLMProviderName): LLMProviderDefinition {
+  switch (name) {
+    case 'openai':
+      return {
+        name,
+        label: 'OpenAI',
+        apiKey: process.env.OPENAI_API_KEY,
+        defaultModel: process.env.OPENAI_MODEL || 'gpt-4o-mini'
+      };
+    case 'local':
+      return {
+        name,
+        label: 'Local (OpenAI-compatible)',
+        baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        // Ollama and llama.cpp ignore the key, but the SDK refuses to send requests without one
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+        defaultModel: process.env.LOCAL_LLM_MODEL || 'llama3.1'
+      };
+    case 'openrouter':
+    default:
+      return {
+        name: 'openrouter',
+        label: 'OpenRouter',
+        baseURL: 'https://openrouter.ai/api/v1',
+        apiKey: process.env.OPENROUTER_API_KEY,
+        defaultModel: 'deepseek/deepseek-chat-v3-0324'
+      };
+  }
+}
+
+const clients = new Map<LLMProviderName, OpenAI>();
+
+/**
+ * Get (or lazily create) the API client for a provider
+ *
+ * @param name - Provider name
+ * @returns OpenAI SDK client pointed at the provider
+ */
+export function getProviderClient(name: LLMProviderName): OpenAI {
+  let client = clients.get(name);
+
+  if (!client) {
+    const definition = getProviderDefinition(name);
+    client = new OpenAI({
+      baseURL: definition.baseURL,
+      apiKey: definition.apiKey,
+    });
+    clients.set(name, client);
+  }
+
+  return client;
+}
+
+/**
+ * Extract LLM generation settings stored on an agent
+ *
+ * @param agent - Agent record (or any object carrying the llm* columns)
+ * @returns Generation settings for the agent
+ */
+export function getAgentLLMSettings(agent: {
+  llmProvider?: LLMProviderName | null;
+  llmModel?: string | null;
+  llmTemperature?: number | null;
+  llmMaxTokens?: number | null;
+}): LLMGenerationSettings {
+  return {
+    provider: agent.llmProvider || undefined,
+    model: agent.llmModel,
+    temperature: agent.llmTemperature,
+    maxTokens: agent.llmMaxTokens
+  };
+}
@@ -1,14 +1,25 @@
 /**
  * LLM Service
  * 
- * Service for interacting with LLM providers via OpenRouter
+ * Service for interacting with LLM providers (OpenRouter, OpenAI or a local
+ * OpenAI-compatible endpoint) using per-agent model settings
  */
 
-import OpenAI from "openai";
 import prisma from "../db/utils/dbClient";
 import { LLMPrompts, TweetContext, AgentPersonality } from "./prompts/llm-prompts";
+import {
+  LLMProviderName,
+  LLMGenerationSettings,
+  getProviderClient,
+  getProviderDefinition,
+  getAgentLLMSettings
+} from "./llm-providers";
+
+// X allows much longer DMs, but drafts are meant to read like a quick personal reply
+const MAX_DM_REPLY_LENGTH = 1000;
 
 export interface LLMServiceConfig {
+  provider?: LLMProviderName;
   model?: string;
   temperature?: number;
   maxTokens?: number;
@@ -20,43 +31,83 @@ export interface LLMServiceResponse {
   error?: string;
 }
 
+export interface LLMThreadResponse {
+  success: boolean;
+  parts?: string[];
+  error?: string;
+}
+
+export interface LLMTrendSelectionResponse {
+  success: boolean;
+  trends?: string[];
+  error?: string;
+}
+
+export interface LLMDmReplyResponse {
+  success: boolean;
+  content?: string;
+  faqAnswer?: boolean; // The model judged the reply a complete answer from the agent's FAQ
+  error?: string;
+}
+
 export class LLMService {
-  private client: OpenAI;
   private config: LLMServiceConfig;
 
   constructor(config: LLMServiceConfig = {}) {
+    const provider = config.provider || "openrouter";
+
     this.config = {
-      model: config.model || "deepseek/deepseek-chat-v3-0324",
+      provider,
+      model: config.model || getProviderDefinition(provider).defaultModel,
       temperature: config.temperature || 0.9,
       maxTokens: config.maxTokens || 500
     };
+  }
 
-    // Initialize OpenRouter client
-    this.client = new OpenAI({
-      baseURL: "https://openrouter.ai/api/v1",
-      apiKey: process.env.OPENROUTER_API_KEY,
-    });
+  /**
+   * Merge per-call settings over the service defaults
+   * 
+   * @param settings - Optional provider/model overrides (e.g. from an agent)
+   * @returns Fully resolved settings
+   */
+  private resolveSettings(settings: LLMGenerationSettings = {}) {
+    const provider = settings.provider || this.config.provider!;
+
+    // The default model belongs to the default provider, so switching provider
+    // without naming a model falls back to that provider's own default
+    const model = settings.model
+      || (provider === this.config.provider ? this.config.model : undefined)
+      || getProviderDefinition(provider).defaultModel;
+
+    return {
+      provider,
+      model,
+      temperature: settings.temperature ?? this.config.temperature!,
+      maxTokens: settings.maxTokens ?? this.config.maxTokens!
+    };
   }
 
   /**
-   * Generate text using OpenRouter
+   * Generate text using the configured LLM provider
    * 
    * @param prompt - The system prompt to guide the LLM
    * @param userPrompt - The user message/prompt
+   * @param settings - Optional provider/model overrides for this call
    * @returns Promise with the LLM response
    */
-  async generateText(prompt: string, userPrompt: string): Promise<LLMServiceResponse> {
+  async generateText(prompt: string, userPrompt: string, settings?: LLMGenerationSettings): Promise<LLMServiceResponse> {
     try {
-      console.log(`Using OpenRouter model: ${this.config.model}`);
+      const { provider, model, temperature, maxTokens } = this.resolveSettings(settings);
+      console.log(`Using ${getProviderDefinition(provider).label} model: ${model}`);
 
-      const response = await this.client.chat.completions.create({
-        model: this.config.model!,
+      const response = await getProviderClient(provider).chat.completions.create({
+        model,
         messages: [
           { role: "system", content: prompt },
           { role: "user", content: userPrompt }
         ],
-        temperature: this.config.temperature,
-        max_tokens: this.config.maxTokens,
+        temperature,
+        max_tokens: maxTokens,
       });
 
       return {
@@ -72,6 +123,24 @@ export class LLMService {
     }
   }
 
+  /**
+   * Resolve the generation settings for an agent, optionally switching provider
+   * 
+   * @param agent - Agent record
+   * @param provider - Optional provider override (e.g. from an API request)
+   * @returns Generation settings for the agent
+   */
+  getAgentSettings(agent: any, provider?: LLMProviderName): LLMGenerationSettings {
+    const settings = getAgentLLMSettings(agent);
+
+    if (provider && provider !== settings.provider) {
+      // The agent's model name is specific to its own provider
+      return { ...settings, provider, model: null };
+    }
+
+    return settings;
+  }
+
   /**
    * Generate an original tweet
    * 
@@ -79,9 +148,10 @@ export class LLMService {
    * @param context - Optional context for the tweet (e.g., trending topics)
    * @param url - Optional URL to include in context
    * @param xAccountToTag - Optional X account to tag in the tweet
+   * @param provider - Optional provider override; defaults to the agent's provider
    * @returns Promise with the generated tweet content
    */
-  async generateAgentTweet(agentId: string, context?: string, url?: string, xAccountToTag?: string): Promise<LLMServiceResponse> {
+  async generateAgentTweet(agentId: string, context?: string, url?: string, xAccountToTag?: string, provider?: LLMProviderName): Promise<LLMServiceResponse> {
     try {
           // console.log(`[LLM Service] Generating tweet for agent: ${agentId}`);
     // console.log(`[LLM Service] Context: ${context || 'none'}, URL: ${url || 'none'}, Tag: ${xAccountToTag || 'none'}`);
@@ -123,8 +193,8 @@ export class LLMService {
       const systemPrompt = LLMPrompts.createOriginalTweetPrompt(agentPersonality, tweetContext);
       const userPrompt = LLMPrompts.getUserPrompts().originalTweet;
 
-      // Generate tweet text
-      const result = await this.generateText(systemPrompt, userPrompt);
+      // Generate tweet text with the agent's model settings
+      const result = await this.generateText(systemPrompt, userPrompt, this.getAgentSettings(agent, provider));
 
       if (result.success && result.content) {
         // Clean up the response
@@ -172,6 +242,332 @@ export class LLMService {
 
 
 
+  /**
+   * Generate commentary for quote tweeting another tweet
+   * 
+   * @param agentId - ID of the agent to generate the commentary for
+   * @param quotedTweet - Text and author handle of the tweet being quoted
+   * @param context - Optional angle the commentary should take
+   * @param provider - Optional provider override; defaults to the agent's provider
+   * @returns Promise with the generated commentary
+   */
+  async generateAgentQuoteTweet(
+    agentId: string,
+    quotedTweet: { text: string; username?: string },
+    context?: string,
+    provider?: LLMProviderName
+  ): Promise<LLMServiceResponse> {
+    try {
+      const agent = await prisma.agent.findUnique({
+        where: { agentId }
+      });
+
+      if (!agent) {
+        console.error(`[LLM Service] Agent not found: ${agentId}`);
+        return {
+          success: false,
+          error: "Agent not found"
+        };
+      }
+
+      const agentPersonality: AgentPersonality = {
+        name: agent.name,
+        goal: agent.goal,
+        brand: agent.brand,
+        language: agent.language
+      };
+
+      const systemPrompt = LLMPrompts.createQuoteTweetPrompt(agentPersonality, quotedTweet, context);
+      const userPrompt = LLMPrompts.getUserPrompts().quoteTweet;
+
+      const result = await this.generateText(systemPrompt, userPrompt, this.getAgentSettings(agent, provider));
+
+      if (!result.success || !result.content) {
+        console.error(`[LLM Service] Failed to generate quote tweet: ${result.error}`);
+        return result;
+      }
+
+      result.content = this.cleanTweetText(result.content);
+
+      if (!result.content || !this.validateTweetOutput(result.content)) {
+        console.warn(`[LLM Service] Generated quote tweet failed validation for agent ${agentId}. Tweet: "${result.content}"`);
+        return {
+          success: false,
+          error: "Generated quote tweet failed validation"
+        };
+      }
+
+      console.log(`[LLM Service] Generated quote tweet (${result.content.length} chars): "${result.content}"`);
+
+      return result;
+    } catch (error) {
+      console.error("Quote tweet generation error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Expand a topic into a multi-tweet thread
+   * 
+   * @param agentId - ID of the agent to generate the thread for
+   * @param topic - What the thread should be about
+   * @param partCount - Number of tweets in the thread
+   * @param provider - Optional provider override; defaults to the agent's provider
+   * @returns Promise with the thread parts in posting order
+   */
+  async generateAgentThread(agentId: string, topic: string, partCount: number, provider?: LLMProviderName): Promise<LLMThreadResponse> {
+    try {
+      const agent = await prisma.agent.findUnique({
+        where: { agentId }
+      });
+
+      if (!agent) {
+        console.error(`[LLM Service] Agent not found: ${agentId}`);
+        return {
+          success: false,
+          error: "Agent not found"
+        };
+      }
+
+      const agentPersonality: AgentPersonality = {
+        name: agent.name,
+        goal: agent.goal,
+        brand: agent.brand,
+        language: agent.language
+      };
+
+      const systemPrompt = LLMPrompts.createThreadPrompt(agentPersonality, topic, partCount);
+      const userPrompt = LLMPrompts.getUserPrompts().thread;
+
+      // A whole thread needs more room than the agent's single-tweet token budget
+      const settings = this.getAgentSettings(agent, provider);
+      const maxTokens = Math.max(settings.maxTokens ?? this.config.maxTokens!, partCount * 120);
+
+      const result = await this.generateText(systemPrompt, userPrompt, { ...settings, maxTokens });
+
+      if (!result.success || !result.content) {
+        console.error(`[LLM Service] Failed to generate thread: ${result.error}`);
+        return {
+          success: false,
+          error: result.error || "Failed to generate thread"
+        };
+      }
+
+      const parts = this.parseThreadParts(result.content).slice(0, partCount);
+
+      if (parts.length < 2) {
+        console.warn(`[LLM Service] Could not parse thread for agent ${agentId}. Response: "${result.content}"`);
+        return {
+          success: false,
+          error: "Generated thread could not be parsed"
+        };
+      }
+
+      console.log(`[LLM Service] Generated ${parts.length}-part thread for agent ${agentId}`);
+
+      return {
+        success: true,
+        parts
+      };
+    } catch (error) {
+      console.error("Thread generation error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Pick the trending topics relevant to an agent's goal and focus topics
+   * 
+   * @param agent - Agent record (goal, special hooks and LLM settings)
+   * @param trends - Trending topics to choose from
+   * @param maxPicks - Maximum number of trends to return
+   * @returns Promise with the chosen trends, most relevant first (possibly none)
+   */
+  async selectRelevantTrends(agent: any, trends: string[], maxPicks: number): Promise<LLMTrendSelectionResponse> {
+    try {
+      const hooks = typeof agent.specialHooks === 'string' ? JSON.parse(agent.specialHooks) : agent.specialHooks;
+      const topics = {
+        focus: Array.isArray(hooks?.topics_to_focus) ? hooks.topics_to_focus : [],
+        avoid: Array.isArray(hooks?.topics_to_avoid) ? hooks.topics_to_avoid : []
+      };
+
+      const agentPersonality: AgentPersonality = {
+        name: agent.name,
+        goal: agent.goal
+      };
+
+      const systemPrompt = LLMPrompts.createTrendSelectionPrompt(agentPersonality, trends, topics, maxPicks);
+      const userPrompt = LLMPrompts.getUserPrompts().trendSelection;
+
+      // Selection should be consistent, not creative
+      const result = await this.generateText(systemPrompt, userPrompt, { ...this.getAgentSettings(agent), temperature: 0.2 });
+
+      if (!result.success || !result.content) {
+        console.error(`[LLM Service] Failed to select trends: ${result.error}`);
+        return {
+          success: false,
+          error: result.error || "Failed to select trends"
+        };
+      }
+
+      const start = result.content.indexOf('[');
+      const end = result.content.lastIndexOf(']');
+      const picked: unknown = start !== -1 && end > start ? JSON.parse(result.content.slice(start, end + 1)) : [];
+
+      // Only keep trends that really are trending, in case the model reworded one
+      const trendsByName = new Map(trends.map(trend => [trend.toLowerCase(), trend]));
+      const selected = (Array.isArray(picked) ? picked : [])
+        .filter((trend): trend is string => typeof trend === 'string')
+        .map(trend => trendsByName.get(trend.trim().toLowerCase()))
+        .filter((trend): trend is string => trend !== undefined)
+        .slice(0, maxPicks);
+
+      console.log(`[LLM Service] Selected ${selected.length} trend(s) for agent ${agent.agentId}: ${selected.join(', ') || 'none'}`);
+
+      return {
+        success: true,
+        trends: Array.from(new Set(selected))
+      };
+    } catch (error) {
+      console.error("Trend selection error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Draft a reply to the latest message in a DM conversation
+   * 
+   * @param agent - Agent record (persona, FAQ and LLM settings)
+   * @param conversation - The other person's handle and the recent messages, oldest first
+   * @returns Promise with the drafted reply and whether it answers from the FAQ
+   */
+  async generateAgentDmReply(
+    agent: any,
+    conversation: { participantUsername?: string | null; messages: Array<{ fromAgent: boolean; text: string }> }
+  ): Promise<LLMDmReplyResponse> {
+    try {
+      const agentPersonality: AgentPersonality = {
+        name: agent.name,
+        goal: agent.goal,
+        brand: agent.brand,
+        language: agent.language,
+        exampleUserQuestion: agent.exampleUserQuestion,
+        exampleAgentReply: agent.exampleAgentReply
+      };
+
+      const systemPrompt = LLMPrompts.createDmReplyPrompt(agentPersonality, conversation, agent.dmFaq);
+      const userPrompt = LLMPrompts.getUserPrompts().dmReply;
+
+      const result = await this.generateText(systemPrompt, userPrompt, this.getAgentSettings(agent));
+
+      if (!result.success || !result.content) {
+        console.error(`[LLM Service] Failed to generate DM reply: ${result.error}`);
+        return {
+          success: false,
+          error: result.error || "Failed to generate DM reply"
+        };
+      }
+
+      const parsed = this.parseDmReply(result.content);
+
+      if (!parsed) {
+        console.warn(`[LLM Service] Could not parse DM reply for agent ${agent.agentId}. Response: "${result.content}"`);
+        return {
+          success: false,
+          error: "Generated DM reply could not be parsed"
+        };
+      }
+
+      console.log(`[LLM Service] Generated DM reply for agent ${agent.agentId} (faqAnswer: ${parsed.faqAnswer})`);
+
+      return {
+        success: true,
+        content: parsed.reply,
+        // Without an FAQ there is nothing a reply could safely be answered from
+        faqAnswer: Boolean(agent.dmFaq) && parsed.faqAnswer
+      };
+    } catch (error) {
+      console.error("DM reply generation error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Parse the JSON object of a DM reply from an LLM response
+   */
+  private parseDmReply(content: string): { reply: string; faqAnswer: boolean } | null {
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+
+    if (start === -1 || end <= start) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(content.slice(start, end + 1));
+      const reply = typeof parsed.reply === 'string'
+        ? parsed.reply.replace(/—/g, "-").trim()
+        : '';
+
+      if (!reply) {
+        return null;
+      }
+
+      return {
+        reply: reply.slice(0, MAX_DM_REPLY_LENGTH),
+        faqAnswer: parsed.faqAnswer === true
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Parse the JSON array of thread parts from an LLM response
+   */
+  private parseThreadParts(content: string): string[] {
+    const start = content.indexOf('[');
+    const end = content.lastIndexOf(']');
+
+    if (start === -1 || end <= start) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(content.slice(start, end + 1));
+      if (!Array.isArray(parsed)) {
+        return [];
+      }
+
+      return parsed
+        .filter((part): part is string => typeof part === 'string')
+        .map(part => {
+          const cleaned = part
+            .replace(/^\s*\d+\s*\/\s*\d*\s*/, "")  // strip "1/" or "1/5" numbering
+            .replace(/^["']|["']$/g, "")              // strip quotes
+            .replace(/—/g, "-")                       // replace em-dashes
+            .trim();
+
+          return cleaned.length > 280 ? cleaned.slice(0, 277) + "..." : cleaned;
+        })
+        .filter(part => part.length > 0);
+    } catch (error) {
+      return [];
+    }
+  }
+
   /**
    * Clean up tweet text from LLM response
    */
@@ -273,7 +669,7 @@ export class LLMService {
       const systemPrompt = LLMPrompts.createReplyTweetPrompt(agentPersonality, tweetContext);
       const userPrompt = LLMPrompts.getUserPrompts().replyTweet;
 
-      const result = await this.generateText(systemPrompt, userPrompt);
+      const result = await this.generateText(systemPrompt, userPrompt, this.getAgentSettings(agent));
 
       if (result.success && result.content) {
         const cleanedReply = this.cleanTweetText(result.content);
@@ -325,7 +721,7 @@ export class LLMService {
 }
 
 const llmService = new LLMService({
-  model: "deepseek/deepseek-chat-v3-0324"
+  provider: "openrouter"
 });
 
 export default llmService; 
\ No newline at end of file
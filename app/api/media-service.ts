@@ -0,0 +1,383 @@
+/**
+ * Media Service
+ *
+ * Stores images, GIFs and videos attached to tweets and loads them back at post time.
+ * Files live on local disk by default, or in a Supabase Storage bucket (S3-compatible)
+ * when MEDIA_STORAGE_DRIVER=supabase.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+import { MediaType, TweetMedia } from "@prisma/client";
+import prisma from "../db/utils/dbClient";
+import { createAdminClient } from "@/lib/supabase/admin-client";
+
+export type MediaStorageDriver = 'local' | 'supabase';
+
+/**
+ * Upload limits per media type, matching what X accepts for a single tweet
+ */
+export const MEDIA_LIMITS: Record<MediaType, { maxBytes: number; mimeTypes: string[] }> = {
+  image: {
+    maxBytes: 5 * 1024 * 1024,
+    mimeTypes: ['image/jpeg', 'image/png', 'image/webp']
+  },
+  gif: {
+    maxBytes: 15 * 1024 * 1024,
+    mimeTypes: ['image/gif']
+  },
+  video: {
+    maxBytes: 512 * 1024 * 1024,
+    mimeTypes: ['video/mp4', 'video/quicktime']
+  }
+};
+
+// X allows up to 4 images, or a single GIF or video, per tweet
+export const MAX_IMAGES_PER_TWEET = 4;
+
+// Uploads that never get attached to a tweet are removed after this long
+const UNATTACHED_MEDIA_TTL_HOURS = 24;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov'
+};
+
+/**
+ * Payload shape expected by Scraper.sendTweet and sendNoteTweet
+ */
+export interface TweetMediaPayload {
+  data: Buffer;
+  mediaType: string;
+}
+
+export interface MediaResult {
+  success: boolean;
+  media?: TweetMedia[];
+  error?: string;
+}
+
+interface StorageBackend {
+  write(key: string, data: Buffer, mimeType: string): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  remove(keys: string[]): Promise<void>;
+}
+
+const diskStorage: StorageBackend = {
+  async write(key, data) {
+    const filePath = resolveLocalPath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  },
+
+  async read(key) {
+    return fs.readFile(resolveLocalPath(key));
+  },
+
+  async remove(keys) {
+    await Promise.all(keys.map(key =>
+      fs.rm(resolveLocalPath(key), { force: true })
+    ));
+  }
+};
+
+const bucketStorage: StorageBackend = {
+  async write(key, data, mimeType) {
+    const { error } = await createAdminClient().storage
+      .from(getBucketName())
+      .upload(key, data, { contentType: mimeType, upsert: false });
+
+    if (error) {
+      throw new Error(`Media upload failed: ${error.message}`);
+    }
+  },
+
+  async read(key) {
+    const { data, error } = await createAdminClient().storage
+      .from(getBucketName())
+      .download(key);
+
+    if (error || !data) {
+      throw new Error(`Media download failed: ${error?.message || 'empty response'}`);
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  },
+
+  async remove(keys) {
+    if (keys.length === 0) return;
+
+    const { error } = await createAdminClient().storage
+      .from(getBucketName())
+      .remove(keys);
+
+    if (error) {
+      throw new Error(`Media removal failed: ${error.message}`);
+    }
+  }
+};
+
+function getBucketName(): string {
+  return process.env.MEDIA_STORAGE_BUCKET || 'tweet-media';
+}
+
+function resolveLocalPath(key: string): string {
+  const root = path.resolve(process.env.MEDIA_STORAGE_DIR || './data/media');
+  const filePath = path.resolve(root, key);
+
+  // Keys are generated server-side, but never let one escape the media directory
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid media storage key: ${key}`);
+  }
+
+  return filePath;
+}
+
+function getStorage(): StorageBackend {
+  const driver = (process.env.MEDIA_STORAGE_DRIVER || 'local') as MediaStorageDriver;
+  return driver === 'supabase' ? bucketStorage : diskStorage;
+}
+
+/**
+ * Work out which kind of media a MIME type is, if it is supported at all
+ *
+ * @param mimeType - MIME type reported for the upload
+ * @returns Media type, or null when X does not accept the format
+ */
+export function getMediaType(mimeType: string): MediaType | null {
+  const entry = (Object.entries(MEDIA_LIMITS) as [MediaType, typeof MEDIA_LIMITS[MediaType]][])
+    .find(([, limits]) => limits.mimeTypes.includes(mimeType));
+
+  return entry ? entry[0] : null;
+}
+
+/**
+ * Check that an upload is a format X accepts and within the size limit for its type
+ *
+ * @param mimeType - MIME type reported for the upload
+ * @param sizeBytes - Size of the upload
+ * @returns Error message, or null when the upload is allowed
+ */
+export function validateUpload(mimeType: string, sizeBytes: number): string | null {
+  const mediaType = getMediaType(mimeType);
+  if (!mediaType) {
+    return `Unsupported media type: ${mimeType}`;
+  }
+
+  const { maxBytes } = MEDIA_LIMITS[mediaType];
+  if (sizeBytes > maxBytes) {
+    return `File is too large (max ${Math.round(maxBytes / (1024 * 1024))}MB for ${mediaType === 'image' ? 'images' : `${mediaType}s`})`;
+  }
+
+  return null;
+}
+
+/**
+ * Check that a set of media can be posted together in one tweet
+ *
+ * @param media - Media records in posting order
+ * @returns Error message, or null when the combination is allowed
+ */
+function validateCombination(media: Pick<TweetMedia, 'mediaType'>[]): string | null {
+  const images = media.filter(item => item.mediaType === 'image').length;
+
+  if (images !== media.length && media.length > 1) {
+    return "A GIF or video must be the only media in a tweet";
+  }
+
+  if (images > MAX_IMAGES_PER_TWEET) {
+    return `A tweet can have at most ${MAX_IMAGES_PER_TWEET} images`;
+  }
+
+  return null;
+}
+
+/**
+ * Media Service - Handles tweet media uploads and storage
+ */
+export const mediaService = {
+  /**
+   * Store an uploaded file for an agent. The file stays unattached until a tweet is
+   * posted or scheduled with its media ID.
+   *
+   * @param options - Owning agent, file contents and MIME type
+   * @returns Promise with the stored media record
+   */
+  async upload(options: { agentId: string; data: Buffer; mimeType: string }): Promise<MediaResult> {
+    const { agentId, data, mimeType } = options;
+
+    const uploadError = validateUpload(mimeType, data.length);
+    if (uploadError) {
+      return { success: false, error: uploadError };
+    }
+
+    const mediaType = getMediaType(mimeType)!;
+    const storageKey = `${agentId}/${crypto.randomUUID()}.${FILE_EXTENSIONS[mimeType]}`;
+
+    try {
+      await getStorage().write(storageKey, data, mimeType);
+
+      const media = await prisma.tweetMedia.create({
+        data: {
+          agentId,
+          mediaType,
+          mimeType,
+          storageKey,
+          sizeBytes: data.length
+        }
+      });
+
+      console.log(`[Media] Stored ${mediaType} ${media.mediaId} for agent ${agentId} (${data.length} bytes)`);
+
+      return { success: true, media: [media] };
+    } catch (error) {
+      console.error(`[Media] Failed to store upload for agent ${agentId}:`, error);
+
+      // Don't leave a file behind without a record pointing at it
+      await getStorage().remove([storageKey]).catch(() => undefined);
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
+  /**
+   * Look up uploads that are about to be attached to a tweet and check they belong to
+   * the agent, are not already in use and can be posted together
+   *
+   * @param agentId - Agent the tweet is posted from
+   * @param mediaIds - Media IDs in the order they should appear
+   * @returns Promise with the media records in the requested order
+   */
+  async getAttachable(agentId: string, mediaIds: string[]): Promise<MediaResult> {
+    if (mediaIds.length === 0) {
+      return { success: true, media: [] };
+    }
+
+    const records = await prisma.tweetMedia.findMany({
+      where: {
+        mediaId: { in: mediaIds },
+        agentId,
+        tweetId: null
+      }
+    });
+
+    if (records.length !== mediaIds.length) {
+      return { success: false, error: "Media not found or already attached to another tweet" };
+    }
+
+    const media = mediaIds.map(id => records.find(record => record.mediaId === id)!);
+
+    const combinationError = validateCombination(media);
+    if (combinationError) {
+      return { success: false, error: combinationError };
+    }
+
+    return { success: true, media };
+  },
+
+  /**
+   * Attach uploaded media to a tweet, keeping the order it was picked in
+   *
+   * @param tweetId - Tweet record the media belongs to
+   * @param mediaIds - Media IDs in posting order
+   */
+  async attachToTweet(tweetId: string, mediaIds: string[]): Promise<void> {
+    await prisma.$transaction(
+      mediaIds.map((mediaId, position) =>
+        prisma.tweetMedia.update({
+          where: { mediaId },
+          data: { tweetId, position }
+        })
+      )
+    );
+  },
+
+  /**
+   * Read media back from storage in the shape the scraper posts
+   *
+   * @param media - Media records in posting order
+   * @returns Promise with the file contents and MIME types
+   */
+  async load(media: Pick<TweetMedia, 'storageKey' | 'mimeType'>[]): Promise<TweetMediaPayload[]> {
+    const storage = getStorage();
+
+    return Promise.all(media.map(async item => ({
+      data: await storage.read(item.storageKey),
+      mediaType: item.mimeType
+    })));
+  },
+
+  /**
+   * Read all media attached to a tweet
+   *
+   * @param tweetId - Tweet record ID
+   * @returns Promise with the file contents, or undefined when the tweet has no media
+   */
+  async loadForTweet(tweetId: string): Promise<TweetMediaPayload[] | undefined> {
+    const media = await prisma.tweetMedia.findMany({
+      where: { tweetId },
+      orderBy: { position: 'asc' }
+    });
+
+    return media.length > 0 ? this.load(media) : undefined;
+  },
+
+  /**
+   * Delete media records and their stored files
+   *
+   * @param where - Filter selecting the media to remove
+   * @returns Promise with the number of files removed
+   */
+  async remove(where: { mediaId?: string; agentId?: string; tweetId?: string | null; createdAt?: { lt: Date } }): Promise<number> {
+    const media = await prisma.tweetMedia.findMany({
+      where,
+      select: { mediaId: true, storageKey: true }
+    });
+
+    if (media.length === 0) {
+      return 0;
+    }
+
+    await this.deleteFiles(media);
+    await prisma.tweetMedia.deleteMany({
+      where: { mediaId: { in: media.map(item => item.mediaId) } }
+    });
+
+    return media.length;
+  },
+
+  /**
+   * Delete stored files whose records are already gone (e.g. removed with their tweet)
+   *
+   * @param media - Media records that pointed at the files
+   */
+  async deleteFiles(media: Pick<TweetMedia, 'storageKey'>[]): Promise<void> {
+    if (media.length === 0) return;
+
+    await getStorage().remove(media.map(item => item.storageKey));
+  },
+
+  /**
+   * Remove uploads that were never attached to a tweet (e.g. the modal was closed)
+   */
+  async purgeUnattached(): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - UNATTACHED_MEDIA_TTL_HOURS * 60 * 60 * 1000);
+      const removed = await this.remove({ tweetId: null, createdAt: { lt: cutoff } });
+
+      if (removed > 0) {
+        console.log(`[Media] Removed ${removed} unattached upload(s) older than ${UNATTACHED_MEDIA_TTL_HOURS}h.`);
+      }
+    } catch (error) {
+      console.error("[Media] Error purging unattached uploads:", error);
+    }
+  }
+};
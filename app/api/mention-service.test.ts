@@ -0,0 +1,121 @@
+import prisma from '../db/utils/dbClient';
+import { autoEngageService } from './auto-engage-service';
+import llmService from './llm-service';
+import { mentionService } from './mention-service';
+
+jest.mock('../db/utils/dbClient', () => ({
+  __esModule: true,
+  default: {
+    agent: { findUnique: jest.fn(), update: jest.fn() },
+    reply: { findMany: jest.fn(), groupBy: jest.fn(), create: jest.fn() }
+  }
+}));
+jest.mock('./auto-engage-service', () => ({
+  autoEngageService: {
+    loginScraper: jest.fn(),
+    getReplyQuota: jest.fn(),
+    sendReply: jest.fn(),
+    failPostingReply: jest.fn()
+  },
+  getReplyLeaseExpiry: () => new Date(Date.now() + 10 * 60 * 1000)
+}));
+jest.mock('./llm-service', () => ({
+  __esModule: true,
+  default: { generateAgentTweetReply: jest.fn() }
+}));
+jest.mock('../search', () => ({ SearchMode: { Latest: 1 } }));
+
+const db = prisma as unknown as {
+  agent: { findUnique: jest.Mock; update: jest.Mock };
+  reply: { findMany: jest.Mock; groupBy: jest.Mock; create: jest.Mock };
+};
+const engage = autoEngageService as unknown as Record<'loginScraper' | 'getReplyQuota' | 'sendReply' | 'failPostingReply', jest.Mock>;
+const llm = llmService as unknown as { generateAgentTweetReply: jest.Mock };
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const mention = (id: string, conversationId: string) => ({
+  id,
+  conversationId,
+  text: `@agent question ${id}`,
+  username: 'someone',
+  userId: 'u-someone',
+  timeParsed: NOW
+});
+
+const checkMentions = async (mentionsMaxDepth: number, tweets: ReturnType<typeof mention>[]) => {
+  db.agent.findUnique.mockResolvedValue({
+    agentId: 'agent-1',
+    mentionsEnabled: true,
+    mentionsMaxDepth,
+    autoEngageAutoReply: true,
+    lastMentionTweetId: null,
+    twitterAuth: { twitterUserId: 'u-agent', twitterScreenName: 'agent' }
+  });
+  engage.loginScraper.mockResolvedValue({ success: true, scraper: { fetchSearchTweets: jest.fn().mockResolvedValue({ tweets }) } });
+
+  const checking = mentionService.checkMentions('agent-1', 'user-1');
+  await jest.runAllTimersAsync();
+  return checking;
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.useFakeTimers({ now: NOW });
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  db.reply.findMany.mockResolvedValue([]);
+  db.reply.create.mockImplementation(async ({ data }) => ({ replyId: `reply-${data.originalTweetId}`, ...data }));
+  engage.getReplyQuota.mockResolvedValue({ success: true, remaining: 5 });
+  engage.sendReply.mockResolvedValue(true);
+  llm.generateAgentTweetReply.mockResolvedValue('Thanks for asking!');
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('checkMentions', () => {
+  test('skips conversations the agent has already replied in up to the depth limit', async () => {
+    db.reply.groupBy.mockResolvedValue([{ conversationId: 'c1', _count: { _all: 2 } }]);
+
+    const result = await checkMentions(2, [mention('101', 'c1'), mention('102', 'c2')]);
+
+    expect(result.results).toMatchObject({ mentionsFound: 2, repliesPosted: 1, skippedForDepth: 1 });
+    expect(db.reply.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ status: { in: ['pending', 'approved', 'posting', 'posted'] } })
+    }));
+    expect(db.reply.create).toHaveBeenCalledTimes(1);
+    expect(db.reply.create.mock.calls[0][0].data.originalTweetId).toBe('102');
+  });
+
+  test('answers a conversation still under the depth limit', async () => {
+    db.reply.groupBy.mockResolvedValue([{ conversationId: 'c1', _count: { _all: 1 } }]);
+
+    const result = await checkMentions(2, [mention('101', 'c1')]);
+
+    expect(result.results).toMatchObject({ repliesPosted: 1, skippedForDepth: 0 });
+  });
+
+  test('creates replies it posts straight away in posting under a lease', async () => {
+    db.reply.groupBy.mockResolvedValue([]);
+
+    await checkMentions(2, [mention('101', 'c1')]);
+
+    expect(db.reply.create.mock.calls[0][0].data).toMatchObject({
+      status: 'posting',
+      leaseExpiresAt: new Date(NOW.getTime() + 10 * 60 * 1000)
+    });
+  });
+
+  test('queues replies for review without a lease when there is no quota left', async () => {
+    db.reply.groupBy.mockResolvedValue([]);
+    engage.getReplyQuota.mockResolvedValue({ success: true, remaining: 0 });
+
+    const result = await checkMentions(2, [mention('101', 'c1')]);
+
+    expect(result.results).toMatchObject({ repliesQueued: 1, repliesPosted: 0 });
+    expect(db.reply.create.mock.calls[0][0].data).toMatchObject({ status: 'pending', leaseExpiresAt: null });
+    expect(engage.sendReply).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Mention Service
+ *
+ * Watches for people @-mentioning or replying to an agent and answers them through the
+ * regular reply pipeline, capping how often the agent replies within one conversation
+ */
+
+import prisma from '../db/utils/dbClient';
+import { autoEngageService, getReplyLeaseExpiry } from './auto-engage-service';
+import llmService from './llm-service';
+import { SearchMode } from '../search';
+import { Tweet } from '../tweets';
+import { ReplySource, ReplyStatus } from '@prisma/client';
+
+// An agent's mentions are checked at most this often
+export const MENTIONS_CHECK_INTERVAL_MINUTES = 15;
+
+// Mentions read per check, and replies drafted per check so a pile-on can't run up LLM costs
+const MENTION_SEARCH_RESULTS = 40;
+const MAX_REPLIES_PER_CHECK = 5;
+
+// The first check only answers mentions this recent, instead of the agent's whole history
+const FIRST_CHECK_LOOKBACK_HOURS = 24;
+
+const REPLY_DELAY_MS = 2000;
+
+// Replies that count toward a conversation's depth limit (everything the agent has said or will say)
+const DEPTH_STATUSES: ReplyStatus[] = [
+  ReplyStatus.pending,
+  ReplyStatus.approved,
+  ReplyStatus.posting,
+  ReplyStatus.posted
+];
+
+/**
+ * Compare two X tweet IDs (snowflakes, too big for a number)
+ */
+function isNewerTweetId(id: string, than: string): boolean {
+  return id.length !== than.length ? id.length > than.length : id > than;
+}
+
+/**
+ * Mention Service
+ */
+export const mentionService = {
+  /**
+   * Read new mentions and replies to the agent and answer them, posting straight away when the
+   * agent posts without review and otherwise queueing the replies in the reply inbox
+   *
+   * @param agentId Agent ID
+   * @param userId User ID
+   * @returns Counts of mentions found and replies queued, posted or skipped for depth
+   */
+  async checkMentions(agentId: string, userId: string): Promise<{
+    success: boolean;
+    results?: {
+      mentionsFound: number;
+      repliesQueued: number;
+      repliesPosted: number;
+      repliesFailed: number;
+      skippedForDepth: number;
+    };
+    error?: string;
+  }> {
+    try {
+      const agent = await prisma.agent.findUnique({
+        where: { agentId, userId },
+        include: { twitterAuth: true }
+      });
+
+      if (!agent) {
+        return { success: false, error: 'Agent not found' };
+      }
+
+      if (!agent.mentionsEnabled) {
+        return { success: false, error: 'Mention replies are disabled for this agent' };
+      }
+
+      // Mark the check as started so a failing agent isn't retried on every scheduler tick
+      await prisma.agent.update({
+        where: { agentId },
+        data: { lastMentionsCheckTime: new Date() }
+      });
+
+      const login = await autoEngageService.loginScraper(agentId, userId);
+
+      if (!login.success || !login.scraper) {
+        return { success: false, error: login.error || 'X login failed' };
+      }
+
+      const scraper = login.scraper;
+      const me = agent.twitterAuth?.twitterUserId && agent.twitterAuth?.twitterScreenName
+        ? { userId: agent.twitterAuth.twitterUserId, username: agent.twitterAuth.twitterScreenName }
+        : await scraper.me();
+
+      if (!me?.userId || !me.username) {
+        return { success: false, error: 'Could not determine the agent\'s X account' };
+      }
+
+      // Step 1: Mentions of the agent and replies under its tweets, newer than the last check
+      const response = await scraper.fetchSearchTweets(
+        `(@${me.username} OR to:${me.username}) -from:${me.username}`,
+        MENTION_SEARCH_RESULTS,
+        SearchMode.Latest
+      );
+
+      const since = agent.lastMentionTweetId;
+      const lookbackStart = Date.now() - FIRST_CHECK_LOOKBACK_HOURS * 60 * 60 * 1000;
+
+      const mentions = response.tweets.filter((tweet): tweet is Tweet & { id: string } =>
+        !!tweet.id &&
+        !!tweet.text &&
+        !tweet.isRetweet &&
+        tweet.userId !== me.userId &&
+        (since ? isNewerTweetId(tweet.id, since) : (tweet.timeParsed?.getTime() ?? 0) >= lookbackStart)
+      );
+
+      const newestId = response.tweets
+        .map(tweet => tweet.id)
+        .filter((id): id is string => !!id)
+        .reduce<string | null>((newest, id) => (!newest || isNewerTweetId(id, newest) ? id : newest), since);
+
+      if (newestId && newestId !== since) {
+        await prisma.agent.update({
+          where: { agentId },
+          data: { lastMentionTweetId: newestId }
+        });
+      }
+
+      const results = {
+        mentionsFound: mentions.length,
+        repliesQueued: 0,
+        repliesPosted: 0,
+        repliesFailed: 0,
+        skippedForDepth: 0
+      };
+
+      if (mentions.length === 0) {
+        return { success: true, results };
+      }
+
+      console.log(`[Mentions] Found ${mentions.length} new mention(s) of @${me.username} for agent ${agentId}`);
+
+      // Step 2: Drop mentions already answered, and conversations the agent has replied in enough
+      const answered = await prisma.reply.findMany({
+        where: { agentId, originalTweetId: { in: mentions.map(tweet => tweet.id) } },
+        select: { originalTweetId: true }
+      });
+      const answeredIds = new Set(answered.map(reply => reply.originalTweetId));
+
+      const conversationIds = Array.from(new Set(mentions.map(tweet => tweet.conversationId || tweet.id)));
+      const depths = await prisma.reply.groupBy({
+        by: ['conversationId'],
+        where: { agentId, conversationId: { in: conversationIds }, status: { in: DEPTH_STATUSES } },
+        _count: { _all: true }
+      });
+      const depthByConversation = new Map(depths.map(depth => [depth.conversationId, depth._count._all]));
+
+      // Newest first, and only the latest mention in each conversation
+      const toAnswer: Array<Tweet & { id: string }> = [];
+      const seenConversations = new Set<string>();
+
+      for (const tweet of [...mentions].sort((a, b) => (isNewerTweetId(a.id, b.id) ? -1 : 1))) {
+        const conversationId = tweet.conversationId || tweet.id;
+
+        if (answeredIds.has(tweet.id) || seenConversations.has(conversationId)) continue;
+        seenConversations.add(conversationId);
+
+        if ((depthByConversation.get(conversationId) || 0) >= agent.mentionsMaxDepth) {
+          results.skippedForDepth++;
+          continue;
+        }
+
+        toAnswer.push(tweet);
+      }
+
+      if (results.skippedForDepth > 0) {
+        console.log(`[Mentions] Skipped ${results.skippedForDepth} conversation(s) at the ${agent.mentionsMaxDepth}-reply depth limit for agent ${agentId}`);
+      }
+
+      // Step 3: Work out how many replies may go out now
+      let canPost = 0;
+      if (agent.autoEngageAutoReply) {
+        const quota = await autoEngageService.getReplyQuota(userId, agentId);
+        canPost = quota.success ? quota.remaining || 0 : 0;
+      }
+
+      // Step 4: Draft replies, then post them or queue them for review
+      for (const tweet of toAnswer.slice(0, MAX_REPLIES_PER_CHECK)) {
+        let savedReply;
+
+        try {
+          const replyText = await llmService.generateAgentTweetReply(agentId, await this.buildContext(agentId, tweet), agent);
+
+          if (!replyText) {
+            console.warn(`[Mentions] Failed to generate reply to mention ${tweet.id}`);
+            continue;
+          }
+
+          const post = canPost > 0;
+
+          try {
+            savedReply = await prisma.reply.create({
+              data: {
+                agentId,
+                originalTweetId: tweet.id,
+                originalTweetText: tweet.text!.substring(0, 500),
+                originalTweetUser: tweet.username || 'unknown',
+                replyText,
+                status: post ? ReplyStatus.posting : ReplyStatus.pending,
+                leaseExpiresAt: post ? getReplyLeaseExpiry() : null,
+                source: ReplySource.mention,
+                conversationId: tweet.conversationId || tweet.id,
+                confidence: 0.8
+              }
+            });
+          } catch (error: any) {
+            // Answered by auto-engage in the meantime
+            if (error.code === 'P2002') continue;
+            throw error;
+          }
+
+          if (!post) {
+            results.repliesQueued++;
+            continue;
+          }
+
+          if (await autoEngageService.sendReply(scraper, agentId, userId, savedReply)) {
+            results.repliesPosted++;
+            canPost--;
+          } else {
+            results.repliesFailed++;
+          }
+
+          await new Promise(resolve => setTimeout(resolve, REPLY_DELAY_MS));
+
+        } catch (error) {
+          results.repliesFailed++;
+          console.error(`[Mentions] Error replying to mention ${tweet.id} for agent ${agentId}:`, error);
+
+          if (savedReply) {
+            await autoEngageService.failPostingReply(savedReply.replyId);
+          }
+        }
+      }
+
+      console.log(`[Mentions] Agent ${agentId}: ${results.repliesPosted} posted, ${results.repliesQueued} queued for review, ${results.repliesFailed} failed`);
+
+      return { success: true, results };
+
+    } catch (error) {
+      console.error(`[Mentions] Error checking mentions for agent ${agentId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
+  /**
+   * Describe a mention for the reply prompt, including what the agent said when it's a reply to the agent
+   *
+   * @param agentId Agent ID
+   * @param tweet Mention to describe
+   * @returns Tweet context for the LLM
+   */
+  async buildContext(agentId: string, tweet: Tweet): Promise<string> {
+    let context = `Author: @${tweet.username} (${tweet.name || tweet.username})\n`;
+
+    if (tweet.inReplyToStatusId) {
+      const [ownTweet, ownReply] = await Promise.all([
+        prisma.tweet.findFirst({
+          where: { agentId, twitterTweetId: tweet.inReplyToStatusId },
+          select: { text: true }
+        }),
+        prisma.reply.findFirst({
+          where: { agentId, twitterReplyId: tweet.inReplyToStatusId },
+          select: { replyText: true }
+        })
+      ]);
+      const ownText = ownTweet?.text || ownReply?.replyText;
+
+      if (ownText) {
+        context += `They are replying to your post: "${ownText}"\n`;
+      }
+    }
+
+    return `${context}Tweet: "${tweet.text}"`;
+  }
+};
@@ -0,0 +1,137 @@
+/**
+ * Notification Service
+ *
+ * Persists user-facing notifications raised by background jobs (scheduler, auto-engage,
+ * X authentication, Stripe billing) so they can be shown in the dashboard bell.
+ */
+
+import prisma from "../db/utils/dbClient";
+import { NotificationType } from "@prisma/client";
+
+export interface CreateNotificationOptions {
+  userId: string;
+  agentId?: string | null;
+  type: NotificationType;
+  title: string;
+  message: string;
+  /**
+   * Skip creating the notification if an unread one of the same type (and agent)
+   * was created within this window. Background jobs retry often, so this keeps
+   * the bell from filling up with duplicates.
+   */
+  dedupeWindowMinutes?: number;
+}
+
+const DEFAULT_DEDUPE_WINDOW_MINUTES = 60;
+
+export const notificationService = {
+  /**
+   * Create a notification for a user
+   *
+   * @param options Notification details
+   * @returns The created notification ID, or null if skipped/failed
+   */
+  async create(options: CreateNotificationOptions): Promise<string | null> {
+    const {
+      userId,
+      agentId = null,
+      type,
+      title,
+      message,
+      dedupeWindowMinutes = DEFAULT_DEDUPE_WINDOW_MINUTES
+    } = options;
+
+    try {
+      if (dedupeWindowMinutes > 0) {
+        const existing = await prisma.notification.findFirst({
+          where: {
+            userId,
+            agentId,
+            type,
+            readAt: null,
+            createdAt: { gte: new Date(Date.now() - dedupeWindowMinutes * 60 * 1000) }
+          },
+          select: { notificationId: true }
+        });
+
+        if (existing) {
+          return null;
+        }
+      }
+
+      const notification = await prisma.notification.create({
+        data: { userId, agentId, type, title, message },
+        select: { notificationId: true }
+      });
+
+      console.log(`[Notifications] ${type} notification created for user ${userId}${agentId ? ` (agent ${agentId})` : ''}`);
+      return notification.notificationId;
+    } catch (error) {
+      // Notifications must never break the job that raised them
+      console.error(`[Notifications] Failed to create ${type} notification for user ${userId}:`, error);
+      return null;
+    }
+  },
+
+  /**
+   * List a user's most recent notifications
+   *
+   * @param userId User ID
+   * @param options Filtering options
+   * @returns Notifications and the unread count
+   */
+  async list(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ) {
+    const { unreadOnly = false, limit = 20 } = options;
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          userId,
+          ...(unreadOnly && { readAt: null })
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        select: {
+          notificationId: true,
+          agentId: true,
+          type: true,
+          title: true,
+          message: true,
+          readAt: true,
+          createdAt: true,
+          agent: {
+            select: { name: true }
+          }
+        }
+      }),
+      prisma.notification.count({
+        where: { userId, readAt: null }
+      })
+    ]);
+
+    return { notifications, unreadCount };
+  },
+
+  /**
+   * Mark notifications as read
+   *
+   * @param userId User ID (scopes the update to the user's own notifications)
+   * @param notificationIds Notifications to mark, or undefined to mark all
+   * @returns Number of notifications updated
+   */
+  async markRead(userId: string, notificationIds?: string[]): Promise<number> {
+    const result = await prisma.notification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        ...(notificationIds && { notificationId: { in: notificationIds } })
+      },
+      data: { readAt: new Date() }
+    });
+
+    return result.count;
+  }
+};
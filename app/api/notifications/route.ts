@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/api/utils/auth';
+import { notificationService } from '@/app/api/notification-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - List the current user's notifications
+ * Query params: unread=true to only return unread, limit (max 50)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const unreadOnly = searchParams.get('unread') === 'true';
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20') || 20, 50);
+
+    // 3. Fetch notifications
+    const { notifications, unreadCount } = await notificationService.list(userId, { unreadOnly, limit });
+
+    return NextResponse.json({
+      success: true,
+      notifications,
+      unreadCount
+    });
+  } catch (error) {
+    console.error('[Notifications GET] Error:', error);
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH - Mark notifications as read
+ * Body: { notificationIds: string[] } or { all: true }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Parse request body
+    const body = await request.json();
+    const { notificationIds, all } = body;
+
+    if (all !== true && (!Array.isArray(notificationIds) || notificationIds.length === 0)) {
+      return NextResponse.json(
+        { error: "Provide 'notificationIds' or set 'all' to true" },
+        { status: 400 }
+      );
+    }
+
+    // 3. Mark as read (scoped to the user's own notifications)
+    const updated = await notificationService.markRead(userId, all === true ? undefined : notificationIds);
+
+    return NextResponse.json({
+      success: true,
+      updated
+    });
+  } catch (error) {
+    console.error('[Notifications PATCH] Error:', error);
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
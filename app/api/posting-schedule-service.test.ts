@@ -0,0 +1,226 @@
+import { postingScheduleService, getHourOfWeek, PostingSchedule } from './posting-schedule-service';
+
+jest.mock('../db/utils/dbClient', () => ({ __esModule: true, default: {} }));
+
+const schedule = (overrides: Partial<PostingSchedule> = {}): PostingSchedule => ({
+  timezone: 'UTC',
+  activeHours: null,
+  blackoutDates: [],
+  jitterMinutes: 0,
+  ...overrides
+});
+
+// Monday 09:00-17:00 in New York; 2025-06-02 and 2025-01-06 are Mondays
+const newYorkWorkday = schedule({
+  timezone: 'America/New_York',
+  activeHours: [{ day: 1, start: '09:00', end: '17:00' }]
+});
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('getHourOfWeek', () => {
+  test('reads the hour in the given time zone', () => {
+    const moment = new Date('2025-06-01T23:30:00Z'); // Sunday in UTC, Monday 08:30 in Tokyo
+
+    expect(getHourOfWeek(moment, 'UTC')).toBe(23);
+    expect(getHourOfWeek(moment, 'Asia/Tokyo')).toBe(24 + 8);
+  });
+});
+
+describe('isActive', () => {
+  test('any time is active without active hours', () => {
+    expect(postingScheduleService.isActive(schedule(), new Date('2025-06-04T03:17:00Z'))).toBe(true);
+  });
+
+  test('active hours are read in the agent\'s time zone, end exclusive', () => {
+    const isActiveAt = (moment: string) => postingScheduleService.isActive(newYorkWorkday, new Date(moment));
+
+    expect(isActiveAt('2025-06-02T12:59:00Z')).toBe(false);
+    expect(isActiveAt('2025-06-02T13:00:00Z')).toBe(true);
+    expect(isActiveAt('2025-06-02T20:59:00Z')).toBe(true);
+    expect(isActiveAt('2025-06-02T21:00:00Z')).toBe(false);
+  });
+
+  test('active hours follow daylight saving time', () => {
+    // New York is UTC-5 in January, so 09:00 local is 14:00 UTC
+    expect(postingScheduleService.isActive(newYorkWorkday, new Date('2025-01-06T13:30:00Z'))).toBe(false);
+    expect(postingScheduleService.isActive(newYorkWorkday, new Date('2025-01-06T14:00:00Z'))).toBe(true);
+  });
+
+  test('the weekday is the local one', () => {
+    // Monday 13:00 UTC is already Monday night in Tokyo, and Monday 09:00 there is Sunday in UTC
+    const tokyoWorkday = schedule({ timezone: 'Asia/Tokyo', activeHours: [{ day: 1, start: '09:00', end: '17:00' }] });
+
+    expect(postingScheduleService.isActive(tokyoWorkday, new Date('2025-06-02T13:00:00Z'))).toBe(false);
+    expect(postingScheduleService.isActive(tokyoWorkday, new Date('2025-06-02T00:00:00Z'))).toBe(true);
+  });
+
+  test('a window can run to the end of the day', () => {
+    const evenings = schedule({ activeHours: [{ day: 1, start: '20:00', end: '24:00' }] });
+
+    expect(postingScheduleService.isActive(evenings, new Date('2025-06-02T23:59:00Z'))).toBe(true);
+    expect(postingScheduleService.isActive(evenings, new Date('2025-06-03T00:00:00Z'))).toBe(false);
+  });
+
+  test('blackout dates are local calendar dates', () => {
+    const tokyoBlackout = schedule({ timezone: 'Asia/Tokyo', blackoutDates: ['2025-06-02'] });
+
+    expect(postingScheduleService.isActive(tokyoBlackout, new Date('2025-06-01T14:59:00Z'))).toBe(true);
+    expect(postingScheduleService.isActive(tokyoBlackout, new Date('2025-06-01T15:00:00Z'))).toBe(false);
+    expect(postingScheduleService.isActive(tokyoBlackout, new Date('2025-06-02T15:00:00Z'))).toBe(true);
+  });
+
+  test('blackout dates override active hours', () => {
+    const blackedOut = { ...newYorkWorkday, blackoutDates: ['2025-06-02'] };
+
+    expect(postingScheduleService.isActive(blackedOut, new Date('2025-06-02T15:00:00Z'))).toBe(false);
+  });
+});
+
+describe('nextActiveTime', () => {
+  test('skips ahead to the next window', () => {
+    const next = postingScheduleService.nextActiveTime(newYorkWorkday, new Date('2025-05-31T10:00:00Z'));
+
+    expect(next).toEqual(new Date('2025-06-02T13:00:00Z'));
+  });
+
+  test('skips blacked out days', () => {
+    const blackedOut = { ...newYorkWorkday, blackoutDates: ['2025-06-02'] };
+
+    expect(postingScheduleService.nextActiveTime(blackedOut, new Date('2025-06-02T10:00:00Z'))).toEqual(new Date('2025-06-09T13:00:00Z'));
+  });
+
+  test('returns null when nothing is active within the horizon', () => {
+    const never = schedule({ activeHours: [{ day: 1, start: '09:00', end: '09:00' }] });
+
+    expect(postingScheduleService.nextActiveTime(never, new Date('2025-06-02T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('planSlots', () => {
+  test('spreads slots evenly over the cycle', () => {
+    const slots = postingScheduleService.planSlots(schedule(), new Date('2025-06-02T00:00:00Z'), new Date('2025-06-02T04:00:00Z'), 4, false);
+
+    expect(iso(slots)).toEqual([
+      '2025-06-02T00:00:00.000Z',
+      '2025-06-02T01:00:00.000Z',
+      '2025-06-02T02:00:00.000Z',
+      '2025-06-02T03:00:00.000Z'
+    ]);
+  });
+
+  test('only places slots in active time, in the agent\'s time zone', () => {
+    const mornings = schedule({
+      timezone: 'America/New_York',
+      activeHours: [{ day: 1, start: '09:00', end: '11:00' }]
+    });
+
+    const slots = postingScheduleService.planSlots(mornings, new Date('2025-06-02T00:00:00Z'), new Date('2025-06-03T00:00:00Z'), 2, false);
+
+    expect(iso(slots)).toEqual(['2025-06-02T13:00:00.000Z', '2025-06-02T14:00:00.000Z']);
+  });
+
+  test('plans nothing when the whole cycle is blacked out', () => {
+    const blackedOut = schedule({ blackoutDates: ['2025-06-02'] });
+
+    expect(postingScheduleService.planSlots(blackedOut, new Date('2025-06-02T00:00:00Z'), new Date('2025-06-03T00:00:00Z'), 3)).toEqual([]);
+  });
+
+  test('plans nothing for no slots', () => {
+    expect(postingScheduleService.planSlots(schedule(), new Date('2025-06-02T00:00:00Z'), new Date('2025-06-03T00:00:00Z'), 0)).toEqual([]);
+  });
+
+  test('fills preferred hours first, best first, and spreads the rest over other hours', () => {
+    const preferred = schedule({ preferredHours: [24 + 5, 24 + 2, 99] });
+
+    const slots = postingScheduleService.planSlots(preferred, new Date('2025-06-02T00:00:00Z'), new Date('2025-06-02T06:00:00Z'), 3, false);
+
+    expect(iso(slots)).toEqual([
+      '2025-06-02T00:00:00.000Z',
+      '2025-06-02T02:00:00.000Z',
+      '2025-06-02T05:00:00.000Z'
+    ]);
+  });
+
+  test('only uses as many preferred hours as there are slots', () => {
+    const preferred = schedule({ preferredHours: [24 + 5, 24 + 2] });
+
+    const slots = postingScheduleService.planSlots(preferred, new Date('2025-06-02T00:00:00Z'), new Date('2025-06-02T06:00:00Z'), 1, false);
+
+    expect(iso(slots)).toEqual(['2025-06-02T05:00:00.000Z']);
+  });
+
+  test('preferred hours are local hours of the week', () => {
+    // Monday 09:00 in Tokyo is Monday 00:00 UTC
+    const preferred = schedule({ timezone: 'Asia/Tokyo', preferredHours: [24 + 9] });
+
+    const slots = postingScheduleService.planSlots(preferred, new Date('2025-06-01T22:00:00Z'), new Date('2025-06-02T04:00:00Z'), 1, false);
+
+    expect(iso(slots)).toEqual(['2025-06-02T00:00:00.000Z']);
+  });
+
+  test('jitter keeps slots in active time and inside the cycle', () => {
+    const firstHour = schedule({ activeHours: [{ day: 1, start: '00:00', end: '01:00' }], jitterMinutes: 30 });
+    const plan = () => postingScheduleService.planSlots(firstHour, new Date('2025-06-02T00:00:00Z'), new Date('2025-06-02T01:00:00Z'), 1);
+
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect(iso(plan())).toEqual(['2025-06-02T00:30:00.000Z']);
+
+    // Moved before the cycle starts, so the planned time is kept
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(iso(plan())).toEqual(['2025-06-02T00:00:00.000Z']);
+  });
+
+  test('jitter never moves a slot past the end of the cycle, even into active time', () => {
+    const plan = () => postingScheduleService.planSlots(schedule({ jitterMinutes: 30 }), new Date('2025-06-02T00:00:00Z'), new Date('2025-06-02T00:20:00Z'), 1);
+
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect(iso(plan())).toEqual(['2025-06-02T00:00:00.000Z']);
+  });
+});
+
+describe('getEngageDueTime', () => {
+  const lastRunTime = new Date('2025-06-02T10:00:00Z');
+
+  test('is one interval after the last cycle without jitter', () => {
+    expect(postingScheduleService.getEngageDueTime(schedule(), 'agent-1', lastRunTime, 4)).toEqual(new Date('2025-06-02T14:00:00Z'));
+  });
+
+  test('jitter pushes it back by whole minutes, up to the jitter', () => {
+    const jittered = schedule({ jitterMinutes: 20 });
+    const base = new Date('2025-06-02T14:00:00Z').getTime();
+
+    for (let run = 0; run < 20; run++) {
+      const last = new Date(lastRunTime.getTime() + run * 60 * 60 * 1000);
+      const offset = postingScheduleService.getEngageDueTime(jittered, 'agent-1', last, 4).getTime() - base - run * 60 * 60 * 1000;
+
+      expect(offset % (60 * 1000)).toBe(0);
+      expect(offset).toBeGreaterThanOrEqual(0);
+      expect(offset).toBeLessThanOrEqual(20 * 60 * 1000);
+    }
+  });
+
+  test('jitter is fixed per cycle', () => {
+    const jittered = schedule({ jitterMinutes: 20 });
+    const due = () => postingScheduleService.getEngageDueTime(jittered, 'agent-1', lastRunTime, 4).getTime();
+
+    expect(due()).toBe(due());
+  });
+
+  test('jitter differs between cycles and agents', () => {
+    const jittered = schedule({ jitterMinutes: 59 });
+    const offsets = new Set<number>();
+
+    for (let run = 0; run < 10; run++) {
+      const last = new Date(lastRunTime.getTime() + run * 60 * 1000);
+      offsets.add(postingScheduleService.getEngageDueTime(jittered, 'agent-1', last, 4).getTime() - last.getTime());
+      offsets.add(postingScheduleService.getEngageDueTime(jittered, 'agent-2', last, 4).getTime() - last.getTime());
+    }
+
+    expect(offsets.size).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Posting Schedule Service
+ *
+ * Reads an agent's posting schedule (time zone, active-hours windows per weekday, blackout dates
+ * and jitter) and places auto-tweets and auto-engage cycles inside it, including the upcoming
+ * runs previewed in the dashboard. Auto-tweets can also be steered into the agent's
+ * best-performing hours (see posting-time-service)
+ */
+
+import prisma from '../db/utils/dbClient';
+
+// Resolution schedules are searched at; slot and run times land on these steps before jitter
+const STEP_MINUTES = 5;
+
+// How far ahead the next active time is searched for before giving up (e.g. every day blacked out)
+const SEARCH_HORIZON_DAYS = 14;
+
+export interface ActiveWindow {
+  day: number; // 0 = Sunday ... 6 = Saturday, in the agent's time zone
+  start: string; // HH:MM
+  end: string; // HH:MM, after start; 24:00 for end of day
+}
+
+export interface PostingSchedule {
+  timezone: string;
+  activeHours: ActiveWindow[] | null; // null or empty = any time
+  blackoutDates: string[]; // YYYY-MM-DD in the agent's time zone
+  jitterMinutes: number;
+  preferredHours?: number[]; // Hours of the week (day * 24 + hour, local) to place auto-tweets in, best first
+}
+
+export interface SchedulePreview {
+  autoTweet: Date[];
+  autoEngage: Date[];
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Weekday, calendar date and minute of the day of a moment in a time zone
+ */
+function getLocalParts(date: Date, timeZone: string): { day: number; date: string; minutes: number } {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    day: WEEKDAYS.indexOf(parts.weekday),
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: parseInt(parts.hour) * 60 + parseInt(parts.minute)
+  };
+}
+
+/**
+ * Hour of the week (0 = Sunday 00:00 ... 167 = Saturday 23:00) of a moment in a time zone
+ */
+export function getHourOfWeek(date: Date, timeZone: string): number {
+  const local = getLocalParts(date, timeZone);
+  return local.day * 24 + Math.floor(local.minutes / 60);
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether a string is a time zone the runtime knows
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Posting Schedule Service
+ */
+export const postingScheduleService = {
+  /**
+   * Read the posting schedule off an agent row
+   *
+   * @param agent - Agent with its schedule fields selected
+   */
+  fromAgent(agent: {
+    timezone: string;
+    activeHours: unknown;
+    blackoutDates: string[];
+    scheduleJitterMinutes: number;
+  }): PostingSchedule {
+    return {
+      timezone: isValidTimeZone(agent.timezone) ? agent.timezone : 'UTC',
+      activeHours: Array.isArray(agent.activeHours) ? (agent.activeHours as ActiveWindow[]) : null,
+      blackoutDates: agent.blackoutDates,
+      jitterMinutes: agent.scheduleJitterMinutes
+    };
+  },
+
+  /**
+   * Whether auto-tweets and auto-engage may run at a moment
+   *
+   * @param schedule - Agent's posting schedule
+   * @param date - Moment to check
+   */
+  isActive(schedule: PostingSchedule, date: Date): boolean {
+    const local = getLocalParts(date, schedule.timezone);
+
+    if (schedule.blackoutDates.includes(local.date)) {
+      return false;
+    }
+
+    if (!schedule.activeHours || schedule.activeHours.length === 0) {
+      return true;
+    }
+
+    return schedule.activeHours.some(window =>
+      window.day === local.day &&
+      local.minutes >= toMinutes(window.start) &&
+      local.minutes < toMinutes(window.end)
+    );
+  },
+
+  /**
+   * The first active moment at or after a given time
+   *
+   * @param schedule - Agent's posting schedule
+   * @param from - Earliest moment allowed
+   * @returns The moment, or null when nothing is active within the search horizon
+   */
+  nextActiveTime(schedule: PostingSchedule, from: Date): Date | null {
+    const stepMs = STEP_MINUTES * 60 * 1000;
+    const horizon = from.getTime() + SEARCH_HORIZON_DAYS * 24 * 60 * 60 * 1000;
+
+    for (let time = from.getTime(); time < horizon; time += stepMs) {
+      if (this.isActive(schedule, new Date(time))) {
+        return new Date(time);
+      }
+    }
+
+    return null;
+  },
+
+  /**
+   * Place a cycle's auto-tweets in the active time within the cycle, each moved by up to the
+   * agent's jitter in either direction when the moved time is still active
+   *
+   * With preferred hours, one slot goes at the start of each preferred hour the cycle covers,
+   * best first; the rest are spread evenly over the other active time
+   *
+   * @param schedule - Agent's posting schedule
+   * @param start - Start of the cycle (the first slot may land here)
+   * @param end - End of the cycle
+   * @param count - Number of slots
+   * @param applyJitter - Set false for a repeatable plan (previews)
+   * @returns Slot times in order; empty when no time in the cycle is active
+   */
+  planSlots(schedule: PostingSchedule, start: Date, end: Date, count: number, applyJitter: boolean = true): Date[] {
+    const stepMs = STEP_MINUTES * 60 * 1000;
+    const activeTimes: number[] = [];
+
+    for (let time = start.getTime(); time < end.getTime(); time += stepMs) {
+      if (this.isActive(schedule, new Date(time))) {
+        activeTimes.push(time);
+      }
+    }
+
+    if (activeTimes.length === 0 || count <= 0) {
+      return [];
+    }
+
+    const hourOf = (time: number) => getHourOfWeek(new Date(time), schedule.timezone);
+    const plannedTimes: number[] = [];
+
+    if (schedule.preferredHours && schedule.preferredHours.length > 0) {
+      const firstActiveByHour = new Map<number, number>();
+      for (const time of activeTimes) {
+        const hour = hourOf(time);
+        if (!firstActiveByHour.has(hour)) {
+          firstActiveByHour.set(hour, time);
+        }
+      }
+
+      for (const hour of schedule.preferredHours) {
+        const time = firstActiveByHour.get(hour);
+        if (time === undefined) continue;
+
+        plannedTimes.push(time);
+        if (plannedTimes.length === count) break;
+      }
+    }
+
+    const remaining = count - plannedTimes.length;
+    if (remaining > 0) {
+      const usedHours = new Set(plannedTimes.map(hourOf));
+      const freeTimes = usedHours.size > 0 ? activeTimes.filter(time => !usedHours.has(hourOf(time))) : activeTimes;
+      const spreadTimes = freeTimes.length > 0 ? freeTimes : activeTimes;
+
+      for (let i = 0; i < remaining; i++) {
+        plannedTimes.push(spreadTimes[Math.floor((i * spreadTimes.length) / remaining)]);
+      }
+    }
+
+    return plannedTimes.map(planned => {
+      if (!applyJitter || schedule.jitterMinutes <= 0) {
+        return planned;
+      }
+
+      const offsetMs = Math.round((Math.random() * 2 - 1) * schedule.jitterMinutes * 60 * 1000);
+      const jittered = planned + offsetMs;
+
+      return jittered >= start.getTime() && jittered < end.getTime() && this.isActive(schedule, new Date(jittered))
+        ? jittered
+        : planned;
+    })
+      .sort((a, b) => a - b)
+      .map(time => new Date(time));
+  },
+
+  /**
+   * When an auto-engage cycle becomes due: its interval after the last cycle, pushed back by a
+   * jitter that is fixed per cycle so every scheduler check agrees on it
+   *
+   * @param schedule - Agent's posting schedule
+   * @param agentId - Agent ID (seeds the jitter)
+   * @param lastRunTime - Start of the agent's last cycle
+   * @param frequencyHours - Auto-engage interval
+   */
+  getEngageDueTime(schedule: PostingSchedule, agentId: string, lastRunTime: Date, frequencyHours: number): Date {
+    let jitterMs = 0;
+
+    if (schedule.jitterMinutes > 0) {
+      const seed = `${agentId}:${lastRunTime.toISOString()}`;
+      let hash = 0;
+      for (let i = 0; i < seed.length; i++) {
+        hash = (hash * 31 + seed.charCodeAt(i)) >>> 0;
+      }
+      jitterMs = (hash % (schedule.jitterMinutes + 1)) * 60 * 1000;
+    }
+
+    return new Date(lastRunTime.getTime() + frequencyHours * 60 * 60 * 1000 + jitterMs);
+  },
+
+  /**
+   * Upcoming auto-tweet and auto-engage runs for an agent, from its saved settings
+   *
+   * Auto-tweets list the current cycle's unwritten slots, then the plan for the following cycles
+   * (before jitter); auto-engage lists the next cycle starts
+   *
+   * @param agentId - Agent ID
+   * @param preferredHours - Hours to plan auto-tweets in, when the agent optimizes its posting times
+   * @param count - Runs to list for each
+   */
+  async getPreview(agentId: string, preferredHours?: number[], count: number = 5): Promise<SchedulePreview> {
+    const agent = await prisma.agent.findUnique({
+      where: { agentId },
+      select: {
+        timezone: true,
+        activeHours: true,
+        blackoutDates: true,
+        scheduleJitterMinutes: true,
+        autoTweetEnabled: true,
+        autoTweetFrequencyHours: true,
+        autoTweetCount: true,
+        lastAutoTweetTime: true,
+        autoEngageEnabled: true,
+        autoEngageFrequencyHours: true,
+        lastAutoEngageTime: true
+      }
+    });
+
+    const preview: SchedulePreview = { autoTweet: [], autoEngage: [] };
+
+    if (!agent) {
+      return preview;
+    }
+
+    const schedule: PostingSchedule = { ...this.fromAgent(agent), preferredHours };
+    const now = new Date();
+
+    if (agent.autoTweetEnabled && agent.autoTweetFrequencyHours && agent.autoTweetCount) {
+      const reservedSlots = await prisma.tweet.findMany({
+        where: { agentId, status: 'reserved', postTime: { gt: now } },
+        select: { postTime: true },
+        orderBy: { postTime: 'asc' },
+        take: count
+      });
+      preview.autoTweet = reservedSlots.map(slot => slot.postTime!);
+
+      const intervalMs = agent.autoTweetFrequencyHours * 60 * 60 * 1000;
+      let cycleStart = agent.lastAutoTweetTime
+        ? new Date(Math.max(agent.lastAutoTweetTime.getTime() + intervalMs, now.getTime()))
+        : now;
+
+      // A few cycles ahead is plenty, even when most of them fall outside active hours
+      for (let cycle = 0; cycle < count && preview.autoTweet.length < count; cycle++) {
+        const cycleEnd = new Date(cycleStart.getTime() + intervalMs);
+        preview.autoTweet.push(...this.planSlots(schedule, cycleStart, cycleEnd, agent.autoTweetCount, false));
+        cycleStart = cycleEnd;
+      }
+      preview.autoTweet = preview.autoTweet.slice(0, count);
+    }
+
+    if (agent.autoEngageEnabled && agent.autoEngageFrequencyHours) {
+      let lastRunTime = agent.lastAutoEngageTime;
+
+      while (preview.autoEngage.length < count) {
+        const due = lastRunTime
+          ? this.getEngageDueTime(schedule, agentId, lastRunTime, agent.autoEngageFrequencyHours)
+          : now;
+        const next = this.nextActiveTime(schedule, due > now ? due : now);
+        if (!next) break;
+
+        preview.autoEngage.push(next);
+        lastRunTime = next;
+      }
+    }
+
+    return preview;
+  }
+};
@@ -0,0 +1,132 @@
+import prisma from '../db/utils/dbClient';
+import { postingTimeService } from './posting-time-service';
+
+jest.mock('../db/utils/dbClient', () => ({
+  __esModule: true,
+  default: {
+    tweet: { findMany: jest.fn() }
+  }
+}));
+
+const db = prisma as unknown as { tweet: { findMany: jest.Mock } };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type Snapshot = { likes: number; retweets: number; replies: number; capturedAt: Date };
+
+// A posted tweet whose engagement (all likes) was synced two days after posting
+const posted = (postTime: string, engagement: number, metricSnapshots: Snapshot[] = [], syncedAfterHours = 48) => ({
+  postTime: new Date(postTime),
+  likes: engagement,
+  retweets: 0,
+  replies: 0,
+  metricsSyncedAt: new Date(new Date(postTime).getTime() + syncedAfterHours * HOUR_MS),
+  metricSnapshots
+});
+
+// 2025-06-02 is a Monday. Hours of the week: Mon 09 = 33, Tue 10 = 58, Wed 11 = 83, Thu 12 = 108
+const history = [
+  posted('2025-06-02T09:10:00Z', 30),
+  posted('2025-06-09T09:40:00Z', 30),
+  posted('2025-06-03T10:00:00Z', 40),
+  posted('2025-06-10T10:05:00Z', 40),
+  posted('2025-06-17T10:30:00Z', 40),
+  posted('2025-06-04T11:00:00Z', 100),
+  posted('2025-06-05T12:00:00Z', 0),
+  posted('2025-06-12T12:00:00Z', 0),
+  posted('2025-06-19T12:00:00Z', 0),
+  posted('2025-06-26T12:00:00Z', 0)
+];
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.useFakeTimers({ now: new Date('2025-06-30T00:00:00Z') });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('analyze', () => {
+  test('ranks the hours that beat the average, smoothed toward it', async () => {
+    db.tweet.findMany.mockResolvedValue(history);
+
+    const analysis = await postingTimeService.analyze('agent-1', 'UTC');
+
+    expect(analysis.tweets).toBe(10);
+    expect(analysis.avgEngagement).toBe(28);
+    expect(analysis.hours.map(stats => [stats.hourOfWeek, stats.tweets, stats.avgEngagement, stats.lift])).toEqual([
+      [33, 2, 30, 1.03],
+      [58, 3, 40, 1.21],
+      [83, 1, 100, 1.64],
+      [108, 4, 0, 0.43]
+    ]);
+    // Wednesday's one lucky tweet isn't enough to recommend its hour
+    expect(analysis.preferredHours).toEqual([58, 33]);
+    expect(analysis.recommendations.map(stats => stats.hourOfWeek)).toEqual([58, 33]);
+  });
+
+  test('recommends nothing until there are enough tweets', async () => {
+    db.tweet.findMany.mockResolvedValue(history.slice(0, 9));
+
+    const analysis = await postingTimeService.analyze('agent-1', 'UTC');
+
+    expect(analysis.tweets).toBe(9);
+    expect(analysis.hours).toHaveLength(4);
+    expect(analysis.recommendations).toEqual([]);
+    expect(analysis.preferredHours).toEqual([]);
+  });
+
+  test('hours are read in the agent\'s time zone', async () => {
+    db.tweet.findMany.mockResolvedValue(history);
+
+    const analysis = await postingTimeService.analyze('agent-1', 'Asia/Tokyo');
+
+    // Tuesday 10:00 UTC is Tuesday 19:00 in Tokyo
+    expect(analysis.preferredHours[0]).toBe(24 * 2 + 19);
+  });
+
+  test('engagement is compared a day after posting', async () => {
+    db.tweet.findMany.mockResolvedValue([
+      // Snapshot from the first day stands in for the later totals
+      posted('2025-06-02T09:00:00Z', 500, [
+        { likes: 4, retweets: 1, replies: 0, capturedAt: new Date('2025-06-02T23:00:00Z') },
+        { likes: 400, retweets: 0, replies: 0, capturedAt: new Date('2025-06-04T09:00:00Z') }
+      ]),
+      // Only a snapshot taken too early, so the synced totals are used
+      posted('2025-06-03T09:00:00Z', 7, [
+        { likes: 1, retweets: 0, replies: 0, capturedAt: new Date('2025-06-03T10:00:00Z') }
+      ]),
+      // Synced too early with no usable snapshot, so it is left out
+      posted('2025-06-04T09:00:00Z', 3, [], 2)
+    ]);
+
+    const analysis = await postingTimeService.analyze('agent-1', 'UTC');
+
+    expect(analysis.tweets).toBe(2);
+    expect(analysis.hours.map(stats => [stats.hourOfWeek, stats.avgEngagement])).toEqual([[33, 5], [57, 7]]);
+  });
+
+  test('looks back over the period, counting each thread once', async () => {
+    db.tweet.findMany.mockResolvedValue([]);
+
+    const analysis = await postingTimeService.analyze('agent-1', 'UTC', 30);
+
+    expect(analysis).toMatchObject({ periodDays: 30, tweets: 0, avgEngagement: 0, hours: [], recommendations: [] });
+    expect(db.tweet.findMany.mock.calls[0][0].where).toEqual({
+      agentId: 'agent-1',
+      status: 'posted',
+      postTime: { gte: new Date('2025-05-31T00:00:00Z') },
+      metricsSyncedAt: { not: null },
+      OR: [{ threadId: null }, { threadPosition: 0 }]
+    });
+  });
+});
+
+describe('getPreferredHours', () => {
+  test('returns the ranked hours', async () => {
+    db.tweet.findMany.mockResolvedValue(history);
+
+    await expect(postingTimeService.getPreferredHours('agent-1', 'UTC')).resolves.toEqual([58, 33]);
+  });
+});
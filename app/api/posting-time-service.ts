@@ -0,0 +1,168 @@
+/**
+ * Posting Time Service
+ *
+ * Learns when an agent's tweets do best: each posted tweet's engagement a day after posting (from
+ * its metric snapshots, or its synced totals when there is no snapshot from that point) is grouped
+ * by the hour of the week it went out in the agent's time zone. Hours that beat the agent's average
+ * are recommended, and preferred by the auto-tweet scheduler when the agent optimizes its posting times
+ */
+
+import prisma from '../db/utils/dbClient';
+import { getHourOfWeek } from './posting-schedule-service';
+
+// Posted tweets the analysis looks back over, by default
+export const ANALYSIS_PERIOD_DAYS = 90;
+
+// Tweets are compared by their engagement this long after posting
+const COMPARISON_AGE_HOURS = 24;
+
+// Metrics read earlier than this in a tweet's life undercount it, so the tweet is left out
+const MIN_METRICS_AGE_HOURS = 12;
+
+// Tweets needed before anything is recommended
+const MIN_TWEETS_FOR_ANALYSIS = 10;
+
+// Tweets an hour needs before it is recommended
+const MIN_TWEETS_PER_HOUR = 2;
+
+// Each hour's average is pulled toward the agent's average as if it also had this many average
+// tweets, so an hour with one lucky tweet doesn't top the list
+const PRIOR_WEIGHT = 3;
+
+const MAX_RECOMMENDATIONS = 5;
+
+export interface HourOfWeekStats {
+  hourOfWeek: number; // day * 24 + hour
+  day: number; // 0 = Sunday ... 6 = Saturday, in the agent's time zone
+  hour: number;
+  tweets: number;
+  avgEngagement: number; // Likes + retweets + replies per tweet
+  lift: number; // Smoothed engagement relative to the agent's average (1 = average)
+}
+
+export interface PostingTimeAnalysis {
+  timezone: string;
+  periodDays: number;
+  tweets: number; // Posted tweets with comparable engagement
+  avgEngagement: number;
+  hours: HourOfWeekStats[]; // Hours with at least one tweet, in week order
+  recommendations: HourOfWeekStats[]; // Best hours first; empty until there are enough tweets
+  preferredHours: number[]; // Every hour that beats the average with enough tweets, best first
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Posting Time Service
+ */
+export const postingTimeService = {
+  /**
+   * Engagement of an agent's posted tweets by the hour of the week they went out
+   *
+   * @param agentId - Agent ID
+   * @param timeZone - Time zone hours are read in (the agent's posting schedule time zone)
+   * @param periodDays - Only tweets posted in this many days
+   */
+  async analyze(agentId: string, timeZone: string, periodDays: number = ANALYSIS_PERIOD_DAYS): Promise<PostingTimeAnalysis> {
+    const since = new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000);
+
+    const tweets = await prisma.tweet.findMany({
+      where: {
+        agentId,
+        status: 'posted',
+        postTime: { gte: since },
+        metricsSyncedAt: { not: null },
+        OR: [{ threadId: null }, { threadPosition: 0 }] // A thread counts once, by its first tweet
+      },
+      select: {
+        postTime: true,
+        likes: true,
+        retweets: true,
+        replies: true,
+        metricsSyncedAt: true,
+        metricSnapshots: {
+          select: { likes: true, retweets: true, replies: true, capturedAt: true },
+          orderBy: { capturedAt: 'asc' }
+        }
+      }
+    });
+
+    const minAgeMs = MIN_METRICS_AGE_HOURS * 60 * 60 * 1000;
+    const byHour = new Map<number, number[]>();
+    let total = 0;
+    let counted = 0;
+
+    for (const tweet of tweets) {
+      if (!tweet.postTime) continue;
+
+      const postedAt = tweet.postTime.getTime();
+      const checkpoint = postedAt + COMPARISON_AGE_HOURS * 60 * 60 * 1000;
+
+      // Latest snapshot by the checkpoint; without one old enough, the synced totals stand in
+      // (most engagement arrives in the first day, so later totals are close)
+      const snapshot = tweet.metricSnapshots.filter(s => s.capturedAt.getTime() <= checkpoint).pop();
+      let metrics: { likes: number; retweets: number; replies: number } | null = null;
+
+      if (snapshot && snapshot.capturedAt.getTime() - postedAt >= minAgeMs) {
+        metrics = snapshot;
+      } else if (tweet.metricsSyncedAt && tweet.metricsSyncedAt.getTime() - postedAt >= minAgeMs) {
+        metrics = tweet;
+      }
+
+      if (!metrics) continue;
+
+      const engagement = metrics.likes + metrics.retweets + metrics.replies;
+      const hourOfWeek = getHourOfWeek(tweet.postTime, timeZone);
+
+      byHour.set(hourOfWeek, [...(byHour.get(hourOfWeek) || []), engagement]);
+      total += engagement;
+      counted++;
+    }
+
+    const avgEngagement = counted > 0 ? total / counted : 0;
+
+    const hours: HourOfWeekStats[] = Array.from(byHour.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([hourOfWeek, engagements]) => {
+        const sum = engagements.reduce((acc, engagement) => acc + engagement, 0);
+        const smoothed = (sum + PRIOR_WEIGHT * avgEngagement) / (engagements.length + PRIOR_WEIGHT);
+
+        return {
+          hourOfWeek,
+          day: Math.floor(hourOfWeek / 24),
+          hour: hourOfWeek % 24,
+          tweets: engagements.length,
+          avgEngagement: round(sum / engagements.length, 1),
+          lift: avgEngagement > 0 ? round(smoothed / avgEngagement, 2) : 1
+        };
+      });
+
+    const ranked = counted >= MIN_TWEETS_FOR_ANALYSIS
+      ? hours
+        .filter(stats => stats.tweets >= MIN_TWEETS_PER_HOUR && stats.lift > 1)
+        .sort((a, b) => b.lift - a.lift || b.tweets - a.tweets)
+      : [];
+
+    return {
+      timezone: timeZone,
+      periodDays,
+      tweets: counted,
+      avgEngagement: round(avgEngagement, 1),
+      hours,
+      recommendations: ranked.slice(0, MAX_RECOMMENDATIONS),
+      preferredHours: ranked.map(stats => stats.hourOfWeek)
+    };
+  },
+
+  /**
+   * Hours of the week auto-tweets should be placed in for an agent that optimizes its posting times
+   *
+   * @param agentId - Agent ID
+   * @param timeZone - Agent's posting schedule time zone
+   * @returns Best hours first; empty while there isn't enough engagement data
+   */
+  async getPreferredHours(agentId: string, timeZone: string): Promise<number[]> {
+    const analysis = await this.analyze(agentId, timeZone);
+    return analysis.preferredHours;
+  }
+};
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { requireAuth } from "@/app/api/utils/auth";
+import { usageService } from "@/app/api/usage-service";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Current period usage broken down per agent and per day.
+ * Counters are reconciled against the usage ledger before reporting.
+ */
+export async function GET(request: Request) {
+  try {
+    // 1. Authenticate user
+    const userId = await requireAuth(request);
+
+    // 2. Bring the profile counters in line with the ledger
+    const reconciliation = await usageService.reconcile(userId);
+
+    if (!reconciliation) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    // 3. Build the breakdown
+    const breakdown = await usageService.getBreakdown(userId);
+
+    if (!breakdown) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...breakdown,
+      counters: reconciliation.counters,
+      // False when the period began before usage was recorded per event
+      ledgerComplete: reconciliation.covered
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error("[Usage] Error fetching usage breakdown:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch usage breakdown" },
+      { status: 500 }
+    );
+  }
+}
@@ -424,6 +424,194 @@ Be conservative in your scoring - when in doubt, score lower to maintain quality
     return prompt;
   }
 
+  /**
+   * Create system prompt for expanding a topic into a multi-tweet thread
+   * 
+   * @param agent - Agent personality
+   * @param topic - What the thread should be about
+   * @param partCount - Number of tweets in the thread
+   * @returns System prompt for thread generation
+   */
+  static createThreadPrompt(agent: AgentPersonality, topic: string, partCount: number): string {
+    let prompt = `You are writing an X (Twitter) thread as "${agent.name}" with this goal: ${agent.goal}.`;
+
+    if (agent.brand) {
+      const brandObj = typeof agent.brand === 'string' ? JSON.parse(agent.brand) : agent.brand;
+      if (brandObj.tone) {
+        prompt += `\nYour tone is ${brandObj.tone}.`;
+      }
+      if (brandObj.personality) {
+        prompt += `\nYour personality traits include: ${brandObj.personality}.`;
+      }
+    }
+
+    if (agent.language) {
+      prompt += `\nWrite in this language: ${agent.language}.`;
+    }
+
+    prompt += `\n\nThread topic: ${topic}
+
+Follow these rules:
+                - Write exactly ${partCount} tweets that read as one connected thread
+                - The first tweet is the hook and must make sense on its own
+                - Each following tweet adds one new point and flows from the previous one
+                - Every tweet must be under 270 characters
+                - Do not number the tweets (no "1/", "2/${partCount}" or similar)
+                - No hashtags, no emojis, no em-dashes
+                - Sound like a real person sharing what they know, not a marketing account
+
+RESPONSE FORMAT:
+Respond with only a JSON array of ${partCount} strings, one string per tweet, in posting order.`;
+
+    return prompt;
+  }
+
+  /**
+   * Create system prompt for commentary on a quote tweet
+   * 
+   * @param agent - Agent personality
+   * @param quotedTweet - The tweet being quoted and its author's handle
+   * @param context - Optional angle the commentary should take
+   * @returns System prompt for quote tweet generation
+   */
+  static createQuoteTweetPrompt(
+    agent: AgentPersonality,
+    quotedTweet: { text: string; username?: string },
+    context?: string
+  ): string {
+    let prompt = this.getBaseHumanRules();
+    prompt += `\n\n${this.getPatternGuidance()}`;
+
+    prompt += `\n\nYou are quote tweeting as "${agent.name}" with this goal: ${agent.goal}.`;
+
+    if (agent.brand) {
+      const brandObj = typeof agent.brand === 'string' ? JSON.parse(agent.brand) : agent.brand;
+      if (brandObj.tone) {
+        prompt += `\nYour tone is ${brandObj.tone}.`;
+      }
+      if (brandObj.style) {
+        prompt += `\nYour writing style is ${brandObj.style}.`;
+      }
+      if (brandObj.personality) {
+        prompt += `\nYour personality traits include: ${brandObj.personality}.`;
+      }
+    }
+
+    if (agent.language) {
+      prompt += `\nWrite in this language: ${agent.language}.`;
+    }
+
+    prompt += `\n\nThe quoted tweet is shown right under your text, so your followers can already read it:
+                - Add your own take, reaction or a detail it leaves out
+                - Do not restate or summarize the quoted tweet
+                - Do not mention the author's handle, X already shows who wrote it`;
+
+    if (context) {
+      prompt += `\n- Angle to take: ${context}`;
+    }
+
+    prompt += `\n\nQuoted tweet${quotedTweet.username ? ` by @${quotedTweet.username}` : ''}: "${quotedTweet.text}"`;
+
+    return prompt;
+  }
+
+  /**
+   * Create system prompt for picking the trending topics an agent can credibly tweet about
+   * 
+   * @param agent - Agent personality
+   * @param trends - Trending topics on X right now
+   * @param topics - The agent's focus topics and topics to stay away from
+   * @param maxPicks - Maximum number of trends to pick
+   * @returns System prompt for trend selection
+   */
+  static createTrendSelectionPrompt(
+    agent: AgentPersonality,
+    trends: string[],
+    topics: { focus: string[]; avoid: string[] },
+    maxPicks: number
+  ): string {
+    let prompt = `You choose which trending topics on X (Twitter) "${agent.name}" should tweet about. The account's goal: ${agent.goal}.`;
+
+    if (topics.focus.length > 0) {
+      prompt += `\nThe account focuses on: ${topics.focus.join(', ')}.`;
+    }
+
+    if (topics.avoid.length > 0) {
+      prompt += `\nThe account never touches: ${topics.avoid.join(', ')}.`;
+    }
+
+    prompt += `\n\nTrending right now:\n${trends.map(trend => `- ${trend}`).join('\n')}
+
+Follow these rules:
+                - Pick at most ${maxPicks} trends the account could comment on naturally, given its goal and focus
+                - Never pick a trend related to a topic the account avoids
+                - Skip tragedies, politics and anything controversial unless the account focuses on it
+                - Picking none is fine when nothing fits
+                - Copy each trend exactly as written above
+
+RESPONSE FORMAT:
+Respond with only a JSON array of the chosen trend strings, most relevant first.`;
+
+    return prompt;
+  }
+
+  /**
+   * Create system prompt for drafting a direct-message reply
+   * 
+   * @param agent - Agent personality
+   * @param conversation - The other person's handle and the recent messages, oldest first
+   * @param faq - Optional FAQ the agent can answer from; also used to flag replies safe to auto-send
+   * @returns System prompt for DM reply generation
+   */
+  static createDmReplyPrompt(
+    agent: AgentPersonality,
+    conversation: { participantUsername?: string | null; messages: Array<{ fromAgent: boolean; text: string }> },
+    faq?: string | null
+  ): string {
+    let prompt = `You are replying to a direct message on X (Twitter) as "${agent.name}" with this goal: ${agent.goal}.`;
+
+    if (agent.brand) {
+      const brandObj = typeof agent.brand === 'string' ? JSON.parse(agent.brand) : agent.brand;
+      if (brandObj.tone) {
+        prompt += `\nYour tone is ${brandObj.tone}.`;
+      }
+      if (brandObj.personality) {
+        prompt += `\nYour personality traits include: ${brandObj.personality}.`;
+      }
+    }
+
+    if (agent.language) {
+      prompt += `\nWrite in this language: ${agent.language}.`;
+    }
+
+    if (agent.exampleUserQuestion && agent.exampleAgentReply) {
+      prompt += `\nWhen asked "${agent.exampleUserQuestion}", you would respond with: "${agent.exampleAgentReply}".`;
+    }
+
+    prompt += `\n\nFollow these rules:
+                - Answer the latest message from the other person, using the earlier messages for context
+                - Keep it short and friendly, one to three sentences like a real person typing a DM
+                - Never make up prices, dates, links or promises you were not given
+                - If you cannot answer, say you will get back to them
+                - No hashtags, no em-dashes, no signature`;
+
+    if (faq) {
+      prompt += `\n\nFAQ you can answer from:\n${faq}`;
+    }
+
+    const participant = conversation.participantUsername ? `@${conversation.participantUsername}` : 'Them';
+    prompt += `\n\nConversation so far:\n${conversation.messages
+      .map(message => `${message.fromAgent ? 'You' : participant}: ${message.text}`)
+      .join('\n')}`;
+
+    prompt += `\n\nRESPONSE FORMAT:
+Respond with only a JSON object with these exact fields:
+- reply: string (the message to send)
+- faqAnswer: boolean (true only if the latest message is a simple question fully answered by the FAQ above, with nothing else that needs a human)`;
+
+    return prompt;
+  }
+
   /**
    * Get user prompts for different generation types
    */
@@ -431,6 +619,14 @@ Be conservative in your scoring - when in doubt, score lower to maintain quality
     return {
       originalTweet: `Write in a relaxed, conversational tone—like you're casually sharing a quick thought with a friend or coworker over coffee or in a Slack chat. Keep it natural and easygoing, as if you're just thinking out loud. Don't overthink structure or formality—it's more about capturing the vibe of a spontaneous, human moment. Use everyday language, contractions, and little expressions you might say in real life. Keep it short and one line, ideally under 100 characters and only one line of text. Avoid using hashtags or enclosing the tweet in quotation marks. If there's a URL to include, place it on its own line at the end of the tweet. If there is no URL, do not include a URL line.`,
       
+      quoteTweet: `Write the text that goes above the quoted tweet, like a quick reaction you'd type before sharing it with your followers. Keep it casual, one short line, ideally under 100 characters. No hashtags, no quotation marks around it.`,
+
+      trendSelection: `Pick the trends now. Return only the JSON array, with no commentary before or after it.`,
+
+      dmReply: `Write your reply to the latest message now. Return only the JSON object, with no commentary before or after it.`,
+
+      thread: `Write the thread now. Return only the JSON array of tweet texts, with no commentary before or after it.`,
+
       replyTweet: `Imagine you're just muttering a quick, unedited thought to a friend. Keep it super casual, like a fleeting observation that just popped into your head. Use everyday language, contractions (like "it's", "don't"), and make it sound like you typed it without overthinking. Aim for one short line, ideally under 100 characters. No hashtags, no formal quotes around it. Just a brief, spontaneous reaction.`
     };
   }
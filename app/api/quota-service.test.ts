@@ -0,0 +1,131 @@
+import { QuotaMode } from '@prisma/client';
+import prisma from '../db/utils/dbClient';
+import { quotaService } from './quota-service';
+
+jest.mock('../db/utils/dbClient', () => ({
+  __esModule: true,
+  default: {
+    profile: { findUnique: jest.fn() },
+    agent: { findMany: jest.fn() },
+    usageEvent: { count: jest.fn(), groupBy: jest.fn() }
+  }
+}));
+
+const db = prisma as unknown as {
+  profile: { findUnique: jest.Mock };
+  agent: { findMany: jest.Mock };
+  usageEvent: { count: jest.Mock; groupBy: jest.Mock };
+};
+
+const mockProfile = (quotaMode: QuotaMode, counters: { tweetsUsed: number; repliesUsed: number }) => {
+  db.profile.findUnique.mockResolvedValue({
+    lastUsageReset: new Date('2025-03-01T00:00:00Z'),
+    profileCreatedAt: new Date('2025-01-01T00:00:00Z'),
+    ...counters,
+    plan: { maxAgents: 3, maxTweetsPerAgent: 100, maxRepliesPerAgent: 50, quotaMode }
+  });
+};
+
+beforeEach(() => {
+  jest.resetAllMocks();
+});
+
+describe('getAgentQuota', () => {
+  test('per-agent plans count the agent\'s own events this period', async () => {
+    mockProfile(QuotaMode.per_agent, { tweetsUsed: 40, repliesUsed: 0 });
+    db.usageEvent.count.mockResolvedValue(30);
+
+    const result = await quotaService.getAgentQuota('user-1', 'agent-1', 'tweet');
+
+    expect(result).toEqual({ success: true, mode: QuotaMode.per_agent, quota: { used: 30, limit: 100, remaining: 70 } });
+    expect(db.usageEvent.count).toHaveBeenCalledWith({
+      where: { userId: 'user-1', agentId: 'agent-1', kind: 'tweet', createdAt: { gte: new Date('2025-03-01T00:00:00Z') } }
+    });
+  });
+
+  test('per-agent plans are capped by the account total, including deleted agents\' usage', async () => {
+    // 280 of the 300 account tweets are used, most by agents since deleted
+    mockProfile(QuotaMode.per_agent, { tweetsUsed: 280, repliesUsed: 0 });
+    db.usageEvent.count.mockResolvedValue(0);
+
+    const result = await quotaService.getAgentQuota('user-1', 'agent-1', 'tweet');
+
+    expect(result.quota).toEqual({ used: 280, limit: 300, remaining: 20 });
+  });
+
+  test('per-agent remaining never goes below zero', async () => {
+    mockProfile(QuotaMode.per_agent, { tweetsUsed: 0, repliesUsed: 60 });
+    db.usageEvent.count.mockResolvedValue(60);
+
+    const result = await quotaService.getAgentQuota('user-1', 'agent-1', 'reply');
+
+    expect(result.quota).toEqual({ used: 60, limit: 50, remaining: 0 });
+  });
+
+  test('pooled plans share the account total across agents', async () => {
+    mockProfile(QuotaMode.pooled, { tweetsUsed: 120, repliesUsed: 10 });
+
+    const result = await quotaService.getAgentQuota('user-1', 'agent-1', 'reply');
+
+    expect(result).toEqual({ success: true, mode: QuotaMode.pooled, quota: { used: 10, limit: 150, remaining: 140 } });
+    expect(db.usageEvent.count).not.toHaveBeenCalled();
+  });
+
+  test('a missing profile or plan is an error', async () => {
+    db.profile.findUnique.mockResolvedValue({ plan: null });
+
+    const result = await quotaService.getAgentQuota('user-1', 'agent-1', 'tweet');
+
+    expect(result).toEqual({ success: false, error: 'User profile or plan not found' });
+  });
+});
+
+describe('getSummary', () => {
+  const agents = [
+    { agentId: 'agent-1', name: 'Alpha' },
+    { agentId: 'agent-2', name: 'Beta' }
+  ];
+  const groups = [
+    { agentId: 'agent-1', kind: 'tweet', _count: { kind: 90 } },
+    { agentId: 'agent-1', kind: 'reply', _count: { kind: 5 } },
+    { agentId: 'agent-2', kind: 'tweet', _count: { kind: 10 } }
+  ];
+
+  test('per-agent plans report each agent\'s own allowance, capped by the account total', async () => {
+    mockProfile(QuotaMode.per_agent, { tweetsUsed: 295, repliesUsed: 5 });
+    db.agent.findMany.mockResolvedValue(agents);
+    db.usageEvent.groupBy.mockResolvedValue(groups);
+
+    const summary = await quotaService.getSummary('user-1');
+
+    expect(summary.pool).toBeNull();
+    expect(summary.agents).toEqual([
+      {
+        agentId: 'agent-1',
+        name: 'Alpha',
+        tweet: { used: 90, limit: 100, remaining: 5 },
+        reply: { used: 5, limit: 50, remaining: 45 }
+      },
+      {
+        agentId: 'agent-2',
+        name: 'Beta',
+        tweet: { used: 10, limit: 100, remaining: 5 },
+        reply: { used: 0, limit: 50, remaining: 50 }
+      }
+    ]);
+  });
+
+  test('pooled plans report the pool with each agent\'s own usage', async () => {
+    mockProfile(QuotaMode.pooled, { tweetsUsed: 100, repliesUsed: 5 });
+    db.agent.findMany.mockResolvedValue(agents);
+    db.usageEvent.groupBy.mockResolvedValue(groups);
+
+    const summary = await quotaService.getSummary('user-1');
+
+    expect(summary.pool).toEqual({
+      tweet: { used: 100, limit: 300, remaining: 200 },
+      reply: { used: 5, limit: 150, remaining: 145 }
+    });
+    expect(summary.agents[1].tweet).toEqual({ used: 10, limit: 300, remaining: 200 });
+  });
+});
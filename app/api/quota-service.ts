@@ -0,0 +1,205 @@
+/**
+ * Quota Service
+ *
+ * Enforces the plan's tweet and reply allowances. Plans are per-agent by default:
+ * each agent gets `maxTweetsPerAgent` / `maxRepliesPerAgent` for the billing period,
+ * counted from the usage ledger, and all agents together stay within the per-agent
+ * limit times `maxAgents`. Pooled plans share that account total as one allowance
+ * across all of the user's agents.
+ */
+
+import prisma from "../db/utils/dbClient";
+import { QuotaMode } from "@prisma/client";
+
+export type QuotaKind = 'tweet' | 'reply';
+
+export interface QuotaStatus {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+export interface AgentQuotaResult {
+  success: boolean;
+  mode?: QuotaMode;
+  quota?: QuotaStatus;
+  error?: string;
+}
+
+export interface AgentQuotaSummary {
+  agentId: string;
+  name: string;
+  tweet: QuotaStatus;
+  reply: QuotaStatus;
+}
+
+export interface QuotaSummary {
+  mode: QuotaMode;
+  periodStart: Date;
+  // Only set for pooled plans; the allowance every agent draws from
+  pool: Record<QuotaKind, QuotaStatus> | null;
+  agents: AgentQuotaSummary[];
+}
+
+const toStatus = (used: number, limit: number): QuotaStatus => ({
+  used,
+  limit,
+  remaining: Math.max(0, limit - used)
+});
+
+/**
+ * Whichever of an agent's own allowance and the account total runs out first. The account
+ * total is counted from the profile counters, which keep the usage of deleted agents, so
+ * deleting and recreating an agent doesn't grant a fresh allowance
+ */
+const bindingStatus = (agent: QuotaStatus, account: QuotaStatus): QuotaStatus =>
+  account.remaining < agent.remaining ? account : agent;
+
+/**
+ * Load the profile fields needed to work out a user's quotas
+ */
+async function getQuotaProfile(userId: string) {
+  const profile = await prisma.profile.findUnique({
+    where: { userId },
+    select: {
+      lastUsageReset: true,
+      profileCreatedAt: true,
+      tweetsUsed: true,
+      repliesUsed: true,
+      plan: {
+        select: {
+          maxAgents: true,
+          maxTweetsPerAgent: true,
+          maxRepliesPerAgent: true,
+          quotaMode: true
+        }
+      }
+    }
+  });
+
+  if (!profile || !profile.plan) {
+    return null;
+  }
+
+  const { plan } = profile;
+
+  return {
+    mode: plan.quotaMode,
+    periodStart: profile.lastUsageReset || profile.profileCreatedAt,
+    perAgentLimit: { tweet: plan.maxTweetsPerAgent, reply: plan.maxRepliesPerAgent } as Record<QuotaKind, number>,
+    // The profile counters include usage from before the ledger existed (and from deleted
+    // agents), so the account total uses them
+    pool: {
+      tweet: toStatus(profile.tweetsUsed, plan.maxTweetsPerAgent * plan.maxAgents),
+      reply: toStatus(profile.repliesUsed, plan.maxRepliesPerAgent * plan.maxAgents)
+    } as Record<QuotaKind, QuotaStatus>
+  };
+}
+
+export const quotaService = {
+  /**
+   * Get the tweet or reply quota an agent can still draw on this billing period
+   *
+   * @param userId - Owner of the agent
+   * @param agentId - Agent about to post
+   * @param kind - Whether the agent is posting tweets or replies
+   * @returns Promise with the plan's quota mode and the applicable usage, limit and remaining count
+   */
+  async getAgentQuota(userId: string, agentId: string, kind: QuotaKind): Promise<AgentQuotaResult> {
+    const profile = await getQuotaProfile(userId);
+
+    if (!profile) {
+      return {
+        success: false,
+        error: 'User profile or plan not found'
+      };
+    }
+
+    if (profile.mode === QuotaMode.pooled) {
+      return { success: true, mode: profile.mode, quota: profile.pool[kind] };
+    }
+
+    const used = await prisma.usageEvent.count({
+      where: {
+        userId,
+        agentId,
+        kind,
+        createdAt: { gte: profile.periodStart }
+      }
+    });
+
+    return {
+      success: true,
+      mode: profile.mode,
+      quota: bindingStatus(toStatus(used, profile.perAgentLimit[kind]), profile.pool[kind])
+    };
+  },
+
+  /**
+   * Tweet and reply quotas for every agent the user owns (plus the shared pool on pooled plans)
+   *
+   * @param userId - Profile to report on
+   * @returns Promise with the quota summary, or null if the profile or plan is missing
+   */
+  async getSummary(userId: string): Promise<QuotaSummary | null> {
+    const profile = await getQuotaProfile(userId);
+
+    if (!profile) {
+      return null;
+    }
+
+    const [agents, groups] = await Promise.all([
+      prisma.agent.findMany({
+        where: { userId },
+        select: { agentId: true, name: true },
+        orderBy: { name: 'asc' }
+      }),
+      prisma.usageEvent.groupBy({
+        by: ['agentId', 'kind'],
+        where: {
+          userId,
+          kind: { in: ['tweet', 'reply'] },
+          createdAt: { gte: profile.periodStart }
+        },
+        _count: { kind: true }
+      })
+    ]);
+
+    const usedByAgent = new Map<string, Record<QuotaKind, number>>();
+    for (const group of groups) {
+      if (!group.agentId) continue;
+      const entry = usedByAgent.get(group.agentId) || { tweet: 0, reply: 0 };
+      entry[group.kind as QuotaKind] += group._count.kind;
+      usedByAgent.set(group.agentId, entry);
+    }
+
+    const pooled = profile.mode === QuotaMode.pooled;
+
+    return {
+      mode: profile.mode,
+      periodStart: profile.periodStart,
+      pool: pooled ? profile.pool : null,
+      agents: agents.map(agent => {
+        const used = usedByAgent.get(agent.agentId) || { tweet: 0, reply: 0 };
+
+        // On pooled plans an agent's limit and remaining count are the pool's; otherwise the
+        // agent's own, with remaining capped by the account total
+        const statusFor = (kind: QuotaKind) => {
+          if (pooled) {
+            return { ...profile.pool[kind], used: used[kind] };
+          }
+
+          const status = toStatus(used[kind], profile.perAgentLimit[kind]);
+          return { ...status, remaining: bindingStatus(status, profile.pool[kind]).remaining };
+        };
+
+        return {
+          agentId: agent.agentId,
+          name: agent.name,
+          tweet: statusFor('tweet'),
+          reply: statusFor('reply')
+        };
+      })
+    };
+  }
+};
@@ -8,6 +8,7 @@ import express, { Request, Response } from 'express';
 import { twitterAuthService } from '../twitter-auth-service';
 import { TwitterApi } from '../twitter-api';
 import prisma from '../../db/utils/dbClient';
+import { decryptCookies } from '../../db/utils/cookieEncryption';
 
 const router = express.Router();
 
@@ -23,7 +24,7 @@ function getUserId(req: Request): string {
  */
 async function getValidCookiesFromDatabase(userId: string) {
   try {
-    return await prisma.cookie.findMany({
+    return decryptCookies(await prisma.cookie.findMany({
       where: {
         userId,
         OR: [
@@ -31,7 +32,7 @@ async function getValidCookiesFromDatabase(userId: string) {
           { expires: { gt: new Date() } } // Non-expired cookies
         ]
       }
-    });
+    }));
   } catch (error) {
     console.error(`Error fetching cookies for user ${userId}:`, error);
     return [];
@@ -5,14 +5,30 @@
  */
 
 import prisma, { schedulerQueries } from "../db/utils/dbClient";
-import { agentTweetService } from "./agent-tweet-service";
+import { agentTweetService, AgentThreadResult } from "./agent-tweet-service";
 import { autoEngageService } from "./auto-engage-service";
+import { autoFollowService, AUTO_FOLLOW_INTERVAL_HOURS } from "./auto-follow-service";
+import { dmService, DM_SYNC_INTERVAL_MINUTES } from "./dm-service";
+import { autoTweetService } from "./auto-tweet-service";
+import { postingScheduleService } from "./posting-schedule-service";
+import { postingTimeService } from "./posting-time-service";
+import { mentionService, MENTIONS_CHECK_INTERVAL_MINUTES } from "./mention-service";
+import { tweetMetricsService } from "./tweet-metrics-service";
+import { tweetQueueService, ClaimedTweet } from "./tweet-queue-service";
+import { notificationService } from "./notification-service";
+import { mediaService } from "./media-service";
 import { isBefore } from 'date-fns';
 import { AgentStatus } from '@prisma/client';
 
 // Store cleanup functions for intervals
 let schedulerInterval: NodeJS.Timeout | null = null;
 
+// Scheduled tweets posted per run; anything left waits for the next run (or another instance)
+const MAX_SCHEDULED_TWEETS_PER_RUN = 25;
+
+// Auto-tweet slots written per run, keeping LLM (and trend) calls inside the cron time limit
+const MAX_AUTO_TWEET_SLOTS_PER_RUN = 2;
+
 export const schedulerService = {
   /**
    * Find and process due scheduled tweets (one-off)
@@ -21,45 +37,91 @@ export const schedulerService = {
     // console.log(`[Scheduler - OneOff] Checking for scheduled tweets at ${new Date().toISOString()}`);
     
     try {
-      // 🚀 OPTIMIZED: Use pre-compiled query with better select fields
-      const dueTweets = await schedulerQueries.findScheduledTweets();
-      
-      if (dueTweets.length === 0) {
-        // console.log("[Scheduler - OneOff] No due tweets found.");
+      // Requeue tweets a crashed run left in 'posting', notifying for any that ran out of attempts
+      const deadLettered = await tweetQueueService.recoverExpiredLeases();
+      for (const tweet of deadLettered) {
+        await this.notifyTweetFailed(tweet.userId, tweet.agentId, tweet.text, tweet.error);
+      }
+
+      // Claim one due tweet at a time, so overlapping runs on other instances take different tweets
+      // and every claim's lease starts when its post does. Tweets of agents that aren't running
+      // are left scheduled until the agent is started again
+      let processed = 0;
+      while (processed < MAX_SCHEDULED_TWEETS_PER_RUN) {
+        const tweet = await tweetQueueService.claimNext();
+        if (!tweet) break;
+
+        console.log(`[Scheduler - OneOff] Processing tweet ID: ${tweet.tweetId} for active agent ${tweet.agentId}`);
+        await this.postAndLogTweet(tweet);
+        processed++;
+      }
+
+      if (processed > 0) {
+        console.log(`[Scheduler - OneOff] Processed ${processed} due tweet(s).`);
+      }
+    } catch (error) {
+      console.error("[Scheduler - OneOff] Error fetching or processing scheduled tweets:", error);
+    }
+  },
+  
+  /**
+   * Find and post due scheduled threads
+   */
+  async processScheduledThreads(): Promise<void> {
+    try {
+      // Close out threads a crashed run left in 'posting'
+      const interrupted = await tweetQueueService.recoverExpiredThreadLeases();
+      for (const thread of interrupted) {
+        await this.notifyThreadFailed(thread.userId, thread.agentId, {
+          success: false,
+          thread: {
+            id: thread.threadId,
+            status: thread.status,
+            totalParts: thread.totalParts,
+            postedCount: thread.postedCount
+          },
+          error: thread.error
+        });
+      }
+
+      const dueThreads = await schedulerQueries.findScheduledThreads();
+
+      if (dueThreads.length === 0) {
         return;
       }
-      
-      console.log(`[Scheduler - OneOff] Found ${dueTweets.length} due tweet(s). Processing...`);
-      
-      // Process each due tweet
-      for (const tweet of dueTweets) {
-        // Safeguard: Check if agent relation was loaded correctly
-        if (!tweet.agent?.userId || !tweet.agent?.status) {
-           console.error(`[Scheduler - OneOff] Skipping tweet ID: ${tweet.tweetId} due to missing agent data (userId or status).`);
-           // Optionally update status to failed here
-           await prisma.tweet.update({ where: { tweetId: tweet.tweetId }, data: { status: 'failed' } });
-           continue;
+
+      console.log(`[Scheduler - Threads] Found ${dueThreads.length} due thread(s). Processing...`);
+
+      for (const thread of dueThreads) {
+        // Scheduled threads wait until the agent is running again
+        if (thread.agent.status !== AgentStatus.running) {
+          console.log(`[Scheduler - Threads] Skipping thread ${thread.threadId} because agent ${thread.agentId} is not active (status: ${thread.agent.status}).`);
+          continue;
         }
 
-        // Check if the agent is active before posting
-        if (tweet.agent.status !== AgentStatus.running) {
-            console.log(`[Scheduler - OneOff] Skipping tweet ID: ${tweet.tweetId} because agent ${tweet.agentId} is not active (status: ${tweet.agent.status}).`);
-            // Optionally update the tweet status to indicate it was skipped due to agent status
-            // Example: await prisma.tweet.update({ where: { tweetId: tweet.tweetId }, data: { status: 'skipped' } });
-            continue; // Skip to the next tweet
+        // Claim the thread so an overlapping run can't post it twice
+        if (!(await tweetQueueService.claimThread(thread.threadId))) {
+          continue;
         }
 
-        console.log(`[Scheduler - OneOff] Processing tweet ID: ${tweet.tweetId} for active agent ${tweet.agentId}`);
-        await this.postAndLogTweet(tweet.tweetId, tweet.agentId, tweet.agent.userId, tweet.text);
+        try {
+          const result = await agentTweetService.publishThread(thread.threadId, thread.agent.userId);
+
+          if (!result.success) {
+            await this.notifyThreadFailed(thread.agent.userId, thread.agentId, result);
+          }
+        } catch (error) {
+          console.error(`[Scheduler - Threads] Error publishing thread ${thread.threadId}:`, error);
+        }
       }
     } catch (error) {
-      console.error("[Scheduler - OneOff] Error fetching or processing scheduled tweets:", error);
+      console.error("[Scheduler - Threads] Error fetching or processing scheduled threads:", error);
     }
   },
   
   /**
-   * Find agents due for interval-based auto-tweets, generate the specified count,
-   * and schedule them spread across the interval.
+   * Find agents due for interval-based auto-tweets and reserve the specified count of
+   * slots spread across the interval; the tweets are written later by processAutoTweetSlots
    */
   async processAutoTweets(): Promise<void> {
     try {
@@ -101,65 +163,63 @@ export const schedulerService = {
         return;
       }
 
-      console.log(`[Scheduler - Auto] Found ${agentsToProcess.length} agent(s) due for a new auto-tweet cycle. Scheduling individual tweets...`);
+      console.log(`[Scheduler - Auto] Found ${agentsToProcess.length} agent(s) due for a new auto-tweet cycle. Reserving slots...`);
 
       for (const agent of agentsToProcess) {
-        // These are guaranteed to exist due to the loop condition and query
-        const intervalMs = agent.autoTweetFrequencyHours! * 60 * 60 * 1000;
-        const tweetsToGenerate = agent.autoTweetCount!;
-
-        // Calculate time between posts within the interval (handle division by zero just in case)
-        const millisecondsBetweenPosts = tweetsToGenerate > 0 ? intervalMs / tweetsToGenerate : intervalMs;
-
-        console.log(`[Scheduler - Auto] Agent ${agent.agentId}: Scheduling ${tweetsToGenerate} tweets over ${agent.autoTweetFrequencyHours}h (approx. 1 every ${Math.round(millisecondsBetweenPosts / 60000)} min)`);
-
-        let scheduledCount = 0;
-        for (let i = 0; i < tweetsToGenerate; i++) {
-           try {
-            // Calculate post time: start slightly in the future, add offset for each tweet
-            const postTimeOffsetMs = 5000 + (i * millisecondsBetweenPosts); // Start 5s in future + offset
-            const postTime = new Date(now.getTime() + postTimeOffsetMs);
+        try {
+          const schedule = postingScheduleService.fromAgent(agent);
 
-            console.log(`[Scheduler - Auto] Generating tweet ${i + 1}/${tweetsToGenerate} for agent ${agent.agentId}, scheduled for ${postTime.toISOString()}`);
+          // Steer slots into the agent's best-performing hours once there is data to go on
+          if (agent.optimizePostingTimes) {
+            schedule.preferredHours = await postingTimeService.getPreferredHours(agent.agentId, schedule.timezone);
+          }
 
-            // 1. Generate the tweet content
-            const generationResult = await agentTweetService.generateTweet({
-              agentId: agent.agentId,
-              userId: agent.userId,
-            });
+          // These are guaranteed to exist due to the loop condition and query
+          const reservedCount = await autoTweetService.reserveCycle({
+            agentId: agent.agentId,
+            lastAutoTweetTime: agent.lastAutoTweetTime,
+            autoTweetFrequencyHours: agent.autoTweetFrequencyHours!,
+            autoTweetCount: agent.autoTweetCount!
+          }, schedule, now);
+
+          if (reservedCount === null) {
+            console.log(`[Scheduler - Auto] Agent ${agent.agentId}: Cycle already started by another run, skipping.`);
+            continue;
+          }
 
-            if (!generationResult.success || !generationResult.tweet?.text) {
-              console.error(`[Scheduler - Auto] Failed to generate tweet content #${i+1} for agent ${agent.agentId}: ${generationResult.error}`);
-              continue; // Skip this specific tweet, try the next one in the loop
-            }
+          if (reservedCount === 0) {
+            console.log(`[Scheduler - Auto] Agent ${agent.agentId}: No active hours in this cycle, nothing reserved. Updated lastAutoTweetTime.`);
+            continue;
+          }
 
-            // 2. Create a scheduled tweet record
-            await prisma.tweet.create({
-                data: {
-                    agentId: agent.agentId,
-                    text: generationResult.tweet.text,
-                    postTime: postTime,
-                    status: 'scheduled'
-                }
-            });
-            scheduledCount++;
+          console.log(`[Scheduler - Auto] Agent ${agent.agentId}: Reserved ${reservedCount} slot(s) over ${agent.autoTweetFrequencyHours}h${schedule.preferredHours?.length ? ` (${schedule.preferredHours.length} preferred hour(s))` : ''}. Updated lastAutoTweetTime.`);
+        } catch (reserveError) {
+          console.error(`[Scheduler - Auto] Error reserving auto-tweet slots for agent ${agent.agentId}:`, reserveError);
+        }
+      }
 
-          } catch (scheduleError) {
-             console.error(`[Scheduler - Auto] Error generating/scheduling auto-tweet #${i+1} for agent ${agent.agentId}:`, scheduleError);
-          }
-        } // End loop for generating tweets within interval
+    } catch (error) {
+      console.error("[Scheduler - Auto] Error processing auto-tweet cycles:", error);
+    }
+  },
 
-        // Update lastAutoTweetTime *after* attempting to schedule all tweets for this cycle
-        await prisma.agent.update({
-          where: { agentId: agent.agentId },
-          data: { lastAutoTweetTime: now } // Mark the start of this cycle
-        });
-        console.log(`[Scheduler - Auto] Agent ${agent.agentId}: Cycle complete. Attempted to schedule ${scheduledCount}/${tweetsToGenerate} tweets. Updated lastAutoTweetTime.`);
+  /**
+   * Write the tweets of auto-tweet slots that are coming up, handing each to the posting queue
+   */
+  async processAutoTweetSlots(): Promise<void> {
+    try {
+      await autoTweetService.pruneSlots();
 
-      } // End loop for agents to process
+      // Claim one slot at a time so overlapping runs on other instances write different slots
+      for (let written = 0; written < MAX_AUTO_TWEET_SLOTS_PER_RUN; written++) {
+        const slot = await autoTweetService.claimNextSlot();
+        if (!slot) break;
 
+        console.log(`[Scheduler - Auto] Writing slot ${slot.tweetId} for agent ${slot.agentId} (attempt ${slot.attempts})`);
+        await autoTweetService.fillSlot(slot);
+      }
     } catch (error) {
-      console.error("[Scheduler - Auto] Error processing auto-tweet cycles:", error);
+      console.error("[Scheduler - Auto] Error writing auto-tweet slots:", error);
     }
   },
 
@@ -182,16 +242,22 @@ export const schedulerService = {
       for (const agent of candidateAgents) {
         if (!agent.autoEngageFrequencyHours || !agent.autoEngageMaxReplies) continue;
 
+        // Outside the agent's active hours (or on a blackout date) cycles wait until the next window
+        const schedule = postingScheduleService.fromAgent(agent);
+        if (!postingScheduleService.isActive(schedule, now)) continue;
+
         if (!agent.lastAutoEngageTime) { // First time, always process
           agentsToProcess.push(agent);
           continue;
         }
 
-        // Convert frequency hours to milliseconds
-        const intervalMs = agent.autoEngageFrequencyHours * 60 * 60 * 1000;
-
-        // Check if the interval has passed since the last cycle started
-        const nextCycleStartTime = new Date(agent.lastAutoEngageTime.getTime() + intervalMs);
+        // Check if the interval (plus this cycle's jitter) has passed since the last cycle started
+        const nextCycleStartTime = postingScheduleService.getEngageDueTime(
+          schedule,
+          agent.agentId,
+          agent.lastAutoEngageTime,
+          agent.autoEngageFrequencyHours
+        );
         
         // Add 5-second tolerance buffer to account for timing precision issues
         // This prevents missing triggers when scheduler and auto-engage frequency are similar
@@ -211,6 +277,17 @@ export const schedulerService = {
       console.log(`[Scheduler - Auto-Engage] Found ${agentsToProcess.length} agent(s) due for auto-engagement cycle.`);
 
       for (const agent of agentsToProcess) {
+        // Another instance (or a manual run) may already be running this agent's cycle
+        const claimed = await autoEngageService.claimCycle(agent.agentId, true).catch(error => {
+          console.error(`[Scheduler - Auto-Engage] Failed to claim cycle for agent ${agent.agentId}:`, error);
+          return false;
+        });
+
+        if (!claimed) {
+          console.log(`[Scheduler - Auto-Engage] Skipping agent ${agent.agentId}: cycle already claimed or no longer due.`);
+          continue;
+        }
+
         try {
           console.log(`[Scheduler - Auto-Engage] Processing agent ${agent.agentId} for auto-engagement`);
           
@@ -224,7 +301,11 @@ export const schedulerService = {
               tweetsAnalyzed: result.results.tweetsFetched,
               repliesGenerated: result.results.repliesGenerated,
               repliesPosted: result.results.repliesPosted,
-              repliesFailed: result.results.repliesFailed
+              repliesFailed: result.results.repliesFailed,
+              repliesQueued: result.results.repliesQueued,
+              likesGiven: result.results.likesGiven,
+              retweetsGiven: result.results.retweetsGiven,
+              quotesGiven: result.results.quotesGiven
             });
           }
           
@@ -254,6 +335,10 @@ export const schedulerService = {
           
         } catch (error) {
           console.error(`[Scheduler - Auto-Engage] Error processing agent ${agent.agentId}:`, error);
+        } finally {
+          await autoEngageService.releaseCycle(agent.agentId).catch(error => {
+            console.error(`[Scheduler - Auto-Engage] Failed to release cycle for agent ${agent.agentId}:`, error);
+          });
         }
       }
 
@@ -263,71 +348,304 @@ export const schedulerService = {
   },
 
   /**
-   * Helper function to post a tweet and update its status in the database
-   * @returns boolean indicating if the post was successful
+   * Find agents due for an auto-follow cycle and process them
    */
-  async postAndLogTweet(tweetId: string, agentId: string, userId: string, text: string): Promise<boolean> {
-    // Mark the scheduled tweet as 'posting'
-    // Use the passed tweetId which is guaranteed to exist for scheduled tweets
+  async processAutoFollow(): Promise<void> {
     try {
-      await prisma.tweet.update({
-        where: { tweetId: tweetId },
-        data: { status: 'posting' }
-      });
-    } catch (updateError) {
-      console.error(`[Scheduler] Failed to update status to 'posting' for tweet ${tweetId}:`, updateError);
-      // Decide whether to proceed or return false. Let's proceed for now.
+      const candidateAgents = await schedulerQueries.findAutoFollowAgents();
+
+      const intervalMs = AUTO_FOLLOW_INTERVAL_HOURS * 60 * 60 * 1000;
+      const agentsToProcess = candidateAgents.filter(agent =>
+        !agent.lastAutoFollowTime || agent.lastAutoFollowTime.getTime() + intervalMs <= Date.now()
+      );
+
+      if (agentsToProcess.length === 0) {
+        return;
+      }
+
+      console.log(`[Scheduler - Auto-Follow] Found ${agentsToProcess.length} agent(s) due for an auto-follow cycle.`);
+
+      for (const agent of agentsToProcess) {
+        try {
+          const result = await autoFollowService.runAutoFollowCycle(agent.agentId, agent.userId);
+
+          if (result.success && result.results) {
+            console.log(`[Scheduler - Auto-Follow] Agent ${agent.agentId} cycle completed:`, result.results);
+          } else {
+            console.error(`[Scheduler - Auto-Follow] Agent ${agent.agentId} error: ${result.error || 'Unknown error'}`);
+          }
+        } catch (error) {
+          console.error(`[Scheduler - Auto-Follow] Error processing agent ${agent.agentId}:`, error);
+        }
+      }
+
+    } catch (error) {
+      console.error("[Scheduler - Auto-Follow] Error processing auto-follow cycles:", error);
+    }
+  },
+
+  /**
+   * Check mentions for agents that are due and answer them
+   */
+  async processMentions(): Promise<void> {
+    try {
+      const candidateAgents = await schedulerQueries.findMentionsAgents();
+
+      const intervalMs = MENTIONS_CHECK_INTERVAL_MINUTES * 60 * 1000;
+      const agentsToProcess = candidateAgents.filter(agent =>
+        !agent.lastMentionsCheckTime || agent.lastMentionsCheckTime.getTime() + intervalMs <= Date.now()
+      );
+
+      if (agentsToProcess.length === 0) {
+        return;
+      }
+
+      console.log(`[Scheduler - Mentions] Found ${agentsToProcess.length} agent(s) due for a mentions check.`);
+
+      for (const agent of agentsToProcess) {
+        try {
+          const result = await mentionService.checkMentions(agent.agentId, agent.userId);
+
+          if (result.success && result.results) {
+            console.log(`[Scheduler - Mentions] Agent ${agent.agentId} check completed:`, result.results);
+          } else {
+            console.error(`[Scheduler - Mentions] Agent ${agent.agentId} error: ${result.error || 'Unknown error'}`);
+          }
+        } catch (error) {
+          console.error(`[Scheduler - Mentions] Error processing agent ${agent.agentId}:`, error);
+        }
+      }
+
+    } catch (error) {
+      console.error("[Scheduler - Mentions] Error processing mentions:", error);
     }
+  },
 
+  /**
+   * Send approved DM replies, then sync the DM inboxes that are due, after recovering
+   * replies whose sending run died
+   */
+  async processDirectMessages(): Promise<void> {
     try {
-      // Call the service to post to the external platform (e.g., X)
-      // ASSUMPTION: agentTweetService.postTweet is modified to NOT create a DB record
-      //             when dealing with an existing scheduled tweet (identified perhaps by
-      //             passing tweetId to it). It just posts and returns the platform's response.
+      // Fail replies a crashed run left in 'sending', so the user can re-approve or reject them
+      await dmService.recoverExpiredSendLeases();
+
+      // Step 1: Approved replies, grouped by agent so each agent logs in to X once
+      const dueReplies = await schedulerQueries.findApprovedDmReplies();
+
+      const repliesByAgent = new Map<string, typeof dueReplies>();
+      for (const reply of dueReplies) {
+        const agentReplies = repliesByAgent.get(reply.agentId) || [];
+        agentReplies.push(reply);
+        repliesByAgent.set(reply.agentId, agentReplies);
+      }
+
+      for (const [agentId, replies] of Array.from(repliesByAgent.entries())) {
+        const agent = replies[0].agent;
+
+        // Approved replies wait until the agent is running again
+        if (agent.status !== AgentStatus.running) continue;
+
+        try {
+          const result = await dmService.sendApprovedReplies(agentId, agent.userId, replies);
+
+          if (result.success) {
+            console.log(`[Scheduler - DM] Agent ${agentId}: ${result.sent} sent, ${result.failed} failed.`);
+          } else {
+            console.error(`[Scheduler - DM] Agent ${agentId} error: ${result.error}`);
+          }
+        } catch (error) {
+          console.error(`[Scheduler - DM] Error sending approved DM replies for agent ${agentId}:`, error);
+        }
+      }
+
+      // Step 2: Inbox syncs
+      const candidateAgents = await schedulerQueries.findDmInboxAgents();
+
+      const intervalMs = DM_SYNC_INTERVAL_MINUTES * 60 * 1000;
+      const agentsToSync = candidateAgents.filter(agent =>
+        !agent.lastDmSyncTime || agent.lastDmSyncTime.getTime() + intervalMs <= Date.now()
+      );
+
+      for (const agent of agentsToSync) {
+        try {
+          const result = await dmService.syncInbox(agent.agentId, agent.userId);
+
+          if (result.success && result.results) {
+            console.log(`[Scheduler - DM] Agent ${agent.agentId} inbox synced:`, result.results);
+          } else {
+            console.error(`[Scheduler - DM] Agent ${agent.agentId} error: ${result.error || 'Unknown error'}`);
+          }
+        } catch (error) {
+          console.error(`[Scheduler - DM] Error syncing inbox for agent ${agent.agentId}:`, error);
+        }
+      }
+
+    } catch (error) {
+      console.error("[Scheduler - DM] Error processing direct messages:", error);
+    }
+  },
+
+  /**
+   * Find replies approved in the reply inbox that are due and post them, after recovering
+   * replies (including mention replies) whose posting run died
+   */
+  async processApprovedReplies(): Promise<void> {
+    try {
+      // Fail replies a crashed run left in 'posting', so the user can retry or remove them
+      await autoEngageService.recoverExpiredReplyLeases();
+
+      const dueReplies = await schedulerQueries.findApprovedReplies();
+
+      if (dueReplies.length === 0) {
+        return;
+      }
+
+      console.log(`[Scheduler - Replies] Found ${dueReplies.length} approved reply(s) due for posting.`);
+
+      // Group by agent so each agent logs in to X once
+      const repliesByAgent = new Map<string, typeof dueReplies>();
+      for (const reply of dueReplies) {
+        const agentReplies = repliesByAgent.get(reply.agentId) || [];
+        agentReplies.push(reply);
+        repliesByAgent.set(reply.agentId, agentReplies);
+      }
+
+      for (const [agentId, replies] of Array.from(repliesByAgent.entries())) {
+        const agent = replies[0].agent;
+
+        // Approved replies wait until the agent is running again
+        if (agent.status !== AgentStatus.running) {
+          console.log(`[Scheduler - Replies] Skipping ${replies.length} reply(s) because agent ${agentId} is not active (status: ${agent.status}).`);
+          continue;
+        }
+
+        try {
+          const result = await autoEngageService.postApprovedReplies(agentId, agent.userId, replies);
+
+          if (result.success) {
+            console.log(`[Scheduler - Replies] Agent ${agentId}: ${result.posted} posted, ${result.failed} failed.`);
+          } else {
+            console.error(`[Scheduler - Replies] Agent ${agentId} error: ${result.error}`);
+          }
+        } catch (error) {
+          console.error(`[Scheduler - Replies] Error posting approved replies for agent ${agentId}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("[Scheduler - Replies] Error processing approved replies:", error);
+    }
+  },
+
+  /**
+   * Refresh engagement metrics for posted tweets and replies that are due
+   */
+  async processTweetMetrics(): Promise<void> {
+    try {
+      const tweetResult = await tweetMetricsService.syncDueTweets();
+
+      if (!tweetResult.success) {
+        console.error(`[Scheduler - Metrics] Error syncing tweet metrics: ${tweetResult.error}`);
+      }
+
+      const replyResult = await tweetMetricsService.syncDueReplies();
+
+      if (!replyResult.success) {
+        console.error(`[Scheduler - Metrics] Error syncing reply metrics: ${replyResult.error}`);
+      }
+    } catch (error) {
+      console.error("[Scheduler - Metrics] Error processing tweet metrics:", error);
+    }
+  },
+
+  /**
+   * Helper function to post a claimed scheduled tweet and record the outcome in the database
+   *
+   * Transient failures put the tweet back in the queue with a backoff; the user is only notified
+   * once it runs out of attempts or fails for good
+   *
+   * @returns boolean indicating if the post was successful
+   */
+  async postAndLogTweet(tweet: ClaimedTweet): Promise<boolean> {
+    const { tweetId, agentId, userId, text, quotedTweetId, attempts: attempt } = tweet;
+    const releaseLease = tweetQueueService.holdLease(tweetId);
+
+    try {
+      // Media is stored when the tweet is scheduled and read back only now
+      const mediaData = await mediaService.loadForTweet(tweetId);
+
+      // Posting with scheduledTweetId marks this row posted instead of saving a new one
       const result = await agentTweetService.postTweet({
         agentId: agentId,
         userId: userId,
         text: text,
-        // You might need to signal to agentTweetService that this is from a schedule,
-        // e.g., by passing the tweetId if its interface supports it.
-        // scheduledTweetId: tweetId // Example if the service needs it
+        quotedTweetId: quotedTweetId || undefined,
+        mediaData,
+        scheduledTweetId: tweetId
       });
 
-      const finalStatus = result.success ? 'posted' : 'failed';
-      // Get the actual post time only if successful
-      const actualPostTime = result.success ? (result.tweet?.timestamp || new Date()) : null;
-
-      // Update the original scheduled tweet record with the outcome
-      await prisma.tweet.update({
-        where: { tweetId: tweetId }, // Use the original tweetId
-        data: {
-          status: finalStatus,
-          // Get the twitterId/url directly from the result of the postTweet call
-          twitterTweetId: result.tweet?.twitterId || null,
-          url: result.tweet?.url || null,
-          // Update postTime only if successful to reflect actual posting time
-          ...(actualPostTime && { postTime: actualPostTime })
-        }
-      });
+      console.log(`[Scheduler] Scheduled tweet (DB ID: ${tweetId}) attempt ${attempt} processed for Agent ${agentId}. Success: ${result.success}`);
 
-      console.log(`[Scheduler] Scheduled tweet (DB ID: ${tweetId}) processed for Agent ${agentId}. Success: ${result.success}`);
+      if (!result.success) {
+        const error = result.error || 'Unknown error';
+        const { deadLettered } = await tweetQueueService.fail(tweetId, attempt, error, result.retryable ?? false);
+        if (deadLettered) {
+          await this.notifyTweetFailed(userId, agentId, text, error);
+        }
+      }
       return result.success;
 
     } catch (postError) {
       console.error(`[Scheduler] Error processing scheduled tweet (DB ID: ${tweetId}) for Agent ${agentId}:`, postError);
 
-      // Attempt to update status to 'failed' upon catching an error
+      const error = postError instanceof Error ? postError.message : String(postError);
       try {
-        await prisma.tweet.update({
-          where: { tweetId: tweetId },
-          data: { status: 'failed' }
-        });
+        const { deadLettered } = await tweetQueueService.fail(tweetId, attempt, error, true);
+        if (deadLettered) {
+          await this.notifyTweetFailed(userId, agentId, text, error);
+        }
       } catch (failUpdateError) {
-        console.error(`[Scheduler] Failed to update status to 'failed' for tweet ${tweetId} after post error:`, failUpdateError);
+        // The lease runs out and the next run recovers the tweet
+        console.error(`[Scheduler] Failed to record failed attempt for tweet ${tweetId} after post error:`, failUpdateError);
       }
       return false; // Indicate failure
+    } finally {
+      releaseLease();
     }
   },
+
+  /**
+   * Let the user know a scheduled tweet could not be posted
+   */
+  async notifyTweetFailed(userId: string, agentId: string, text: string, error?: string): Promise<void> {
+    const preview = text.length > 60 ? `${text.substring(0, 60)}…` : text;
+
+    await notificationService.create({
+      userId,
+      agentId,
+      type: 'tweet_failed',
+      title: 'Scheduled tweet failed',
+      message: `"${preview}" could not be posted${error ? `: ${error}` : '.'}`,
+      dedupeWindowMinutes: 0 // Every failed tweet gets its own notification
+    });
+  },
+  
+  /**
+   * Let the user know a scheduled thread stopped before all parts were posted
+   */
+  async notifyThreadFailed(userId: string, agentId: string, result: AgentThreadResult): Promise<void> {
+    const postedCount = result.thread?.postedCount ?? 0;
+    const totalParts = result.thread?.totalParts ?? 0;
+
+    await notificationService.create({
+      userId,
+      agentId,
+      type: 'tweet_failed',
+      title: postedCount > 0 ? 'Scheduled thread partially posted' : 'Scheduled thread failed',
+      message: `${postedCount} of ${totalParts} parts were posted${result.error ? `: ${result.error}` : '.'}`,
+      dedupeWindowMinutes: 0
+    });
+  },
   
   /**
    * Initialize the scheduler
@@ -382,7 +700,15 @@ export const schedulerService = {
    */
   runChecks(): void {
     this.processScheduledTweets(); // Handles one-off and individually scheduled auto-tweets
+    this.processScheduledThreads(); // Handles scheduled multi-tweet threads
     this.processAutoTweets(); // Handles kicking off new auto-tweet cycles
+    this.processAutoTweetSlots(); // Handles writing auto-tweets shortly before their slots
     this.processAutoEngagement(); // Handles auto-engagement cycles
+    this.processApprovedReplies(); // Handles replies approved in the reply inbox
+    this.processAutoFollow(); // Handles auto-follow cycles and follow-back checks
+    this.processDirectMessages(); // Handles DM inbox syncs and approved DM replies
+    this.processMentions(); // Handles replies to mentions of the agent
+    this.processTweetMetrics(); // Handles engagement metrics for posted tweets and replies
+    mediaService.purgeUnattached(); // Removes media uploads that were never posted
   }
 }; 
\ No newline at end of file
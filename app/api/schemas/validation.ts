@@ -27,6 +27,14 @@ export const createAgentSchema = z.object({
   }).optional()
 });
 
+// Per-agent LLM settings (null resets a field to the provider default)
+export const agentLlmSettingsSchema = z.object({
+  llmProvider: z.enum(['openrouter', 'openai', 'local']).optional(),
+  llmModel: z.string().trim().max(200).nullable().optional().transform(model => model === '' ? null : model),
+  llmTemperature: z.number().min(0).max(2).nullable().optional(),
+  llmMaxTokens: z.number().int().min(16).max(4000).nullable().optional()
+});
+
 export const updateAgentSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   goal: z.string().min(1).max(500).optional(),
@@ -34,11 +42,13 @@ export const updateAgentSchema = z.object({
   autoTweetEnabled: z.boolean().optional(),
   autoTweetFrequencyHours: z.number().min(0.0167).max(168).optional(), // 1 minute to 1 week
   autoTweetCount: z.number().min(1).max(50).optional(),
+  autoTweetTrendsEnabled: z.boolean().optional(),
   autoEngageEnabled: z.boolean().optional(),
   autoEngageFrequencyHours: z.number().min(0.0833).max(168).optional(), // 5 minutes to 1 week
   autoEngageMaxReplies: z.number().min(1).max(50).optional(),
   autoEngageMinScore: z.number().min(0).max(1000).optional(),
-  autoEngageAutoReply: z.boolean().optional()
+  autoEngageAutoReply: z.boolean().optional(),
+  ...agentLlmSettingsSchema.shape
 }).refine((data) => {
   // If auto-tweet is enabled, frequency and count are required
   if (data.autoTweetEnabled && (!data.autoTweetFrequencyHours || !data.autoTweetCount)) {
@@ -60,7 +70,7 @@ export const updateAgentSchema = z.object({
 // Tweet schemas
 export const generateTweetSchema = z.object({
   context: z.string().max(1000).optional(),
-  llmProvider: z.enum(['openrouter', 'openai']).optional().default('openrouter'),
+  llmProvider: z.enum(['openrouter', 'openai', 'local']).optional(),
   post: z.boolean().optional().default(false),
   text: z.string().max(280).optional(),
   url: z.string().url().optional(),
@@ -68,9 +78,32 @@ export const generateTweetSchema = z.object({
   isRegeneration: z.boolean().optional().default(false)
 });
 
+// A tweet to quote, given as its numeric ID or URL (x.com/user/status/123)
+const X_TWEET_ID_REGEX = /^\d{1,25}$/;
+
+export const quotedTweetIdSchema = z.string().trim()
+  .transform(value => value.match(/status(?:es)?\/(\d+)/)?.[1] ?? value)
+  .pipe(z.string().regex(X_TWEET_ID_REGEX, 'Quoted tweet must be a tweet ID or URL'));
+
+export const generateQuoteTweetSchema = z.object({
+  quotedTweetId: quotedTweetIdSchema,
+  context: z.string().max(1000).optional(),
+  llmProvider: z.enum(['openrouter', 'openai', 'local']).optional(),
+  isRegeneration: z.boolean().optional().default(false)
+});
+
+// Media uploaded through /api/agents/[id]/media, in the order it should appear
+export const mediaIdsSchema = z.array(z.string().uuid('Invalid media ID'))
+  .max(4, 'A tweet can have at most 4 media attachments')
+  .refine((ids) => new Set(ids).size === ids.length, { message: 'Duplicate media IDs' });
+
 export const postTweetSchema = z.object({
   text: z.string().min(1, 'Tweet text is required').max(280, 'Tweet must be less than 280 characters'),
-  replyToTweetId: z.string().optional()
+  replyToTweetId: z.string().optional(),
+  quotedTweetId: quotedTweetIdSchema.optional(),
+  mediaIds: mediaIdsSchema.optional()
+}).refine((data) => !(data.replyToTweetId && data.quotedTweetId), {
+  message: "A tweet can be a reply or a quote tweet, not both"
 });
 
 export const scheduleTweetSchema = z.object({
@@ -78,7 +111,9 @@ export const scheduleTweetSchema = z.object({
   tweet: z.object({
     text: z.string().min(1, 'Tweet text is required').max(280, 'Tweet must be less than 280 characters'),
     context: z.string().max(1000).optional(),
-    url: z.string().url().optional()
+    url: z.string().url().optional(),
+    quotedTweetId: quotedTweetIdSchema.optional(),
+    mediaIds: mediaIdsSchema.optional()
   })
 }).refine((data) => {
   const scheduledTime = new Date(data.scheduledAt);
@@ -88,6 +123,28 @@ export const scheduleTweetSchema = z.object({
   message: "Scheduled time must be in the future"
 });
 
+// Thread schemas
+export const MAX_THREAD_PARTS = 10;
+
+export const generateThreadSchema = z.object({
+  topic: z.string().min(1, 'Topic is required').max(1000),
+  parts: z.number().int().min(2, 'A thread needs at least 2 tweets').max(MAX_THREAD_PARTS, `A thread can have at most ${MAX_THREAD_PARTS} tweets`),
+  llmProvider: z.enum(['openrouter', 'openai', 'local']).optional(),
+  isRegeneration: z.boolean().optional().default(false)
+});
+
+export const createThreadSchema = z.object({
+  parts: z.array(
+    z.string().trim().min(1, 'Thread tweets cannot be empty').max(280, 'Each tweet must be less than 280 characters')
+  ).min(2, 'A thread needs at least 2 tweets').max(MAX_THREAD_PARTS, `A thread can have at most ${MAX_THREAD_PARTS} tweets`),
+  scheduledAt: z.string().datetime('Invalid datetime format').optional(),
+  context: z.string().max(1000).optional()
+}).refine((data) => {
+  return !data.scheduledAt || new Date(data.scheduledAt) > new Date();
+}, {
+  message: "Scheduled time must be in the future"
+});
+
 // Reply schemas
 export const generateReplySchema = z.object({
   tweetId: z.string().min(1, 'Tweet ID is required'),
@@ -124,6 +181,14 @@ export const updateReplySchema = z.object({
   message: "Invalid action configuration"
 });
 
+export const bulkReplyActionSchema = z.object({
+  action: z.enum(['approve', 'reject'], {
+    required_error: "Action is required",
+    invalid_type_error: "Action must be one of: approve, reject"
+  }),
+  replyIds: z.array(uuidSchema).min(1, 'At least one reply is required').max(100)
+});
+
 // Auto-engage schemas
 export const autoEngageConfigSchema = z.object({
   enabled: z.boolean(),
@@ -142,11 +207,125 @@ export const autoEngageConfigSchema = z.object({
   message: "When enabling auto-engage, frequencyHours, maxReplies, and minScore are required"
 });
 
+// Saved X searches for the `search` auto-engage source. Queries use X search syntax,
+// e.g. "#buildinpublic lang:en -filter:replies" or "from:vercel nextjs".
+export const engageSearchQuerySchema = z.object({
+  query: z.string().trim().min(1, 'Search query is required').max(500, 'Search query must be 500 characters or less'),
+  searchMode: z.enum(['latest', 'top']).optional().default('latest'),
+  enabled: z.boolean().optional().default(true)
+});
+
+export const updateEngageSearchQuerySchema = z.object({
+  query: z.string().trim().min(1, 'Search query is required').max(500, 'Search query must be 500 characters or less').optional(),
+  searchMode: z.enum(['latest', 'top']).optional(),
+  enabled: z.boolean().optional()
+});
+
+// X Lists and target accounts for the `lists` and `accounts` auto-engage sources. Lists can be
+// given as their numeric ID or URL (x.com/i/lists/123), accounts as a handle with or without "@".
+const X_LIST_ID_REGEX = /^\d{1,25}$/;
+
+const engageListIdSchema = z.string().trim()
+  .transform(value => value.match(/lists\/(\d+)/)?.[1] ?? value)
+  .pipe(z.string().regex(X_LIST_ID_REGEX, 'Lists must be an X List ID or URL'));
+
+const engageTargetHandleSchema = z.string().trim()
+  .transform(value => value.replace(/^@/, ''))
+  .pipe(z.string().regex(TWITTER_USERNAME_REGEX, 'Target accounts must be valid X usernames'));
+
+export const engageFeedSourcesSchema = z.object({
+  listIds: z.array(engageListIdSchema).max(5, 'An agent can watch at most 5 lists')
+    .transform(ids => Array.from(new Set(ids))).optional(),
+  targetHandles: z.array(engageTargetHandleSchema).max(25, 'An agent can target at most 25 accounts')
+    .transform(handles => Array.from(new Map(handles.map(handle => [handle.toLowerCase(), handle])).values())).optional(),
+  freshnessMinutes: z.number().int().min(15, 'Freshness window must be at least 15 minutes')
+    .max(10080, 'Freshness window must be at most 7 days').optional()
+});
+
 export const autoEngageActionSchema = z.object({
   action: z.enum(['trigger_cycle', 'test_analysis']),
   dryRun: z.boolean().optional().default(false)
 });
 
+// Auto-follow schemas
+export const autoFollowConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  maxDaily: z.number().int().min(1, 'Daily follow limit must be at least 1')
+    .max(50, 'Daily follow limit must be at most 50').optional(),
+  fromEngagers: z.boolean().optional(),
+  fromTargetFollowers: z.boolean().optional(),
+  checkAfterDays: z.number().int().min(1, 'Follow-back check must wait at least 1 day')
+    .max(30, 'Follow-back check must wait at most 30 days').optional()
+});
+
+// Mention reply schemas
+export const mentionsConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  maxDepth: z.number().int().min(1, 'Replies per conversation must be at least 1')
+    .max(10, 'Replies per conversation must be at most 10').optional()
+});
+
+// Posting schedule schemas
+const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const activeWindowSchema = z.object({
+  day: z.number().int().min(0).max(6),
+  start: z.string().regex(TIME_OF_DAY_REGEX, 'Times must be HH:MM'),
+  end: z.string().regex(TIME_OF_DAY_REGEX, 'Times must be HH:MM')
+}).refine((window) => window.start < window.end, {
+  message: 'Active hours must end after they start'
+});
+
+export const postingScheduleSchema = z.object({
+  timezone: z.string().refine(isTimeZone, 'Unknown time zone').optional(),
+  activeHours: z.array(activeWindowSchema).max(21, 'At most 3 windows per day').nullable().optional(),
+  blackoutDates: z.array(z.string().regex(DATE_REGEX, 'Dates must be YYYY-MM-DD'))
+    .max(100, 'At most 100 blackout dates').optional(),
+  jitterMinutes: z.number().int().min(0, 'Jitter cannot be negative')
+    .max(60, 'Jitter must be at most 60 minutes').optional()
+});
+
+export const postingTimesSchema = z.object({
+  optimize: z.boolean({
+    required_error: "optimize is required",
+    invalid_type_error: "optimize must be a boolean"
+  })
+});
+
+// DM inbox schemas
+export const MAX_DM_LENGTH = 10000;
+
+export const dmSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  autoSendEnabled: z.boolean().optional(),
+  faq: z.string().trim().max(5000, 'FAQ must be 5000 characters or less').nullable().optional()
+});
+
+export const updateDmReplySchema = z.object({
+  action: z.enum(['approve', 'reject', 'edit'], {
+    required_error: "Action is required",
+    invalid_type_error: "Action must be one of: approve, reject, edit"
+  }),
+  replyText: z.string().trim().min(1, 'Reply text is required')
+    .max(MAX_DM_LENGTH, `Reply text must be ${MAX_DM_LENGTH} characters or less`).optional()
+}).refine(data => data.action !== 'edit' || data.replyText !== undefined, {
+  message: "Reply text is required for editing"
+});
+
+export const dmInboxActionSchema = z.object({
+  action: z.enum(['sync'])
+});
+
 // Auth schemas
 export const twitterAuthSchema = z.object({
   cookies: z.object({
@@ -235,7 +414,7 @@ export const timelineQuerySchema = z.object({
 });
 
 export const statusFilterSchema = z.object({
-  status: z.enum(['pending', 'posting', 'posted', 'failed', 'rejected']).optional()
+  status: z.enum(['pending', 'approved', 'posting', 'posted', 'failed', 'rejected']).optional()
 });
 
 // Path parameter schemas
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { headers } from 'next/headers';
 import Stripe from 'stripe';
 import prisma from '@/app/db/utils/dbClient';
+import { notificationService } from '@/app/api/notification-service';
 
 // Disable Next.js body parsing to get the raw body for webhook verification
 export const runtime = 'nodejs';
@@ -271,8 +272,44 @@ async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
       console.log(`✅ Successfully updated subscription for customer ${customerId}`);
     }
 
+    await notifySubscriptionChange(existingProfile.userId, status, cancelAtPeriodEnd, currentPeriodEnd);
+
   } catch (error) {
     console.error('Error in handleSubscriptionUpdated:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+// Raise a dashboard notification when a subscription needs the user's attention
+async function notifySubscriptionChange(
+  userId: string,
+  status: Stripe.Subscription.Status,
+  cancelAtPeriodEnd: boolean,
+  currentPeriodEnd: Date
+) {
+  if (status === 'past_due' || status === 'unpaid') {
+    await notificationService.create({
+      userId,
+      type: 'billing',
+      title: 'Payment failed',
+      message: 'We could not process your latest subscription payment. Please update your payment method to keep your agents running.',
+      dedupeWindowMinutes: 24 * 60
+    });
+  } else if (status === 'canceled' || status === 'incomplete_expired') {
+    await notificationService.create({
+      userId,
+      type: 'billing',
+      title: 'Subscription ended',
+      message: 'Your subscription is no longer active. Choose a plan on the pricing page to continue using your agents.',
+      dedupeWindowMinutes: 24 * 60
+    });
+  } else if (cancelAtPeriodEnd) {
+    await notificationService.create({
+      userId,
+      type: 'billing',
+      title: 'Subscription set to cancel',
+      message: `Your subscription will end on ${currentPeriodEnd.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}.`,
+      dedupeWindowMinutes: 24 * 60
+    });
+  }
+}
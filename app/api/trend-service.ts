@@ -0,0 +1,88 @@
+/**
+ * Trend Service
+ *
+ * Fetches what is trending on X and picks the trends an agent can credibly tweet about,
+ * so auto-tweets can ride them when the agent has trend riding turned on
+ */
+
+import prisma from '../db/utils/dbClient';
+import { autoEngageService } from './auto-engage-service';
+import llmService from './llm-service';
+
+// A trend the agent tweeted (or has a tweet scheduled) about within this window isn't picked again
+const TREND_REUSE_WINDOW_HOURS = 24;
+
+/**
+ * Trend Service
+ */
+export const trendService = {
+  /**
+   * Get trending topics relevant to an agent's goal and focus topics
+   *
+   * @param agentId - ID of the agent
+   * @param userId - ID of the agent's owner
+   * @param count - Maximum number of trends to return
+   * @returns Promise with the chosen trends, most relevant first (empty when none fit)
+   */
+  async getRelevantTrends(
+    agentId: string,
+    userId: string,
+    count: number
+  ): Promise<{
+    success: boolean;
+    trends?: string[];
+    error?: string;
+  }> {
+    try {
+      const agent = await prisma.agent.findUnique({
+        where: { agentId, userId }
+      });
+
+      if (!agent) {
+        return { success: false, error: 'Agent not found' };
+      }
+
+      const loginResult = await autoEngageService.loginScraper(agentId, userId);
+
+      if (!loginResult.success || !loginResult.scraper) {
+        return { success: false, error: loginResult.error || 'Failed to login to X' };
+      }
+
+      const trends = await loginResult.scraper.getTrends();
+
+      // Don't tweet about the same trend twice in a row
+      const recentTweets = await prisma.tweet.findMany({
+        where: {
+          agentId,
+          context: { in: trends },
+          postTime: { gte: new Date(Date.now() - TREND_REUSE_WINDOW_HOURS * 60 * 60 * 1000) }
+        },
+        select: { context: true }
+      });
+
+      const usedTrends = new Set(recentTweets.map(tweet => tweet.context));
+      const freshTrends = trends.filter(trend => !usedTrends.has(trend));
+
+      if (freshTrends.length === 0) {
+        console.log(`[Trends] No new trends for agent ${agentId} (${trends.length} fetched)`);
+        return { success: true, trends: [] };
+      }
+
+      const selection = await llmService.selectRelevantTrends(agent, freshTrends, count);
+
+      if (!selection.success) {
+        return { success: false, error: selection.error || 'Failed to select trends' };
+      }
+
+      console.log(`[Trends] Agent ${agentId}: ${selection.trends?.length || 0} of ${freshTrends.length} trends relevant`);
+
+      return { success: true, trends: selection.trends || [] };
+    } catch (error) {
+      console.error(`[Trends] Error getting trends for agent ${agentId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+};
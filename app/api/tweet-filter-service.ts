@@ -56,7 +56,7 @@ export const tweetFilterService = {
    * @param maxTweets - Maximum number of tweets to return
    * @param agent - Agent configuration for personalized filtering
    * @param config - Filtering configuration
-   * @returns Filtered and scored tweets
+   * @returns Filtered and scored tweets, plus the scores of every assessed tweet
    */
   async filterTweetsForQuality(
     tweets: TimelineTweet[],
@@ -71,6 +71,7 @@ export const tweetFilterService = {
     success: boolean;
     filteredTweets?: TimelineTweet[];
     scores?: TweetQualityScore[];
+    allScores?: TweetQualityScore[];
     error?: string;
   }> {
     try {
@@ -80,7 +81,8 @@ export const tweetFilterService = {
         return {
           success: true,
           filteredTweets: [],
-          scores: []
+          scores: [],
+          allScores: []
         };
       }
 
@@ -130,7 +132,8 @@ export const tweetFilterService = {
       return {
         success: true,
         filteredTweets,
-        scores: topScores
+        scores: topScores,
+        allScores
       };
 
     } catch (error) {
@@ -162,8 +165,10 @@ export const tweetFilterService = {
       // Create user prompt with tweet data
       const userPrompt = this.createBatchAssessmentPrompt(tweets);
       
-      // Get LLM assessment
-      const result = await llmService.generateText(systemPrompt, userPrompt);
+      // Get LLM assessment from the agent's provider/model. Temperature and max tokens
+      // stay at the service defaults since the batch response must be complete JSON.
+      const { provider, model } = llmService.getAgentSettings(agent);
+      const result = await llmService.generateText(systemPrompt, userPrompt, { provider, model });
       
       if (!result.success || !result.content) {
         throw new Error(`LLM assessment failed: ${result.error}`);
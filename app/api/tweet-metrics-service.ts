@@ -0,0 +1,349 @@
+/**
+ * Tweet Metrics Service
+ *
+ * Keeps likes, retweets and replies on posted tweets and replies up to date, recording each tweet
+ * refresh as a snapshot so analytics can show how engagement grows after posting and which
+ * replies perform best
+ */
+
+import prisma, { schedulerQueries } from '../db/utils/dbClient';
+import { Scraper } from '../scraper';
+
+// Tweets and replies refreshed per run, keeping a run inside the cron time limit;
+// the rest are picked up by the next run, most overdue first
+const MAX_TWEETS_PER_SYNC = 20;
+const MAX_REPLIES_PER_SYNC = 20;
+
+const FETCH_DELAY_MS = 500;
+
+// Points on the growth curve, in hours after posting (up to the week metrics are synced for)
+export const GROWTH_CURVE_HOURS = [1, 2, 3, 6, 12, 24, 48, 72, 120, 168];
+
+// Reply performance buckets by the reply target's follower count (lower bounds)
+const ACCOUNT_SIZE_BUCKETS = [
+  { label: '<1K', min: 0 },
+  { label: '1K-10K', min: 1000 },
+  { label: '10K-100K', min: 10000 },
+  { label: '100K+', min: 100000 }
+];
+
+export interface ReplyPerformanceBucket {
+  bucket: string;
+  replies: number;
+  avgLikes: number;
+  avgReplies: number;
+  avgViews: number | null; // Only over replies X reported views for
+}
+
+export interface ReplyPerformance {
+  tracked: number; // Posted replies with metrics in the period
+  byScore: ReplyPerformanceBucket[];
+  byAccountSize: ReplyPerformanceBucket[];
+  byHour: ReplyPerformanceBucket[]; // Hour of day posted, UTC
+}
+
+export interface GrowthCurvePoint {
+  hours: number;
+  likes: number;
+  retweets: number;
+  replies: number;
+  tweets: number; // Tweets old enough to be averaged at this point
+}
+
+/**
+ * Tweet Metrics Service
+ */
+export const tweetMetricsService = {
+  /**
+   * Refresh the metrics of posted tweets that are due and snapshot them
+   *
+   * @returns Counts of tweets refreshed, missing on X (deleted) and failed
+   */
+  async syncDueTweets(): Promise<{
+    success: boolean;
+    results?: {
+      synced: number;
+      missing: number;
+      failed: number;
+    };
+    error?: string;
+  }> {
+    try {
+      const dueTweets = await schedulerQueries.findTweetsDueForMetricSync(MAX_TWEETS_PER_SYNC);
+
+      const results = { synced: 0, missing: 0, failed: 0 };
+
+      if (dueTweets.length === 0) {
+        return { success: true, results };
+      }
+
+      // Public metrics don't need the agent's session, so one guest scraper covers every agent
+      const scraper = new Scraper();
+
+      for (const dueTweet of dueTweets) {
+        try {
+          const tweet = await scraper.getTweet(dueTweet.twitterTweetId!);
+
+          if (!tweet) {
+            // Deleted or hidden; stamp it anyway so it isn't retried every run
+            await prisma.tweet.update({
+              where: { tweetId: dueTweet.tweetId },
+              data: { metricsSyncedAt: new Date() }
+            });
+            results.missing++;
+            continue;
+          }
+
+          const metrics = {
+            likes: tweet.likes ?? 0,
+            retweets: tweet.retweets ?? 0,
+            replies: tweet.replies ?? 0
+          };
+
+          await prisma.$transaction([
+            prisma.tweet.update({
+              where: { tweetId: dueTweet.tweetId },
+              data: { ...metrics, metricsSyncedAt: new Date() }
+            }),
+            prisma.tweetMetricSnapshot.create({
+              data: {
+                tweetId: dueTweet.tweetId,
+                ...metrics,
+                views: tweet.views ?? null
+              }
+            })
+          ]);
+          results.synced++;
+
+        } catch (error) {
+          results.failed++;
+          console.error(`[Tweet Metrics] Error syncing tweet ${dueTweet.twitterTweetId}:`, error);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, FETCH_DELAY_MS));
+      }
+
+      console.log(`[Tweet Metrics] Synced ${results.synced} tweet(s), ${results.missing} missing, ${results.failed} failed`);
+
+      return { success: true, results };
+
+    } catch (error) {
+      console.error('[Tweet Metrics] Error syncing tweet metrics:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
+  /**
+   * Refresh the metrics of posted replies that are due, looking up each reply target's follower
+   * count the first time so performance can be compared by account size
+   *
+   * @returns Counts of replies refreshed, missing on X (deleted) and failed
+   */
+  async syncDueReplies(): Promise<{
+    success: boolean;
+    results?: {
+      synced: number;
+      missing: number;
+      failed: number;
+    };
+    error?: string;
+  }> {
+    try {
+      const dueReplies = await schedulerQueries.findRepliesDueForMetricSync(MAX_REPLIES_PER_SYNC);
+
+      const results = { synced: 0, missing: 0, failed: 0 };
+
+      if (dueReplies.length === 0) {
+        return { success: true, results };
+      }
+
+      const scraper = new Scraper();
+      const followersByUser = new Map<string, number | null>();
+
+      for (const dueReply of dueReplies) {
+        try {
+          const tweet = await scraper.getTweet(dueReply.twitterReplyId!);
+
+          if (!tweet) {
+            await prisma.reply.update({
+              where: { replyId: dueReply.replyId },
+              data: { metricsSyncedAt: new Date() }
+            });
+            results.missing++;
+            continue;
+          }
+
+          let followers = dueReply.originalTweetUserFollowers;
+          if (followers === null) {
+            const username = dueReply.originalTweetUser.toLowerCase();
+            if (!followersByUser.has(username)) {
+              const profile = await scraper.getProfile(dueReply.originalTweetUser).catch(() => null);
+              followersByUser.set(username, profile?.followersCount ?? null);
+            }
+            followers = followersByUser.get(username) ?? null;
+          }
+
+          await prisma.reply.update({
+            where: { replyId: dueReply.replyId },
+            data: {
+              likes: tweet.likes ?? 0,
+              retweets: tweet.retweets ?? 0,
+              replies: tweet.replies ?? 0,
+              views: tweet.views ?? null,
+              originalTweetUserFollowers: followers,
+              metricsSyncedAt: new Date()
+            }
+          });
+          results.synced++;
+
+        } catch (error) {
+          results.failed++;
+          console.error(`[Tweet Metrics] Error syncing reply ${dueReply.twitterReplyId}:`, error);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, FETCH_DELAY_MS));
+      }
+
+      console.log(`[Tweet Metrics] Synced ${results.synced} reply(s), ${results.missing} missing, ${results.failed} failed`);
+
+      return { success: true, results };
+
+    } catch (error) {
+      console.error('[Tweet Metrics] Error syncing reply metrics:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  },
+
+  /**
+   * Compare how an agent's posted replies performed by quality score, target account size and hour posted
+   *
+   * @param agentId Agent ID
+   * @param since Only replies posted after this date
+   * @returns Average likes, replies and views per bucket; buckets without replies are left out
+   */
+  async getReplyPerformance(agentId: string, since: Date): Promise<ReplyPerformance> {
+    const replies = await prisma.reply.findMany({
+      where: {
+        agentId,
+        status: 'posted',
+        postedTime: { gte: since },
+        metricsSyncedAt: { not: null }
+      },
+      select: {
+        score: true,
+        originalTweetUserFollowers: true,
+        postedTime: true,
+        likes: true,
+        replies: true,
+        views: true
+      }
+    });
+
+    type TrackedReply = typeof replies[number];
+
+    const summarize = (groups: Map<string, TrackedReply[]>, order: string[]): ReplyPerformanceBucket[] =>
+      order
+        .filter(bucket => groups.has(bucket))
+        .map(bucket => {
+          const group = groups.get(bucket)!;
+          const withViews = group.filter(reply => reply.views !== null);
+          const average = (total: number, count: number) => Math.round((total / count) * 10) / 10;
+
+          return {
+            bucket,
+            replies: group.length,
+            avgLikes: average(group.reduce((sum, reply) => sum + reply.likes, 0), group.length),
+            avgReplies: average(group.reduce((sum, reply) => sum + reply.replies, 0), group.length),
+            avgViews: withViews.length > 0
+              ? average(withViews.reduce((sum, reply) => sum + reply.views!, 0), withViews.length)
+              : null
+          };
+        });
+
+    const groupBy = (key: (reply: TrackedReply) => string | null) => {
+      const groups = new Map<string, TrackedReply[]>();
+      for (const reply of replies) {
+        const bucket = key(reply);
+        if (bucket === null) continue;
+        groups.set(bucket, [...(groups.get(bucket) || []), reply]);
+      }
+      return groups;
+    };
+
+    // Replies posted without review before scoring was stored have a score of 0
+    const byScore = groupBy(reply => (reply.score > 0 ? String(reply.score) : null));
+    const byAccountSize = groupBy(reply => {
+      const followers = reply.originalTweetUserFollowers;
+      if (followers === null) return null;
+      return ACCOUNT_SIZE_BUCKETS.filter(bucket => followers >= bucket.min).pop()!.label;
+    });
+    const byHour = groupBy(reply => (reply.postedTime ? String(reply.postedTime.getUTCHours()) : null));
+
+    return {
+      tracked: replies.length,
+      byScore: summarize(byScore, Array.from({ length: 10 }, (_, i) => String(i + 1))),
+      byAccountSize: summarize(byAccountSize, ACCOUNT_SIZE_BUCKETS.map(bucket => bucket.label)),
+      byHour: summarize(byHour, Array.from({ length: 24 }, (_, i) => String(i)))
+    };
+  },
+
+  /**
+   * Average engagement of an agent's tweets at each point after posting
+   *
+   * @param agentId Agent ID
+   * @param since Only tweets posted after this date
+   * @returns One point per GROWTH_CURVE_HOURS entry that at least one tweet has reached
+   */
+  async getGrowthCurve(agentId: string, since: Date): Promise<GrowthCurvePoint[]> {
+    const tweets = await prisma.tweet.findMany({
+      where: {
+        agentId,
+        status: 'posted',
+        postTime: { gte: since }
+      },
+      select: {
+        postTime: true,
+        metricSnapshots: {
+          select: { likes: true, retweets: true, replies: true, capturedAt: true },
+          orderBy: { capturedAt: 'asc' }
+        }
+      }
+    });
+
+    const now = Date.now();
+
+    return GROWTH_CURVE_HOURS.map(hours => {
+      const point: GrowthCurvePoint = { hours, likes: 0, retweets: 0, replies: 0, tweets: 0 };
+
+      for (const tweet of tweets) {
+        if (!tweet.postTime) continue;
+
+        const checkpoint = tweet.postTime.getTime() + hours * 60 * 60 * 1000;
+        if (checkpoint > now) continue;
+
+        // Latest snapshot taken by this point in the tweet's life
+        const snapshot = tweet.metricSnapshots.filter(s => s.capturedAt.getTime() <= checkpoint).pop();
+        if (!snapshot) continue;
+
+        point.likes += snapshot.likes;
+        point.retweets += snapshot.retweets;
+        point.replies += snapshot.replies;
+        point.tweets++;
+      }
+
+      if (point.tweets > 0) {
+        point.likes = Math.round((point.likes / point.tweets) * 10) / 10;
+        point.retweets = Math.round((point.retweets / point.tweets) * 10) / 10;
+        point.replies = Math.round((point.replies / point.tweets) * 10) / 10;
+      }
+
+      return point;
+    }).filter(point => point.tweets > 0);
+  }
+};
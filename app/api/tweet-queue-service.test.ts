@@ -0,0 +1,230 @@
+import prisma from '../db/utils/dbClient';
+import { tweetQueueService, getBackoffMinutes, MAX_POST_ATTEMPTS } from './tweet-queue-service';
+
+jest.mock('../db/utils/dbClient', () => ({
+  __esModule: true,
+  default: {
+    $queryRaw: jest.fn(),
+    tweet: { findMany: jest.fn(), updateMany: jest.fn() },
+    thread: { findMany: jest.fn(), updateMany: jest.fn() }
+  }
+}));
+
+const db = prisma as unknown as {
+  $queryRaw: jest.Mock;
+  tweet: { findMany: jest.Mock; updateMany: jest.Mock };
+  thread: { findMany: jest.Mock; updateMany: jest.Mock };
+};
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  jest.useFakeTimers({ now: NOW });
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('getBackoffMinutes', () => {
+  test('doubles after each failed attempt', () => {
+    expect([1, 2, 3, 4, 5].map(getBackoffMinutes)).toEqual([1, 2, 4, 8, 16]);
+  });
+
+  test('is capped at an hour', () => {
+    expect(getBackoffMinutes(7)).toBe(60);
+    expect(getBackoffMinutes(30)).toBe(60);
+  });
+
+  test('treats no recorded attempts like the first', () => {
+    expect(getBackoffMinutes(0)).toBe(1);
+  });
+});
+
+describe('claimNext', () => {
+  test('returns the claimed tweet', async () => {
+    const tweet = { tweetId: 't1', agentId: 'a1', userId: 'u1', text: 'hi', quotedTweetId: null, attempts: 1 };
+    db.$queryRaw.mockResolvedValue([tweet]);
+
+    await expect(tweetQueueService.claimNext()).resolves.toEqual(tweet);
+  });
+
+  test('returns null when nothing is due', async () => {
+    db.$queryRaw.mockResolvedValue([]);
+
+    await expect(tweetQueueService.claimNext()).resolves.toBeNull();
+  });
+});
+
+describe('fail', () => {
+  test('requeues a retryable failure with backoff', async () => {
+    db.tweet.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await tweetQueueService.fail('t1', 3, 'Rate limited', true);
+
+    expect(result).toEqual({ deadLettered: false });
+    expect(db.tweet.updateMany).toHaveBeenCalledWith({
+      where: { tweetId: 't1', status: 'posting' },
+      data: {
+        status: 'scheduled',
+        nextAttemptAt: new Date(NOW.getTime() + 4 * 60 * 1000),
+        leaseExpiresAt: null,
+        lastError: 'Rate limited'
+      }
+    });
+  });
+
+  test('dead-letters a failure that is not retryable', async () => {
+    db.tweet.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await tweetQueueService.fail('t1', 1, 'Duplicate content', false);
+
+    expect(result).toEqual({ deadLettered: true });
+    expect(db.tweet.updateMany).toHaveBeenCalledWith({
+      where: { tweetId: 't1', status: 'posting' },
+      data: { status: 'failed', nextAttemptAt: null, leaseExpiresAt: null, lastError: 'Duplicate content' }
+    });
+  });
+
+  test('dead-letters a retryable failure on the last attempt', async () => {
+    db.tweet.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await tweetQueueService.fail('t1', MAX_POST_ATTEMPTS, 'Rate limited', true);
+
+    expect(result).toEqual({ deadLettered: true });
+    expect(db.tweet.updateMany.mock.calls[0][0].data.status).toBe('failed');
+  });
+
+  test('does not report a dead letter another instance already recorded', async () => {
+    db.tweet.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(tweetQueueService.fail('t1', 1, 'Duplicate content', false)).resolves.toEqual({ deadLettered: false });
+  });
+});
+
+describe('holdLease', () => {
+  test('renews the lease until released', async () => {
+    db.tweet.updateMany.mockResolvedValue({ count: 1 });
+
+    const release = tweetQueueService.holdLease('t1');
+    await jest.advanceTimersByTimeAsync(2 * 60 * 1000);
+
+    expect(db.tweet.updateMany).toHaveBeenCalledTimes(2);
+    expect(db.tweet.updateMany).toHaveBeenLastCalledWith({
+      where: { tweetId: 't1', status: 'posting' },
+      data: { leaseExpiresAt: new Date(NOW.getTime() + 2 * 60 * 1000 + 5 * 60 * 1000) }
+    });
+
+    release();
+    await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+    expect(db.tweet.updateMany).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('recoverExpiredLeases', () => {
+  const stuck = (tweetId: string, attempts: number) => ({
+    tweetId,
+    agentId: 'a1',
+    text: `tweet ${tweetId}`,
+    attempts,
+    agent: { userId: 'u1' }
+  });
+
+  test('requeues interrupted tweets as a failed attempt and returns those out of attempts', async () => {
+    db.tweet.findMany.mockResolvedValue([stuck('t1', 2), stuck('t2', MAX_POST_ATTEMPTS)]);
+    db.tweet.updateMany.mockResolvedValue({ count: 1 });
+
+    const deadLettered = await tweetQueueService.recoverExpiredLeases();
+
+    expect(deadLettered).toEqual([
+      { tweetId: 't2', agentId: 'a1', userId: 'u1', text: 'tweet t2', error: 'Posting was interrupted' }
+    ]);
+    expect(db.tweet.updateMany.mock.calls.map(([args]) => [args.where.tweetId, args.data.status])).toEqual([
+      ['t1', 'scheduled'],
+      ['t2', 'failed']
+    ]);
+  });
+
+  test('only looks at standalone tweets whose lease has run out', async () => {
+    db.tweet.findMany.mockResolvedValue([]);
+
+    await tweetQueueService.recoverExpiredLeases();
+
+    expect(db.tweet.findMany.mock.calls[0][0].where).toEqual({
+      status: 'posting',
+      threadId: null,
+      OR: [
+        { leaseExpiresAt: { lt: NOW } },
+        { leaseExpiresAt: null, postTime: { lt: new Date(NOW.getTime() - 5 * 60 * 1000) } }
+      ]
+    });
+  });
+});
+
+describe('claimThread', () => {
+  test('claims a scheduled thread under a lease', async () => {
+    db.thread.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(tweetQueueService.claimThread('th1')).resolves.toBe(true);
+    expect(db.thread.updateMany).toHaveBeenCalledWith({
+      where: { threadId: 'th1', status: 'scheduled' },
+      data: { status: 'posting', leaseExpiresAt: new Date(NOW.getTime() + 30 * 60 * 1000) }
+    });
+  });
+
+  test('fails when another run claimed it first', async () => {
+    db.thread.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(tweetQueueService.claimThread('th1')).resolves.toBe(false);
+  });
+});
+
+describe('recoverExpiredThreadLeases', () => {
+  test('closes out interrupted threads as partial or failed without requeueing them', async () => {
+    db.thread.findMany.mockResolvedValue([
+      {
+        threadId: 'th1',
+        agentId: 'a1',
+        agent: { userId: 'u1' },
+        tweets: [{ status: 'posted' }, { status: 'posting' }, { status: 'scheduled' }]
+      },
+      {
+        threadId: 'th2',
+        agentId: 'a2',
+        agent: { userId: 'u2' },
+        tweets: [{ status: 'posting' }, { status: 'scheduled' }]
+      }
+    ]);
+    db.thread.updateMany.mockResolvedValue({ count: 1 });
+    db.tweet.updateMany.mockResolvedValue({ count: 2 });
+
+    const interrupted = await tweetQueueService.recoverExpiredThreadLeases();
+
+    expect(interrupted).toEqual([
+      { threadId: 'th1', agentId: 'a1', userId: 'u1', status: 'partial', totalParts: 3, postedCount: 1, error: 'Posting was interrupted' },
+      { threadId: 'th2', agentId: 'a2', userId: 'u2', status: 'failed', totalParts: 2, postedCount: 0, error: 'Posting was interrupted' }
+    ]);
+    expect(db.thread.updateMany).toHaveBeenCalledWith({
+      where: { threadId: 'th1', status: 'posting' },
+      data: { status: 'partial', error: 'Posting was interrupted', leaseExpiresAt: null }
+    });
+    expect(db.tweet.updateMany).toHaveBeenCalledWith({
+      where: { threadId: 'th1', status: { in: ['scheduled', 'posting'] } },
+      data: { status: 'failed' }
+    });
+  });
+
+  test('leaves a thread another run already closed out alone', async () => {
+    db.thread.findMany.mockResolvedValue([
+      { threadId: 'th1', agentId: 'a1', agent: { userId: 'u1' }, tweets: [{ status: 'posted' }] }
+    ]);
+    db.thread.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(tweetQueueService.recoverExpiredThreadLeases()).resolves.toEqual([]);
+    expect(db.tweet.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Tweet Queue Service
+ *
+ * Treats scheduled tweets as a Postgres-backed job queue: posting claims a tweet under a lease
+ * (with SKIP LOCKED, so any number of instances can work the queue without posting a tweet twice),
+ * transient failures are retried with exponential backoff, tweets stuck in `posting` after a crash
+ * are recovered once their lease expires, and tweets that run out of attempts are left `failed`
+ * with their last error so they can be retried from the dashboard. Threads are claimed under a
+ * lease too, and a thread whose run died mid-post is closed out as `partial` or `failed`
+ */
+
+import { ThreadStatus } from '@prisma/client';
+import prisma from '../db/utils/dbClient';
+
+// Attempts before a tweet is given up on (dead-lettered)
+export const MAX_POST_ATTEMPTS = 5;
+
+// How long a claimed tweet may stay in `posting` before it is considered interrupted
+const LEASE_MINUTES = 5;
+
+// A post in progress renews its lease this often, so a slow media or video upload never outlives it
+const LEASE_RENEW_INTERVAL_MS = 60 * 1000;
+
+// Threads post their parts one after another, so their lease covers every part
+const THREAD_LEASE_MINUTES = 30;
+
+// Backoff doubles after each failed attempt: 1, 2, 4, 8... minutes, capped
+const BASE_BACKOFF_MINUTES = 1;
+const MAX_BACKOFF_MINUTES = 60;
+
+export interface ClaimedTweet {
+  tweetId: string;
+  agentId: string;
+  userId: string;
+  text: string;
+  quotedTweetId: string | null;
+  attempts: number; // Including the attempt just claimed
+}
+
+export interface DeadLetteredTweet {
+  tweetId: string;
+  agentId: string;
+  userId: string;
+  text: string;
+  error: string;
+}
+
+export interface InterruptedThread {
+  threadId: string;
+  agentId: string;
+  userId: string;
+  status: ThreadStatus;
+  totalParts: number;
+  postedCount: number;
+  error: string;
+}
+
+/**
+ * Minutes to wait before the next attempt after the given number of failed attempts
+ */
+export function getBackoffMinutes(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MINUTES * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MINUTES);
+}
+
+/**
+ * When a thread claimed now should be considered interrupted
+ */
+export function getThreadLeaseExpiry(): Date {
+  return new Date(Date.now() + THREAD_LEASE_MINUTES * 60 * 1000);
+}
+
+/**
+ * Tweet Queue Service
+ */
+export const tweetQueueService = {
+  /**
+   * Claim the next due scheduled tweet of a running agent, counting the attempt and taking a lease on it
+   *
+   * Rows another instance is claiming are skipped rather than waited on, so overlapping runs
+   * each get a different tweet
+   *
+   * @returns The claimed tweet, or null when none are due
+   */
+  async claimNext(): Promise<ClaimedTweet | null> {
+    const claimed = await prisma.$queryRaw<ClaimedTweet[]>`
+      UPDATE tweets
+      SET status = 'posting',
+          attempts = tweets.attempts + 1,
+          lease_expires_at = now() + ${LEASE_MINUTES}::int * interval '1 minute'
+      FROM agents
+      WHERE agents.agent_id = tweets.agent_id
+        AND tweets.tweet_id = (
+          SELECT t.tweet_id FROM tweets t
+          JOIN agents a ON a.agent_id = t.agent_id
+          WHERE t.status = 'scheduled'
+            AND t.post_time <= now()
+            AND t.thread_id IS NULL
+            AND (t.next_attempt_at IS NULL OR t.next_attempt_at <= now())
+            AND a.status = 'running'
+          ORDER BY t.post_time ASC
+          LIMIT 1
+          FOR UPDATE OF t SKIP LOCKED
+        )
+      RETURNING tweets.tweet_id AS "tweetId",
+                tweets.agent_id AS "agentId",
+                agents.user_id AS "userId",
+                tweets.text,
+                tweets.quoted_tweet_id AS "quotedTweetId",
+                tweets.attempts
+    `;
+
+    return claimed[0] ?? null;
+  },
+
+  /**
+   * Keep the lease on a claimed tweet alive while it is being posted
+   *
+   * Media and video uploads can take longer than a lease; renewing it means only a run that
+   * has actually died lets the lease expire and the tweet be recovered
+   *
+   * @param tweetId - ID of the claimed tweet
+   * @returns Stops renewing; call it once the attempt is recorded
+   */
+  holdLease(tweetId: string): () => void {
+    const timer = setInterval(async () => {
+      try {
+        await prisma.tweet.updateMany({
+          where: { tweetId, status: 'posting' },
+          data: { leaseExpiresAt: new Date(Date.now() + LEASE_MINUTES * 60 * 1000) }
+        });
+      } catch (error) {
+        console.error(`[Tweet Queue] Failed to renew the lease on tweet ${tweetId}:`, error);
+      }
+    }, LEASE_RENEW_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  },
+
+  /**
+   * Record a failed attempt on a claimed tweet, scheduling a retry when the error is transient
+   * and attempts remain, or dead-lettering it otherwise
+   *
+   * @param tweetId - ID of the claimed tweet
+   * @param attempts - Attempts made so far, including the one that failed
+   * @param error - Why the attempt failed
+   * @param retryable - Whether a later attempt may succeed
+   * @returns Whether this call dead-lettered the tweet (left it `failed`); false when another
+   *          instance already recorded the failure
+   */
+  async fail(tweetId: string, attempts: number, error: string, retryable: boolean): Promise<{ deadLettered: boolean }> {
+    if (retryable && attempts < MAX_POST_ATTEMPTS) {
+      const backoffMinutes = getBackoffMinutes(attempts);
+
+      await prisma.tweet.updateMany({
+        where: { tweetId, status: 'posting' },
+        data: {
+          status: 'scheduled',
+          nextAttemptAt: new Date(Date.now() + backoffMinutes * 60 * 1000),
+          leaseExpiresAt: null,
+          lastError: error
+        }
+      });
+
+      console.log(`[Tweet Queue] Tweet ${tweetId} failed attempt ${attempts}/${MAX_POST_ATTEMPTS}, retrying in ${backoffMinutes} minute(s): ${error}`);
+      return { deadLettered: false };
+    }
+
+    const deadLettered = await prisma.tweet.updateMany({
+      where: { tweetId, status: 'posting' },
+      data: {
+        status: 'failed',
+        nextAttemptAt: null,
+        leaseExpiresAt: null,
+        lastError: error
+      }
+    });
+
+    console.log(`[Tweet Queue] Tweet ${tweetId} failed after ${attempts} attempt(s): ${error}`);
+    return { deadLettered: deadLettered.count > 0 };
+  },
+
+  /**
+   * Return tweets left in `posting` by an interrupted run to the queue
+   *
+   * A run that died mid-post may have posted the tweet before it could record it, so this is
+   * counted as a failed attempt rather than a free retry
+   *
+   * @returns Tweets that had no attempts left and were dead-lettered
+   */
+  async recoverExpiredLeases(): Promise<DeadLetteredTweet[]> {
+    const now = new Date();
+    const leaseCutoff = new Date(now.getTime() - LEASE_MINUTES * 60 * 1000);
+
+    const stuckTweets = await prisma.tweet.findMany({
+      where: {
+        status: 'posting',
+        threadId: null, // Thread parts are tracked through their thread
+        OR: [
+          { leaseExpiresAt: { lt: now } },
+          { leaseExpiresAt: null, postTime: { lt: leaseCutoff } } // Claimed before leases existed
+        ]
+      },
+      select: {
+        tweetId: true,
+        agentId: true,
+        text: true,
+        attempts: true,
+        agent: { select: { userId: true } }
+      }
+    });
+
+    const deadLettered: DeadLetteredTweet[] = [];
+    const error = 'Posting was interrupted';
+
+    for (const tweet of stuckTweets) {
+      const result = await this.fail(tweet.tweetId, Math.max(tweet.attempts, 1), error, true);
+
+      if (result.deadLettered) {
+        deadLettered.push({
+          tweetId: tweet.tweetId,
+          agentId: tweet.agentId,
+          userId: tweet.agent.userId,
+          text: tweet.text,
+          error
+        });
+      }
+    }
+
+    if (stuckTweets.length > 0) {
+      console.log(`[Tweet Queue] Recovered ${stuckTweets.length} tweet(s) stuck in posting`);
+    }
+
+    return deadLettered;
+  },
+
+  /**
+   * Claim a due scheduled thread, taking a lease on it
+   *
+   * @param threadId - ID of the thread
+   * @returns Whether this call claimed it; false when another run already has
+   */
+  async claimThread(threadId: string): Promise<boolean> {
+    const claimed = await prisma.thread.updateMany({
+      where: { threadId, status: 'scheduled' },
+      data: { status: 'posting', leaseExpiresAt: getThreadLeaseExpiry() }
+    });
+
+    return claimed.count > 0;
+  },
+
+  /**
+   * Close out threads left in `posting` by an interrupted run
+   *
+   * The part being posted when the run died may or may not be on X, so the thread is not
+   * requeued: its unposted parts are failed and it is left `partial` (or `failed` when no part
+   * was recorded as posted)
+   *
+   * @returns Threads this call closed out
+   */
+  async recoverExpiredThreadLeases(): Promise<InterruptedThread[]> {
+    const now = new Date();
+    const leaseCutoff = new Date(now.getTime() - THREAD_LEASE_MINUTES * 60 * 1000);
+
+    const stuckThreads = await prisma.thread.findMany({
+      where: {
+        status: 'posting',
+        OR: [
+          { leaseExpiresAt: { lt: now } },
+          { leaseExpiresAt: null, postTime: { lt: leaseCutoff } } // Claimed before leases existed
+        ]
+      },
+      select: {
+        threadId: true,
+        agentId: true,
+        agent: { select: { userId: true } },
+        tweets: { select: { status: true } }
+      }
+    });
+
+    const interrupted: InterruptedThread[] = [];
+    const error = 'Posting was interrupted';
+
+    for (const thread of stuckThreads) {
+      const postedCount = thread.tweets.filter(part => part.status === 'posted').length;
+      const status = postedCount > 0 ? ThreadStatus.partial : ThreadStatus.failed;
+
+      const closed = await prisma.thread.updateMany({
+        where: { threadId: thread.threadId, status: 'posting' },
+        data: { status, error, leaseExpiresAt: null }
+      });
+
+      if (closed.count === 0) {
+        continue;
+      }
+
+      await prisma.tweet.updateMany({
+        where: { threadId: thread.threadId, status: { in: ['scheduled', 'posting'] } },
+        data: { status: 'failed' }
+      });
+
+      interrupted.push({
+        threadId: thread.threadId,
+        agentId: thread.agentId,
+        userId: thread.agent.userId,
+        status,
+        totalParts: thread.tweets.length,
+        postedCount,
+        error
+      });
+    }
+
+    if (interrupted.length > 0) {
+      console.log(`[Tweet Queue] Closed out ${interrupted.length} thread(s) stuck in posting`);
+    }
+
+    return interrupted;
+  },
+
+  /**
+   * List an agent's dead-lettered tweets, most recent first
+   *
+   * @param agentId - ID of the agent
+   * @param limit - Maximum number of tweets to return
+   */
+  async listDeadLettered(agentId: string, limit: number = 50) {
+    return prisma.tweet.findMany({
+      where: { agentId, status: 'failed', threadId: null },
+      select: {
+        tweetId: true,
+        text: true,
+        postTime: true,
+        attempts: true,
+        lastError: true
+      },
+      orderBy: { postTime: 'desc' },
+      take: limit
+    });
+  },
+
+  /**
+   * Put a dead-lettered tweet back in the queue to be posted on the next run, with a fresh set of attempts
+   *
+   * @param agentId - ID of the agent the tweet belongs to
+   * @param tweetId - ID of the failed tweet
+   * @returns true when requeued; false when the tweet isn't a failed tweet of this agent
+   */
+  async retryNow(agentId: string, tweetId: string): Promise<boolean> {
+    const requeued = await prisma.tweet.updateMany({
+      where: { tweetId, agentId, status: 'failed', threadId: null },
+      data: {
+        status: 'scheduled',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        leaseExpiresAt: null,
+        lastError: null
+      }
+    });
+
+    return requeued.count > 0;
+  }
+};
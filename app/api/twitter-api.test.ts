@@ -0,0 +1,47 @@
+import { classifyXError } from './twitter-api';
+
+jest.mock('agent-twitter-client', () => ({ Scraper: jest.fn() }), { virtual: true });
+
+const xError = (code: number, message: string) => new Error(JSON.stringify({ errors: [{ code, message }] }));
+
+describe('classifyXError', () => {
+  test('rejections X explains are not retried', () => {
+    expect(classifyXError(xError(187, 'Status is a duplicate.'))).toEqual({ error: 'Status is a duplicate.', retryable: false });
+    expect(classifyXError(xError(186, 'Tweet needs to be a bit shorter.'))).toEqual({ error: 'Tweet needs to be a bit shorter.', retryable: false });
+    expect(classifyXError(xError(64, 'Your account is suspended.')).retryable).toBe(false);
+  });
+
+  test('rate limits and X server errors are retried', () => {
+    expect(classifyXError(xError(88, 'Rate limit exceeded')).retryable).toBe(true);
+    expect(classifyXError(xError(131, 'Internal error')).retryable).toBe(true);
+    expect(classifyXError(new Error('Rate limit exceeded')).retryable).toBe(true);
+    expect(classifyXError(new Error('<!DOCTYPE html><html>Something went wrong</html>')).retryable).toBe(true);
+    expect(classifyXError(new Error('')).retryable).toBe(true);
+  });
+
+  test('the errors array of a response is read the same way', () => {
+    expect(classifyXError([{ code: 187, message: 'Status is a duplicate.' }])).toEqual({ error: 'Status is a duplicate.', retryable: false });
+  });
+
+  test('network errors are retried', () => {
+    const fetchFailed = new TypeError('fetch failed');
+    const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+    const timedOut = Object.assign(new Error('connect timeout'), { cause: { code: 'UND_ERR_CONNECT_TIMEOUT' } });
+
+    expect(classifyXError(fetchFailed).retryable).toBe(true);
+    expect(classifyXError(reset).retryable).toBe(true);
+    expect(classifyXError(timedOut).retryable).toBe(true);
+  });
+
+  test('errors that carry a response are classified by status', () => {
+    const withStatus = (status: number) => Object.assign(new Error(`Response status: ${status}`), { response: { status } });
+
+    expect(classifyXError(withStatus(429)).retryable).toBe(true);
+    expect(classifyXError(withStatus(503)).retryable).toBe(true);
+    expect(classifyXError(withStatus(403)).retryable).toBe(false);
+  });
+
+  test('anything else is not retried', () => {
+    expect(classifyXError(new Error('Video processing failed'))).toEqual({ error: 'Video processing failed', retryable: false });
+  });
+});
@@ -33,6 +33,89 @@ export interface TwitterApiConfig {
   debug?: boolean;
 }
 
+/**
+ * Result of posting a tweet or quote tweet
+ */
+export interface PostTweetResult {
+  success: boolean;
+  tweetId?: string;
+  url?: string;
+  timestamp?: Date;
+  error?: string;
+  retryable?: boolean; // Rate limited, an X server error or a network error, so a later attempt may succeed
+}
+
+// X error codes that clear up on their own: rate limit exceeded, over capacity, internal error
+const RETRYABLE_X_ERROR_CODES = [88, 130, 131];
+
+// Connection failures reported by Node's fetch (undici) and sockets
+const NETWORK_ERROR_CODES = [
+  'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE',
+  'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_SOCKET'
+];
+
+/**
+ * Work out why a request to X failed and whether trying again later may succeed
+ *
+ * The scraper throws a failed request's response body as the error message, without its status,
+ * so the kind of failure is read from the body: X's JSON errors carry an error code, while its
+ * 5xx pages are HTML (or empty). Only rate limits, server errors and network errors are retryable;
+ * rejections such as duplicate or too-long tweets and suspended accounts are not
+ *
+ * @param error - Error thrown by the request, or X's `errors` array from a response
+ */
+export function classifyXError(error: unknown): { error: string; retryable: boolean } {
+  const status = (error as { response?: { status?: unknown } })?.response?.status;
+  if (typeof status === 'number') {
+    return {
+      error: error instanceof Error ? error.message : `X responded with status ${status}`,
+      retryable: status === 429 || status >= 500
+    };
+  }
+
+  const cause = (error as { cause?: { code?: unknown } })?.cause;
+  const isNetworkError = error instanceof Error && (
+    error.name === 'AbortError' ||
+    error.name === 'TimeoutError' ||
+    (error instanceof TypeError && error.message === 'fetch failed') ||
+    NETWORK_ERROR_CODES.includes(String((error as { code?: unknown }).code ?? cause?.code))
+  );
+  if (isNetworkError) {
+    return { error: `Could not reach X: ${error.message}`, retryable: true };
+  }
+
+  let xErrors: { code?: number; message?: string }[] | undefined;
+  const body = Array.isArray(error) ? '' : (error instanceof Error ? error.message : String(error)).trim();
+
+  if (Array.isArray(error)) {
+    xErrors = error;
+  } else {
+    try {
+      const parsed = JSON.parse(body);
+      xErrors = Array.isArray(parsed?.errors) ? parsed.errors : undefined;
+    } catch {
+      // Not JSON; handled below
+    }
+  }
+
+  if (xErrors && xErrors.length > 0) {
+    return {
+      error: xErrors.map(xError => xError.message).filter(Boolean).join('; ') || 'X rejected the tweet',
+      retryable: xErrors.some(xError => RETRYABLE_X_ERROR_CODES.includes(Number(xError.code)))
+    };
+  }
+
+  if (/rate limit/i.test(body)) {
+    return { error: 'Rate limited by X', retryable: true };
+  }
+
+  if (body === '' || /^<(!doctype|html)/i.test(body)) {
+    return { error: 'X is having problems; try again later', retryable: true };
+  }
+
+  return { error: body, retryable: false };
+}
+
 /**
  * A class providing a clean API interface for X operations
  */
@@ -235,45 +318,124 @@ export class TwitterApi {
    * 
    * @param text - Text content of the tweet
    * @param replyToTweetId - Optional tweet ID to reply to
+   * @param mediaData - Optional images, GIF or video to attach
    * @returns Object with success status and tweet details if successful
    */
-  public async postTweet(text: string, replyToTweetId?: string): Promise<{
-    success: boolean;
-    tweetId?: string;
-    url?: string;
-    timestamp?: Date;
-  }> {
+  public async postTweet(
+    text: string,
+    replyToTweetId?: string,
+    mediaData?: { data: Buffer; mediaType: string }[]
+  ): Promise<PostTweetResult> {
     try {
       // Ensure we're logged in first
       const isLoggedIn = await this.scraper.isLoggedIn();
       if (!isLoggedIn) {
-        throw new Error('Not logged in. Call login() first.');
+        return { success: false, error: 'Not logged in to X', retryable: false };
       }
       
       // Send the tweet
-      const response = await this.scraper.sendTweet(text, replyToTweetId);
+      const response = await this.scraper.sendTweet(text, replyToTweetId, mediaData);
 
       // Check if the request was successful
       if (!response) {
         console.error('No response from X API');
-        return { success: false };
+        return { success: false, error: 'No response from X', retryable: true };
       }
 
       // The response should be truthy if successful
       const success = !!response;
       
       if (success) {
-        console.log('Tweet posted successfully');    
-        return { success: true };
+        console.log('Tweet posted successfully');
+
+        // Extract the new tweet ID so callers can link to it (or reply to it, for threads)
+        let tweetId: string | undefined;
+        try {
+          const responseData = await response.json();
+          tweetId = responseData?.data?.create_tweet?.tweet_results?.result?.rest_id;
+
+          // X answers some rejections (e.g. duplicate tweets) with errors instead of a tweet
+          if (!tweetId && responseData?.errors?.length) {
+            console.error('X rejected the tweet:', responseData.errors);
+            return { success: false, ...classifyXError(responseData.errors) };
+          }
+        } catch (parseError) {
+          console.warn('Could not parse tweet ID from response');
+        }
+
+        return {
+          success: true,
+          tweetId,
+          url: tweetId ? `https://x.com/i/status/${tweetId}` : undefined,
+          timestamp: new Date()
+        };
       }
 
-      return { success: false };
+      return { success: false, error: 'No response from X', retryable: true };
     } catch (error) {
       console.error('Error posting tweet:', error);
-      return { success: false };
+      return { success: false, ...classifyXError(error) };
     }
   }
   
+  /**
+   * Post a quote tweet
+   * 
+   * @param text - Commentary shown above the quoted tweet
+   * @param quotedTweetId - ID of the tweet to quote
+   * @param mediaData - Optional images, GIF or video to attach
+   * @returns Object with success status and tweet details if successful
+   */
+  public async postQuoteTweet(
+    text: string,
+    quotedTweetId: string,
+    mediaData?: { data: Buffer; mediaType: string }[]
+  ): Promise<PostTweetResult> {
+    try {
+      // Ensure we're logged in first
+      const isLoggedIn = await this.scraper.isLoggedIn();
+      if (!isLoggedIn) {
+        return { success: false, error: 'Not logged in to X', retryable: false };
+      }
+
+      const response = await this.scraper.sendQuoteTweet(
+        text,
+        quotedTweetId,
+        mediaData?.length ? { mediaData } : undefined
+      );
+
+      if (!response) {
+        console.error('No response from X API');
+        return { success: false, error: 'No response from X', retryable: true };
+      }
+
+      console.log(`Quote tweet of ${quotedTweetId} posted successfully`);
+
+      let tweetId: string | undefined;
+      try {
+        const responseData = await response.json();
+        tweetId = responseData?.data?.create_tweet?.tweet_results?.result?.rest_id;
+
+        if (!tweetId && responseData?.errors?.length) {
+          console.error('X rejected the quote tweet:', responseData.errors);
+          return { success: false, ...classifyXError(responseData.errors) };
+        }
+      } catch (parseError) {
+        console.warn('Could not parse quote tweet ID from response');
+      }
+
+      return {
+        success: true,
+        tweetId,
+        url: tweetId ? `https://x.com/i/status/${tweetId}` : undefined,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      console.error('Error posting quote tweet:', error);
+      return { success: false, ...classifyXError(error) };
+    }
+  }
+
   /**
    * Reply to a specific tweet
    * 
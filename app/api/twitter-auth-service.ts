@@ -4,8 +4,32 @@
  * Handles X authentication flows and cookie management
  */
 
-import { TwitterApi as CustomTwitterApiWrapper } from './twitter-api';
+import { TwitterApi as CustomTwitterApiWrapper, classifyXError } from './twitter-api';
 import prisma from '../db/utils/dbClient';
+import { decryptCookies, encryptCookieData } from '../db/utils/cookieEncryption';
+import { notificationService } from './notification-service';
+import { SearchMode } from '../search';
+import { Tweet } from '../tweets';
+
+// Search, list and profile tweets come back parsed, so map them onto the timeline tweet shape
+function toTimelineTweet(tweet: Tweet) {
+  return {
+    id: tweet.id,
+    text: tweet.text || '',
+    createdAt: tweet.timeParsed ? tweet.timeParsed.toISOString() : '',
+    user: {
+      id: tweet.userId,
+      name: tweet.name,
+      screenName: tweet.username
+    },
+    replyCount: tweet.replies || 0,
+    retweetCount: tweet.retweets || 0,
+    favoriteCount: tweet.likes || 0,
+    isRetweet: !!tweet.isRetweet,
+    isReply: !!tweet.isReply,
+    mediaEntities: [...tweet.photos, ...tweet.videos]
+  };
+}
 
 /**
  * X Authentication Service
@@ -17,12 +41,14 @@ export const twitterAuthService = {
    * 
    * @param userId User ID to check authentication for
    * @param username X username (usually from agent.name)
-   * @returns Object with authentication status and the X API instance
+   * @returns Object with authentication status and the X API instance; `retryable` is set when
+   *          X couldn't be reached, rather than the session being rejected
    */
   async verifyAuthentication(userId: string, username: string): Promise<{
     authenticated: boolean;
     api?: CustomTwitterApiWrapper;
     error?: string;
+    retryable?: boolean;
   }> {
     try {
       // Initialize the X API
@@ -81,6 +107,13 @@ export const twitterAuthService = {
             // Continue anyway since login was successful
           }
         } else {
+          await notificationService.create({
+            userId,
+            type: 'auth_expired',
+            title: 'X account disconnected',
+            message: `Your X session for ${username} has expired. Please reconnect your X account in agent settings.`
+          });
+
           return {
             authenticated: false,
             error: 'Failed to authenticate with X using username/password'
@@ -98,7 +131,8 @@ export const twitterAuthService = {
       console.error('Error verifying X authentication:', error);
       return {
         authenticated: false,
-        error: error instanceof Error ? error.message : String(error)
+        error: error instanceof Error ? error.message : String(error),
+        retryable: classifyXError(error).retryable
       };
     }
   },
@@ -130,7 +164,7 @@ export const twitterAuthService = {
       
       // Get non-expired cookies for this user
       const currentDate = new Date();
-      const cookies = await prisma.cookie.findMany({
+      const cookies = decryptCookies(await prisma.cookie.findMany({
         where: {
           userId,
           OR: [
@@ -138,7 +172,7 @@ export const twitterAuthService = {
             { expires: { gt: currentDate } }  // Not expired yet
           ]
         }
-      });
+      }));
       
       if (cookies.length === 0) {
         return null;
@@ -165,7 +199,7 @@ export const twitterAuthService = {
   }> {
     try {
 
-      const validCookies = await prisma.cookie.findMany({
+      const validCookies = decryptCookies(await prisma.cookie.findMany({
         where: {
           userId,
           OR: [
@@ -173,7 +207,7 @@ export const twitterAuthService = {
             { expires: { gt: new Date() } }  // Not expired yet
           ]
         }
-      });
+      }));
 
       if (!validCookies || validCookies.length === 0) {
         return {
@@ -282,7 +316,8 @@ export const twitterAuthService = {
           }
         }
         
-        const cookieData = {
+        // Values are encrypted at rest
+        const cookieData = encryptCookieData({
           userId,
           key: cookie.key,
           value: cookie.value,
@@ -292,7 +327,7 @@ export const twitterAuthService = {
           secure: cookie.secure,
           httpOnly: cookie.httpOnly,
           sameSite: cookie.sameSite || 'Lax'
-        };
+        });
         
         // Use upsert to update if exists or create if not
         const savedCookie = await prisma.cookie.upsert({
@@ -342,7 +377,7 @@ export const twitterAuthService = {
     console.log(`[Analytics Service Scraper] Fetching analytics for Tweet ID: ${twitterTweetId}, User: ${userId}`);
     try {
       console.log(`[Analytics Service Scraper] Checking database for valid cookies for userId: ${userId}`);
-      const validCookies = await prisma.cookie.findMany({
+      const validCookies = decryptCookies(await prisma.cookie.findMany({
         where: {
           userId,
           OR: [
@@ -350,7 +385,7 @@ export const twitterAuthService = {
             { expires: { gt: new Date() } }
           ]
         }
-      });
+      }));
 
       if (!validCookies || validCookies.length === 0) {
         console.log(`[Analytics Service Scraper] No valid cookies found for userId: ${userId}`);
@@ -446,7 +481,7 @@ export const twitterAuthService = {
     console.log(`[Timeline Service] Fetching home timeline for User: ${userId}, Count: ${count}`);
     try {
       console.log(`[Timeline Service] Checking database for valid cookies for userId: ${userId}`);
-      const validCookies = await prisma.cookie.findMany({
+      const validCookies = decryptCookies(await prisma.cookie.findMany({
         where: {
           userId,
           OR: [
@@ -454,7 +489,7 @@ export const twitterAuthService = {
             { expires: { gt: new Date() } }
           ]
         }
-      });
+      }));
 
       if (!validCookies || validCookies.length === 0) {
         console.log(`[Timeline Service] No valid cookies found for userId: ${userId}`);
@@ -482,6 +517,12 @@ export const twitterAuthService = {
 
       if (!isLoggedIn) {
         console.warn(`[Timeline Service] Scraper login check failed for userId: ${userId} using database cookies.`);
+        await notificationService.create({
+          userId,
+          type: 'auth_expired',
+          title: 'X account disconnected',
+          message: 'Your X session has expired, so auto-engage cannot read your timeline. Please reconnect your X account in agent settings.'
+        });
         return { success: false, error: 'X session is invalid or expired.' };
       }
       console.log(`[Timeline Service] Scraper login successful for userId: ${userId}.`);
@@ -569,7 +610,7 @@ export const twitterAuthService = {
     console.log(`[Following Timeline Service] Fetching following timeline for User: ${userId}, Count: ${count}`);
     try {
       console.log(`[Following Timeline Service] Checking database for valid cookies for userId: ${userId}`);
-      const validCookies = await prisma.cookie.findMany({
+      const validCookies = decryptCookies(await prisma.cookie.findMany({
         where: {
           userId,
           OR: [
@@ -577,7 +618,7 @@ export const twitterAuthService = {
             { expires: { gt: new Date() } }
           ]
         }
-      });
+      }));
 
       if (!validCookies || validCookies.length === 0) {
         console.log(`[Following Timeline Service] No valid cookies found for userId: ${userId}`);
@@ -665,6 +706,271 @@ export const twitterAuthService = {
     }
   },
 
+  /**
+   * Runs X searches for a user using cookie-based authentication.
+   * Logs in once and runs each query in turn; a failing query doesn't stop the others.
+   * 
+   * @param userId User ID for cookie lookup
+   * @param searches Queries in X search syntax with the result ordering to use
+   * @param countPerQuery Number of tweets to fetch per query (default: 20)
+   * @returns Tweets per query, in the same shape as the home timeline
+   */
+  async searchTweets(
+    userId: string,
+    searches: Array<{ query: string; mode: 'latest' | 'top' }>,
+    countPerQuery: number = 20
+  ): Promise<{
+    success: boolean;
+    results?: Array<{ query: string; tweets: any[]; error?: string }>;
+    error?: string;
+  }> {
+    console.log(`[Search Service] Running ${searches.length} search(es) for User: ${userId}`);
+    try {
+      const validCookies = decryptCookies(await prisma.cookie.findMany({
+        where: {
+          userId,
+          OR: [
+            { expires: null },
+            { expires: { gt: new Date() } }
+          ]
+        }
+      }));
+
+      if (!validCookies || validCookies.length === 0) {
+        console.log(`[Search Service] No valid cookies found for userId: ${userId}`);
+        return { success: false, error: 'No valid X session found for user.' };
+      }
+
+      // Convert cookies
+      const cookieStrings = validCookies.map((cookie: any) =>
+        `${cookie.key}=${cookie.value}; Domain=${cookie.domain || '.twitter.com'}; Path=${
+          cookie.path || '/'
+        }; ${cookie.secure ? 'Secure' : ''}; ${
+          cookie.httpOnly ? 'HttpOnly' : ''
+        }; SameSite=${cookie.sameSite || 'Lax'}`
+      );
+
+      // Initialize the scraper wrapper
+      const api = new CustomTwitterApiWrapper({ debug: false });
+      const scraper = api.getScraper();
+
+      await scraper.setCookies(cookieStrings);
+      const isLoggedIn = await scraper.isLoggedIn();
+
+      if (!isLoggedIn) {
+        console.warn(`[Search Service] Scraper login check failed for userId: ${userId} using database cookies.`);
+        await notificationService.create({
+          userId,
+          type: 'auth_expired',
+          title: 'X account disconnected',
+          message: 'Your X session has expired, so auto-engage cannot run your saved searches. Please reconnect your X account in agent settings.'
+        });
+        return { success: false, error: 'X session is invalid or expired.' };
+      }
+
+      const results: Array<{ query: string; tweets: any[]; error?: string }> = [];
+
+      for (const search of searches) {
+        try {
+          const searchMode = search.mode === 'top' ? SearchMode.Top : SearchMode.Latest;
+          const response = await scraper.fetchSearchTweets(search.query, countPerQuery, searchMode);
+
+          const tweets = response.tweets
+            .filter((tweet: Tweet) => tweet.id && tweet.username)
+            .map(toTimelineTweet);
+
+          console.log(`[Search Service] "${search.query}" (${search.mode}) returned ${tweets.length} tweets for userId: ${userId}`);
+          results.push({ query: search.query, tweets });
+        } catch (error: any) {
+          console.error(`[Search Service] Search "${search.query}" failed for userId: ${userId}:`, error);
+          results.push({ query: search.query, tweets: [], error: error.message || String(error) });
+        }
+      }
+
+      return {
+        success: true,
+        results
+      };
+
+    } catch (error: any) {
+      console.error(`[Search Service - CATCH BLOCK] User ID: ${userId}, Error:`, error);
+      return {
+        success: false,
+        error: error.message || 'Failed to run X searches'
+      };
+    }
+  },
+
+  /**
+   * Fetches recent tweets from X Lists and from individual accounts with the user's session
+   * 
+   * @param userId User ID for cookie lookup
+   * @param feeds Lists (by list ID) and accounts (by handle) to read
+   * @param countPerFeed Maximum tweets to fetch from each feed
+   * @returns Tweets per feed; a feed that fails carries its own error
+   */
+  async fetchFeedTweets(
+    userId: string,
+    feeds: Array<{ type: 'list' | 'account'; id: string }>,
+    countPerFeed: number = 20
+  ): Promise<{
+    success: boolean;
+    results?: Array<{ type: 'list' | 'account'; id: string; tweets: any[]; error?: string }>;
+    error?: string;
+  }> {
+    console.log(`[Feed Service] Reading ${feeds.length} feed(s) for User: ${userId}`);
+    try {
+      const validCookies = decryptCookies(await prisma.cookie.findMany({
+        where: {
+          userId,
+          OR: [
+            { expires: null },
+            { expires: { gt: new Date() } }
+          ]
+        }
+      }));
+
+      if (!validCookies || validCookies.length === 0) {
+        console.log(`[Feed Service] No valid cookies found for userId: ${userId}`);
+        return { success: false, error: 'No valid X session found for user.' };
+      }
+
+      // Convert cookies
+      const cookieStrings = validCookies.map((cookie: any) =>
+        `${cookie.key}=${cookie.value}; Domain=${cookie.domain || '.twitter.com'}; Path=${
+          cookie.path || '/'
+        }; ${cookie.secure ? 'Secure' : ''}; ${
+          cookie.httpOnly ? 'HttpOnly' : ''
+        }; SameSite=${cookie.sameSite || 'Lax'}`
+      );
+
+      // Initialize the scraper wrapper
+      const api = new CustomTwitterApiWrapper({ debug: false });
+      const scraper = api.getScraper();
+
+      await scraper.setCookies(cookieStrings);
+      const isLoggedIn = await scraper.isLoggedIn();
+
+      if (!isLoggedIn) {
+        console.warn(`[Feed Service] Scraper login check failed for userId: ${userId} using database cookies.`);
+        await notificationService.create({
+          userId,
+          type: 'auth_expired',
+          title: 'X account disconnected',
+          message: 'Your X session has expired, so auto-engage cannot read your lists and target accounts. Please reconnect your X account in agent settings.'
+        });
+        return { success: false, error: 'X session is invalid or expired.' };
+      }
+
+      const results: Array<{ type: 'list' | 'account'; id: string; tweets: any[]; error?: string }> = [];
+
+      for (const feed of feeds) {
+        try {
+          let feedTweets: Tweet[] = [];
+
+          if (feed.type === 'list') {
+            const response = await scraper.fetchListTweets(feed.id, countPerFeed);
+            feedTweets = response.tweets;
+          } else {
+            for await (const tweet of scraper.getTweets(feed.id, countPerFeed)) {
+              feedTweets.push(tweet);
+            }
+          }
+
+          const tweets = feedTweets
+            .filter((tweet: Tweet) => tweet.id && tweet.username)
+            .map(toTimelineTweet);
+
+          console.log(`[Feed Service] ${feed.type} ${feed.id} returned ${tweets.length} tweets for userId: ${userId}`);
+          results.push({ ...feed, tweets });
+        } catch (error: any) {
+          console.error(`[Feed Service] Reading ${feed.type} ${feed.id} failed for userId: ${userId}:`, error);
+          results.push({ ...feed, tweets: [], error: error.message || String(error) });
+        }
+      }
+
+      return {
+        success: true,
+        results
+      };
+
+    } catch (error: any) {
+      console.error(`[Feed Service - CATCH BLOCK] User ID: ${userId}, Error:`, error);
+      return {
+        success: false,
+        error: error.message || 'Failed to read X lists and accounts'
+      };
+    }
+  },
+
+  /**
+   * Fetches a single tweet with the user's session, e.g. to quote it
+   * 
+   * @param userId User ID for cookie lookup
+   * @param twitterTweetId ID of the tweet on X
+   * @returns The tweet in timeline shape, or an error
+   */
+  async getTweet(userId: string, twitterTweetId: string): Promise<{
+    success: boolean;
+    tweet?: ReturnType<typeof toTimelineTweet>;
+    error?: string;
+  }> {
+    try {
+      const validCookies = decryptCookies(await prisma.cookie.findMany({
+        where: {
+          userId,
+          OR: [
+            { expires: null },
+            { expires: { gt: new Date() } }
+          ]
+        }
+      }));
+
+      if (!validCookies || validCookies.length === 0) {
+        console.log(`[Tweet Lookup] No valid cookies found for userId: ${userId}`);
+        return { success: false, error: 'No valid X session found for user.' };
+      }
+
+      // Convert cookies
+      const cookieStrings = validCookies.map((cookie: any) =>
+        `${cookie.key}=${cookie.value}; Domain=${cookie.domain || '.twitter.com'}; Path=${
+          cookie.path || '/'
+        }; ${cookie.secure ? 'Secure' : ''}; ${
+          cookie.httpOnly ? 'HttpOnly' : ''
+        }; SameSite=${cookie.sameSite || 'Lax'}`
+      );
+
+      const api = new CustomTwitterApiWrapper({ debug: false });
+      const scraper = api.getScraper();
+
+      await scraper.setCookies(cookieStrings);
+      const isLoggedIn = await scraper.isLoggedIn();
+
+      if (!isLoggedIn) {
+        console.warn(`[Tweet Lookup] Scraper login check failed for userId: ${userId} using database cookies.`);
+        return { success: false, error: 'X session is invalid or expired.' };
+      }
+
+      const tweet = await scraper.getTweet(twitterTweetId);
+
+      if (!tweet || !tweet.id) {
+        return { success: false, error: `Tweet ${twitterTweetId} not found or inaccessible.` };
+      }
+
+      return {
+        success: true,
+        tweet: toTimelineTweet(tweet)
+      };
+
+    } catch (error: any) {
+      console.error(`[Tweet Lookup] Fetching tweet ${twitterTweetId} failed for userId: ${userId}:`, error);
+      return {
+        success: false,
+        error: error.message || 'Failed to fetch tweet'
+      };
+    }
+  },
+
   /**
    * Gets the current authenticated user's X profile
    * 
@@ -680,7 +986,7 @@ export const twitterAuthService = {
   }> {
     try {
       console.log(`[getCurrentUserProfile] Checking database for valid cookies for userId: ${userId}`);
-      const validCookies = await prisma.cookie.findMany({
+      const validCookies = decryptCookies(await prisma.cookie.findMany({
         where: {
           userId,
           OR: [
@@ -688,7 +994,7 @@ export const twitterAuthService = {
             { expires: { gt: new Date() } }
           ]
         }
-      });
+      }));
 
       if (!validCookies || validCookies.length === 0) {
         console.log(`[getCurrentUserProfile] No valid cookies found in database for userId: ${userId}`);
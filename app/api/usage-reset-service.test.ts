@@ -0,0 +1,33 @@
+import { getLatestResetBoundary } from './usage-reset-service';
+
+jest.mock('../db/utils/dbClient', () => ({ __esModule: true, default: {} }));
+
+const utc = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+test('reset day earlier in the month falls in this month', () => {
+  expect(getLatestResetBoundary(5, new Date('2025-03-20T12:00:00Z'))).toEqual(utc('2025-03-05'));
+});
+
+test('reset day later in the month falls in the previous month', () => {
+  expect(getLatestResetBoundary(25, new Date('2025-03-20T12:00:00Z'))).toEqual(utc('2025-02-25'));
+});
+
+test('the reset day itself is a boundary from midnight UTC', () => {
+  expect(getLatestResetBoundary(20, utc('2025-03-20'))).toEqual(utc('2025-03-20'));
+  expect(getLatestResetBoundary(20, new Date('2025-03-19T23:59:59Z'))).toEqual(utc('2025-02-20'));
+});
+
+test('days past the end of a short month fall on its last day', () => {
+  expect(getLatestResetBoundary(31, new Date('2025-03-10T00:00:00Z'))).toEqual(utc('2025-02-28'));
+  expect(getLatestResetBoundary(31, new Date('2024-03-10T00:00:00Z'))).toEqual(utc('2024-02-29'));
+  expect(getLatestResetBoundary(31, new Date('2025-04-30T08:00:00Z'))).toEqual(utc('2025-04-30'));
+});
+
+test('early January reaches back to December of the previous year', () => {
+  expect(getLatestResetBoundary(15, new Date('2025-01-03T00:00:00Z'))).toEqual(utc('2024-12-15'));
+});
+
+test('out-of-range reset days are clamped', () => {
+  expect(getLatestResetBoundary(0, new Date('2025-03-20T00:00:00Z'))).toEqual(utc('2025-03-01'));
+  expect(getLatestResetBoundary(45, new Date('2025-03-20T00:00:00Z'))).toEqual(utc('2025-02-28'));
+});
@@ -0,0 +1,183 @@
+/**
+ * Usage Reset Service
+ *
+ * Zeroes each profile's monthly usage counters (tweets, replies, custom generations)
+ * on its usage reset day and keeps a history row for the period that just ended.
+ */
+
+import prisma from "../db/utils/dbClient";
+
+// A billing-driven reset (Stripe webhook / verify-session) moves lastUsageReset forward,
+// so anything reset within this window is never due yet. Consecutive reset days are
+// always at least 28 days apart.
+const MIN_DAYS_BETWEEN_RESETS = 27;
+
+// Profiles are loaded in pages so the job stays cheap as the user base grows
+const BATCH_SIZE = 200;
+
+export interface UsageResetResult {
+  checked: number;
+  reset: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Find the most recent reset boundary at or before `now` for a reset day.
+ * Days past the end of a short month fall on that month's last day (e.g. 31 → Feb 28).
+ *
+ * @param resetDay - Day of month usage resets on (1-31)
+ * @param now - Current time
+ * @returns Start of the reset day (UTC)
+ */
+export function getLatestResetBoundary(resetDay: number, now: Date): Date {
+  const boundaryFor = (year: number, month: number) => {
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, month, Math.min(Math.max(resetDay, 1), daysInMonth)));
+  };
+
+  const thisMonth = boundaryFor(now.getUTCFullYear(), now.getUTCMonth());
+  if (thisMonth <= now) {
+    return thisMonth;
+  }
+
+  return boundaryFor(now.getUTCFullYear(), now.getUTCMonth() - 1);
+}
+
+export const usageResetService = {
+  /**
+   * Reset usage for every profile whose reset day has passed since its last reset
+   *
+   * @param now - Current time (defaults to now)
+   * @returns Promise with counts of profiles checked, reset, skipped and failed
+   */
+  async processDueResets(now: Date = new Date()): Promise<UsageResetResult> {
+    const result: UsageResetResult = { checked: 0, reset: 0, skipped: 0, failed: 0 };
+    const recentResetCutoff = new Date(now.getTime() - MIN_DAYS_BETWEEN_RESETS * 24 * 60 * 60 * 1000);
+    let lastUserId: string | undefined;
+
+    while (true) {
+      const profiles = await prisma.profile.findMany({
+        // Reset profiles drop out of the filter, so batches page by user ID rather than from a
+        // cursor row that may no longer match (which would skip the rows after it)
+        where: {
+          ...(lastUserId && { userId: { gt: lastUserId } }),
+          OR: [
+            { lastUsageReset: null },
+            { lastUsageReset: { lt: recentResetCutoff } }
+          ]
+        },
+        select: {
+          userId: true,
+          profileCreatedAt: true,
+          lastUsageReset: true,
+          usageResetDay: true
+        },
+        orderBy: { userId: 'asc' },
+        take: BATCH_SIZE
+      });
+
+      if (profiles.length === 0) {
+        break;
+      }
+
+      for (const profile of profiles) {
+        result.checked++;
+
+        // Profiles without a billing reset day reset on the day they signed up
+        const periodStart = profile.lastUsageReset || profile.profileCreatedAt;
+        const resetDay = profile.usageResetDay || profile.profileCreatedAt.getUTCDate();
+        const boundary = getLatestResetBoundary(resetDay, now);
+
+        if (periodStart >= boundary) {
+          result.skipped++;
+          continue;
+        }
+
+        try {
+          const didReset = await this.resetProfileUsage(profile.userId, periodStart, boundary, now);
+          if (didReset) {
+            result.reset++;
+          } else {
+            result.skipped++;
+          }
+        } catch (error) {
+          result.failed++;
+          console.error(`[Usage Reset] Failed to reset usage for user ${profile.userId}:`, error);
+        }
+      }
+
+      lastUserId = profiles[profiles.length - 1].userId;
+    }
+
+    console.log(`[Usage Reset] Checked ${result.checked} profile(s): ${result.reset} reset, ${result.skipped} not due, ${result.failed} failed.`);
+
+    return result;
+  },
+
+  /**
+   * Close the current usage period for a profile and zero its counters.
+   * Safe to call twice for the same boundary: only the first call resets anything.
+   *
+   * @param userId - Profile to reset
+   * @param periodStart - When the period being closed began
+   * @param boundary - Reset boundary that ends the period
+   * @param now - Time the reset happens
+   * @returns Promise resolving to true if this call performed the reset
+   */
+  async resetProfileUsage(userId: string, periodStart: Date, boundary: Date, now: Date): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      // Claim the reset; a concurrent run (or a webhook reset) makes this match nothing.
+      // The row lock also holds off counter increments until the reset commits.
+      const claimed = await tx.profile.updateMany({
+        where: {
+          userId,
+          OR: [
+            { lastUsageReset: null },
+            { lastUsageReset: { lt: boundary } }
+          ]
+        },
+        data: { lastUsageReset: now }
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      const profile = await tx.profile.findUniqueOrThrow({
+        where: { userId },
+        select: {
+          planId: true,
+          tweetsUsed: true,
+          repliesUsed: true,
+          customGenerationsUsed: true
+        }
+      });
+
+      await tx.usagePeriod.create({
+        data: {
+          userId,
+          planId: profile.planId,
+          periodStart,
+          periodEnd: boundary,
+          tweetsUsed: profile.tweetsUsed,
+          repliesUsed: profile.repliesUsed,
+          customGenerationsUsed: profile.customGenerationsUsed
+        }
+      });
+
+      await tx.profile.update({
+        where: { userId },
+        data: {
+          tweetsUsed: 0,
+          repliesUsed: 0,
+          customGenerationsUsed: 0
+        }
+      });
+
+      console.log(`[Usage Reset] Reset usage for user ${userId} (tweets: ${profile.tweetsUsed}, replies: ${profile.repliesUsed}, generations: ${profile.customGenerationsUsed}).`);
+
+      return true;
+    });
+  }
+};
@@ -0,0 +1,227 @@
+/**
+ * Usage Service
+ *
+ * Records every tweet, reply and custom generation that counts against a plan in the
+ * usage_events ledger. The counters on Profile are kept in step with the ledger and can
+ * be reconciled against it, so usage can be broken down per agent and per day and
+ * audited when a user disputes their quota.
+ */
+
+import prisma from "../db/utils/dbClient";
+import { UsageKind } from "@prisma/client";
+
+export interface RecordUsageOptions {
+  userId: string;
+  agentId?: string | null;
+  kind: UsageKind;
+  tweetId?: string | null;
+  replyId?: string | null;
+}
+
+export type UsageCounts = Record<UsageKind, number>;
+
+export interface UsageBreakdown {
+  periodStart: Date;
+  totals: UsageCounts;
+  byAgent: Array<UsageCounts & { agentId: string | null; agentName: string }>;
+  byDay: Array<UsageCounts & { date: string }>;
+}
+
+export interface UsageReconciliation {
+  covered: boolean;
+  corrected: boolean;
+  counters: UsageCounts;
+  ledger: UsageCounts;
+}
+
+// Profile column that mirrors each kind of usage event
+const COUNTER_FIELDS: Record<UsageKind, 'tweetsUsed' | 'repliesUsed' | 'customGenerationsUsed'> = {
+  tweet: 'tweetsUsed',
+  reply: 'repliesUsed',
+  generation: 'customGenerationsUsed'
+};
+
+const emptyCounts = (): UsageCounts => ({ tweet: 0, reply: 0, generation: 0 });
+
+/**
+ * Start of the usage period the profile's counters currently cover
+ */
+async function getPeriodStart(userId: string): Promise<Date | null> {
+  const profile = await prisma.profile.findUnique({
+    where: { userId },
+    select: { lastUsageReset: true, profileCreatedAt: true }
+  });
+
+  return profile ? (profile.lastUsageReset || profile.profileCreatedAt) : null;
+}
+
+export const usageService = {
+  /**
+   * Record a unit of usage and bump the matching profile counter in the same transaction
+   *
+   * @param options - Who consumed the quota, what kind, and the tweet/reply it produced
+   * @returns True if the usage was recorded
+   */
+  async record(options: RecordUsageOptions): Promise<boolean> {
+    const { userId, agentId = null, kind, tweetId = null, replyId = null } = options;
+
+    try {
+      await prisma.$transaction([
+        prisma.usageEvent.create({
+          data: { userId, agentId, kind, tweetId, replyId }
+        }),
+        prisma.profile.update({
+          where: { userId },
+          data: { [COUNTER_FIELDS[kind]]: { increment: 1 } }
+        })
+      ]);
+
+      return true;
+    } catch (error) {
+      // The tweet/reply is already live at this point, so don't fail the caller
+      console.error(`[Usage] Failed to record ${kind} usage for user ${userId}:`, error);
+      return false;
+    }
+  },
+
+  /**
+   * Break down the current period's usage per agent and per day (UTC)
+   *
+   * @param userId - Profile to report on
+   * @returns Promise with totals, per-agent and per-day counts, or null if the profile is missing
+   */
+  async getBreakdown(userId: string): Promise<UsageBreakdown | null> {
+    const periodStart = await getPeriodStart(userId);
+    if (!periodStart) {
+      return null;
+    }
+
+    const [agentGroups, dailyRaw] = await Promise.all([
+      prisma.usageEvent.groupBy({
+        by: ['agentId', 'kind'],
+        where: { userId, createdAt: { gte: periodStart } },
+        _count: { kind: true }
+      }),
+      prisma.$queryRaw`
+        SELECT
+          DATE(created_at) as date,
+          kind::text as kind,
+          COUNT(*) as count
+        FROM usage_events
+        WHERE user_id = ${userId}::uuid
+          AND created_at >= ${periodStart}
+        GROUP BY DATE(created_at), kind
+        ORDER BY date ASC
+      `
+    ]);
+
+    const agentIds = Array.from(new Set(agentGroups.map(group => group.agentId).filter((id): id is string => !!id)));
+    const agents = await prisma.agent.findMany({
+      where: { agentId: { in: agentIds } },
+      select: { agentId: true, name: true }
+    });
+    const agentNames = new Map(agents.map(agent => [agent.agentId, agent.name]));
+
+    const totals = emptyCounts();
+    const byAgent = new Map<string | null, UsageCounts & { agentId: string | null; agentName: string }>();
+
+    for (const group of agentGroups) {
+      const entry = byAgent.get(group.agentId) || {
+        ...emptyCounts(),
+        agentId: group.agentId,
+        // Usage stays on the ledger after an agent is deleted
+        agentName: group.agentId ? (agentNames.get(group.agentId) || 'Unknown agent') : 'Deleted agent'
+      };
+      entry[group.kind] += group._count.kind;
+      totals[group.kind] += group._count.kind;
+      byAgent.set(group.agentId, entry);
+    }
+
+    // Convert BigInt values to numbers for JSON serialization
+    const byDay = new Map<string, UsageCounts & { date: string }>();
+    for (const row of dailyRaw as Array<{ date: Date; kind: UsageKind; count: bigint }>) {
+      const date = row.date.toISOString().slice(0, 10);
+      const entry = byDay.get(date) || { ...emptyCounts(), date };
+      entry[row.kind] += Number(row.count);
+      byDay.set(date, entry);
+    }
+
+    return {
+      periodStart,
+      totals,
+      byAgent: Array.from(byAgent.values()),
+      byDay: Array.from(byDay.values())
+    };
+  },
+
+  /**
+   * Compare the profile counters with the ledger for the current period and correct
+   * them when they have drifted. Periods that started before the ledger existed are
+   * only reported, since the ledger can't account for their earlier usage.
+   *
+   * @param userId - Profile to reconcile
+   * @returns Promise with both sets of counts, or null if the profile is missing
+   */
+  async reconcile(userId: string): Promise<UsageReconciliation | null> {
+    const firstEvent = await prisma.usageEvent.findFirst({
+      orderBy: { createdAt: 'asc' },
+      select: { createdAt: true }
+    });
+
+    return prisma.$transaction(async (tx) => {
+      // Lock the profile so usage recorded meanwhile can't be lost by the correction
+      await tx.$queryRaw`SELECT user_id FROM profiles WHERE user_id = ${userId}::uuid FOR UPDATE`;
+
+      const profile = await tx.profile.findUnique({
+        where: { userId },
+        select: {
+          lastUsageReset: true,
+          profileCreatedAt: true,
+          tweetsUsed: true,
+          repliesUsed: true,
+          customGenerationsUsed: true
+        }
+      });
+
+      if (!profile) {
+        return null;
+      }
+
+      const periodStart = profile.lastUsageReset || profile.profileCreatedAt;
+      const groups = await tx.usageEvent.groupBy({
+        by: ['kind'],
+        where: { userId, createdAt: { gte: periodStart } },
+        _count: { kind: true }
+      });
+
+      const ledger = emptyCounts();
+      groups.forEach(group => { ledger[group.kind] = group._count.kind; });
+
+      const counters: UsageCounts = {
+        tweet: profile.tweetsUsed,
+        reply: profile.repliesUsed,
+        generation: profile.customGenerationsUsed
+      };
+
+      const covered = !!firstEvent && firstEvent.createdAt <= periodStart;
+      const drifted = (Object.keys(ledger) as UsageKind[]).some(kind => ledger[kind] !== counters[kind]);
+
+      if (!covered || !drifted) {
+        return { covered, corrected: false, counters, ledger };
+      }
+
+      await tx.profile.update({
+        where: { userId },
+        data: {
+          tweetsUsed: ledger.tweet,
+          repliesUsed: ledger.reply,
+          customGenerationsUsed: ledger.generation
+        }
+      });
+
+      console.warn(`[Usage] Reconciled counters for user ${userId}: ${JSON.stringify(counters)} -> ${JSON.stringify(ledger)}`);
+
+      return { covered, corrected: true, counters: ledger, ledger };
+    });
+  }
+};
@@ -1,4 +1,6 @@
 import prisma from '@/app/db/utils/dbClient';
+import { encryptCookieData } from '@/app/db/utils/cookieEncryption';
+import { usageService } from '@/app/api/usage-service';
 
 /**
  * Ensures that a user profile exists for the given user ID
@@ -123,7 +125,7 @@ export async function saveCookiesToDatabase(
             key: cookieKey
           }
         },
-        update: {
+        update: encryptCookieData({
           value: cookieValue,
           domain: cookie.domain || '.twitter.com',
           path: cookie.path || '/',
@@ -131,8 +133,8 @@ export async function saveCookiesToDatabase(
           secure: !!cookie.secure,
           httpOnly: !!cookie.httpOnly,
           sameSite: cookie.sameSite || 'Lax'
-        },
-        create: {
+        }),
+        create: encryptCookieData({
           userId,
           key: cookieKey,
           value: cookieValue,
@@ -142,7 +144,7 @@ export async function saveCookiesToDatabase(
           secure: !!cookie.secure,
           httpOnly: !!cookie.httpOnly,
           sameSite: cookie.sameSite || 'Lax'
-        }
+        })
       });
       
       savedCount++;
@@ -161,9 +163,10 @@ export async function saveCookiesToDatabase(
  * Returns information about remaining generations and if the limit is reached
  * 
  * @param userId User ID to update generations count for
+ * @param agentId Agent the generation was made for (recorded in the usage ledger)
  * @returns Object with generation limit information
  */
-export async function incrementCustomGenerations(userId: string): Promise<{ 
+export async function incrementCustomGenerations(userId: string, agentId?: string): Promise<{ 
   success: boolean;
   limitReached: boolean;
   used: number;
@@ -210,14 +213,10 @@ export async function incrementCustomGenerations(userId: string): Promise<{
       };
     }
     
-    // Increment the usage count
-    const updatedProfile = await prisma.profile.update({
-      where: { userId },
-      data: { customGenerationsUsed: currentUsage + 1 },
-      include: { plan: true }
-    });
+    // Record the generation, which also increments the usage count
+    const recorded = await usageService.record({ userId, agentId, kind: 'generation' });
     
-    const newUsage = updatedProfile.customGenerationsUsed;
+    const newUsage = recorded ? currentUsage + 1 : currentUsage;
     const remaining = Math.max(0, maxAllowed - newUsage);
     
     console.log(`Incremented generations for user ${userId}: ${currentUsage} -> ${newUsage} (${remaining} remaining)`);
@@ -1,5 +1,6 @@
 import { TwitterApi } from '@/app/api/twitter-api';
 import prisma from '@/app/db/utils/dbClient';
+import { decryptCookies, encryptCookieData } from '@/app/db/utils/cookieEncryption';
 
 /**
  * Check for valid cookies and attempt login
@@ -112,7 +113,7 @@ export async function getValidCookiesFromDatabase(userId: string): Promise<any[]
   try {
     // Get non-expired cookies for this user
     const currentDate = new Date();
-    const cookies = await prisma.cookie.findMany({
+    const cookies = decryptCookies(await prisma.cookie.findMany({
       where: {
         userId,
         OR: [
@@ -120,7 +121,7 @@ export async function getValidCookiesFromDatabase(userId: string): Promise<any[]
           { expires: { gt: currentDate } }  // Not expired yet
         ]
       }
-    });
+    }));
     
     if (cookies.length === 0) {
       return null;
@@ -165,7 +166,7 @@ export async function saveCookiesToDatabase(userId: string, api: TwitterApi): Pr
           key: cookie.key
         }
       },
-      update: {
+      update: encryptCookieData({
         value: cookie.value,
         domain: cookie.domain,
         path: cookie.path,
@@ -173,8 +174,8 @@ export async function saveCookiesToDatabase(userId: string, api: TwitterApi): Pr
         secure: cookie.secure,
         httpOnly: cookie.httpOnly,
         sameSite: cookie.sameSite || 'Lax'
-      },
-      create: {
+      }),
+      create: encryptCookieData({
         userId,
         key: cookie.key,
         value: cookie.value,
@@ -184,7 +185,7 @@ export async function saveCookiesToDatabase(userId: string, api: TwitterApi): Pr
         secure: cookie.secure,
         httpOnly: cookie.httpOnly,
         sameSite: cookie.sameSite || 'Lax'
-      }
+      })
     });
   }
   
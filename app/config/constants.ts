@@ -17,10 +17,14 @@ export const API_ENDPOINTS = {
   AGENT_AUTO_TWEET: (id: string) => `/api/agents/${id}/auto-tweet`,
   AGENT_AUTO_TWEET_CONFIG: (id: string) => `/api/agents/${id}/auto-tweet-config`,
   AGENT_AUTO_TWEET_CONFIG_DELETE: (id: string) => `/api/agents/${id}/auto-tweet-config-delete`,
+
+  // Notification endpoints
+  NOTIFICATIONS: '/api/notifications',
 };
 
 // Default polling intervals (in milliseconds)
 export const POLLING_INTERVALS = {
   AGENT_STATUS: 30 * 1000, // 30 seconds
-  TWEETS: 60 * 1000 // 1 minute
+  TWEETS: 60 * 1000, // 1 minute
+  NOTIFICATIONS: 60 * 1000 // 1 minute
 }; 
\ No newline at end of file
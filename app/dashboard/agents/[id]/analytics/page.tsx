@@ -12,7 +12,7 @@ export default function AgentAnalyticsPage({ params }: { params: { id: string }
         text="Detailed performance metrics and insights"
       />
       <div className="space-y-8">
-        <AgentAnalyticsCard />
+        <AgentAnalyticsCard agentId={params.id} />
       </div>
     </DashboardShell>
   );
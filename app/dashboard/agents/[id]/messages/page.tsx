@@ -0,0 +1,17 @@
+import { DashboardHeader } from "@/components/dashboard/header";
+import { DashboardShell } from "@/components/dashboard/shell";
+import { DmInbox } from "@/components/dashboard/agents/messages/dm-inbox";
+
+export default function AgentMessagesPage({ params }: { params: { id: string } }) {
+  return (
+    <DashboardShell>
+      <DashboardHeader
+        heading="DM Inbox"
+        text="Review replies your agent drafted for its direct messages"
+      />
+      <div className="space-y-8">
+        <DmInbox agentId={params.id} />
+      </div>
+    </DashboardShell>
+  );
+}
@@ -0,0 +1,17 @@
+import { DashboardHeader } from "@/components/dashboard/header";
+import { DashboardShell } from "@/components/dashboard/shell";
+import { ReplyInbox } from "@/components/dashboard/agents/replies/reply-inbox";
+
+export default function AgentRepliesPage({ params }: { params: { id: string } }) {
+  return (
+    <DashboardShell>
+      <DashboardHeader
+        heading="Reply Inbox"
+        text="Review auto-engage replies before they are posted"
+      />
+      <div className="space-y-8">
+        <ReplyInbox agentId={params.id} />
+      </div>
+    </DashboardShell>
+  );
+}
@@ -56,7 +56,11 @@ async function getAgent(id: string) {
       specialHooks: agent.specialHooks || {
         hashtagsToTrack: [],
         accountsToMonitor: []
-      }
+      },
+      llmProvider: agent.llmProvider,
+      llmModel: agent.llmModel,
+      llmTemperature: agent.llmTemperature,
+      llmMaxTokens: agent.llmMaxTokens
     };
   } catch (error) {
     console.error("Error fetching agent:", error);
@@ -17,6 +17,7 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { API_ENDPOINTS } from "@/app/config/constants";
 import { DashboardModalState } from "../hooks/use-dashboard-state";
+import { getEngagementActionSettings } from "@/components/dashboard/modals/engagement-action-settings";
 import { TwitterCredentialPrompt } from "@/components/twitter-credential-prompt";
 import { Agent } from "./types";
 import { EmptyState } from "./components/empty-state";
@@ -73,13 +74,21 @@ export default function AgentsPage() {
       xAccountToTag: '',
       stage: 'idle',
       isScheduleEnabled: false,
-      scheduleTime: ''
+      scheduleTime: '',
+      isThread: false,
+      threadParts: ['', ''],
+      isQuote: false,
+      quotedTweet: '',
+      threadLength: 3,
+      media: [],
+      isUploadingMedia: false
     },
     autoTweet: {
       isOpen: false,
       agentId: null,
       frequency: 4,
-      count: 1
+      count: 1,
+      trendsEnabled: false
     },
     autoEngage: {
       isOpen: false,
@@ -87,7 +96,14 @@ export default function AgentsPage() {
       frequency: 4,
       maxReplies: 3,
       minScore: 15,
-      autoReply: false
+      autoReply: false,
+      qualityFilter: true,
+      strictnessLevel: 2,
+      source: 'timeline',
+      listIds: [],
+      targetHandles: [],
+      freshnessMinutes: 180,
+      ...getEngagementActionSettings({})
     },
     edit: {
       isOpen: false,
@@ -452,7 +468,13 @@ export default function AgentsPage() {
         stage: 'idle',
         progress: 0,
         isScheduleEnabled: false,
-        scheduleTime: ''
+        scheduleTime: '',
+        isThread: false,
+        threadParts: ['', ''],
+        isQuote: false,
+        quotedTweet: '',
+        media: [],
+        isUploadingMedia: false
       }
     }));
   }, []);
@@ -468,7 +490,8 @@ export default function AgentsPage() {
         isOpen: true,
         agentId: agent.agentId,
         frequency,
-        count
+        count,
+        trendsEnabled: agent.autoTweetTrendsEnabled || false
       }
     }));
   }, []);
@@ -10,6 +10,7 @@ export interface Agent {
   autoTweetFrequencyHours?: number | null;
   lastAutoTweetTime?: Date | null;
   autoTweetCount?: number | null;
+  autoTweetTrendsEnabled?: boolean;
   isTwitterConnected?: boolean;
   twitterUsername?: string | null;
   autoEngageEnabled?: boolean;
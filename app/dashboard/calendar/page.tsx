@@ -0,0 +1,17 @@
+import { DashboardHeader } from "@/components/dashboard/header";
+import { DashboardShell } from "@/components/dashboard/shell";
+import { ContentCalendar } from "@/components/dashboard/calendar/content-calendar";
+
+export default function CalendarPage() {
+  return (
+    <DashboardShell>
+      <DashboardHeader
+        heading="Content Calendar"
+        text="See, reschedule and edit your agents' tweets"
+      />
+      <div className="space-y-8">
+        <ContentCalendar />
+      </div>
+    </DashboardShell>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState, useCallback } from "react";
 import axios from "axios";
 import { ToastActionElement } from "@/components/ui/toast";
+import { DashboardModalState } from "@/components/dashboard/modals/modal-types";
+import { getEngagementActionSettings } from "@/components/dashboard/modals/engagement-action-settings";
 
 // Type definitions
 export interface Agent {
@@ -38,56 +40,14 @@ export interface Profile {
   usage?: ProfileUsage;
 }
 
-// Modal state interfaces
-export interface EditAgentModalState {
-  isOpen: boolean;
-  agent: Agent | null;
-}
-
-export interface TweetModalState {
-  isOpen: boolean;
-  agentId: string | null;
-  text: string;
-  generatedText: string;
-  context: string;
-  url: string;
-  xAccountToTag: string;
-  stage: 'idle' | 'generating' | 'posting' | 'complete' | 'error';
-  progress: number;
-  isLoading: boolean;
-  isScheduleEnabled: boolean;
-  scheduleTime: string;
-  generationsInfo?: {
-    used: number;
-    total: number;
-    remaining: number;
-  };
-}
-
-export interface AutoTweetModalState {
-  isOpen: boolean;
-  agentId: string | null;
-  frequency: number;
-  count: number;
-}
-
-export interface AutoEngageModalState {
-  isOpen: boolean;
-  agentId: string | null;
-  frequency: number;
-  maxReplies: number;
-  minScore: number;
-  autoReply: boolean;
-}
-
-// Combined modal state interface
-export interface DashboardModalState {
-  tweet: TweetModalState;
-  autoTweet: AutoTweetModalState;
-  autoEngage: AutoEngageModalState;
-  edit: EditAgentModalState;
-  actionLoading: string | null;
-}
+// Modal state types live with the modals that use them
+export type {
+  EditAgentModalState,
+  TweetModalState,
+  AutoTweetModalState,
+  AutoEngageModalState,
+  DashboardModalState
+} from "@/components/dashboard/modals/modal-types";
 
 // Hook props
 interface UseDashboardStateProps {
@@ -147,13 +107,21 @@ export function useDashboardState({ toast, setIsLoading }: UseDashboardStateProp
       isLoading: false,
       isScheduleEnabled: false,
       scheduleTime: '',
+      isThread: false,
+      threadParts: ['', ''],
+      isQuote: false,
+      quotedTweet: '',
+      threadLength: 3,
+      media: [],
+      isUploadingMedia: false,
       generationsInfo: undefined
     },
     autoTweet: {
       isOpen: false,
       agentId: null,
       frequency: 4,
-      count: 1
+      count: 1,
+      trendsEnabled: false
     },
     autoEngage: {
       isOpen: false,
@@ -161,7 +129,14 @@ export function useDashboardState({ toast, setIsLoading }: UseDashboardStateProp
       frequency: 4,
       maxReplies: 3,
       minScore: 15,
-      autoReply: false
+      autoReply: false,
+      qualityFilter: true,
+      strictnessLevel: 2,
+      source: 'timeline',
+      listIds: [],
+      targetHandles: [],
+      freshnessMinutes: 180,
+      ...getEngagementActionSettings({})
     },
     edit: {
       isOpen: false,
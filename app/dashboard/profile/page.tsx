@@ -13,6 +13,7 @@ import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { Progress } from "@/components/ui/progress";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { UsageBreakdown } from "@/components/dashboard/usage-breakdown";
 
 interface PlanFeature {
   icon: React.ElementType;
@@ -546,6 +547,8 @@ export default function ProfilePage() {
                </Card>
             )}
           </div>
+
+          {profile?.plan && <UsageBreakdown className="shadow-lg" />}
         </motion.div>
       )}
     </DashboardShell>
@@ -2,6 +2,16 @@ import prisma from '../utils/dbClient';
 import { handleDatabaseError } from '../utils/errorHandler';
 import { CookieCreateInput, CookieSearchParams, CookieUpdateInput, PaginationParams } from '../types';
 import { Cookie } from '@prisma/client';
+import { decryptCookies, encryptCookieData } from '../utils/cookieEncryption';
+
+// Values are encrypted on the way in and decrypted on the way out of the repository
+function encryptValue<T extends { value?: unknown }>(data: T): T {
+  return typeof data.value === 'string' ? encryptCookieData(data as T & { value: string }) : data;
+}
+
+function decryptOne(cookie: Cookie | null): Cookie | null {
+  return cookie ? decryptCookies([cookie])[0] ?? null : null;
+}
 
 export const cookieRepository = {
   /**
@@ -9,7 +19,7 @@ export const cookieRepository = {
    */
   async create(data: CookieCreateInput): Promise<Cookie> {
     try {
-      return await prisma.cookie.create({ data });
+      return decryptOne(await prisma.cookie.create({ data: encryptValue(data) }));
     } catch (error) {
       handleDatabaseError(error);
     }
@@ -20,9 +30,9 @@ export const cookieRepository = {
    */
   async findById(cookieId: bigint): Promise<Cookie | null> {
     try {
-      return await prisma.cookie.findUnique({
+      return decryptOne(await prisma.cookie.findUnique({
         where: { cookieId }
-      });
+      }));
     } catch (error) {
       handleDatabaseError(error);
     }
@@ -36,11 +46,11 @@ export const cookieRepository = {
       const { page = 1, limit = 50 } = params || {};
       const skip = (page - 1) * limit;
       
-      return await prisma.cookie.findMany({
+      return decryptCookies(await prisma.cookie.findMany({
         where: { userId },
         skip,
         take: limit
-      });
+      }));
     } catch (error) {
       handleDatabaseError(error);
     }
@@ -51,14 +61,14 @@ export const cookieRepository = {
    */
   async findByUserIdAndKey(userId: string, key: string): Promise<Cookie | null> {
     try {
-      return await prisma.cookie.findUnique({
+      return decryptOne(await prisma.cookie.findUnique({
         where: {
           userId_key: {
             userId,
             key
           }
         }
-      });
+      }));
     } catch (error) {
       handleDatabaseError(error);
     }
@@ -72,10 +82,10 @@ export const cookieRepository = {
       const { page = 1, limit = 50 } = params || {};
       const skip = (page - 1) * limit;
       
-      return await prisma.cookie.findMany({
+      return decryptCookies(await prisma.cookie.findMany({
         skip,
         take: limit
-      });
+      }));
     } catch (error) {
       handleDatabaseError(error);
     }
@@ -104,11 +114,11 @@ export const cookieRepository = {
         ];
       }
       
-      return await prisma.cookie.findMany({
+      return decryptCookies(await prisma.cookie.findMany({
         where,
         skip,
         take: limit
-      });
+      }));
     } catch (error) {
       handleDatabaseError(error);
     }
@@ -119,10 +129,10 @@ export const cookieRepository = {
    */
   async update(cookieId: bigint, data: CookieUpdateInput): Promise<Cookie> {
     try {
-      return await prisma.cookie.update({
+      return decryptOne(await prisma.cookie.update({
         where: { cookieId },
-        data
-      });
+        data: encryptValue(data)
+      }));
     } catch (error) {
       handleDatabaseError(error);
     }
@@ -133,16 +143,16 @@ export const cookieRepository = {
    */
   async upsert(userId: string, key: string, data: CookieUpdateInput, createData: CookieCreateInput): Promise<Cookie> {
     try {
-      return await prisma.cookie.upsert({
+      return decryptOne(await prisma.cookie.upsert({
         where: {
           userId_key: {
             userId,
             key
           }
         },
-        update: data,
-        create: createData as any
-      });
+        update: encryptValue(data),
+        create: encryptValue(createData) as any
+      }));
     } catch (error) {
       handleDatabaseError(error);
     }
@@ -210,7 +220,7 @@ export const cookieRepository = {
    */
   async getValidCookies(userId: string): Promise<Cookie[]> {
     try {
-      return await prisma.cookie.findMany({
+      return decryptCookies(await prisma.cookie.findMany({
         where: {
           userId,
           OR: [
@@ -218,7 +228,7 @@ export const cookieRepository = {
             { expires: { gt: new Date() } }
           ]
         }
-      });
+      }));
     } catch (error) {
       handleDatabaseError(error);
     }
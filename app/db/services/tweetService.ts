@@ -5,6 +5,7 @@ import { planService } from './planService';
 import { LimitStatus, PaginationParams, SortParams, TweetCreateInput, TweetUpdateInput, TweetWithAgent } from '../types';
 import { Tweet } from '@prisma/client';
 import { DatabaseError } from '../utils/errorHandler';
+import { quotaService } from '@/app/api/quota-service';
 
 export const tweetService = {
   /**
@@ -152,7 +153,7 @@ export const tweetService = {
   },
 
   /**
-   * Check if an agent can post more tweets
+   * Check if an agent can post more tweets this billing period
    */
   async checkTweetLimit(agentId: string): Promise<LimitStatus> {
     // Get agent with profile and plan
@@ -162,14 +163,20 @@ export const tweetService = {
       throw new DatabaseError('User does not have an active plan', 'PLAN_REQUIRED');
     }
     
-    const tweetCount = await tweetRepository.countByAgentId(agentId);
-    const maxTweets = agent.profile.plan?.maxTweetsPerAgent || 0;
+    // Per-agent usage since the last reset, or the shared pool on pooled plans
+    const result = await quotaService.getAgentQuota(agent.userId, agentId, 'tweet');
+
+    if (!result.success || !result.quota) {
+      throw new DatabaseError(result.error || 'User does not have an active plan', 'PLAN_REQUIRED');
+    }
+
+    const { used, limit, remaining } = result.quota;
     
     return {
-      used: tweetCount,
-      limit: maxTweets,
-      remaining: maxTweets - tweetCount,
-      canCreate: tweetCount < maxTweets
+      used,
+      limit,
+      remaining,
+      canCreate: remaining > 0
     };
   },
 
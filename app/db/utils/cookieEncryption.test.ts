@@ -0,0 +1,128 @@
+type CookieEncryption = typeof import('./cookieEncryption');
+
+const ENV_KEYS = ['COOKIE_ENCRYPTION_KEYS', 'COOKIE_ENCRYPTION_KEY_ID', 'TOKEN_ENCRYPTION_KEY'];
+const originalEnv = { ...process.env };
+
+// The key ring is read once per module instance, so each key setup gets a fresh module
+const loadWithKeys = (env: Record<string, string>): CookieEncryption => {
+  for (const key of ENV_KEYS) {
+    delete process.env[key];
+  }
+  Object.assign(process.env, env);
+
+  let encryption: CookieEncryption;
+  jest.isolateModules(() => {
+    encryption = require('./cookieEncryption');
+  });
+  return encryption;
+};
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+});
+
+test('encrypted values round-trip with the active key', () => {
+  const { encryptCookieValue, decryptCookieValue } = loadWithKeys({ COOKIE_ENCRYPTION_KEYS: 'k1:first-secret' });
+
+  const encrypted = encryptCookieValue('auth_token=abc; ct0=def');
+
+  expect(encrypted.keyId).toBe('k1');
+  expect(encrypted.value).not.toContain('abc');
+  expect(decryptCookieValue(encrypted.value, encrypted.keyId)).toBe('auth_token=abc; ct0=def');
+});
+
+test('each value gets its own data key', () => {
+  const { encryptCookieValue } = loadWithKeys({ COOKIE_ENCRYPTION_KEYS: 'k1:first-secret' });
+
+  expect(encryptCookieValue('same').value).not.toBe(encryptCookieValue('same').value);
+});
+
+test('rows stored before encryption read back as plaintext and are encrypted on rewrap', () => {
+  const { decryptCookieValue, rewrapCookieValue } = loadWithKeys({ COOKIE_ENCRYPTION_KEYS: 'k1:first-secret' });
+
+  expect(decryptCookieValue('plain-value', null)).toBe('plain-value');
+
+  const rewrapped = rewrapCookieValue('plain-value', null);
+  expect(rewrapped.keyId).toBe('k1');
+  expect(decryptCookieValue(rewrapped.value, rewrapped.keyId)).toBe('plain-value');
+});
+
+test('without a key ring the token key is used as "default"', () => {
+  const { encryptCookieValue, getActiveCookieKeyId } = loadWithKeys({ TOKEN_ENCRYPTION_KEY: 'token-secret' });
+
+  expect(getActiveCookieKeyId()).toBe('default');
+  expect(encryptCookieValue('value').keyId).toBe('default');
+});
+
+test('rotation re-wraps the data key onto the new active key', () => {
+  const before = loadWithKeys({ COOKIE_ENCRYPTION_KEYS: 'k1:first-secret' });
+  const stored = before.encryptCookieValue('session-cookie');
+
+  const after = loadWithKeys({ COOKIE_ENCRYPTION_KEYS: 'k2:second-secret,k1:first-secret' });
+
+  // Rows on the retired key still decrypt until they are moved
+  expect(after.decryptCookieValue(stored.value, stored.keyId)).toBe('session-cookie');
+
+  const rewrapped = after.rewrapCookieValue(stored.value, stored.keyId);
+  expect(rewrapped.keyId).toBe('k2');
+  // Only the data key changes; the sealed value is kept
+  expect(rewrapped.value.split('.')[1]).toBe(stored.value.split('.')[1]);
+  expect(after.decryptCookieValue(rewrapped.value, rewrapped.keyId)).toBe('session-cookie');
+
+  expect(after.rewrapCookieValue(rewrapped.value, rewrapped.keyId)).toBeNull();
+
+  // Once the old key is dropped, only the re-wrapped row can be read
+  const retired = loadWithKeys({ COOKIE_ENCRYPTION_KEYS: 'k2:second-secret' });
+  expect(retired.decryptCookieValue(rewrapped.value, rewrapped.keyId)).toBe('session-cookie');
+  expect(() => retired.decryptCookieValue(stored.value, stored.keyId)).toThrow('Unknown cookie encryption key "k1"');
+});
+
+test('COOKIE_ENCRYPTION_KEY_ID picks the active key', () => {
+  const { encryptCookieValue } = loadWithKeys({
+    COOKIE_ENCRYPTION_KEYS: 'k1:first-secret,k2:second-secret',
+    COOKIE_ENCRYPTION_KEY_ID: 'k2'
+  });
+
+  expect(encryptCookieValue('value').keyId).toBe('k2');
+});
+
+test('a value decrypted with the wrong key is rejected', () => {
+  const first = loadWithKeys({ COOKIE_ENCRYPTION_KEYS: 'k1:first-secret' });
+  const stored = first.encryptCookieValue('session-cookie');
+
+  const impostor = loadWithKeys({ COOKIE_ENCRYPTION_KEYS: 'k1:other-secret' });
+
+  expect(() => impostor.decryptCookieValue(stored.value, stored.keyId)).toThrow();
+});
+
+test('rows that cannot be decrypted are dropped', () => {
+  const first = loadWithKeys({ COOKIE_ENCRYPTION_KEYS: 'k1:first-secret' });
+  const readable = first.encryptCookieData({ key: 'ct0', value: 'def' });
+
+  const { decryptCookies } = loadWithKeys({ COOKIE_ENCRYPTION_KEYS: 'k1:first-secret' });
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  expect(decryptCookies([
+    readable,
+    { key: 'auth_token', value: 'garbage', keyId: 'k1' },
+    { key: 'lang', value: 'en', keyId: null }
+  ])).toEqual([
+    { key: 'ct0', value: 'def', keyId: 'k1' },
+    { key: 'lang', value: 'en', keyId: null }
+  ]);
+});
+
+test('malformed key ring entries are rejected', () => {
+  const { getActiveCookieKeyId } = loadWithKeys({ COOKIE_ENCRYPTION_KEYS: 'no-separator' });
+
+  expect(() => getActiveCookieKeyId()).toThrow('COOKIE_ENCRYPTION_KEYS entries must look like');
+});
+
+test('an active key ID outside the key ring is rejected', () => {
+  const { getActiveCookieKeyId } = loadWithKeys({
+    COOKIE_ENCRYPTION_KEYS: 'k1:first-secret',
+    COOKIE_ENCRYPTION_KEY_ID: 'k9'
+  });
+
+  expect(() => getActiveCookieKeyId()).toThrow('COOKIE_ENCRYPTION_KEY_ID "k9" is not in COOKIE_ENCRYPTION_KEYS');
+});
@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+
+/**
+ * Envelope encryption for X session cookies stored in the cookies table.
+ *
+ * Every cookie value is encrypted with its own random data key (AES-256-GCM), and the data
+ * key is wrapped with a master key from the key ring. The row's `keyId` names the master key,
+ * so rotating keys only re-wraps data keys. Rows with a null `keyId` predate encryption and
+ * hold plaintext until `prisma/encrypt-cookies.ts` has been run.
+ *
+ * Key ring: COOKIE_ENCRYPTION_KEYS="<keyId>:<secret>,<keyId>:<secret>" with
+ * COOKIE_ENCRYPTION_KEY_ID naming the key new values are written with (defaults to the first).
+ * Without a key ring, TOKEN_ENCRYPTION_KEY is used as the single key "default".
+ */
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const DATA_KEY_LENGTH = 32;
+const DEFAULT_SECRET = 'default-key-please-change-in-production-env';
+
+export interface EncryptedCookieValue {
+  value: string;
+  keyId: string;
+}
+
+interface KeyRing {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+let cachedKeyRing: KeyRing | null = null;
+
+// Master keys are derived the same way as the OAuth token key in token-store.ts
+const deriveKey = (secret: string) => crypto.createHash('sha256').update(secret).digest();
+
+function getKeyRing(): KeyRing {
+  if (cachedKeyRing) {
+    return cachedKeyRing;
+  }
+
+  const keys = new Map<string, Buffer>();
+  const entries = (process.env.COOKIE_ENCRYPTION_KEYS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  for (const entry of entries) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0 || separator === entry.length - 1) {
+      throw new Error('COOKIE_ENCRYPTION_KEYS entries must look like "<keyId>:<secret>"');
+    }
+    keys.set(entry.slice(0, separator), deriveKey(entry.slice(separator + 1)));
+  }
+
+  if (keys.size === 0) {
+    const secret = process.env.TOKEN_ENCRYPTION_KEY || DEFAULT_SECRET;
+    if (secret === DEFAULT_SECRET && process.env.NODE_ENV === 'production') {
+      console.error('[CookieEncryption] SECURITY RISK: Using default encryption key in production environment!');
+      console.error('[CookieEncryption] Set COOKIE_ENCRYPTION_KEYS (or TOKEN_ENCRYPTION_KEY) to a secure random value');
+    }
+    keys.set('default', deriveKey(secret));
+  }
+
+  const activeKeyId = process.env.COOKIE_ENCRYPTION_KEY_ID || keys.keys().next().value as string;
+  if (!keys.has(activeKeyId)) {
+    throw new Error(`COOKIE_ENCRYPTION_KEY_ID "${activeKeyId}" is not in COOKIE_ENCRYPTION_KEYS`);
+  }
+
+  cachedKeyRing = { activeKeyId, keys };
+  return cachedKeyRing;
+}
+
+function getMasterKey(keyId: string): Buffer {
+  const key = getKeyRing().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Unknown cookie encryption key "${keyId}"`);
+  }
+  return key;
+}
+
+// AES-GCM output as iv | tag | ciphertext
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+// Stored value: base64(wrapped data key) "." base64(sealed cookie value)
+function splitStoredValue(stored: string): [Buffer, Buffer] {
+  const [wrappedKey, sealedValue, ...rest] = stored.split('.');
+  if (!wrappedKey || !sealedValue || rest.length > 0) {
+    throw new Error('Invalid encrypted cookie format');
+  }
+  return [Buffer.from(wrappedKey, 'base64'), Buffer.from(sealedValue, 'base64')];
+}
+
+/**
+ * Key ID new cookie values are encrypted with
+ */
+export function getActiveCookieKeyId(): string {
+  return getKeyRing().activeKeyId;
+}
+
+/**
+ * Encrypt a cookie value with a fresh data key wrapped by the active master key
+ * @param value - Plaintext cookie value
+ * @returns The stored value and the ID of the master key that wrapped its data key
+ */
+export function encryptCookieValue(value: string): EncryptedCookieValue {
+  const keyId = getActiveCookieKeyId();
+  const dataKey = crypto.randomBytes(DATA_KEY_LENGTH);
+
+  const wrappedKey = seal(getMasterKey(keyId), dataKey);
+  const sealedValue = seal(dataKey, Buffer.from(value, 'utf8'));
+
+  return {
+    value: `${wrappedKey.toString('base64')}.${sealedValue.toString('base64')}`,
+    keyId
+  };
+}
+
+/**
+ * Decrypt a stored cookie value
+ * @param value - Value as stored in the cookies table
+ * @param keyId - The row's key ID; null means the value was stored before encryption
+ * @returns The plaintext cookie value
+ */
+export function decryptCookieValue(value: string, keyId: string | null): string {
+  if (!keyId) {
+    return value;
+  }
+
+  const [wrappedKey, sealedValue] = splitStoredValue(value);
+  const dataKey = open(getMasterKey(keyId), wrappedKey);
+
+  return open(dataKey, sealedValue).toString('utf8');
+}
+
+/**
+ * Move a stored value onto the active master key. Only the data key is re-wrapped;
+ * plaintext rows are encrypted.
+ * @param value - Value as stored in the cookies table
+ * @param keyId - The row's current key ID
+ * @returns The re-wrapped value, or null if it already uses the active key
+ */
+export function rewrapCookieValue(value: string, keyId: string | null): EncryptedCookieValue | null {
+  const activeKeyId = getActiveCookieKeyId();
+
+  if (keyId === activeKeyId) {
+    return null;
+  }
+
+  if (!keyId) {
+    return encryptCookieValue(value);
+  }
+
+  const [wrappedKey, sealedValue] = splitStoredValue(value);
+  const dataKey = open(getMasterKey(keyId), wrappedKey);
+  const rewrapped = seal(getMasterKey(activeKeyId), dataKey);
+
+  return {
+    value: `${rewrapped.toString('base64')}.${sealedValue.toString('base64')}`,
+    keyId: activeKeyId
+  };
+}
+
+/**
+ * Encrypt the value of cookie data about to be written
+ * @param data - Cookie create/update data with a plaintext value
+ * @returns The same data with the value encrypted and its key ID set
+ */
+export function encryptCookieData<T extends { value: string }>(data: T): T & { keyId: string } {
+  return { ...data, ...encryptCookieValue(data.value) };
+}
+
+/**
+ * Decrypt cookie rows read from the database. Rows that can't be decrypted (e.g. their
+ * key was removed from the key ring) are dropped, so callers treat them as missing.
+ * @param cookies - Rows including `value` and `keyId`
+ * @returns The rows with plaintext values
+ */
+export function decryptCookies<T extends { value: string; keyId: string | null }>(cookies: T[]): T[] {
+  const decrypted: T[] = [];
+
+  for (const cookie of cookies) {
+    try {
+      decrypted.push({ ...cookie, value: decryptCookieValue(cookie.value, cookie.keyId) });
+    } catch (error) {
+      console.error(`[CookieEncryption] Could not decrypt cookie (key ID ${cookie.keyId}):`, error);
+    }
+  }
+
+  return decrypted;
+}
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { decryptCookies } from './cookieEncryption';
 
 // Create a global instance of PrismaClient to avoid multiple instances during hot-reloading in development
 declare global {
@@ -34,6 +35,24 @@ const prisma = global.prisma || new PrismaClient({
   }
 });
 
+// Metric sync schedule: hourly during a post's first day, then daily until it's a week old
+const metricSyncCutoffs = () => {
+  const now = Date.now();
+  return {
+    hourAgo: new Date(now - 60 * 60 * 1000),
+    dayAgo: new Date(now - 24 * 60 * 60 * 1000),
+    weekAgo: new Date(now - 7 * 24 * 60 * 60 * 1000)
+  };
+};
+
+// Agent fields postingScheduleService.fromAgent reads
+const POSTING_SCHEDULE_SELECT = {
+  timezone: true,
+  activeHours: true,
+  blackoutDates: true,
+  scheduleJitterMinutes: true
+} as const;
+
 // 🚀 SCHEDULER-SPECIFIC QUERY OPTIMIZATIONS
 // Pre-compile common queries used by scheduler for better performance
 const schedulerQueries = {
@@ -51,7 +70,10 @@ const schedulerQueries = {
       name: true,
       autoTweetFrequencyHours: true,
       autoTweetCount: true,
-      lastAutoTweetTime: true
+      autoTweetTrendsEnabled: true,
+      lastAutoTweetTime: true,
+      optimizePostingTimes: true,
+      ...POSTING_SCHEDULE_SELECT
     }
   }),
   
@@ -70,36 +92,172 @@ const schedulerQueries = {
       autoEngageFrequencyHours: true,
       autoEngageMaxReplies: true,
       lastAutoEngageTime: true,
+      ...POSTING_SCHEDULE_SELECT,
       profile: {
         select: { userId: true }
       }
     }
   }),
   
-  // Optimized query for scheduled tweets
-  findScheduledTweets: () => prisma.tweet.findMany({
+  // Agents that opted in to auto-follow
+  findAutoFollowAgents: () => prisma.agent.findMany({
+    where: {
+      status: 'running',
+      autoFollowEnabled: true,
+      autoFollowMaxDaily: { gt: 0 }
+    },
+    select: {
+      agentId: true,
+      userId: true,
+      lastAutoFollowTime: true
+    }
+  }),
+  
+  // Agents with the DM inbox switched on
+  findDmInboxAgents: () => prisma.agent.findMany({
+    where: {
+      status: 'running',
+      dmInboxEnabled: true
+    },
+    select: {
+      agentId: true,
+      userId: true,
+      lastDmSyncTime: true
+    }
+  }),
+  
+  // Agents answering their mentions
+  findMentionsAgents: () => prisma.agent.findMany({
+    where: {
+      status: 'running',
+      mentionsEnabled: true
+    },
+    select: {
+      agentId: true,
+      userId: true,
+      lastMentionsCheckTime: true
+    }
+  }),
+  
+  // DM replies approved in the inbox and due to be sent
+  findApprovedDmReplies: () => prisma.dmReply.findMany({
+    where: {
+      status: 'approved',
+      scheduledTime: { lte: new Date() }
+    },
+    select: {
+      dmReplyId: true,
+      dmConversationId: true,
+      agentId: true,
+      replyText: true,
+      conversation: {
+        select: { conversationId: true }
+      },
+      agent: {
+        select: {
+          userId: true,
+          status: true
+        }
+      }
+    },
+    orderBy: { scheduledTime: 'asc' }
+  }),
+  
+  // Posted tweets whose metrics are due a refresh
+  findTweetsDueForMetricSync: (limit: number) => {
+    const { hourAgo, dayAgo, weekAgo } = metricSyncCutoffs();
+
+    return prisma.tweet.findMany({
+      where: {
+        status: 'posted',
+        twitterTweetId: { not: null },
+        postTime: { gte: weekAgo },
+        OR: [
+          { metricsSyncedAt: null },
+          { postTime: { gte: dayAgo }, metricsSyncedAt: { lte: hourAgo } },
+          { postTime: { lt: dayAgo }, metricsSyncedAt: { lte: dayAgo } }
+        ]
+      },
+      select: {
+        tweetId: true,
+        agentId: true,
+        twitterTweetId: true
+      },
+      orderBy: { metricsSyncedAt: { sort: 'asc', nulls: 'first' } }, // Never-synced and most overdue first
+      take: limit
+    });
+  },
+  
+  // Posted replies whose metrics are due a refresh
+  findRepliesDueForMetricSync: (limit: number) => {
+    const { hourAgo, dayAgo, weekAgo } = metricSyncCutoffs();
+
+    return prisma.reply.findMany({
+      where: {
+        status: 'posted',
+        twitterReplyId: { not: null },
+        postedTime: { gte: weekAgo },
+        OR: [
+          { metricsSyncedAt: null },
+          { postedTime: { gte: dayAgo }, metricsSyncedAt: { lte: hourAgo } },
+          { postedTime: { lt: dayAgo }, metricsSyncedAt: { lte: dayAgo } }
+        ]
+      },
+      select: {
+        replyId: true,
+        twitterReplyId: true,
+        originalTweetUser: true,
+        originalTweetUserFollowers: true
+      },
+      orderBy: { metricsSyncedAt: { sort: 'asc', nulls: 'first' } },
+      take: limit
+    });
+  },
+  
+  // Optimized query for scheduled threads that are due
+  findScheduledThreads: () => prisma.thread.findMany({
     where: {
       status: 'scheduled',
       postTime: { lte: new Date() }
     },
     select: {
-      tweetId: true,
+      threadId: true,
       agentId: true,
-      text: true,
       postTime: true,
       agent: {
         select: {
           userId: true,
-          status: true,
-          name: true
+          status: true
         }
       }
     },
     orderBy: { postTime: 'asc' } // Process oldest first
   }),
   
-  // Optimized query for valid cookies
-  findValidCookies: (userId: string) => prisma.cookie.findMany({
+  // Optimized query for replies approved in the reply inbox
+  findApprovedReplies: () => prisma.reply.findMany({
+    where: {
+      status: 'approved',
+      scheduledTime: { lte: new Date() }
+    },
+    select: {
+      replyId: true,
+      agentId: true,
+      originalTweetId: true,
+      replyText: true,
+      scheduledTime: true,
+      agent: {
+        select: {
+          userId: true,
+          status: true
+        }
+      }
+    },
+    orderBy: { scheduledTime: 'asc' } // Process oldest first
+  }),
+  
+  // Optimized query for valid cookies (values come back decrypted)
+  findValidCookies: async (userId: string) => decryptCookies(await prisma.cookie.findMany({
     where: {
       userId,
       OR: [
@@ -110,13 +268,14 @@ const schedulerQueries = {
     select: {
       key: true,
       value: true,
+      keyId: true,
       domain: true,
       path: true,
       secure: true,
       httpOnly: true,
       sameSite: true
     }
-  })
+  }))
 };
 
 // 🔄 CONNECTION POOL MONITORING
@@ -1,20 +1,20 @@
 import prisma from './dbClient';
+import { usageService } from '@/app/api/usage-service';
+import { quotaService, QuotaKind } from '@/app/api/quota-service';
 
 /**
- * Increment the tweet usage counter for a user
+ * Increment the tweet usage counter for a user (recorded in the usage ledger)
  * @param userId - The user ID to increment usage for
+ * @param agentId - The agent that posted the tweet
+ * @param tweetId - The tweet record that used the quota
  * @returns Promise<void>
  */
-export async function incrementTweetUsage(userId: string): Promise<void> {
+export async function incrementTweetUsage(userId: string, agentId?: string, tweetId?: string): Promise<void> {
   try {
-    await prisma.profile.update({
-      where: { userId },
-      data: {
-        tweetsUsed: {
-          increment: 1
-        }
-      }
-    });
+    const recorded = await usageService.record({ userId, agentId, kind: 'tweet', tweetId });
+    if (!recorded) {
+      throw new Error(`Failed to record tweet usage for user ${userId}`);
+    }
     console.log(`Incremented tweet usage for user ${userId}`);
   } catch (error) {
     console.error('Error incrementing tweet usage:', error);
@@ -23,47 +23,19 @@ export async function incrementTweetUsage(userId: string): Promise<void> {
 }
 
 /**
- * Check if user can post more tweets based on their plan limit
- * @param userId - The user ID to check
- * @returns Promise<{ canPost: boolean, current: number, limit: number }>
+ * Load an agent's tweet or reply quota, failing when the profile or plan is missing
+ * @param userId - Owner of the agent
+ * @param agentId - The agent to check
+ * @param kind - Tweets or replies
  */
-export async function checkTweetLimit(userId: string): Promise<{
-  canPost: boolean;
-  current: number;
-  limit: number;
-  remaining: number;
-}> {
-  try {
-    const profile = await prisma.profile.findUnique({
-      where: { userId },
-      include: {
-        plan: {
-          select: {
-            maxTweetsPerAgent: true
-          }
-        }
-      }
-    });
-
-    if (!profile || !profile.plan) {
-      throw new Error('User profile or plan not found');
-    }
-
-    const current = profile.tweetsUsed;
-    const limit = profile.plan.maxTweetsPerAgent;
-    const remaining = Math.max(0, limit - current);
-    const canPost = current < limit;
+async function getQuotaOrThrow(userId: string, agentId: string, kind: QuotaKind) {
+  const result = await quotaService.getAgentQuota(userId, agentId, kind);
 
-    return {
-      canPost,
-      current,
-      limit,
-      remaining
-    };
-  } catch (error) {
-    console.error('Error checking tweet limit:', error);
-    throw error;
+  if (!result.success || !result.quota) {
+    throw new Error(result.error || 'User profile or plan not found');
   }
+
+  return result.quota;
 }
 
 /**
@@ -87,35 +59,19 @@ export async function resetTweetUsage(userId: string): Promise<void> {
 }
 
 /**
- * Get current tweet usage stats for a user
+ * Get current tweet usage stats for an agent (the shared pool's limit on pooled plans)
  * @param userId - The user ID to get stats for
+ * @param agentId - The agent to get stats for
  * @returns Promise<{ used: number, limit: number, remaining: number }>
  */
-export async function getTweetUsageStats(userId: string): Promise<{
+export async function getTweetUsageStats(userId: string, agentId: string): Promise<{
   used: number;
   limit: number;
   remaining: number;
   percentage: number;
 }> {
   try {
-    const profile = await prisma.profile.findUnique({
-      where: { userId },
-      include: {
-        plan: {
-          select: {
-            maxTweetsPerAgent: true
-          }
-        }
-      }
-    });
-
-    if (!profile || !profile.plan) {
-      throw new Error('User profile or plan not found');
-    }
-
-    const used = profile.tweetsUsed;
-    const limit = profile.plan.maxTweetsPerAgent;
-    const remaining = Math.max(0, limit - used);
+    const { used, limit, remaining } = await getQuotaOrThrow(userId, agentId, 'tweet');
     const percentage = limit > 0 ? (used / limit) * 100 : 0;
 
     return {
@@ -131,35 +87,19 @@ export async function getTweetUsageStats(userId: string): Promise<{
 }
 
 /**
- * Get current reply usage stats for a user
+ * Get current reply usage stats for an agent (the shared pool's limit on pooled plans)
  * @param userId - The user ID to get stats for
+ * @param agentId - The agent to get stats for
  * @returns Promise<{ used: number, limit: number, remaining: number, percentage: number }>
  */
-export async function getReplyUsageStats(userId: string): Promise<{
+export async function getReplyUsageStats(userId: string, agentId: string): Promise<{
   used: number;
   limit: number;
   remaining: number;
   percentage: number;
 }> {
   try {
-    const profile = await prisma.profile.findUnique({
-      where: { userId },
-      include: {
-        plan: {
-          select: {
-            maxRepliesPerAgent: true
-          }
-        }
-      }
-    });
-
-    if (!profile || !profile.plan) {
-      throw new Error('User profile or plan not found');
-    }
-
-    const used = profile.repliesUsed;
-    const limit = profile.plan.maxRepliesPerAgent;
-    const remaining = Math.max(0, limit - used);
+    const { used, limit, remaining } = await getQuotaOrThrow(userId, agentId, 'reply');
     const percentage = limit > 0 ? (used / limit) * 100 : 0;
 
     return {
@@ -175,49 +115,31 @@ export async function getReplyUsageStats(userId: string): Promise<{
 }
 
 /**
- * Increment reply usage for a user
+ * Increment reply usage for an agent
  * @param userId - The user ID to increment usage for
+ * @param agentId - The agent that posted the replies
  * @param count - The number of replies to increment (default: 1)
  * @returns Promise<{ success: boolean, newUsage: number, limit: number }>
  */
-export async function incrementReplyUsage(userId: string, count: number = 1): Promise<{
+export async function incrementReplyUsage(userId: string, agentId: string, count: number = 1): Promise<{
   success: boolean;
   newUsage: number;
   limit: number;
   remaining: number;
 }> {
   try {
-    const profile = await prisma.profile.findUnique({
-      where: { userId },
-      include: {
-        plan: {
-          select: {
-            maxRepliesPerAgent: true
-          }
-        }
-      }
-    });
-
-    if (!profile || !profile.plan) {
-      throw new Error('User profile or plan not found');
+    // Each reply gets its own ledger entry, which also bumps the counter
+    for (let i = 0; i < count; i++) {
+      await usageService.record({ userId, agentId, kind: 'reply' });
     }
 
-    const newUsage = profile.repliesUsed + count;
-    const limit = profile.plan.maxRepliesPerAgent;
-
-    // Update the usage
-    await prisma.profile.update({
-      where: { userId },
-      data: {
-        repliesUsed: newUsage
-      }
-    });
+    const { used, limit, remaining } = await getQuotaOrThrow(userId, agentId, 'reply');
 
     return {
       success: true,
-      newUsage,
+      newUsage: used,
       limit,
-      remaining: Math.max(0, limit - newUsage)
+      remaining
     };
   } catch (error) {
     console.error('Error incrementing reply usage:', error);
@@ -226,12 +148,13 @@ export async function incrementReplyUsage(userId: string, count: number = 1): Pr
 }
 
 /**
- * Check if user can post replies (within their monthly limit)
+ * Check if an agent can post replies (within its monthly limit, or the shared pool on pooled plans)
  * @param userId - The user ID to check
+ * @param agentId - The agent about to reply
  * @param requestedCount - The number of replies they want to post (default: 1)
  * @returns Promise<{ canPost: boolean, reason?: string, usage: UsageStats }>
  */
-export async function canPostReplies(userId: string, requestedCount: number = 1): Promise<{
+export async function canPostReplies(userId: string, agentId: string, requestedCount: number = 1): Promise<{
   canPost: boolean;
   reason?: string;
   usage: {
@@ -242,7 +165,7 @@ export async function canPostReplies(userId: string, requestedCount: number = 1)
   };
 }> {
   try {
-    const usage = await getReplyUsageStats(userId);
+    const usage = await getReplyUsageStats(userId, agentId);
     
     if (usage.remaining >= requestedCount) {
       return {
@@ -11,7 +11,7 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { CheckCircle, PlusCircle, RefreshCw, AlertCircle, Bot, Play, Pause, Loader2, Trash2, Pencil, ExternalLink, Send, Calendar, Clock, X, Unplug, MoreHorizontal } from "lucide-react";
+import { CheckCircle, PlusCircle, RefreshCw, AlertCircle, Bot, Play, Pause, Loader2, Trash2, Pencil, ExternalLink, Send, Calendar, Clock, X, Unplug, MoreHorizontal, Inbox, Mail } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 
 interface AgentCardProps {
@@ -186,6 +186,16 @@ export function AgentCard({
                   <Pencil className="mr-2 h-4 w-4" /> Edit
                 </Link>
               </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <Link href={`/dashboard/agents/${agent.agentId}/replies`} className="flex items-center">
+                  <Inbox className="mr-2 h-4 w-4" /> Reply Inbox
+                </Link>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <Link href={`/dashboard/agents/${agent.agentId}/messages`} className="flex items-center">
+                  <Mail className="mr-2 h-4 w-4" /> DM Inbox
+                </Link>
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={() => handleDisconnectX(agent.agentId)} disabled={!agent.isTwitterConnected || isAnyActionLoading}>
                 <Unplug className="mr-2 h-4 w-4" /> Disconnect X
               </DropdownMenuItem>
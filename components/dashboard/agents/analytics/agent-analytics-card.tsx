@@ -6,7 +6,11 @@ import { EngagementMetrics } from "./engagement-metrics";
 import { ContentAnalysis } from "./content-analysis";
 import { PostingTimes } from "./posting-times";
 
-export function AgentAnalyticsCard() {
+interface AgentAnalyticsCardProps {
+  agentId: string;
+}
+
+export function AgentAnalyticsCard({ agentId }: AgentAnalyticsCardProps) {
   return (
     <Card>
       <CardHeader>
@@ -21,7 +25,7 @@ export function AgentAnalyticsCard() {
           </TabsList>
           
           <TabsContent value="engagement">
-            <EngagementMetrics />
+            <EngagementMetrics agentId={agentId} />
           </TabsContent>
           
           <TabsContent value="content">
@@ -29,7 +33,7 @@ export function AgentAnalyticsCard() {
           </TabsContent>
           
           <TabsContent value="timing">
-            <PostingTimes />
+            <PostingTimes agentId={agentId} />
           </TabsContent>
         </Tabs>
       </CardContent>
@@ -21,7 +21,12 @@ import {
   RefreshCw,
   ExternalLink,
   Activity,
-  Loader2
+  Loader2,
+  Heart,
+  Repeat2,
+  Quote,
+  UserPlus,
+  UserCheck
 } from "lucide-react";
 import { formatDistanceToNow, format } from "date-fns";
 import { motion } from "framer-motion";
@@ -31,6 +36,14 @@ interface AutoEngageAnalyticsProps {
   className?: string;
 }
 
+interface ReplyPerformanceBucket {
+  bucket: string;
+  replies: number;
+  avgLikes: number;
+  avgReplies: number;
+  avgViews: number | null;
+}
+
 interface AnalyticsData {
   summary: {
     totalReplies: number;
@@ -41,6 +54,12 @@ interface AnalyticsData {
     successRate: number;
     avgScore: number;
     avgConfidence: number;
+    likes: number;
+    retweets: number;
+    quotes: number;
+    follows: number;
+    followBacks: number;
+    followBackRate: number | null;
   };
   trends: {
     replyGrowth: number;
@@ -78,6 +97,12 @@ interface AnalyticsData {
     postedTime: string;
     twitterReplyId?: string;
   }>;
+  replyPerformance: {
+    tracked: number;
+    byScore: ReplyPerformanceBucket[];
+    byAccountSize: ReplyPerformanceBucket[];
+    byHour: ReplyPerformanceBucket[];
+  };
   configuration: {
     enabled: boolean;
     frequencyHours: number;
@@ -87,6 +112,56 @@ interface AnalyticsData {
   };
 }
 
+function ReplyPerformanceTable({ title, description, bucketLabel, rows }: {
+  title: string;
+  description: string;
+  bucketLabel: string;
+  rows: ReplyPerformanceBucket[];
+}) {
+  const bestLikes = Math.max(0, ...rows.map(row => row.avgLikes));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rows.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="pb-2 font-medium">{bucketLabel}</th>
+                <th className="pb-2 font-medium text-right">Replies</th>
+                <th className="pb-2 font-medium text-right">Avg. Likes</th>
+                <th className="pb-2 font-medium text-right">Avg. Replies</th>
+                <th className="pb-2 font-medium text-right">Avg. Views</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.bucket} className="border-t">
+                  <td className="py-2 font-medium">{row.bucket}</td>
+                  <td className="py-2 text-right">{row.replies}</td>
+                  <td className={`py-2 text-right ${bestLikes > 0 && row.avgLikes === bestLikes ? 'font-bold text-green-600' : ''}`}>
+                    {row.avgLikes}
+                  </td>
+                  <td className="py-2 text-right">{row.avgReplies}</td>
+                  <td className="py-2 text-right">{row.avgViews ?? 'N/A'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="flex items-center justify-center h-24 text-sm text-muted-foreground">
+            Not enough tracked replies yet
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export function AutoEngageAnalytics({ agentId, className }: AutoEngageAnalyticsProps) {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(false);
@@ -210,9 +285,10 @@ export function AutoEngageAnalytics({ agentId, className }: AutoEngageAnalyticsP
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="performance">Recent Activity</TabsTrigger>
+          <TabsTrigger value="reply-performance">Reply Performance</TabsTrigger>
         </TabsList>
 
         {/* Overview Tab */}
@@ -228,7 +304,7 @@ export function AutoEngageAnalytics({ agentId, className }: AutoEngageAnalyticsP
               <Card className="h-full">
                 <CardHeader>
                   <CardTitle>Engagement Summary</CardTitle>
-                  <CardDescription>Key reply metrics and trends</CardDescription>
+                  <CardDescription>Key reply, like, retweet, quote and follow metrics</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div>
@@ -245,6 +321,52 @@ export function AutoEngageAnalytics({ agentId, className }: AutoEngageAnalyticsP
                     </div>
                     <div className="text-3xl font-bold">{analytics.summary.postedReplies}</div>
                   </div>
+                  <div className="border-t pt-4 grid grid-cols-3 gap-4">
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <Heart className="h-5 w-5 text-pink-500" />
+                        <span className="text-base font-medium">Likes</span>
+                      </div>
+                      <div className="text-3xl font-bold">{analytics.summary.likes || 0}</div>
+                    </div>
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <Repeat2 className="h-5 w-5 text-emerald-500" />
+                        <span className="text-base font-medium">Retweets</span>
+                      </div>
+                      <div className="text-3xl font-bold">{analytics.summary.retweets || 0}</div>
+                    </div>
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <Quote className="h-5 w-5 text-violet-500" />
+                        <span className="text-base font-medium">Quotes</span>
+                      </div>
+                      <div className="text-3xl font-bold">{analytics.summary.quotes || 0}</div>
+                    </div>
+                  </div>
+                  <div className="border-t pt-4 grid grid-cols-2 gap-4">
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <UserPlus className="h-5 w-5 text-sky-500" />
+                        <span className="text-base font-medium">Follows</span>
+                      </div>
+                      <div className="text-3xl font-bold">{analytics.summary.follows || 0}</div>
+                    </div>
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <UserCheck className="h-5 w-5 text-green-500" />
+                        <span className="text-base font-medium">Follow-back Rate</span>
+                      </div>
+                      <div className="text-3xl font-bold">
+                        {analytics.summary.followBackRate !== null && analytics.summary.followBackRate !== undefined
+                          ? `${analytics.summary.followBackRate}%`
+                          : 'N/A'}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {analytics.summary.followBacks || 0} followed back
+                      </div>
+                    </div>
+                  </div>
                 </CardContent>
               </Card>
             </motion.div>
@@ -364,6 +486,33 @@ export function AutoEngageAnalytics({ agentId, className }: AutoEngageAnalyticsP
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Reply Performance Tab */}
+        <TabsContent value="reply-performance" className="space-y-6">
+          <p className="text-sm text-muted-foreground">
+            How {analytics.replyPerformance?.tracked || 0} posted replies from this period performed on X.
+            Metrics refresh hourly for a reply&apos;s first day, then daily for a week.
+            {analytics.configuration.minScore ? ` Current min. score: ${analytics.configuration.minScore}.` : ''}
+          </p>
+          <ReplyPerformanceTable
+            title="By Quality Score"
+            description="Whether higher-scored tweets earn better replies"
+            bucketLabel="Score"
+            rows={analytics.replyPerformance?.byScore || []}
+          />
+          <ReplyPerformanceTable
+            title="By Account Size"
+            description="Follower count of the account replied to"
+            bucketLabel="Followers"
+            rows={analytics.replyPerformance?.byAccountSize || []}
+          />
+          <ReplyPerformanceTable
+            title="By Time of Day"
+            description="Hour the reply was posted (UTC)"
+            bucketLabel="Hour"
+            rows={(analytics.replyPerformance?.byHour || []).map(row => ({ ...row, bucket: `${row.bucket.padStart(2, '0')}:00` }))}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -1,47 +1,117 @@
 "use client";
 
-import { Bar, BarChart, ResponsiveContainer, XAxis, YAxis, Tooltip } from "recharts";
+import { useState, useEffect } from "react";
+import axios from "axios";
+import { Line, LineChart, ResponsiveContainer, XAxis, YAxis, Tooltip, Legend } from "recharts";
+import { Loader2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 
-const mockData = [
-  { hour: "00:00", likes: 45, retweets: 12, replies: 8 },
-  { hour: "06:00", likes: 78, retweets: 23, replies: 15 },
-  { hour: "12:00", likes: 123, retweets: 45, replies: 32 },
-  { hour: "18:00", likes: 89, retweets: 34, replies: 21 },
-];
+interface EngagementMetricsProps {
+  agentId: string;
+}
+
+interface GrowthCurvePoint {
+  hours: number;
+  likes: number;
+  retweets: number;
+  replies: number;
+  tweets: number;
+}
+
+interface TweetMetrics {
+  periodDays: number;
+  tweets: number;
+  avgLikes: number;
+  avgRetweets: number;
+  avgReplies: number;
+  lastSyncedAt: string | null;
+  growthCurve: GrowthCurvePoint[];
+}
+
+const formatAge = (hours: number) => (hours < 24 ? `${hours}h` : `${hours / 24}d`);
+
+export function EngagementMetrics({ agentId }: EngagementMetricsProps) {
+  const [metrics, setMetrics] = useState<TweetMetrics | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const loadMetrics = async () => {
+      setLoading(true);
+      try {
+        const response = await axios.get(`/api/agents/${agentId}/tweet-metrics`);
+        if (response.data.success) {
+          setMetrics(response.data.metrics);
+        }
+      } catch (error) {
+        console.error('Error loading tweet metrics:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (agentId) {
+      loadMetrics();
+    }
+  }, [agentId]);
+
+  if (loading || !metrics) {
+    return (
+      <div className="flex items-center justify-center h-[300px] text-muted-foreground">
+        {loading ? <Loader2 className="h-6 w-6 animate-spin" /> : "No engagement data yet."}
+      </div>
+    );
+  }
+
+  const curve = metrics.growthCurve.map(point => ({ ...point, age: formatAge(point.hours) }));
 
-export function EngagementMetrics() {
   return (
     <div className="space-y-4 pt-4">
       <div className="grid grid-cols-3 gap-4">
         <div className="rounded-lg border p-3">
           <div className="text-sm font-medium">Avg. Likes</div>
-          <div className="text-2xl font-bold">83.75</div>
+          <div className="text-2xl font-bold">{metrics.avgLikes}</div>
           <div className="text-xs text-muted-foreground">per tweet</div>
         </div>
         <div className="rounded-lg border p-3">
           <div className="text-sm font-medium">Avg. Retweets</div>
-          <div className="text-2xl font-bold">28.5</div>
+          <div className="text-2xl font-bold">{metrics.avgRetweets}</div>
           <div className="text-xs text-muted-foreground">per tweet</div>
         </div>
         <div className="rounded-lg border p-3">
           <div className="text-sm font-medium">Avg. Replies</div>
-          <div className="text-2xl font-bold">19</div>
+          <div className="text-2xl font-bold">{metrics.avgReplies}</div>
           <div className="text-xs text-muted-foreground">per tweet</div>
         </div>
       </div>
 
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          Average engagement by time since posting, across {metrics.tweets} tweet{metrics.tweets === 1 ? '' : 's'} from the last {metrics.periodDays} days
+        </span>
+        {metrics.lastSyncedAt && (
+          <span>Updated {formatDistanceToNow(new Date(metrics.lastSyncedAt), { addSuffix: true })}</span>
+        )}
+      </div>
+
       <div className="h-[300px] pt-4">
-        <ResponsiveContainer width="100%" height="100%">
-          <BarChart data={mockData}>
-            <XAxis dataKey="hour" />
-            <YAxis />
-            <Tooltip />
-            <Bar dataKey="likes" fill="hsl(var(--primary))" />
-            <Bar dataKey="retweets" fill="hsl(var(--accent-blue))" />
-            <Bar dataKey="replies" fill="hsl(var(--accent-purple))" />
-          </BarChart>
-        </ResponsiveContainer>
+        {curve.length > 0 ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={curve}>
+              <XAxis dataKey="age" />
+              <YAxis />
+              <Tooltip />
+              <Legend />
+              <Line type="monotone" dataKey="likes" name="Likes" stroke="hsl(var(--primary))" strokeWidth={2} />
+              <Line type="monotone" dataKey="retweets" name="Retweets" stroke="hsl(var(--accent-blue))" strokeWidth={2} />
+              <Line type="monotone" dataKey="replies" name="Replies" stroke="hsl(var(--accent-purple))" strokeWidth={2} />
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+            Growth curves appear once posted tweets have been tracked for an hour.
+          </div>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,58 +1,187 @@
 "use client";
 
+import { useState, useEffect } from "react";
+import axios from "axios";
+import { Loader2 } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
 
-const timeSlots = [
-  { time: "9:00 AM - 11:00 AM", engagement: 2.4, audience: "Tech professionals" },
-  { time: "12:00 PM - 2:00 PM", engagement: 1.8, audience: "General" },
-  { time: "4:00 PM - 6:00 PM", engagement: 2.1, audience: "After work" },
-];
+interface PostingTimesProps {
+  agentId: string;
+}
 
-const recommendations = [
-  "Schedule important announcements between 9 AM - 11 AM",
-  "Engagement peaks during lunch hours (12 PM - 2 PM)",
-  "Technical content performs best in morning slots",
-];
+interface HourOfWeekStats {
+  hourOfWeek: number;
+  day: number;
+  hour: number;
+  tweets: number;
+  avgEngagement: number;
+  lift: number;
+}
+
+interface PostingTimeAnalysis {
+  timezone: string;
+  periodDays: number;
+  tweets: number;
+  avgEngagement: number;
+  hours: HourOfWeekStats[];
+  recommendations: HourOfWeekStats[];
+  preferredHours: number[];
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatHour = (hour: number) => `${hour % 12 || 12} ${hour < 12 ? "AM" : "PM"}`;
+
+const formatSlot = (slot: HourOfWeekStats) =>
+  `${WEEKDAYS[slot.day]} ${formatHour(slot.hour)} - ${formatHour((slot.hour + 1) % 24)}`;
+
+export function PostingTimes({ agentId }: PostingTimesProps) {
+  const { toast } = useToast();
+  const [analysis, setAnalysis] = useState<PostingTimeAnalysis | null>(null);
+  const [optimize, setOptimize] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadAnalysis = async () => {
+      setLoading(true);
+      try {
+        const response = await axios.get(`/api/agents/${agentId}/posting-times`);
+        if (response.data.success) {
+          setAnalysis(response.data.analysis);
+          setOptimize(response.data.optimize);
+        }
+      } catch (error) {
+        console.error('Error loading posting times:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (agentId) {
+      loadAnalysis();
+    }
+  }, [agentId]);
+
+  const toggleOptimize = async (enabled: boolean) => {
+    setOptimize(enabled);
+    setIsSaving(true);
+    try {
+      const response = await axios.put(`/api/agents/${agentId}/posting-times`, { optimize: enabled });
+      setOptimize(response.data.optimize);
+      toast({
+        title: enabled ? "Schedule optimization on" : "Schedule optimization off",
+        description: enabled
+          ? "Auto-tweets will favor the best-performing hours from the next cycle."
+          : "Auto-tweets will be spread evenly from the next cycle.",
+      });
+    } catch (error) {
+      console.error('Error updating posting time optimization:', error);
+      setOptimize(!enabled);
+      toast({
+        title: "Failed to update setting",
+        description: "Could not update schedule optimization.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading || !analysis) {
+    return (
+      <div className="flex items-center justify-center h-[300px] text-muted-foreground">
+        {loading ? <Loader2 className="h-6 w-6 animate-spin" /> : "No posting data yet."}
+      </div>
+    );
+  }
+
+  const statsByHour = new Map(analysis.hours.map(stats => [stats.hourOfWeek, stats]));
+  const maxLift = Math.max(1, ...analysis.hours.map(stats => stats.lift));
 
-export function PostingTimes() {
   return (
     <div className="space-y-6 pt-4">
+      <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+        <div className="space-y-1">
+          <Label className="text-sm font-medium">Optimize auto-tweet schedule</Label>
+          <p className="text-xs text-muted-foreground">
+            Place auto-tweets in the recommended hours, within the agent&apos;s active hours. Until there is
+            enough data, tweets are spread evenly.
+          </p>
+        </div>
+        <Switch checked={optimize} onCheckedChange={toggleOptimize} disabled={isSaving} />
+      </div>
+
       <div>
-        <h4 className="mb-4 text-sm font-medium">Optimal Posting Times</h4>
-        <div className="space-y-3">
-          {timeSlots.map((slot) => (
-            <Card key={slot.time} className="p-4">
-              <div className="flex items-center justify-between">
-                <div>
-                  <div className="font-medium">{slot.time}</div>
-                  <div className="text-sm text-muted-foreground">
-                    {slot.audience}
+        <h4 className="mb-1 text-sm font-medium">Optimal Posting Times</h4>
+        <p className="mb-4 text-xs text-muted-foreground">
+          From {analysis.tweets} tweet{analysis.tweets === 1 ? "" : "s"} over the last {analysis.periodDays} days,
+          compared by engagement a day after posting ({analysis.timezone.replace(/_/g, " ")} time)
+        </p>
+        {analysis.recommendations.length > 0 ? (
+          <div className="space-y-3">
+            {analysis.recommendations.map((slot) => (
+              <Card key={slot.hourOfWeek} className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">{formatSlot(slot)}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {slot.tweets} tweets · {slot.avgEngagement} avg. engagement
+                    </div>
                   </div>
+                  <Badge variant="secondary">
+                    {slot.lift}x engagement
+                  </Badge>
                 </div>
-                <Badge variant="secondary">
-                  {slot.engagement}x engagement
-                </Badge>
-              </div>
-            </Card>
-          ))}
-        </div>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <div className="rounded-lg border p-3 text-sm text-muted-foreground">
+            Not enough tracked tweets to recommend times yet. Recommendations appear once at least 10 posted
+            tweets have a day of engagement and some hours stand out.
+          </div>
+        )}
       </div>
 
-      <div>
-        <h4 className="mb-4 text-sm font-medium">Recommendations</h4>
-        <div className="space-y-2">
-          {recommendations.map((rec, i) => (
-            <div
-              key={i}
-              className="flex items-center space-x-2 rounded-lg border p-3"
-            >
-              <div className="h-2 w-2 rounded-full bg-primary" />
-              <span className="text-sm">{rec}</span>
+      {analysis.hours.length > 0 && (
+        <div>
+          <h4 className="mb-4 text-sm font-medium">Engagement by Hour</h4>
+          <div className="space-y-1">
+            {WEEKDAYS.map((label, day) => (
+              <div key={label} className="flex items-center gap-1">
+                <span className="w-8 text-xs text-muted-foreground">{label}</span>
+                <div className="grid flex-1 gap-px" style={{ gridTemplateColumns: "repeat(24, minmax(0, 1fr))" }}>
+                  {Array.from({ length: 24 }, (_, hour) => {
+                    const stats = statsByHour.get(day * 24 + hour);
+                    return (
+                      <div
+                        key={hour}
+                        className={`h-4 rounded-sm ${stats ? "bg-primary" : "bg-muted"}`}
+                        style={stats ? { opacity: 0.15 + 0.85 * (stats.lift / maxLift) } : undefined}
+                        title={stats
+                          ? `${WEEKDAYS[day]} ${formatHour(hour)}: ${stats.tweets} tweets, ${stats.avgEngagement} avg. engagement`
+                          : `${WEEKDAYS[day]} ${formatHour(hour)}: no tweets`}
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+            <div className="flex justify-between pl-9 text-xs text-muted-foreground">
+              <span>12 AM</span>
+              <span>6 AM</span>
+              <span>12 PM</span>
+              <span>6 PM</span>
+              <span>11 PM</span>
             </div>
-          ))}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
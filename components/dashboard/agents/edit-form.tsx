@@ -31,6 +31,16 @@ const updateAgentSchema = z.object({
     hashtagsToTrack: z.array(z.string()),
     accountsToMonitor: z.array(z.string()),
   }),
+  llmProvider: z.enum(["openrouter", "openai", "local"]),
+  llmModel: z.string().max(200, "Model name cannot exceed 200 characters"),
+  llmTemperature: z.string().refine(
+    (value) => value === "" || (Number(value) >= 0 && Number(value) <= 2),
+    "Temperature must be between 0 and 2"
+  ),
+  llmMaxTokens: z.string().refine(
+    (value) => value === "" || (Number.isInteger(Number(value)) && Number(value) >= 16 && Number(value) <= 4000),
+    "Max tokens must be a whole number between 16 and 4000"
+  ),
 });
 
 type UpdateAgentFormValues = z.infer<typeof updateAgentSchema>;
@@ -50,8 +60,19 @@ interface Agent {
     hashtagsToTrack: string[];
     accountsToMonitor: string[];
   };
+  llmProvider?: "openrouter" | "openai" | "local";
+  llmModel?: string | null;
+  llmTemperature?: number | null;
+  llmMaxTokens?: number | null;
 }
 
+// Placeholder shown when the model field is left empty
+const DEFAULT_MODEL_HINTS: Record<UpdateAgentFormValues["llmProvider"], string> = {
+  openrouter: "deepseek/deepseek-chat-v3-0324",
+  openai: "gpt-4o-mini",
+  local: "llama3.1",
+};
+
 interface AgentUpdateFormProps {
   agent: Agent;
 }
@@ -82,11 +103,16 @@ export function AgentUpdateForm({ agent }: AgentUpdateFormProps) {
         hashtagsToTrack: agent.specialHooks?.hashtagsToTrack || [],
         accountsToMonitor: agent.specialHooks?.accountsToMonitor || [],
       },
+      llmProvider: agent.llmProvider || "openrouter",
+      llmModel: agent.llmModel || "",
+      llmTemperature: agent.llmTemperature != null ? String(agent.llmTemperature) : "",
+      llmMaxTokens: agent.llmMaxTokens != null ? String(agent.llmMaxTokens) : "",
     },
   });
 
   const watchedBrand = form.watch("brand");
   const watchedSpecialHooks = form.watch("specialHooks");
+  const watchedProvider = form.watch("llmProvider");
 
   const addInterests = () => {
     if (interests.trim()) {
@@ -140,8 +166,13 @@ export function AgentUpdateForm({ agent }: AgentUpdateFormProps) {
     setIsLoading(true);
 
     try {
-      // Update agent via API
-      const response = await axios.put(`/api/agents/${agent.agentId}`, values);
+      // Update agent via API (empty model settings fall back to the provider defaults)
+      const response = await axios.put(`/api/agents/${agent.agentId}`, {
+        ...values,
+        llmModel: values.llmModel.trim() || null,
+        llmTemperature: values.llmTemperature === "" ? null : Number(values.llmTemperature),
+        llmMaxTokens: values.llmMaxTokens === "" ? null : Number(values.llmMaxTokens),
+      });
 
       toast({
         title: "Agent Updated",
@@ -444,6 +475,85 @@ export function AgentUpdateForm({ agent }: AgentUpdateFormProps) {
                 )}
               </div>
             </div>
+
+            {/* Model Settings */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium">Model Settings</h3>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="llmProvider"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Provider</FormLabel>
+                      <FormControl>
+                        <Select
+                          onValueChange={field.onChange}
+                          defaultValue={field.value}
+                          disabled={isLoading}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select provider" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="openrouter">OpenRouter</SelectItem>
+                            <SelectItem value="openai">OpenAI</SelectItem>
+                            <SelectItem value="local">Local (Ollama, llama.cpp)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="llmModel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Model</FormLabel>
+                      <FormControl>
+                        <Input placeholder={DEFAULT_MODEL_HINTS[watchedProvider]} {...field} disabled={isLoading} />
+                      </FormControl>
+                      <FormDescription>
+                        Leave empty to use the provider default.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="llmTemperature"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Temperature</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.1" min="0" max="2" placeholder="0.9" {...field} disabled={isLoading} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="llmMaxTokens"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max Tokens</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="1" min="16" max="4000" placeholder="500" {...field} disabled={isLoading} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
           </CardContent>
           <CardFooter className="flex justify-between">
             <Button
@@ -0,0 +1,426 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import axios from "axios";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  CheckCircle,
+  XCircle,
+  Mail,
+  Loader2,
+  RefreshCw,
+  Save,
+  AlertCircle
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { motion, AnimatePresence } from "framer-motion";
+import { useToast } from "@/hooks/use-toast";
+
+interface DmInboxProps {
+  agentId: string;
+  className?: string;
+}
+
+type InboxFilter = 'needs_reply' | 'all';
+
+interface DmSettings {
+  enabled: boolean;
+  autoSendEnabled: boolean;
+  faq: string | null;
+  lastSyncTime: string | null;
+}
+
+interface DmDraft {
+  dmReplyId: string;
+  replyText: string;
+  status: string;
+  error: string | null;
+}
+
+interface DmConversation {
+  dmConversationId: string;
+  participantUsername: string | null;
+  lastMessageAt: string | null;
+  needsReply: boolean;
+  messages: Array<{
+    messageId: string;
+    text: string;
+    fromAgent: boolean;
+    sentAt: string;
+  }>;
+  draft: DmDraft | null;
+}
+
+const FILTER_TABS: Array<{ value: InboxFilter; label: string }> = [
+  { value: 'needs_reply', label: 'Needs Reply' },
+  { value: 'all', label: 'All Conversations' }
+];
+
+const MAX_FAQ_LENGTH = 5000;
+
+export function DmInbox({ agentId, className }: DmInboxProps) {
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<InboxFilter>('needs_reply');
+  const [settings, setSettings] = useState<DmSettings | null>(null);
+  const [faqDraft, setFaqDraft] = useState("");
+  const [conversations, setConversations] = useState<DmConversation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const getErrorMessage = (error: unknown) => {
+    if (axios.isAxiosError(error)) {
+      return error.response?.data?.error || "Failed to communicate with the server.";
+    }
+    return error instanceof Error ? error.message : "An unexpected error occurred.";
+  };
+
+  const loadConversations = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await axios.get(`/api/agents/${agentId}/messages`, {
+        params: { filter }
+      });
+      if (response.data.success) {
+        setConversations(response.data.conversations);
+        setDrafts({});
+      }
+    } catch (error) {
+      console.error("Error loading conversations:", error);
+      toast({
+        title: "Failed to load messages",
+        description: "Could not fetch the DM inbox",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [agentId, filter, toast]);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await axios.get(`/api/agents/${agentId}/messages/settings`);
+        if (response.data.success) {
+          setSettings(response.data.settings);
+          setFaqDraft(response.data.settings.faq || "");
+        }
+      } catch (error) {
+        console.error("Error loading DM settings:", error);
+      }
+    };
+
+    if (agentId) {
+      loadSettings();
+    }
+  }, [agentId]);
+
+  useEffect(() => {
+    if (agentId) {
+      loadConversations();
+    }
+  }, [agentId, loadConversations]);
+
+  const saveSettings = async (changes: Partial<Pick<DmSettings, 'enabled' | 'autoSendEnabled' | 'faq'>>) => {
+    setActionLoading('settings');
+    try {
+      const response = await axios.put(`/api/agents/${agentId}/messages/settings`, changes);
+      setSettings(response.data.settings);
+      setFaqDraft(response.data.settings.faq || "");
+    } catch (error) {
+      console.error("Error saving DM settings:", error);
+      toast({
+        title: "Failed to save settings",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const syncInbox = async () => {
+    setActionLoading('sync');
+    try {
+      const response = await axios.post(`/api/agents/${agentId}/messages`, { action: 'sync' });
+      toast({
+        title: "Inbox synced",
+        description: response.data.message,
+      });
+      await loadConversations();
+    } catch (error) {
+      console.error("Error syncing DM inbox:", error);
+      toast({
+        title: "Sync failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const updateDraft = async (draft: DmDraft, action: 'approve' | 'reject' | 'edit') => {
+    const text = drafts[draft.dmReplyId];
+    const editedText = text !== undefined && text !== draft.replyText ? text : undefined;
+
+    setActionLoading(`${draft.dmReplyId}_${action}`);
+    try {
+      const response = await axios.patch(`/api/agents/${agentId}/messages/replies/${draft.dmReplyId}`, {
+        action,
+        ...(editedText !== undefined && { replyText: editedText })
+      });
+
+      toast({
+        title: response.data.message || "Reply updated",
+      });
+      await loadConversations();
+    } catch (error) {
+      console.error(`Error performing ${action} on DM reply:`, error);
+      toast({
+        title: "Failed to update reply",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const faqChanged = settings !== null && faqDraft.trim() !== (settings.faq || "");
+
+  return (
+    <div className={`space-y-6 ${className || ''}`}>
+      <Card>
+        <CardHeader>
+          <CardTitle>DM Settings</CardTitle>
+          <CardDescription>
+            The agent drafts a reply to each new message. Drafts are only sent once you approve them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!settings ? (
+            <div className="flex items-center justify-center h-24">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="text-sm font-medium">Sync direct messages</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Checks the agent&apos;s X inbox every 15 minutes while the agent is running.
+                  </p>
+                </div>
+                <Switch
+                  checked={settings.enabled}
+                  onCheckedChange={enabled => saveSettings({ enabled })}
+                  disabled={actionLoading !== null}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="text-sm font-medium">Auto-send FAQ answers</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Sends a draft without review when it fully answers a simple question from the FAQ below.
+                  </p>
+                </div>
+                <Switch
+                  checked={settings.autoSendEnabled}
+                  onCheckedChange={autoSendEnabled => saveSettings({ autoSendEnabled })}
+                  disabled={actionLoading !== null || !settings.enabled}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">FAQ</Label>
+                <Textarea
+                  value={faqDraft}
+                  maxLength={MAX_FAQ_LENGTH}
+                  onChange={(event) => setFaqDraft(event.target.value)}
+                  placeholder={"Q: Do you offer a free trial?\nA: Yes, 14 days with no card required"}
+                  className="min-h-[120px]"
+                />
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-muted-foreground">{faqDraft.length}/{MAX_FAQ_LENGTH}</p>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => saveSettings({ faq: faqDraft.trim() || null })}
+                    disabled={actionLoading !== null || !faqChanged}
+                  >
+                    {actionLoading === 'settings' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                    Save FAQ
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Mail className="h-5 w-5 text-[hsl(var(--primary))]" />
+                Direct Messages
+              </CardTitle>
+              <CardDescription>
+                {settings?.lastSyncTime
+                  ? `Last synced ${formatDistanceToNow(new Date(settings.lastSyncTime), { addSuffix: true })}. Approved replies are sent within a minute.`
+                  : "Approved replies are sent within a minute."}
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={syncInbox}
+              disabled={loading || actionLoading !== null || !settings?.enabled}
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${actionLoading === 'sync' ? 'animate-spin' : ''}`} />
+              Sync Now
+            </Button>
+          </div>
+          <Tabs value={filter} onValueChange={(value) => setFilter(value as InboxFilter)} className="pt-2">
+            <TabsList className="grid w-full grid-cols-2">
+              {FILTER_TABS.map(tab => (
+                <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center h-48">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" />
+              Loading messages...
+            </div>
+          ) : conversations.length === 0 ? (
+            <div className="flex items-center justify-center h-48 text-muted-foreground">
+              <div className="text-center">
+                <Mail className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No conversations here.</p>
+                {!settings?.enabled && (
+                  <p className="text-sm">Turn on DM sync above to pull in the agent&apos;s messages.</p>
+                )}
+              </div>
+            </div>
+          ) : (
+            <AnimatePresence initial={false}>
+              {conversations.map(conversation => {
+                const draft = conversation.draft;
+                const text = draft ? drafts[draft.dmReplyId] ?? draft.replyText : "";
+                const isEdited = draft !== null && text !== draft.replyText;
+                const isReviewable = draft !== null && (draft.status === 'pending' || draft.status === 'failed');
+
+                return (
+                  <motion.div
+                    key={conversation.dmConversationId}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -10 }}
+                    className="rounded-lg border border-[hsl(var(--macadamia-beige))] dark:border-gray-700 p-4 space-y-3"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-semibold">
+                        {conversation.participantUsername ? `@${conversation.participantUsername}` : 'Unknown user'}
+                      </span>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {conversation.needsReply && <Badge variant="secondary">Needs reply</Badge>}
+                        {conversation.lastMessageAt && formatDistanceToNow(new Date(conversation.lastMessageAt), { addSuffix: true })}
+                      </div>
+                    </div>
+
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                      {conversation.messages.map(message => (
+                        <div key={message.messageId} className={`flex ${message.fromAgent ? 'justify-end' : 'justify-start'}`}>
+                          <p
+                            className={`text-sm whitespace-pre-wrap rounded-lg px-3 py-2 max-w-[80%] ${
+                              message.fromAgent
+                                ? 'bg-[hsl(var(--primary))]/10'
+                                : 'bg-slate-100 dark:bg-slate-800'
+                            }`}
+                          >
+                            {message.text || <span className="italic text-muted-foreground">Media</span>}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+
+                    {draft && (
+                      <div className="space-y-2 border-t pt-3">
+                        <div className="flex items-center justify-between text-xs text-muted-foreground">
+                          <span>Drafted reply</span>
+                          {draft.status === 'approved' && <Badge variant="secondary">Sending soon</Badge>}
+                          {draft.status === 'failed' && <Badge variant="destructive">Failed</Badge>}
+                        </div>
+                        {draft.status === 'failed' && draft.error && (
+                          <p className="flex items-center text-xs text-red-600">
+                            <AlertCircle className="h-3 w-3 mr-1" />
+                            {draft.error}
+                          </p>
+                        )}
+                        {isReviewable ? (
+                          <Textarea
+                            value={text}
+                            onChange={(event) => setDrafts({ ...drafts, [draft.dmReplyId]: event.target.value })}
+                            className="min-h-[80px]"
+                          />
+                        ) : (
+                          <p className="text-sm whitespace-pre-wrap rounded-md bg-slate-50 dark:bg-slate-900/50 p-3">{draft.replyText}</p>
+                        )}
+
+                        {isReviewable && (
+                          <div className="flex justify-end gap-2">
+                            {isEdited && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => updateDraft(draft, 'edit')}
+                                disabled={actionLoading !== null || !text.trim()}
+                              >
+                                {actionLoading === `${draft.dmReplyId}_edit` ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                                Save Edit
+                              </Button>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => updateDraft(draft, 'reject')}
+                              disabled={actionLoading !== null}
+                            >
+                              {actionLoading === `${draft.dmReplyId}_reject` ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <XCircle className="h-4 w-4 mr-2" />}
+                              Reject
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={() => updateDraft(draft, 'approve')}
+                              disabled={actionLoading !== null || !text.trim()}
+                            >
+                              {actionLoading === `${draft.dmReplyId}_approve` ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+                              {isEdited ? 'Save & Send' : 'Approve & Send'}
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </motion.div>
+                );
+              })}
+            </AnimatePresence>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import axios from "axios";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  CheckCircle,
+  XCircle,
+  Inbox,
+  Loader2,
+  RefreshCw,
+  ExternalLink,
+  Save
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { motion, AnimatePresence } from "framer-motion";
+import { useToast } from "@/hooks/use-toast";
+
+interface ReplyInboxProps {
+  agentId: string;
+  className?: string;
+}
+
+type InboxStatus = 'pending' | 'approved' | 'rejected' | 'failed';
+
+interface InboxReply {
+  replyId: string;
+  originalTweetId: string;
+  originalTweetText: string;
+  originalTweetUser: string;
+  replyText: string;
+  status: string;
+  score: number;
+  source: 'engage' | 'mention';
+  scheduledTime: string | null;
+  createdAt: string;
+}
+
+const STATUS_TABS: Array<{ value: InboxStatus; label: string }> = [
+  { value: 'pending', label: 'Needs Review' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'rejected', label: 'Rejected' }
+];
+
+const MAX_REPLY_LENGTH = 280;
+
+export function ReplyInbox({ agentId, className }: ReplyInboxProps) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<InboxStatus>('pending');
+  const [replies, setReplies] = useState<InboxReply[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const loadReplies = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await axios.get(`/api/agents/${agentId}/replies`, {
+        params: { status, limit: 100, sortBy: 'createdAt', sortOrder: 'desc' }
+      });
+      if (response.data.success) {
+        setReplies(response.data.data.replies);
+        setSelectedIds(new Set());
+        setDrafts({});
+      }
+    } catch (error) {
+      console.error("Error loading replies:", error);
+      toast({
+        title: "Failed to load replies",
+        description: "Could not fetch the reply inbox",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [agentId, status, toast]);
+
+  useEffect(() => {
+    if (agentId) {
+      loadReplies();
+    }
+  }, [agentId, loadReplies]);
+
+  const getErrorMessage = (error: unknown) => {
+    if (axios.isAxiosError(error)) {
+      return error.response?.data?.error || "Failed to communicate with the server.";
+    }
+    return error instanceof Error ? error.message : "An unexpected error occurred.";
+  };
+
+  const updateReply = async (reply: InboxReply, action: 'approve' | 'reject' | 'edit') => {
+    const draft = drafts[reply.replyId];
+    const editedText = draft !== undefined && draft !== reply.replyText ? draft : undefined;
+
+    setActionLoading(`${reply.replyId}_${action}`);
+    try {
+      const response = await axios.patch(`/api/agents/${agentId}/replies/${reply.replyId}`, {
+        action,
+        ...(editedText !== undefined && { replyText: editedText })
+      });
+
+      toast({
+        title: response.data.message || "Reply updated",
+      });
+      await loadReplies();
+    } catch (error) {
+      console.error(`Error performing ${action} on reply:`, error);
+      toast({
+        title: "Failed to update reply",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const bulkUpdate = async (action: 'approve' | 'reject') => {
+    if (selectedIds.size === 0) return;
+
+    setActionLoading(`bulk_${action}`);
+    try {
+      const response = await axios.post(`/api/agents/${agentId}/replies/bulk`, {
+        action,
+        replyIds: Array.from(selectedIds)
+      });
+
+      toast({
+        title: action === 'approve' ? "Replies Approved ✅" : "Replies Rejected",
+        description: response.data.message,
+      });
+      await loadReplies();
+    } catch (error) {
+      console.error(`Error performing bulk ${action}:`, error);
+      toast({
+        title: "Bulk update failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const toggleSelected = (replyId: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(replyId);
+    } else {
+      next.delete(replyId);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(replies.map(reply => reply.replyId)) : new Set());
+  };
+
+  const isReviewable = status === 'pending' || status === 'failed';
+  const allSelected = replies.length > 0 && selectedIds.size === replies.length;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Inbox className="h-5 w-5 text-[hsl(var(--primary))]" />
+              Auto-Engage Replies
+            </CardTitle>
+            <CardDescription>
+              Approved replies are posted by the scheduler within a minute.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadReplies} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+        <Tabs value={status} onValueChange={(value) => setStatus(value as InboxStatus)} className="pt-2">
+          <TabsList className="grid w-full grid-cols-4">
+            {STATUS_TABS.map(tab => (
+              <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isReviewable && replies.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 px-4 py-3">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <Checkbox checked={allSelected} onCheckedChange={(checked) => toggleAll(checked === true)} />
+              {selectedIds.size > 0 ? `${selectedIds.size} selected` : 'Select all'}
+            </label>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => bulkUpdate('reject')}
+                disabled={selectedIds.size === 0 || actionLoading !== null}
+              >
+                {actionLoading === 'bulk_reject' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <XCircle className="h-4 w-4 mr-2" />}
+                Reject Selected
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => bulkUpdate('approve')}
+                disabled={selectedIds.size === 0 || actionLoading !== null}
+              >
+                {actionLoading === 'bulk_approve' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+                Approve Selected
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-48">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading replies...
+          </div>
+        ) : replies.length === 0 ? (
+          <div className="flex items-center justify-center h-48 text-muted-foreground">
+            <div className="text-center">
+              <Inbox className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No replies here.</p>
+              {status === 'pending' && (
+                <p className="text-sm">Replies drafted by auto-engage will show up here for review.</p>
+              )}
+            </div>
+          </div>
+        ) : (
+          <AnimatePresence initial={false}>
+            {replies.map(reply => {
+              const draft = drafts[reply.replyId] ?? reply.replyText;
+              const isEdited = draft !== reply.replyText;
+
+              return (
+                <motion.div
+                  key={reply.replyId}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  className="rounded-lg border border-[hsl(var(--macadamia-beige))] dark:border-gray-700 p-4 space-y-3"
+                >
+                  <div className="flex items-start gap-3">
+                    {isReviewable && (
+                      <Checkbox
+                        className="mt-1"
+                        checked={selectedIds.has(reply.replyId)}
+                        onCheckedChange={(checked) => toggleSelected(reply.replyId, checked === true)}
+                      />
+                    )}
+                    <div className="flex-1 space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <a
+                          href={`https://x.com/${reply.originalTweetUser}/status/${reply.originalTweetId}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center text-sm font-semibold hover:underline"
+                        >
+                          @{reply.originalTweetUser}
+                          <ExternalLink className="h-3 w-3 ml-1" />
+                        </a>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          {reply.source === 'mention' && <Badge variant="outline">Mention</Badge>}
+                          {reply.score > 0 && <Badge variant="secondary">Score {reply.score}</Badge>}
+                          {formatDistanceToNow(new Date(reply.createdAt), { addSuffix: true })}
+                        </div>
+                      </div>
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">{reply.originalTweetText}</p>
+                    </div>
+                  </div>
+
+                  {isReviewable ? (
+                    <div className="space-y-1">
+                      <Textarea
+                        value={draft}
+                        maxLength={MAX_REPLY_LENGTH}
+                        onChange={(event) => setDrafts({ ...drafts, [reply.replyId]: event.target.value })}
+                        className="min-h-[80px]"
+                      />
+                      <p className="text-xs text-muted-foreground text-right">{draft.length}/{MAX_REPLY_LENGTH}</p>
+                    </div>
+                  ) : (
+                    <p className="text-sm whitespace-pre-wrap rounded-md bg-slate-50 dark:bg-slate-900/50 p-3">{reply.replyText}</p>
+                  )}
+
+                  {status === 'approved' && reply.scheduledTime && (
+                    <p className="text-xs text-muted-foreground">
+                      Posting {formatDistanceToNow(new Date(reply.scheduledTime), { addSuffix: true })}
+                    </p>
+                  )}
+
+                  <div className="flex justify-end gap-2">
+                    {isReviewable && isEdited && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => updateReply(reply, 'edit')}
+                        disabled={actionLoading !== null || !draft.trim()}
+                      >
+                        {actionLoading === `${reply.replyId}_edit` ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                        Save Edit
+                      </Button>
+                    )}
+                    {status !== 'rejected' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => updateReply(reply, 'reject')}
+                        disabled={actionLoading !== null}
+                      >
+                        {actionLoading === `${reply.replyId}_reject` ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <XCircle className="h-4 w-4 mr-2" />}
+                        Reject
+                      </Button>
+                    )}
+                    {status !== 'approved' && (
+                      <Button
+                        size="sm"
+                        onClick={() => updateReply(reply, 'approve')}
+                        disabled={actionLoading !== null || !draft.trim()}
+                      >
+                        {actionLoading === `${reply.replyId}_approve` ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+                        {isEdited ? 'Save & Approve' : 'Approve'}
+                      </Button>
+                    )}
+                  </div>
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
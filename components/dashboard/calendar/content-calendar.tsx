@@ -0,0 +1,437 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import axios from "axios";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  setHours,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { CalendarDays, ChevronLeft, ChevronRight, ExternalLink, Loader2, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { type Agent } from "@/app/dashboard/agents/types";
+import { FailedTweets } from "./failed-tweets";
+
+type CalendarView = "week" | "month";
+
+interface CalendarTweet {
+  tweetId: string;
+  text: string;
+  postTime: string;
+  status: "reserved" | "scheduled" | "posting" | "posted" | "failed";
+  url: string | null;
+  twitterTweetId: string | null;
+  threadId: string | null;
+  threadPosition: number | null;
+  attempts: number;
+  lastError: string | null;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const MAX_TWEET_LENGTH = 280;
+
+const statusStyles: Record<CalendarTweet["status"], string> = {
+  reserved: "border-dashed bg-slate-50 text-slate-600 border-slate-300 dark:bg-slate-900/40 dark:text-slate-300 dark:border-slate-700",
+  scheduled: "bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/40 dark:text-blue-200 dark:border-blue-800 cursor-grab",
+  posting: "bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-900/40 dark:text-amber-200 dark:border-amber-800",
+  posted: "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/40 dark:text-green-200 dark:border-green-800",
+  failed: "bg-red-100 text-red-800 border-red-200 dark:bg-red-900/40 dark:text-red-200 dark:border-red-800",
+};
+
+export function ContentCalendar() {
+  const { toast } = useToast();
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [agentId, setAgentId] = useState<string | null>(null);
+  const [view, setView] = useState<CalendarView>("week");
+  const [cursor, setCursor] = useState(new Date());
+  const [tweets, setTweets] = useState<CalendarTweet[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState<CalendarTweet | null>(null);
+  const [editText, setEditText] = useState("");
+  const [editTime, setEditTime] = useState("");
+  const [saving, setSaving] = useState<"save" | "cancel" | null>(null);
+
+  // Visible range for the current view
+  const range = useMemo(() => {
+    if (view === "week") {
+      return { start: startOfWeek(cursor), end: endOfWeek(cursor) };
+    }
+    return { start: startOfWeek(startOfMonth(cursor)), end: endOfWeek(endOfMonth(cursor)) };
+  }, [view, cursor]);
+
+  const days = useMemo(() => eachDayOfInterval(range), [range]);
+
+  useEffect(() => {
+    const fetchAgents = async () => {
+      try {
+        const response = await axios.get("/api/agents");
+        setAgents(response.data);
+        if (response.data.length > 0) {
+          setAgentId(response.data[0].agentId);
+        }
+      } catch (error) {
+        console.error("Error fetching agents:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load agents",
+          variant: "destructive",
+        });
+      }
+    };
+    fetchAgents();
+  }, [toast]);
+
+  const loadTweets = useCallback(async () => {
+    if (!agentId) return;
+
+    setLoading(true);
+    try {
+      const response = await axios.get(`/api/agents/${agentId}/scheduled-tweets`, {
+        params: {
+          from: range.start.toISOString(),
+          to: addDays(range.end, 1).toISOString(),
+        },
+      });
+      if (response.data.success) {
+        setTweets(response.data.tweets);
+      }
+    } catch (error) {
+      console.error("Error loading calendar tweets:", error);
+      toast({
+        title: "Failed to load calendar",
+        description: "Could not fetch tweets for this period",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [agentId, range, toast]);
+
+  useEffect(() => {
+    loadTweets();
+  }, [loadTweets]);
+
+  const getErrorMessage = (error: unknown) => {
+    if (axios.isAxiosError(error)) {
+      return error.response?.data?.error || "Failed to communicate with the server.";
+    }
+    return error instanceof Error ? error.message : "An unexpected error occurred.";
+  };
+
+  const rescheduleTweet = async (tweetId: string, postTime: Date) => {
+    if (!agentId) return;
+
+    if (postTime <= new Date()) {
+      toast({
+        title: "Can't schedule in the past",
+        description: "Drop the tweet on a future time slot.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Optimistically move the tweet (and the rest of its thread), then reconcile with the server
+    const threadId = tweets.find(tweet => tweet.tweetId === tweetId)?.threadId;
+    setTweets(current => current.map(tweet =>
+      tweet.tweetId === tweetId || (threadId && tweet.threadId === threadId)
+        ? { ...tweet, postTime: postTime.toISOString() }
+        : tweet
+    ));
+
+    try {
+      await axios.patch(`/api/agents/${agentId}/scheduled-tweets/${tweetId}`, {
+        postTime: postTime.toISOString(),
+      });
+      toast({
+        title: "Tweet rescheduled",
+        description: `Now posting ${format(postTime, "EEE, MMM d 'at' h:mm a")}`,
+      });
+    } catch (error) {
+      console.error("Error rescheduling tweet:", error);
+      toast({
+        title: "Failed to reschedule",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      loadTweets();
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, day: Date, hour?: number) => {
+    event.preventDefault();
+    const tweetId = event.dataTransfer.getData("text/plain");
+    const tweet = tweets.find(t => t.tweetId === tweetId);
+    if (!tweet) return;
+
+    // Keep the original minutes (and hour, in month view) when moving between slots
+    const original = new Date(tweet.postTime);
+    const target = new Date(day);
+    target.setHours(hour ?? original.getHours(), original.getMinutes(), 0, 0);
+
+    if (target.getTime() !== original.getTime()) {
+      rescheduleTweet(tweetId, target);
+    }
+  };
+
+  const openEditor = (tweet: CalendarTweet) => {
+    setEditing(tweet);
+    setEditText(tweet.text);
+    setEditTime(format(new Date(tweet.postTime), "yyyy-MM-dd'T'HH:mm"));
+  };
+
+  const saveEdit = async () => {
+    if (!editing || !agentId) return;
+
+    setSaving("save");
+    try {
+      await axios.patch(`/api/agents/${agentId}/scheduled-tweets/${editing.tweetId}`, {
+        text: editText,
+        postTime: new Date(editTime).toISOString(),
+      });
+      toast({ title: "Scheduled tweet updated" });
+      setEditing(null);
+      await loadTweets();
+    } catch (error) {
+      console.error("Error updating tweet:", error);
+      toast({
+        title: "Failed to update tweet",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const cancelTweet = async () => {
+    if (!editing || !agentId) return;
+
+    setSaving("cancel");
+    try {
+      await axios.delete(`/api/agents/${agentId}/scheduled-tweets/${editing.tweetId}`);
+      toast({ title: "Scheduled tweet cancelled" });
+      setEditing(null);
+      await loadTweets();
+    } catch (error) {
+      console.error("Error cancelling tweet:", error);
+      toast({
+        title: "Failed to cancel tweet",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const renderTweet = (tweet: CalendarTweet) => {
+    const isScheduled = tweet.status === "scheduled";
+    // Auto-tweet slots get their text shortly before they post
+    const text = tweet.status === "reserved" ? "Auto-tweet, written shortly before posting" : tweet.text;
+    return (
+      <button
+        key={tweet.tweetId}
+        type="button"
+        draggable={isScheduled}
+        onDragStart={(event) => event.dataTransfer.setData("text/plain", tweet.tweetId)}
+        onClick={() => isScheduled ? openEditor(tweet) : tweet.url && window.open(tweet.url, "_blank")}
+        className={`w-full truncate rounded border px-1.5 py-0.5 text-left text-[11px] leading-tight ${statusStyles[tweet.status]}`}
+        title={tweet.lastError ? `${text}\n\nLast error: ${tweet.lastError}` : text}
+      >
+        <span className="font-semibold">{format(new Date(tweet.postTime), "h:mm a")}</span>{" "}
+        {tweet.threadId && <span className="font-semibold">🧵{(tweet.threadPosition ?? 0) + 1} </span>}
+        {tweet.status === "reserved" ? <span className="italic">{text}</span> : text}
+      </button>
+    );
+  };
+
+  const navigate = (direction: 1 | -1) => {
+    setCursor(current => view === "week" ? addWeeks(current, direction) : addMonths(current, direction));
+  };
+
+  const tweetsOn = (day: Date, hour?: number) => tweets.filter(tweet => {
+    const postTime = new Date(tweet.postTime);
+    return isSameDay(postTime, day) && (hour === undefined || postTime.getHours() === hour);
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5 text-[hsl(var(--primary))]" />
+            {view === "week"
+              ? `${format(range.start, "MMM d")} – ${format(range.end, "MMM d, yyyy")}`
+              : format(cursor, "MMMM yyyy")}
+            {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={agentId ?? undefined} onValueChange={setAgentId}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Select an agent" />
+              </SelectTrigger>
+              <SelectContent>
+                {agents.map(agent => (
+                  <SelectItem key={agent.agentId} value={agent.agentId}>{agent.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+              <TabsList>
+                <TabsTrigger value="week">Week</TabsTrigger>
+                <TabsTrigger value="month">Month</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="sm" onClick={() => navigate(-1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setCursor(new Date())}>
+                Today
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => navigate(1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {agents.length === 0 && !loading ? (
+          <div className="py-16 text-center text-muted-foreground">
+            Create an agent to start scheduling tweets.
+          </div>
+        ) : view === "week" ? (
+          <div className="max-h-[70vh] overflow-auto rounded-lg border">
+            <div className="grid grid-cols-[4rem_repeat(7,minmax(8rem,1fr))]">
+              <div className="sticky top-0 z-10 border-b bg-background" />
+              {days.map(day => (
+                <div
+                  key={day.toISOString()}
+                  className={`sticky top-0 z-10 border-b border-l bg-background px-2 py-2 text-center text-sm font-medium ${isToday(day) ? "text-[hsl(var(--primary))]" : ""}`}
+                >
+                  {format(day, "EEE d")}
+                </div>
+              ))}
+              {HOURS.map(hour => (
+                <div key={hour} className="contents">
+                  <div className="border-b px-2 py-1 text-right text-xs text-muted-foreground">
+                    {format(setHours(new Date(0), hour), "h a")}
+                  </div>
+                  {days.map(day => (
+                    <div
+                      key={`${day.toISOString()}-${hour}`}
+                      onDragOver={(event) => event.preventDefault()}
+                      onDrop={(event) => handleDrop(event, day, hour)}
+                      className="min-h-[2.5rem] space-y-0.5 border-b border-l p-0.5 hover:bg-muted/40"
+                    >
+                      {tweetsOn(day, hour).map(renderTweet)}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-7 overflow-hidden rounded-lg border">
+            {days.slice(0, 7).map(day => (
+              <div key={day.toISOString()} className="border-b bg-muted/30 px-2 py-2 text-center text-sm font-medium">
+                {format(day, "EEE")}
+              </div>
+            ))}
+            {days.map(day => (
+              <div
+                key={day.toISOString()}
+                onDragOver={(event) => event.preventDefault()}
+                onDrop={(event) => handleDrop(event, day)}
+                className={`min-h-[7rem] space-y-0.5 border-b border-l p-1 hover:bg-muted/40 ${isSameMonth(day, cursor) ? "" : "bg-muted/20 text-muted-foreground"}`}
+              >
+                <div className={`text-xs font-medium ${isToday(day) ? "text-[hsl(var(--primary))]" : ""}`}>
+                  {format(day, "d")}
+                </div>
+                {tweetsOn(day).map(renderTweet)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-4 flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {(Object.keys(statusStyles) as CalendarTweet["status"][]).map(status => (
+            <span key={status} className={`rounded border px-2 py-0.5 capitalize ${statusStyles[status]}`}>{status}</span>
+          ))}
+          <span>Drag a scheduled tweet to reschedule it, or click it to edit.</span>
+        </div>
+
+        {agentId && <FailedTweets key={agentId} agentId={agentId} onRetried={loadTweets} />}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit Scheduled Tweet</DialogTitle>
+            {editing?.threadId && (
+              <DialogDescription>
+                Part {(editing.threadPosition ?? 0) + 1} of a thread. Changing the time moves the whole thread, and cancelling cancels every part.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Textarea
+                value={editText}
+                maxLength={MAX_TWEET_LENGTH}
+                onChange={(event) => setEditText(event.target.value)}
+                className="min-h-[120px]"
+              />
+              <p className="text-right text-xs text-muted-foreground">{editText.length}/{MAX_TWEET_LENGTH}</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="postTime">Post time</Label>
+              <Input
+                id="postTime"
+                type="datetime-local"
+                value={editTime}
+                onChange={(event) => setEditTime(event.target.value)}
+              />
+            </div>
+            {editing?.url && (
+              <a href={editing.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-sm hover:underline">
+                View on X <ExternalLink className="ml-1 h-3 w-3" />
+              </a>
+            )}
+          </div>
+          <DialogFooter className="flex justify-between sm:justify-between">
+            <Button variant="destructive" onClick={cancelTweet} disabled={saving !== null}>
+              {saving === "cancel" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+              {editing?.threadId ? "Cancel Thread" : "Cancel Tweet"}
+            </Button>
+            <Button onClick={saveEdit} disabled={saving !== null || !editText.trim() || !editTime}>
+              {saving === "save" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import axios from "axios";
+import { format } from "date-fns";
+import { AlertTriangle, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+
+interface FailedTweet {
+  tweetId: string;
+  text: string;
+  postTime: string | null;
+  attempts: number;
+  lastError: string | null;
+}
+
+interface FailedTweetsProps {
+  agentId: string;
+  onRetried: () => void;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) ? error.response?.data?.error || fallback : fallback;
+
+/**
+ * Scheduled tweets that ran out of posting attempts, each with a button to put it back in the queue
+ */
+export function FailedTweets({ agentId, onRetried }: FailedTweetsProps) {
+  const { toast } = useToast();
+  const [tweets, setTweets] = useState<FailedTweet[]>([]);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const loadFailedTweets = useCallback(async () => {
+    try {
+      const response = await axios.get(`/api/agents/${agentId}/failed-tweets`);
+      if (response.data.success) {
+        setTweets(response.data.tweets);
+      }
+    } catch (error) {
+      console.error("Error loading failed tweets:", error);
+    }
+  }, [agentId]);
+
+  useEffect(() => {
+    loadFailedTweets();
+  }, [loadFailedTweets]);
+
+  const retryTweet = async (tweetId: string) => {
+    setRetrying(tweetId);
+    try {
+      await axios.post(`/api/agents/${agentId}/failed-tweets/${tweetId}/retry`);
+      setTweets(current => current.filter(tweet => tweet.tweetId !== tweetId));
+      toast({
+        title: "Tweet queued",
+        description: "It will be posted within the next minute.",
+      });
+      onRetried();
+    } catch (error) {
+      console.error("Error retrying tweet:", error);
+      toast({
+        title: "Failed to retry tweet",
+        description: getErrorMessage(error, "Could not queue the tweet."),
+        variant: "destructive",
+      });
+      loadFailedTweets();
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  if (tweets.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6 space-y-3 rounded-lg border border-red-200 p-4 dark:border-red-800">
+      <div className="flex items-center gap-2 text-sm font-semibold text-red-800 dark:text-red-200">
+        <AlertTriangle className="h-4 w-4" />
+        {tweets.length} tweet{tweets.length === 1 ? "" : "s"} couldn&apos;t be posted
+      </div>
+      <div className="divide-y">
+        {tweets.map(tweet => (
+          <div key={tweet.tweetId} className="flex items-start justify-between gap-4 py-2">
+            <div className="min-w-0 space-y-1">
+              <p className="truncate text-sm" title={tweet.text}>{tweet.text}</p>
+              <p className="text-xs text-muted-foreground">
+                {tweet.postTime && `Scheduled ${format(new Date(tweet.postTime), "MMM d 'at' h:mm a")} · `}
+                {tweet.attempts} attempt{tweet.attempts === 1 ? "" : "s"}
+                {tweet.lastError && ` · ${tweet.lastError}`}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => retryTweet(tweet.tweetId)}
+              disabled={retrying !== null}
+            >
+              {retrying === tweet.tweetId
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <RotateCcw className="mr-2 h-4 w-4" />}
+              Retry now
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
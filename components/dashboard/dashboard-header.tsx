@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { UserNav } from "@/components/navigation/user-nav";
 import { MainNav } from "@/components/navigation/main-nav";
 import { ModeToggle } from "@/components/mode-toggle";
+import { NotificationBell } from "@/components/dashboard/notification-bell";
 
 interface DashboardHeaderProps {
   isMobile: boolean;
@@ -44,6 +45,7 @@ export function DashboardHeader({ isMobile, sidebarOpen, setSidebarOpen }: Dashb
         </div>
 
         <div className="flex flex-1 items-center justify-end space-x-2">
+          <NotificationBell />
           <ModeToggle />
           <UserNav />
         </div>
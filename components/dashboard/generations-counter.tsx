@@ -5,10 +5,38 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Loader2, ZapIcon } from "lucide-react";
 
+interface QuotaStatus {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+interface QuotaUsage {
+  mode: "per_agent" | "pooled";
+  pool: { tweet: QuotaStatus; reply: QuotaStatus } | null;
+  agents: Array<{ agentId: string; name: string; tweet: QuotaStatus; reply: QuotaStatus }>;
+}
+
 interface GenerationsCounterProps {
   className?: string;
 }
 
+function QuotaBar({ label, quota }: { label: string; quota: QuotaStatus }) {
+  const percentage = quota.limit > 0 ? Math.min(100, (quota.used / quota.limit) * 100) : 100;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">{label}</span>
+        <span className={quota.remaining === 0 ? "font-medium text-yellow-600" : "font-medium"}>
+          {quota.used} / {quota.limit}
+        </span>
+      </div>
+      <Progress value={percentage} className="h-1.5" />
+    </div>
+  );
+}
+
 export function GenerationsCounter({ className }: GenerationsCounterProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -16,11 +44,15 @@ export function GenerationsCounter({ className }: GenerationsCounterProps) {
     customGenerationsUsed: number;
     plan: { maxCustomGenerations: number; planName: string };
   } | null>(null);
+  const [quotaUsage, setQuotaUsage] = useState<QuotaUsage | null>(null);
 
   useEffect(() => {
     async function fetchGenerationsData() {
       try {
-        const response = await fetch('/api/profile');
+        const [response, quotaResponse] = await Promise.all([
+          fetch('/api/profile'),
+          fetch('/api/agents/quota')
+        ]);
         
         if (!response.ok) {
           throw new Error('Could not fetch profile data');
@@ -28,6 +60,12 @@ export function GenerationsCounter({ className }: GenerationsCounterProps) {
         
         const profileData = await response.json();
         setProfile(profileData);
+
+        // Tweet and reply quotas are extra detail; the generations count still shows without them
+        if (quotaResponse.ok) {
+          const quotaData = await quotaResponse.json();
+          setQuotaUsage(quotaData.usage ?? null);
+        }
       } catch (err) {
         console.error('Error fetching generations data:', err);
         setError(err instanceof Error ? err.message : 'Failed to load generations data');
@@ -91,6 +129,40 @@ export function GenerationsCounter({ className }: GenerationsCounterProps) {
             You've reached your generation limit. Consider upgrading your plan for more.
           </div>
         )}
+
+        {quotaUsage && quotaUsage.agents.length > 0 && (
+          <div className="space-y-3 border-t pt-4">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">Tweets &amp; replies this period</span>
+              <span className="text-muted-foreground">
+                {quotaUsage.mode === "pooled" ? "Shared across agents" : "Per agent"}
+              </span>
+            </div>
+
+            {quotaUsage.mode === "pooled" && quotaUsage.pool ? (
+              <>
+                <QuotaBar label="Tweets" quota={quotaUsage.pool.tweet} />
+                <QuotaBar label="Replies" quota={quotaUsage.pool.reply} />
+                <div className="space-y-1 text-xs text-muted-foreground">
+                  {quotaUsage.agents.map(agent => (
+                    <div key={agent.agentId} className="flex justify-between">
+                      <span className="truncate">{agent.name}</span>
+                      <span>{agent.tweet.used} tweets · {agent.reply.used} replies</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              quotaUsage.agents.map(agent => (
+                <div key={agent.agentId} className="space-y-2">
+                  <p className="text-sm font-medium truncate">{agent.name}</p>
+                  <QuotaBar label="Tweets" quota={agent.tweet} />
+                  <QuotaBar label="Replies" quota={agent.reply} />
+                </div>
+              ))
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -22,10 +22,17 @@ import {
   Shield,
   Target,
   ArrowUp,
-  AlertTriangle
+  AlertTriangle,
+  Inbox
 } from "lucide-react";
+import Link from "next/link";
 import { useToast } from "@/hooks/use-toast";
-import { ModalProps } from "./modal-types";
+import { AutoEngageSource, ModalProps } from "./modal-types";
+import { EngageSourceSettings, EngageSourceSettingsValue } from "./engage-source-settings";
+import { EngagementActionSettings, EngagementActionSettingsValue, getEngagementActionSettings } from "./engagement-action-settings";
+import { AutoFollowSettings } from "./auto-follow-settings";
+import { MentionSettings } from "./mention-settings";
+import { PostingScheduleSettings } from "./posting-schedule-settings";
 
 interface AutoEngageConfig {
   enabled: boolean;
@@ -36,8 +43,29 @@ interface AutoEngageConfig {
   lastRunTime: string | null;
   qualityFilter: boolean;
   strictnessLevel: number;
+  source: AutoEngageSource;
+  listIds: string[];
+  targetHandles: string[];
+  freshnessMinutes: number;
+  likeEnabled: boolean;
+  likeMinScore: number;
+  maxDailyLikes: number;
+  retweetEnabled: boolean;
+  retweetMinScore: number;
+  maxDailyRetweets: number;
+  quoteEnabled: boolean;
+  quoteMinScore: number;
+  maxDailyQuotes: number;
 }
 
+// First "How it works" step for each tweet source
+const SOURCE_STEPS: Record<AutoEngageSource, { title: string; description: string }> = {
+  timeline: { title: 'Monitors Timeline', description: 'Watches your X timeline for engaging tweets and trends.' },
+  search: { title: 'Runs Your Searches', description: 'Searches X for your saved keywords and queries.' },
+  lists: { title: 'Watches Your Lists', description: 'Reads your X Lists for fresh posts worth replying to.' },
+  accounts: { title: 'Follows Target Accounts', description: 'Catches new posts from the accounts you picked while they are fresh.' }
+};
+
 interface ReplyUsageStats {
   used: number;
   limit: number;
@@ -72,14 +100,20 @@ export function AutoEngageModal({ modalState, setModalState, refreshAgents }: Mo
     
     setIsLoadingUsage(true);
     try {
-      const response = await axios.get('/api/profile');
-      if (response.data && response.data.plan) {
-        const profile = response.data;
+      const response = await axios.get('/api/agents/quota');
+      const usage = response.data?.usage;
+      const agentQuota = usage?.agents?.find(
+        (agent: { agentId: string }) => agent.agentId === modalState.autoEngage?.agentId
+      );
+      // Pooled plans share one reply allowance across all agents
+      const replyQuota = usage?.pool?.reply ?? agentQuota?.reply;
+      if (replyQuota) {
+        const { used, limit, remaining } = replyQuota;
         setReplyUsage({
-          used: profile.repliesUsed || 0,
-          limit: profile.plan.maxRepliesPerAgent || 50,
-          remaining: Math.max(0, (profile.plan.maxRepliesPerAgent || 50) - (profile.repliesUsed || 0)),
-          percentage: profile.plan.maxRepliesPerAgent > 0 ? ((profile.repliesUsed || 0) / profile.plan.maxRepliesPerAgent) * 100 : 0
+          used,
+          limit,
+          remaining,
+          percentage: limit > 0 ? (used / limit) * 100 : 0
         });
       }
     } catch (error) {
@@ -115,7 +149,12 @@ export function AutoEngageModal({ modalState, setModalState, refreshAgents }: Mo
               minScore: config.minScore || 15,
               autoReply: config.autoReply || false,
               qualityFilter: config.qualityFilter !== undefined ? config.qualityFilter : true,
-              strictnessLevel: config.strictnessLevel !== undefined ? config.strictnessLevel : 2
+              strictnessLevel: config.strictnessLevel !== undefined ? config.strictnessLevel : 2,
+              source: config.source || 'timeline',
+              listIds: config.listIds || [],
+              targetHandles: config.targetHandles || [],
+              freshnessMinutes: config.freshnessMinutes || 180,
+              ...getEngagementActionSettings(config)
             }
           });
           
@@ -193,6 +232,16 @@ export function AutoEngageModal({ modalState, setModalState, refreshAgents }: Mo
     });
   };
 
+  const handleAutoReplyChange = (checked: boolean) => {
+    setModalState({
+      ...modalState,
+      autoEngage: {
+        ...modalState.autoEngage,
+        autoReply: checked
+      }
+    });
+  };
+
   const handleStrictnessChange = (value: number[]) => {
     if (value && value.length > 0) {
       setModalState({
@@ -205,6 +254,26 @@ export function AutoEngageModal({ modalState, setModalState, refreshAgents }: Mo
     }
   };
 
+  const handleSourceSettingsChange = (changes: Partial<EngageSourceSettingsValue>) => {
+    setModalState({
+      ...modalState,
+      autoEngage: {
+        ...modalState.autoEngage,
+        ...changes
+      }
+    });
+  };
+
+  const handleActionSettingsChange = (changes: Partial<EngagementActionSettingsValue>) => {
+    setModalState({
+      ...modalState,
+      autoEngage: {
+        ...modalState.autoEngage,
+        ...changes
+      }
+    });
+  };
+
   const saveAutoEngageConfig = async (enableAction: boolean = true) => {
     const { autoEngage } = modalState;
     
@@ -225,13 +294,18 @@ export function AutoEngageModal({ modalState, setModalState, refreshAgents }: Mo
         minScore: autoEngage.minScore || 15, // Include minScore with default value
         autoReply: autoEngage.autoReply || false,
         qualityFilter: autoEngage.qualityFilter !== undefined ? autoEngage.qualityFilter : true,
-        strictnessLevel: autoEngage.strictnessLevel !== undefined ? autoEngage.strictnessLevel : 2
+        strictnessLevel: autoEngage.strictnessLevel !== undefined ? autoEngage.strictnessLevel : 2,
+        source: autoEngage.source || 'timeline',
+        listIds: autoEngage.listIds || [],
+        targetHandles: autoEngage.targetHandles || [],
+        freshnessMinutes: autoEngage.freshnessMinutes || 180,
+        ...getEngagementActionSettings(autoEngage)
       });
       
       toast({
         title: enableAction ? "Auto-Engage Enabled! ✅" : "Auto-Engage Disabled",
         description: enableAction 
-          ? `Agent will automatically post up to ${autoEngage.maxReplies} ${autoEngage.qualityFilter ? 'high-quality ' : ''}replies every ${
+          ? `Agent will ${autoEngage.autoReply ? 'automatically post' : 'draft for your review'} up to ${autoEngage.maxReplies} ${autoEngage.qualityFilter ? 'high-quality ' : ''}replies every ${
               autoEngage.frequency === 0.0833 ? '5 minutes' : 
               autoEngage.frequency === 0.25 ? '15 minutes' :
               autoEngage.frequency === 0.5 ? '30 minutes' :
@@ -259,7 +333,12 @@ export function AutoEngageModal({ modalState, setModalState, refreshAgents }: Mo
             minScore: config.minScore || 15,
             autoReply: config.autoReply || false,
             qualityFilter: config.qualityFilter !== undefined ? config.qualityFilter : true,
-            strictnessLevel: config.strictnessLevel !== undefined ? config.strictnessLevel : 2
+            strictnessLevel: config.strictnessLevel !== undefined ? config.strictnessLevel : 2,
+            source: config.source || 'timeline',
+            listIds: config.listIds || [],
+            targetHandles: config.targetHandles || [],
+            freshnessMinutes: config.freshnessMinutes || 180,
+            ...getEngagementActionSettings(config)
           }
         });
         
@@ -311,9 +390,14 @@ export function AutoEngageModal({ modalState, setModalState, refreshAgents }: Mo
       
       if (response.data.success && response.data.results) {
         const { results } = response.data;
+        const actionSummary = results.likesGiven || results.retweetsGiven || results.quotesGiven
+          ? ` Liked ${results.likesGiven || 0}, retweeted ${results.retweetsGiven || 0} and quoted ${results.quotesGiven || 0}.`
+          : '';
         toast({
           title: "Auto-Engage Test Completed! 🤖",
-          description: `Found ${results.tweetsFetched || 0} tweets, generated ${results.repliesGenerated || 0} replies, posted ${results.repliesPosted || 0} successfully.`,
+          description: (results.repliesQueued
+            ? `Found ${results.tweetsFetched || 0} tweets, generated ${results.repliesGenerated || 0} replies, ${results.repliesQueued} waiting in the reply inbox for approval.`
+            : `Found ${results.tweetsFetched || 0} tweets, generated ${results.repliesGenerated || 0} replies, posted ${results.repliesPosted || 0} successfully.`) + actionSummary,
         });
       } else {
         toast({
@@ -402,10 +486,10 @@ export function AutoEngageModal({ modalState, setModalState, refreshAgents }: Mo
                           <Eye className="h-5 w-5 text-brown-600 dark:text-brown-400" />
                         </div>
                         <h4 className="text-base font-semibold text-brown-900 dark:text-brown-100">
-                          Monitors Timeline
+                          {SOURCE_STEPS[modalState.autoEngage?.source || 'timeline'].title}
                         </h4>
                         <p className="text-sm text-brown-700 dark:text-brown-200 leading-relaxed px-2">
-                          Watches your X timeline for engaging tweets and trends.
+                          {SOURCE_STEPS[modalState.autoEngage?.source || 'timeline'].description}
                         </p>
                       </div>
                       
@@ -569,6 +653,49 @@ export function AutoEngageModal({ modalState, setModalState, refreshAgents }: Mo
                     </div>
                   </div>
 
+                  {/* Tweet Source Setting */}
+                  {modalState.autoEngage?.agentId && (
+                    <EngageSourceSettings
+                      agentId={modalState.autoEngage.agentId}
+                      value={{
+                        source: modalState.autoEngage.source || 'timeline',
+                        listIds: modalState.autoEngage.listIds || [],
+                        targetHandles: modalState.autoEngage.targetHandles || [],
+                        freshnessMinutes: modalState.autoEngage.freshnessMinutes || 180
+                      }}
+                      disabled={modalState.actionLoading === modalState.autoEngage?.agentId + "_engage"}
+                      onChange={handleSourceSettingsChange}
+                    />
+                  )}
+
+                  {/* Auto-Post Setting */}
+                  <div className="space-y-2 p-4 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Inbox className="h-4 w-4 text-[hsl(var(--primary))]" />
+                        <Label className="text-base font-semibold text-[hsl(var(--fence-green))] dark:text-gray-100">Post Without Review</Label>
+                      </div>
+                      <Switch
+                        checked={modalState.autoEngage?.autoReply || false}
+                        onCheckedChange={handleAutoReplyChange}
+                        disabled={modalState.actionLoading === modalState.autoEngage?.agentId + "_engage"}
+                      />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {modalState.autoEngage?.autoReply
+                        ? "Generated replies are posted immediately."
+                        : "Generated replies wait in the reply inbox until you approve them."}
+                    </p>
+                    {!modalState.autoEngage?.autoReply && modalState.autoEngage?.agentId && (
+                      <Link
+                        href={`/dashboard/agents/${modalState.autoEngage.agentId}/replies`}
+                        className="inline-flex items-center text-sm font-medium text-[hsl(var(--primary))] hover:underline"
+                      >
+                        Open reply inbox
+                      </Link>
+                    )}
+                  </div>
+
                   {/* Quality Filter Settings */}
                   <div className="space-y-4 p-4 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700">
                     <div className="flex items-center justify-between">
@@ -611,6 +738,40 @@ export function AutoEngageModal({ modalState, setModalState, refreshAgents }: Mo
                       </div>
                     )}
                   </div>
+
+                  {/* Like & Retweet Settings */}
+                  <EngagementActionSettings
+                    value={getEngagementActionSettings(modalState.autoEngage)}
+                    qualityFilter={modalState.autoEngage?.qualityFilter !== undefined ? modalState.autoEngage.qualityFilter : true}
+                    disabled={modalState.actionLoading === modalState.autoEngage?.agentId + "_engage"}
+                    onChange={handleActionSettingsChange}
+                  />
+
+                  {/* Auto-follow Settings (saved separately) */}
+                  {modalState.autoEngage?.agentId && (
+                    <AutoFollowSettings
+                      agentId={modalState.autoEngage.agentId}
+                      disabled={modalState.actionLoading === modalState.autoEngage?.agentId + "_engage"}
+                    />
+                  )}
+
+                  {/* Mention Reply Settings (saved separately) */}
+                  {modalState.autoEngage?.agentId && (
+                    <MentionSettings
+                      agentId={modalState.autoEngage.agentId}
+                      postWithoutReview={modalState.autoEngage.autoReply || false}
+                      disabled={modalState.actionLoading === modalState.autoEngage?.agentId + "_engage"}
+                    />
+                  )}
+
+                  {/* Posting Schedule (saved separately, shared with auto-tweets) */}
+                  {modalState.autoEngage?.agentId && (
+                    <PostingScheduleSettings
+                      agentId={modalState.autoEngage.agentId}
+                      previewFor="autoEngage"
+                      disabled={modalState.actionLoading === modalState.autoEngage?.agentId + "_engage"}
+                    />
+                  )}
                 </div>
               )}
               
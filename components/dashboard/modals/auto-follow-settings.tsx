@@ -0,0 +1,184 @@
+"use client";
+
+import axios from "axios";
+import { useState, useEffect } from "react";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, UserPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface AutoFollowConfig {
+  enabled: boolean;
+  maxDaily: number;
+  fromEngagers: boolean;
+  fromTargetFollowers: boolean;
+  checkAfterDays: number;
+  targetHandles: string[];
+}
+
+interface AutoFollowStats {
+  periodDays: number;
+  followed: number;
+  followedBack: number;
+  awaitingCheck: number;
+  followBackRate: number | null;
+}
+
+interface AutoFollowSettingsProps {
+  agentId: string;
+  disabled: boolean;
+}
+
+type AutoFollowChanges = Partial<Pick<AutoFollowConfig, 'enabled' | 'maxDaily' | 'fromEngagers' | 'fromTargetFollowers' | 'checkAfterDays'>>;
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) ? error.response?.data?.error || fallback : fallback;
+
+/**
+ * Auto-follow settings, saved on change independently of the auto-engage config
+ */
+export function AutoFollowSettings({ agentId, disabled }: AutoFollowSettingsProps) {
+  const { toast } = useToast();
+  const [config, setConfig] = useState<AutoFollowConfig | null>(null);
+  const [stats, setStats] = useState<AutoFollowStats | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await axios.get(`/api/agents/${agentId}/auto-follow`);
+        if (response.data.success) {
+          setConfig(response.data.config);
+          setStats(response.data.stats);
+        }
+      } catch (error) {
+        console.error('Error fetching auto-follow settings:', error);
+      }
+    };
+
+    fetchSettings();
+  }, [agentId]);
+
+  const saveSettings = async (changes: AutoFollowChanges) => {
+    if (!config) return;
+
+    const previous = config;
+    setConfig({ ...config, ...changes });
+    setIsSaving(true);
+    try {
+      const response = await axios.put(`/api/agents/${agentId}/auto-follow`, changes);
+      setConfig(response.data.config);
+    } catch (error) {
+      console.error('Error saving auto-follow settings:', error);
+      setConfig(previous);
+      toast({
+        title: "Failed to save auto-follow settings",
+        description: getErrorMessage(error, "Could not save the auto-follow settings."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!config) {
+    return (
+      <div className="flex items-center justify-center p-4 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+      </div>
+    );
+  }
+
+  const isDisabled = disabled || isSaving;
+
+  return (
+    <div className="space-y-4 p-4 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <UserPlus className="h-4 w-4 text-[hsl(var(--primary))]" />
+          <Label className="text-base font-semibold text-[hsl(var(--fence-green))] dark:text-gray-100">Auto-follow</Label>
+        </div>
+        <Switch
+          checked={config.enabled}
+          onCheckedChange={enabled => saveSettings({ enabled })}
+          disabled={isDisabled}
+        />
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Follows a few relevant accounts every couple of hours and checks later whether they followed back.
+      </p>
+
+      {config.enabled && (
+        <div className="space-y-4">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium text-[hsl(var(--fence-green))] dark:text-gray-100">People who reply to the agent</Label>
+              <Switch
+                checked={config.fromEngagers}
+                onCheckedChange={fromEngagers => saveSettings({ fromEngagers })}
+                disabled={isDisabled}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium text-[hsl(var(--fence-green))] dark:text-gray-100">Followers of target accounts</Label>
+              <Switch
+                checked={config.fromTargetFollowers}
+                onCheckedChange={fromTargetFollowers => saveSettings({ fromTargetFollowers })}
+                disabled={isDisabled}
+              />
+            </div>
+            {config.fromTargetFollowers && config.targetHandles.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Add target accounts under the Accounts source above to follow their followers.
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">Daily limit</span>
+                <span className="font-bold text-[hsl(var(--primary))]">{config.maxDaily} / day</span>
+              </div>
+              <Slider
+                min={1}
+                max={50}
+                step={1}
+                value={[config.maxDaily]}
+                onValueChange={value => value.length > 0 && setConfig({ ...config, maxDaily: value[0] })}
+                onValueCommit={value => value.length > 0 && saveSettings({ maxDaily: value[0] })}
+                disabled={isDisabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">Check follow-back after</span>
+                <span className="font-bold text-[hsl(var(--primary))]">
+                  {config.checkAfterDays} {config.checkAfterDays === 1 ? 'day' : 'days'}
+                </span>
+              </div>
+              <Slider
+                min={1}
+                max={30}
+                step={1}
+                value={[config.checkAfterDays]}
+                onValueChange={value => value.length > 0 && setConfig({ ...config, checkAfterDays: value[0] })}
+                onValueCommit={value => value.length > 0 && saveSettings({ checkAfterDays: value[0] })}
+                disabled={isDisabled}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {stats && stats.followed > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Last {stats.periodDays} days: {stats.followed} followed, {stats.followedBack} followed back
+          {stats.followBackRate !== null && ` (${stats.followBackRate}%)`}
+          {stats.awaitingCheck > 0 && `, ${stats.awaitingCheck} not checked yet`}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import { 
   Loader2, 
   Bot,
@@ -16,10 +17,12 @@ import {
   Activity,
   Zap,
   PenTool,
-  Calendar
+  Calendar,
+  TrendingUp
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { ModalProps } from "./modal-types";
+import { PostingScheduleSettings } from "./posting-schedule-settings";
 
 interface AutoTweetRealConfig {
   enabled: boolean;
@@ -56,6 +59,7 @@ export function AutoTweetModal({ modalState, setModalState, refreshAgents, agent
           ...modalState.autoTweet,
           frequency: initialConfig.frequencyHours,
           count: initialConfig.count,
+          trendsEnabled: agentDetails.autoTweetTrendsEnabled || false,
         }
       });
 
@@ -154,6 +158,16 @@ export function AutoTweetModal({ modalState, setModalState, refreshAgents, agent
     }
   };
 
+  const handleAutoTweetTrendsChange = (trendsEnabled: boolean) => {
+    setModalState({
+      ...modalState,
+      autoTweet: {
+        ...modalState.autoTweet,
+        trendsEnabled
+      }
+    });
+  };
+
   const saveAutoTweetConfig = async (enableFeature: boolean) => {
     const { autoTweet } = modalState;
     
@@ -169,6 +183,7 @@ export function AutoTweetModal({ modalState, setModalState, refreshAgents, agent
       autoTweetEnabled: enableFeature,
       autoTweetFrequencyHours: autoTweet.frequency,
       autoTweetCount: autoTweet.count,
+      autoTweetTrendsEnabled: autoTweet.trendsEnabled,
     };
 
     try {
@@ -294,7 +309,7 @@ export function AutoTweetModal({ modalState, setModalState, refreshAgents, agent
                           Content Generation
                         </h4>
                         <p className="text-sm text-brown-700 dark:text-brown-200 leading-relaxed px-2">
-                          Creates original tweets based on your agent's personality and goals.
+                          Writes each tweet just before it posts, based on your agent's personality and goals.
                         </p>
                       </div>
                       
@@ -383,6 +398,35 @@ export function AutoTweetModal({ modalState, setModalState, refreshAgents, agent
                       </p>
                     </div>
                   </div>
+
+                  <div className="space-y-2 p-4 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <TrendingUp className="h-4 w-4 text-[hsl(var(--primary))]" />
+                        <Label htmlFor="trends" className="text-base font-semibold text-[hsl(var(--fence-green))] dark:text-gray-100">Ride Trends</Label>
+                      </div>
+                      <Switch
+                        id="trends"
+                        checked={modalState.autoTweet.trendsEnabled}
+                        onCheckedChange={handleAutoTweetTrendsChange}
+                        disabled={modalState.actionLoading === `${currentAgentId}_auto_config`}
+                      />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {modalState.autoTweet.trendsEnabled
+                        ? "Each cycle picks trending topics that fit the agent's goal and focus topics, skipping topics to avoid."
+                        : "Tweets are written from the agent's goal and persona only."}
+                    </p>
+                  </div>
+
+                  {/* Posting Schedule (saved separately, shared with auto-engage) */}
+                  {currentAgentId && (
+                    <PostingScheduleSettings
+                      agentId={currentAgentId}
+                      previewFor="autoTweet"
+                      disabled={modalState.actionLoading === `${currentAgentId}_auto_config`}
+                    />
+                  )}
                 </div>
               )}
               
@@ -0,0 +1,376 @@
+"use client";
+
+import axios from "axios";
+import { useState, useEffect } from "react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Plus, Search, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { AutoEngageModalState, AutoEngageSource } from "./modal-types";
+
+type SearchMode = 'latest' | 'top';
+
+interface EngageSearch {
+  queryId: string;
+  query: string;
+  searchMode: SearchMode;
+  enabled: boolean;
+  lastRunAt: string | null;
+}
+
+export type EngageSourceSettingsValue = Pick<AutoEngageModalState, 'source' | 'listIds' | 'targetHandles' | 'freshnessMinutes'>;
+
+interface EngageSourceSettingsProps {
+  agentId: string;
+  value: EngageSourceSettingsValue;
+  disabled: boolean;
+  onChange: (changes: Partial<EngageSourceSettingsValue>) => void;
+}
+
+// Mirror the per-agent caps enforced by the auto-engage endpoints
+const MAX_SEARCHES = 10;
+const MAX_LISTS = 5;
+const MAX_TARGET_HANDLES = 25;
+
+const SOURCE_DESCRIPTIONS: Record<AutoEngageSource, string> = {
+  timeline: "Replies to tweets from the agent's home timeline.",
+  search: "Replies to tweets matching your saved searches, a few searches per cycle.",
+  lists: "Replies to fresh posts from the X Lists below.",
+  accounts: "Replies to fresh posts from the accounts below, a few accounts per cycle."
+};
+
+const FRESHNESS_OPTIONS = [30, 60, 180, 360, 720, 1440];
+
+// Accept list URLs (x.com/i/lists/123) as well as bare list IDs
+const normalizeListId = (value: string) => value.trim().match(/lists\/(\d+)/)?.[1] ?? value.trim();
+const normalizeHandle = (value: string) => value.trim().replace(/^@/, '');
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) ? error.response?.data?.error || fallback : fallback;
+
+export function EngageSourceSettings({ agentId, value, disabled, onChange }: EngageSourceSettingsProps) {
+  const { source } = value;
+  const { toast } = useToast();
+  const [searches, setSearches] = useState<EngageSearch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [newQuery, setNewQuery] = useState("");
+  const [newMode, setNewMode] = useState<SearchMode>("latest");
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [newFeedEntry, setNewFeedEntry] = useState("");
+
+  // Load saved searches once the search source is picked
+  useEffect(() => {
+    if (source !== 'search') return;
+
+    const fetchSearches = async () => {
+      setIsLoading(true);
+      try {
+        const response = await axios.get(`/api/agents/${agentId}/auto-engage/searches`);
+        if (response.data.success) {
+          setSearches(response.data.searches);
+        }
+      } catch (error) {
+        console.error('Error fetching saved searches:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSearches();
+  }, [agentId, source]);
+
+  const addSearch = async () => {
+    const query = newQuery.trim();
+    if (!query) return;
+
+    setPendingId('new');
+    try {
+      const response = await axios.post(`/api/agents/${agentId}/auto-engage/searches`, {
+        query,
+        searchMode: newMode
+      });
+      setSearches([...searches, response.data.search]);
+      setNewQuery("");
+    } catch (error) {
+      console.error('Error saving search:', error);
+      toast({
+        title: "Failed to save search",
+        description: getErrorMessage(error, "Could not save the search."),
+        variant: "destructive",
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const updateSearch = async (queryId: string, changes: Partial<Pick<EngageSearch, 'searchMode' | 'enabled'>>) => {
+    setPendingId(queryId);
+    try {
+      const response = await axios.patch(`/api/agents/${agentId}/auto-engage/searches/${queryId}`, changes);
+      setSearches(searches.map(search => search.queryId === queryId ? response.data.search : search));
+    } catch (error) {
+      console.error('Error updating search:', error);
+      toast({
+        title: "Failed to update search",
+        description: getErrorMessage(error, "Could not update the search."),
+        variant: "destructive",
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const removeSearch = async (queryId: string) => {
+    setPendingId(queryId);
+    try {
+      await axios.delete(`/api/agents/${agentId}/auto-engage/searches/${queryId}`);
+      setSearches(searches.filter(search => search.queryId !== queryId));
+    } catch (error) {
+      console.error('Error removing search:', error);
+      toast({
+        title: "Failed to remove search",
+        description: getErrorMessage(error, "Could not remove the search."),
+        variant: "destructive",
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  // Lists and target accounts are saved with the rest of the auto-engage settings
+  const isListSource = source === 'lists';
+  const feedEntries = isListSource ? value.listIds : value.targetHandles;
+  const maxFeedEntries = isListSource ? MAX_LISTS : MAX_TARGET_HANDLES;
+
+  const addFeedEntry = () => {
+    const entry = isListSource ? normalizeListId(newFeedEntry) : normalizeHandle(newFeedEntry);
+    if (!entry) return;
+
+    const exists = feedEntries.some(existing => existing.toLowerCase() === entry.toLowerCase());
+    if (!exists) {
+      onChange(isListSource ? { listIds: [...feedEntries, entry] } : { targetHandles: [...feedEntries, entry] });
+    }
+    setNewFeedEntry("");
+  };
+
+  const removeFeedEntry = (entry: string) => {
+    const remaining = feedEntries.filter(existing => existing !== entry);
+    onChange(isListSource ? { listIds: remaining } : { targetHandles: remaining });
+  };
+
+  return (
+    <div className="space-y-4 p-4 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Search className="h-4 w-4 text-[hsl(var(--primary))]" />
+          <Label className="text-base font-semibold text-[hsl(var(--fence-green))] dark:text-gray-100">Tweet Source</Label>
+        </div>
+        <Select
+          value={source}
+          onValueChange={selected => {
+            setNewFeedEntry("");
+            onChange({ source: selected as AutoEngageSource });
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-48 h-9 text-sm font-medium border border-[hsl(var(--macadamia-beige))] dark:border-gray-700 rounded-lg">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="rounded-xl border-2 border-[hsl(var(--macadamia-beige))] bg-white dark:bg-gray-800">
+            <SelectItem value="timeline">Home timeline</SelectItem>
+            <SelectItem value="search">Saved searches</SelectItem>
+            <SelectItem value="lists">X Lists</SelectItem>
+            <SelectItem value="accounts">Target accounts</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-sm text-muted-foreground -mt-2">
+        {SOURCE_DESCRIPTIONS[source]}
+      </p>
+
+      {source === 'search' && (
+        <div className="pt-2 border-t border-slate-200 dark:border-slate-700 space-y-3">
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading saved searches...
+            </div>
+          ) : searches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No saved searches yet. Add a keyword, hashtag or X search query like <code>&quot;ai agents&quot; -filter:replies</code>.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {searches.map(search => (
+                <div key={search.queryId} className="flex items-center gap-2">
+                  <span className={`flex-1 truncate text-sm font-medium ${search.enabled ? 'text-[hsl(var(--fence-green))] dark:text-gray-100' : 'text-muted-foreground line-through'}`}>
+                    {search.query}
+                  </span>
+                  <Select
+                    value={search.searchMode}
+                    onValueChange={mode => updateSearch(search.queryId, { searchMode: mode as SearchMode })}
+                    disabled={disabled || pendingId === search.queryId}
+                  >
+                    <SelectTrigger className="w-24 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="latest">Latest</SelectItem>
+                      <SelectItem value="top">Top</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Switch
+                    checked={search.enabled}
+                    onCheckedChange={checked => updateSearch(search.queryId, { enabled: checked })}
+                    disabled={disabled || pendingId === search.queryId}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-muted-foreground hover:text-red-600"
+                    onClick={() => removeSearch(search.queryId)}
+                    disabled={disabled || pendingId === search.queryId}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove {search.query}</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {searches.length < MAX_SEARCHES && (
+            <div className="flex items-center gap-2">
+              <Input
+                value={newQuery}
+                onChange={event => setNewQuery(event.target.value)}
+                onKeyDown={event => {
+                  if (event.key === 'Enter') {
+                    event.preventDefault();
+                    addSearch();
+                  }
+                }}
+                placeholder="Keyword, #hashtag or search query"
+                maxLength={500}
+                disabled={disabled || pendingId === 'new'}
+                className="h-9 text-sm"
+              />
+              <Select
+                value={newMode}
+                onValueChange={mode => setNewMode(mode as SearchMode)}
+                disabled={disabled || pendingId === 'new'}
+              >
+                <SelectTrigger className="w-24 h-9 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="latest">Latest</SelectItem>
+                  <SelectItem value="top">Top</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-9"
+                onClick={addSearch}
+                disabled={disabled || pendingId === 'new' || !newQuery.trim()}
+              >
+                {pendingId === 'new' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                <span className="ml-1">Add</span>
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {(source === 'lists' || source === 'accounts') && (
+        <div className="pt-2 border-t border-slate-200 dark:border-slate-700 space-y-3">
+          {feedEntries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {isListSource
+                ? "No lists yet. Paste an X List URL or its numeric ID."
+                : "No target accounts yet. Add the X usernames whose new posts the agent should reply to."}
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {feedEntries.map(entry => (
+                <span
+                  key={entry}
+                  className="inline-flex items-center gap-1 rounded-full border border-[hsl(var(--macadamia-beige))] bg-white dark:bg-gray-800 px-3 py-1 text-sm font-medium text-[hsl(var(--fence-green))] dark:text-gray-100"
+                >
+                  {isListSource ? `List ${entry}` : `@${entry}`}
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-red-600 disabled:opacity-50"
+                    onClick={() => removeFeedEntry(entry)}
+                    disabled={disabled}
+                  >
+                    <X className="h-3 w-3" />
+                    <span className="sr-only">Remove {entry}</span>
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {feedEntries.length < maxFeedEntries && (
+            <div className="flex items-center gap-2">
+              <Input
+                value={newFeedEntry}
+                onChange={event => setNewFeedEntry(event.target.value)}
+                onKeyDown={event => {
+                  if (event.key === 'Enter') {
+                    event.preventDefault();
+                    addFeedEntry();
+                  }
+                }}
+                placeholder={isListSource ? "https://x.com/i/lists/123456789" : "@username"}
+                disabled={disabled}
+                className="h-9 text-sm"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-9"
+                onClick={addFeedEntry}
+                disabled={disabled || !newFeedEntry.trim()}
+              >
+                <Plus className="h-4 w-4" />
+                <span className="ml-1">Add</span>
+              </Button>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-4">
+            <Label className="text-sm font-medium text-[hsl(var(--fence-green))] dark:text-gray-100">Freshness Window</Label>
+            <Select
+              value={value.freshnessMinutes.toString()}
+              onValueChange={minutes => onChange({ freshnessMinutes: parseInt(minutes, 10) })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-36 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FRESHNESS_OPTIONS.map(minutes => (
+                  <SelectItem key={minutes} value={minutes.toString()}>
+                    {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes === 60 ? '' : 's'}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2">
+            Only posts newer than this are replied to. Changes apply when you save.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Heart, Quote, Repeat2 } from "lucide-react";
+import { AutoEngageModalState } from "./modal-types";
+
+export type EngagementActionSettingsValue = Pick<
+  AutoEngageModalState,
+  'likeEnabled' | 'likeMinScore' | 'maxDailyLikes' | 'retweetEnabled' | 'retweetMinScore' | 'maxDailyRetweets' |
+  'quoteEnabled' | 'quoteMinScore' | 'maxDailyQuotes'
+>;
+
+interface EngagementActionSettingsProps {
+  value: EngagementActionSettingsValue;
+  qualityFilter: boolean;
+  disabled: boolean;
+  onChange: (changes: Partial<EngagementActionSettingsValue>) => void;
+}
+
+/**
+ * Like, retweet and quote settings from an auto-engage config or modal state, with the server defaults filled in
+ */
+export function getEngagementActionSettings(config: Partial<EngagementActionSettingsValue>): EngagementActionSettingsValue {
+  return {
+    likeEnabled: config.likeEnabled || false,
+    likeMinScore: config.likeMinScore ?? 6,
+    maxDailyLikes: config.maxDailyLikes ?? 50,
+    retweetEnabled: config.retweetEnabled || false,
+    retweetMinScore: config.retweetMinScore ?? 9,
+    maxDailyRetweets: config.maxDailyRetweets ?? 5,
+    quoteEnabled: config.quoteEnabled || false,
+    quoteMinScore: config.quoteMinScore ?? 9,
+    maxDailyQuotes: config.maxDailyQuotes ?? 2
+  };
+}
+
+interface ActionRowProps {
+  icon: React.ReactNode;
+  label: string;
+  enabled: boolean;
+  minScore: number;
+  dailyCap: number;
+  maxDailyCap: number;
+  hint?: string;
+  disabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  onMinScoreChange: (score: number) => void;
+  onDailyCapChange: (cap: number) => void;
+}
+
+function ActionRow({
+  icon,
+  label,
+  enabled,
+  minScore,
+  dailyCap,
+  maxDailyCap,
+  hint,
+  disabled,
+  onEnabledChange,
+  onMinScoreChange,
+  onDailyCapChange
+}: ActionRowProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {icon}
+          <Label className="text-sm font-medium text-[hsl(var(--fence-green))] dark:text-gray-100">{label}</Label>
+        </div>
+        <Switch checked={enabled} onCheckedChange={onEnabledChange} disabled={disabled} />
+      </div>
+
+      {enabled && hint && (
+        <p className="text-xs text-muted-foreground pl-6">{hint}</p>
+      )}
+
+      {enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pl-6">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">Minimum quality score</span>
+              <span className="font-bold text-[hsl(var(--primary))]">{minScore}+</span>
+            </div>
+            <Slider
+              min={1}
+              max={10}
+              step={1}
+              value={[minScore]}
+              onValueChange={value => value.length > 0 && onMinScoreChange(value[0])}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">Daily limit</span>
+              <span className="font-bold text-[hsl(var(--primary))]">{dailyCap} / day</span>
+            </div>
+            <Slider
+              min={0}
+              max={maxDailyCap}
+              step={1}
+              value={[dailyCap]}
+              onValueChange={value => value.length > 0 && onDailyCapChange(value[0])}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function EngagementActionSettings({ value, qualityFilter, disabled, onChange }: EngagementActionSettingsProps) {
+  return (
+    <div className="space-y-4 p-4 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700">
+      <div>
+        <Label className="text-base font-semibold text-[hsl(var(--fence-green))] dark:text-gray-100">Likes, Retweets & Quotes</Label>
+        <p className="text-sm text-muted-foreground">
+          {qualityFilter
+            ? "Also like, retweet or quote tweets whose quality score clears the threshold, even when the agent doesn't reply."
+            : "Likes, retweets and quotes use the quality filter's scores, so they only run while the quality filter is on."}
+        </p>
+      </div>
+
+      <ActionRow
+        icon={<Heart className="h-4 w-4 text-[hsl(var(--primary))]" />}
+        label="Auto-like"
+        enabled={value.likeEnabled}
+        minScore={value.likeMinScore}
+        dailyCap={value.maxDailyLikes}
+        maxDailyCap={200}
+        disabled={disabled}
+        onEnabledChange={likeEnabled => onChange({ likeEnabled })}
+        onMinScoreChange={likeMinScore => onChange({ likeMinScore })}
+        onDailyCapChange={maxDailyLikes => onChange({ maxDailyLikes })}
+      />
+
+      <ActionRow
+        icon={<Repeat2 className="h-4 w-4 text-[hsl(var(--primary))]" />}
+        label="Auto-retweet"
+        enabled={value.retweetEnabled}
+        minScore={value.retweetMinScore}
+        dailyCap={value.maxDailyRetweets}
+        maxDailyCap={50}
+        disabled={disabled}
+        onEnabledChange={retweetEnabled => onChange({ retweetEnabled })}
+        onMinScoreChange={retweetMinScore => onChange({ retweetMinScore })}
+        onDailyCapChange={maxDailyRetweets => onChange({ maxDailyRetweets })}
+      />
+
+      <ActionRow
+        icon={<Quote className="h-4 w-4 text-[hsl(var(--primary))]" />}
+        label="Auto-quote"
+        enabled={value.quoteEnabled}
+        minScore={value.quoteMinScore}
+        dailyCap={value.maxDailyQuotes}
+        maxDailyCap={10}
+        hint="The agent writes its own take above the quoted tweet. Each quote counts toward your monthly tweet limit."
+        disabled={disabled}
+        onEnabledChange={quoteEnabled => onChange({ quoteEnabled })}
+        onMinScoreChange={quoteMinScore => onChange({ quoteMinScore })}
+        onDailyCapChange={maxDailyQuotes => onChange({ maxDailyQuotes })}
+      />
+    </div>
+  );
+}
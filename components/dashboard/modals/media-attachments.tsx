@@ -0,0 +1,58 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Loader2, X } from "lucide-react";
+import { TweetMediaAttachment } from "./modal-types";
+
+interface MediaAttachmentsProps {
+  media: TweetMediaAttachment[];
+  isUploading: boolean;
+  disabled: boolean;
+  onRemove: (mediaId: string) => void;
+}
+
+export function MediaAttachments({ media, isUploading, disabled, onRemove }: MediaAttachmentsProps) {
+  if (media.length === 0 && !isUploading) {
+    return null;
+  }
+
+  return (
+    <div className={`grid gap-2 mt-3 ${media.length > 1 ? "grid-cols-2" : "grid-cols-1"}`}>
+      {media.map(item => (
+        <div key={item.id} className="relative overflow-hidden rounded-xl border bg-muted aspect-video">
+          {item.mediaType === "video" ? (
+            <video src={item.previewUrl} className="h-full w-full object-cover" muted playsInline />
+          ) : (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={item.previewUrl} alt={item.fileName} className="h-full w-full object-cover" />
+          )}
+
+          {item.mediaType !== "image" && (
+            <span className="absolute bottom-2 left-2 rounded bg-black/70 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-white">
+              {item.mediaType}
+            </span>
+          )}
+
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="absolute top-2 right-2 h-7 w-7 rounded-full bg-black/70 p-0 text-white hover:bg-black/80 hover:text-white"
+            onClick={() => onRemove(item.id)}
+            disabled={disabled}
+          >
+            <X className="h-4 w-4" />
+            <span className="sr-only">Remove {item.fileName}</span>
+          </Button>
+        </div>
+      ))}
+
+      {isUploading && (
+        <div className="flex items-center justify-center gap-2 rounded-xl border border-dashed aspect-video text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Uploading...
+        </div>
+      )}
+    </div>
+  );
+}
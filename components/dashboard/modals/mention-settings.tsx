@@ -0,0 +1,139 @@
+"use client";
+
+import axios from "axios";
+import { useState, useEffect } from "react";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, AtSign } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface MentionsConfig {
+  enabled: boolean;
+  maxDepth: number;
+}
+
+interface MentionsStats {
+  periodDays: number;
+  posted: number;
+  pending: number;
+}
+
+interface MentionSettingsProps {
+  agentId: string;
+  postWithoutReview: boolean;
+  disabled: boolean;
+}
+
+type MentionsChanges = Partial<Pick<MentionsConfig, 'enabled' | 'maxDepth'>>;
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) ? error.response?.data?.error || fallback : fallback;
+
+/**
+ * Mention reply settings, saved on change independently of the auto-engage config
+ */
+export function MentionSettings({ agentId, postWithoutReview, disabled }: MentionSettingsProps) {
+  const { toast } = useToast();
+  const [config, setConfig] = useState<MentionsConfig | null>(null);
+  const [stats, setStats] = useState<MentionsStats | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await axios.get(`/api/agents/${agentId}/mentions`);
+        if (response.data.success) {
+          setConfig(response.data.config);
+          setStats(response.data.stats);
+        }
+      } catch (error) {
+        console.error('Error fetching mention settings:', error);
+      }
+    };
+
+    fetchSettings();
+  }, [agentId]);
+
+  const saveSettings = async (changes: MentionsChanges) => {
+    if (!config) return;
+
+    const previous = config;
+    setConfig({ ...config, ...changes });
+    setIsSaving(true);
+    try {
+      const response = await axios.put(`/api/agents/${agentId}/mentions`, changes);
+      setConfig(response.data.config);
+    } catch (error) {
+      console.error('Error saving mention settings:', error);
+      setConfig(previous);
+      toast({
+        title: "Failed to save mention settings",
+        description: getErrorMessage(error, "Could not save the mention settings."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!config) {
+    return (
+      <div className="flex items-center justify-center p-4 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+      </div>
+    );
+  }
+
+  const isDisabled = disabled || isSaving;
+
+  return (
+    <div className="space-y-4 p-4 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <AtSign className="h-4 w-4 text-[hsl(var(--primary))]" />
+          <Label className="text-base font-semibold text-[hsl(var(--fence-green))] dark:text-gray-100">Reply to mentions</Label>
+        </div>
+        <Switch
+          checked={config.enabled}
+          onCheckedChange={enabled => saveSettings({ enabled })}
+          disabled={isDisabled}
+        />
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Answers people who @-mention the agent or reply to its posts.
+        {postWithoutReview
+          ? " Replies are posted immediately."
+          : " Replies wait in the reply inbox until you approve them."}
+      </p>
+
+      {config.enabled && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">Replies per conversation</span>
+            <span className="font-bold text-[hsl(var(--primary))]">{config.maxDepth}</span>
+          </div>
+          <Slider
+            min={1}
+            max={10}
+            step={1}
+            value={[config.maxDepth]}
+            onValueChange={value => value.length > 0 && setConfig({ ...config, maxDepth: value[0] })}
+            onValueCommit={value => value.length > 0 && saveSettings({ maxDepth: value[0] })}
+            disabled={isDisabled}
+          />
+          <p className="text-xs text-muted-foreground">
+            The agent stops replying in a conversation after this many replies, so it can&apos;t get stuck talking to another bot.
+          </p>
+        </div>
+      )}
+
+      {stats && (stats.posted > 0 || stats.pending > 0) && (
+        <p className="text-xs text-muted-foreground">
+          Last {stats.periodDays} days: {stats.posted} mention {stats.posted === 1 ? 'reply' : 'replies'} posted
+          {stats.pending > 0 && `, ${stats.pending} awaiting review`}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,14 @@
 import { Agent } from "../../hooks/use-dashboard-state";
 
+export interface TweetMediaAttachment {
+  id: string;
+  mediaType: 'image' | 'gif' | 'video';
+  fileName: string;
+  previewUrl: string;
+}
+
+export type TweetComposeMode = 'tweet' | 'thread' | 'quote';
+
 export interface TweetModalState {
   isOpen: boolean;
   agentId: string | null;
@@ -13,6 +22,13 @@ export interface TweetModalState {
   isLoading: boolean;
   isScheduleEnabled: boolean;
   scheduleTime: string;
+  isThread: boolean;
+  threadParts: string[];
+  threadLength: number;
+  isQuote: boolean;
+  quotedTweet: string;
+  media: TweetMediaAttachment[];
+  isUploadingMedia: boolean;
   generationsInfo?: {
     used: number;
     total: number;
@@ -30,8 +46,11 @@ export interface AutoTweetModalState {
   agentId: string | null;
   frequency: number;
   count: number;
+  trendsEnabled: boolean;
 }
 
+export type AutoEngageSource = 'timeline' | 'search' | 'lists' | 'accounts';
+
 export interface AutoEngageModalState {
   isOpen: boolean;
   agentId: string | null;
@@ -41,6 +60,19 @@ export interface AutoEngageModalState {
   autoReply: boolean;
   qualityFilter: boolean;
   strictnessLevel: number;
+  source: AutoEngageSource;
+  listIds: string[];
+  targetHandles: string[];
+  freshnessMinutes: number;
+  likeEnabled: boolean;
+  likeMinScore: number;
+  maxDailyLikes: number;
+  retweetEnabled: boolean;
+  retweetMinScore: number;
+  maxDailyRetweets: number;
+  quoteEnabled: boolean;
+  quoteMinScore: number;
+  maxDailyQuotes: number;
 }
 
 export interface DashboardModalState {
@@ -0,0 +1,293 @@
+"use client";
+
+import axios from "axios";
+import { useState, useEffect, useMemo } from "react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, CalendarClock, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface ActiveWindow {
+  day: number;
+  start: string;
+  end: string;
+}
+
+interface PostingSchedule {
+  timezone: string;
+  activeHours: ActiveWindow[] | null;
+  blackoutDates: string[];
+  jitterMinutes: number;
+}
+
+interface SchedulePreview {
+  autoTweet: string[];
+  autoEngage: string[];
+}
+
+interface PostingScheduleSettingsProps {
+  agentId: string;
+  previewFor: keyof SchedulePreview;
+  disabled: boolean;
+}
+
+type ScheduleChanges = Partial<PostingSchedule>;
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DEFAULT_WINDOW = { start: "09:00", end: "17:00" };
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) ? error.response?.data?.error || fallback : fallback;
+
+/**
+ * When auto-tweets and auto-engage may run, saved on change and shared by both; previews the
+ * next runs of the feature the modal is for
+ */
+export function PostingScheduleSettings({ agentId, previewFor, disabled }: PostingScheduleSettingsProps) {
+  const { toast } = useToast();
+  const [config, setConfig] = useState<PostingSchedule | null>(null);
+  const [preview, setPreview] = useState<SchedulePreview | null>(null);
+  const [blackoutInput, setBlackoutInput] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const timeZones = useMemo(() => {
+    const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const supported = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+    return Array.from(new Set(["UTC", browserZone, ...supported, ...(config ? [config.timezone] : [])]));
+  }, [config]);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await axios.get(`/api/agents/${agentId}/posting-schedule`);
+        if (response.data.success) {
+          setConfig(response.data.config);
+          setPreview(response.data.preview);
+        }
+      } catch (error) {
+        console.error('Error fetching posting schedule:', error);
+      }
+    };
+
+    fetchSettings();
+  }, [agentId]);
+
+  const saveSettings = async (changes: ScheduleChanges) => {
+    if (!config) return;
+
+    const previous = config;
+    setConfig({ ...config, ...changes });
+    setIsSaving(true);
+    try {
+      const response = await axios.put(`/api/agents/${agentId}/posting-schedule`, changes);
+      setConfig(response.data.config);
+      setPreview(response.data.preview);
+    } catch (error) {
+      console.error('Error saving posting schedule:', error);
+      setConfig(previous);
+      toast({
+        title: "Failed to save posting schedule",
+        description: getErrorMessage(error, "Could not save the posting schedule."),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!config) {
+    return (
+      <div className="flex items-center justify-center p-4 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+      </div>
+    );
+  }
+
+  const isDisabled = disabled || isSaving;
+  const activeHours = config.activeHours;
+  const windowFor = (day: number) => activeHours?.find(window => window.day === day);
+
+  // One window per weekday from this editor; days without a window are skipped entirely
+  const updateWindow = (day: number, window: Omit<ActiveWindow, "day"> | null) => {
+    const others = (activeHours || []).filter(existing => existing.day !== day);
+    const updated = window ? [...others, { day, ...window }] : others;
+    saveSettings({ activeHours: updated.sort((a, b) => a.day - b.day) });
+  };
+
+  const addBlackoutDate = () => {
+    if (!blackoutInput || config.blackoutDates.includes(blackoutInput)) return;
+    saveSettings({ blackoutDates: [...config.blackoutDates, blackoutInput].sort() });
+    setBlackoutInput("");
+  };
+
+  const formatRun = (time: string) =>
+    new Intl.DateTimeFormat(undefined, {
+      timeZone: config.timezone,
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    }).format(new Date(time));
+
+  const upcoming = preview?.[previewFor] || [];
+
+  return (
+    <div className="space-y-4 p-4 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center gap-2">
+        <CalendarClock className="h-4 w-4 text-[hsl(var(--primary))]" />
+        <Label className="text-base font-semibold text-[hsl(var(--fence-green))] dark:text-gray-100">Posting schedule</Label>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Shared by auto-tweets and auto-engage. Nothing runs outside active hours or on blackout dates.
+      </p>
+
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Time zone</Label>
+        <Select value={config.timezone} onValueChange={timezone => saveSettings({ timezone })} disabled={isDisabled}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="max-h-72">
+            {timeZones.map(zone => (
+              <SelectItem key={zone} value={zone}>{zone.replace(/_/g, " ")}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs text-muted-foreground">Only run during active hours</Label>
+          <Switch
+            checked={activeHours !== null && activeHours.length > 0}
+            onCheckedChange={enabled => saveSettings({
+              activeHours: enabled ? [1, 2, 3, 4, 5].map(day => ({ day, ...DEFAULT_WINDOW })) : null
+            })}
+            disabled={isDisabled}
+          />
+        </div>
+
+        {activeHours && activeHours.length > 0 && (
+          <div className="space-y-1">
+            {WEEKDAYS.map((label, day) => {
+              const window = windowFor(day);
+              return (
+                <div key={label} className="flex items-center gap-2 text-xs">
+                  <Switch
+                    checked={!!window}
+                    onCheckedChange={enabled => updateWindow(day, enabled ? DEFAULT_WINDOW : null)}
+                    // Turn active hours off above instead of removing the last day
+                    disabled={isDisabled || (!!window && activeHours.length === 1)}
+                  />
+                  <span className="w-8 font-medium">{label}</span>
+                  {window ? (
+                    <>
+                      <Input
+                        type="time"
+                        defaultValue={window.start}
+                        key={`${day}-start-${window.start}`}
+                        onBlur={event => event.target.value && event.target.value !== window.start &&
+                          updateWindow(day, { start: event.target.value, end: window.end })}
+                        disabled={isDisabled}
+                        className="h-8 w-28"
+                      />
+                      <span className="text-muted-foreground">to</span>
+                      <Input
+                        type="time"
+                        defaultValue={window.end === "24:00" ? "23:59" : window.end}
+                        key={`${day}-end-${window.end}`}
+                        onBlur={event => event.target.value && event.target.value !== window.end &&
+                          updateWindow(day, { start: window.start, end: event.target.value === "23:59" ? "24:00" : event.target.value })}
+                        disabled={isDisabled}
+                        className="h-8 w-28"
+                      />
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground">Off</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Blackout dates</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={blackoutInput}
+            onChange={event => setBlackoutInput(event.target.value)}
+            disabled={isDisabled}
+            className="h-8 w-44"
+          />
+          <Button variant="outline" size="sm" onClick={addBlackoutDate} disabled={isDisabled || !blackoutInput}>
+            Add
+          </Button>
+        </div>
+        {config.blackoutDates.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {config.blackoutDates.map(date => (
+              <span key={date} className="inline-flex items-center gap-1 rounded border px-2 py-0.5 text-xs">
+                {date}
+                <button
+                  type="button"
+                  onClick={() => saveSettings({ blackoutDates: config.blackoutDates.filter(existing => existing !== date) })}
+                  disabled={isDisabled}
+                  aria-label={`Remove ${date}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">Random jitter</span>
+          <span className="font-bold text-[hsl(var(--primary))]">
+            {config.jitterMinutes > 0 ? `up to ${config.jitterMinutes} min` : "Off"}
+          </span>
+        </div>
+        <Slider
+          min={0}
+          max={60}
+          step={5}
+          value={[config.jitterMinutes]}
+          onValueChange={value => value.length > 0 && setConfig({ ...config, jitterMinutes: value[0] })}
+          onValueCommit={value => value.length > 0 && saveSettings({ jitterMinutes: value[0] })}
+          disabled={isDisabled}
+        />
+        <p className="text-xs text-muted-foreground">
+          Moves each run by a random amount so the agent doesn&apos;t post like clockwork.
+        </p>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Next runs ({config.timezone.replace(/_/g, " ")})</Label>
+        {upcoming.length > 0 ? (
+          <ul className="space-y-0.5 text-sm">
+            {upcoming.map((time, index) => (
+              <li key={`${time}-${index}`}>{formatRun(time)}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Nothing planned yet. Runs appear here once the feature is turned on and saved.
+          </p>
+        )}
+        {upcoming.length > 0 && config.jitterMinutes > 0 && (
+          <p className="text-xs text-muted-foreground">Actual times vary by up to {config.jitterMinutes} minutes.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Bot, Plus, Sparkles, X } from "lucide-react";
+import { MAX_THREAD_PARTS, MIN_THREAD_PARTS } from "./tweet-modal-utils";
+
+interface ThreadComposerProps {
+  parts: string[];
+  isGenerating: boolean;
+  disabled: boolean;
+  onPartChange: (index: number, value: string) => void;
+  onAddPart: () => void;
+  onRemovePart: (index: number) => void;
+}
+
+export function ThreadComposer({
+  parts,
+  isGenerating,
+  disabled,
+  onPartChange,
+  onAddPart,
+  onRemovePart
+}: ThreadComposerProps) {
+  if (isGenerating) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center space-y-3">
+          <div className="relative">
+            <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto" />
+            <Sparkles className="w-4 h-4 text-blue-500 absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2" />
+          </div>
+          <p className="text-sm text-muted-foreground">Generating your thread...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 max-h-[45vh] overflow-y-auto pr-1">
+      {parts.map((part, index) => (
+        <div key={index} className="flex gap-3">
+          {/* Avatar with the connector line that X draws between thread tweets */}
+          <div className="flex flex-col items-center">
+            <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gradient-to-br from-orange-400 to-orange-600 flex items-center justify-center shadow-sm">
+              <Bot className="w-4 h-4 text-white" />
+            </div>
+            {index < parts.length - 1 && <div className="w-px flex-1 bg-gray-300 dark:bg-gray-600 mt-1" />}
+          </div>
+
+          <div className="flex-1 rounded-xl border p-3 bg-gradient-to-br from-gray-50/50 to-white dark:from-gray-900/50 dark:to-gray-800/50">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium text-muted-foreground">
+                {index + 1}/{parts.length}
+              </span>
+              {parts.length > MIN_THREAD_PARTS && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-muted-foreground"
+                  onClick={() => onRemovePart(index)}
+                  disabled={disabled}
+                >
+                  <X className="h-3 w-3" />
+                  <span className="sr-only">Remove tweet {index + 1}</span>
+                </Button>
+              )}
+            </div>
+            <Textarea
+              value={part}
+              placeholder={index === 0 ? "Start your thread..." : "Continue the thread..."}
+              onChange={(e) => onPartChange(index, e.target.value)}
+              rows={3}
+              maxLength={280}
+              className="w-full border-none bg-transparent resize-none text-sm p-0 focus:ring-0 focus:outline-none"
+              disabled={disabled}
+            />
+            <p className={`text-right text-xs ${part.length > 260 ? "text-amber-500" : "text-muted-foreground"}`}>
+              {part.length}/280
+            </p>
+          </div>
+        </div>
+      ))}
+
+      {parts.length < MAX_THREAD_PARTS && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="text-primary hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-full"
+          onClick={onAddPart}
+          disabled={disabled}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add tweet
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,26 @@
 import axios from "axios";
 import { useCallback } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { DashboardModalState } from "./modal-types";
+import { DashboardModalState, TweetComposeMode, TweetMediaAttachment } from "./modal-types";
+
+export const MAX_THREAD_PARTS = 10;
+export const MIN_THREAD_PARTS = 2;
+
+// Mirrors the upload limits enforced by the media service
+export const MAX_IMAGES_PER_TWEET = 4;
+export const MEDIA_ACCEPT = "image/jpeg,image/png,image/webp,image/gif,video/mp4,video/quicktime";
+const MEDIA_MAX_BYTES: Record<TweetMediaAttachment['mediaType'], number> = {
+  image: 5 * 1024 * 1024,
+  gif: 15 * 1024 * 1024,
+  video: 512 * 1024 * 1024
+};
+
+const getAttachmentType = (file: File): TweetMediaAttachment['mediaType'] | null => {
+  if (file.type === 'image/gif') return 'gif';
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('video/')) return 'video';
+  return null;
+};
 
 export const useTweetModalUtils = (
   modalState: DashboardModalState,
@@ -60,6 +79,17 @@ export const useTweetModalUtils = (
     
     // Prevent closing if loading
     if (tweet.isLoading) return;
+
+    tweet.media.forEach(item => URL.revokeObjectURL(item.previewUrl));
+
+    // Discard uploads that never made it into a tweet
+    if (tweet.stage !== 'complete' && tweet.agentId) {
+      tweet.media.forEach(item => {
+        axios.delete(`/api/agents/${tweet.agentId}/media/${item.id}`).catch(error => {
+          console.error('Error discarding media upload:', error);
+        });
+      });
+    }
     
     setModalState({
       ...modalState,
@@ -76,6 +106,12 @@ export const useTweetModalUtils = (
         progress: 0,
         isScheduleEnabled: false,
         scheduleTime: '',
+        isThread: false,
+        threadParts: ['', ''],
+        isQuote: false,
+        quotedTweet: '',
+        media: [],
+        isUploadingMedia: false,
         generationsInfo: undefined
       }
     });
@@ -108,7 +144,7 @@ export const useTweetModalUtils = (
     }
   };
 
-  // Handler for URL and X account tag input fields
+  // Handler for URL, X account tag and quoted tweet input fields
   const handleTweetInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { tweet } = modalState;
     
@@ -135,6 +171,14 @@ export const useTweetModalUtils = (
           xAccountToTag: formattedTag
         }
       });
+    } else if (name === "quotedTweet") {
+      setModalState({
+        ...modalState,
+        tweet: {
+          ...tweet,
+          quotedTweet: value.trim()
+        }
+      });
     }
   };
 
@@ -172,7 +216,6 @@ export const useTweetModalUtils = (
           context: tweet.context || undefined,
           url: tweet.url || undefined,
           xAccountToTag: tweet.xAccountToTag || undefined,
-          llmProvider: "openai",
           isRegeneration // Add the flag to the API request
         }
       );
@@ -312,16 +355,20 @@ export const useTweetModalUtils = (
             tweet: {
               text: tweet.text,
               context: tweet.context || undefined,
-              url: tweet.url || undefined,
-              xAccountToTag: tweet.xAccountToTag || undefined
+              url: tweet.isQuote ? undefined : tweet.url || undefined,
+              xAccountToTag: tweet.isQuote ? undefined : tweet.xAccountToTag || undefined,
+              quotedTweetId: tweet.isQuote ? tweet.quotedTweet : undefined,
+              mediaIds: tweet.media.length > 0 ? tweet.media.map(item => item.id) : undefined
             }
           }
         : {
             tweet: {
               text: tweet.text,
               context: tweet.context || undefined,
-              url: tweet.url || undefined,
-              xAccountToTag: tweet.xAccountToTag || undefined
+              url: tweet.isQuote ? undefined : tweet.url || undefined,
+              xAccountToTag: tweet.isQuote ? undefined : tweet.xAccountToTag || undefined,
+              quotedTweetId: tweet.isQuote ? tweet.quotedTweet : undefined,
+              mediaIds: tweet.media.length > 0 ? tweet.media.map(item => item.id) : undefined
             }
           };
       
@@ -402,12 +449,443 @@ export const useTweetModalUtils = (
     }
   };
 
+  const uploadMedia = async (files: File[]) => {
+    const { tweet } = modalState;
+    if (!tweet.agentId || files.length === 0 || tweet.isUploadingMedia) return;
+
+    // X allows up to 4 images, or a single GIF or video
+    const selected = [...tweet.media.map(item => item.mediaType), ...files.map(getAttachmentType)];
+    const hasUnsupported = selected.some(type => type === null);
+    const hasSingleOnly = selected.some(type => type === 'gif' || type === 'video');
+
+    if (hasUnsupported || (hasSingleOnly && selected.length > 1) || selected.length > MAX_IMAGES_PER_TWEET) {
+      toast({
+        title: "Can't Attach Media",
+        description: hasUnsupported
+          ? "Only JPEG, PNG, WebP, GIF, MP4 and MOV files are supported."
+          : `Attach up to ${MAX_IMAGES_PER_TWEET} images, or a single GIF or video.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const oversized = files.find(file => file.size > MEDIA_MAX_BYTES[getAttachmentType(file)!]);
+    if (oversized) {
+      toast({
+        title: "File Too Large",
+        description: `${oversized.name} is larger than X allows for this media type.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setModalState({
+      ...modalState,
+      tweet: { ...tweet, isUploadingMedia: true }
+    });
+
+    const uploaded: TweetMediaAttachment[] = [];
+
+    try {
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append('file', file);
+
+        const response = await axios.post(`/api/agents/${tweet.agentId}/media`, formData);
+
+        uploaded.push({
+          id: response.data.media.id,
+          mediaType: response.data.media.mediaType,
+          fileName: file.name,
+          previewUrl: URL.createObjectURL(file)
+        });
+      }
+    } catch (error) {
+      console.error('Error uploading media:', error);
+
+      toast({
+        title: "Upload Failed",
+        description: axios.isAxiosError(error)
+          ? (error.response?.data?.details || error.response?.data?.error || "Server connection error during upload.")
+          : "An unknown error occurred while uploading.",
+        variant: "destructive"
+      });
+    }
+
+    setModalState({
+      ...modalState,
+      tweet: {
+        ...tweet,
+        media: [...tweet.media, ...uploaded],
+        isUploadingMedia: false
+      }
+    });
+  };
+
+  const removeMedia = (mediaId: string) => {
+    const { tweet } = modalState;
+    if (tweet.isLoading) return;
+
+    const item = tweet.media.find(media => media.id === mediaId);
+    if (!item) return;
+
+    URL.revokeObjectURL(item.previewUrl);
+    axios.delete(`/api/agents/${tweet.agentId}/media/${mediaId}`).catch(error => {
+      console.error('Error discarding media upload:', error);
+    });
+
+    setModalState({
+      ...modalState,
+      tweet: {
+        ...tweet,
+        media: tweet.media.filter(media => media.id !== mediaId)
+      }
+    });
+  };
+
+  const setComposeMode = (mode: TweetComposeMode) => {
+    const { tweet } = modalState;
+    if (tweet.isLoading || tweet.stage === "generating" || tweet.stage === "posting") return;
+
+    setModalState({
+      ...modalState,
+      tweet: {
+        ...tweet,
+        isThread: mode === 'thread',
+        isQuote: mode === 'quote',
+        generatedText: '',
+        stage: 'idle'
+      }
+    });
+  };
+
+  const setThreadLength = (threadLength: number) => {
+    setModalState({
+      ...modalState,
+      tweet: {
+        ...modalState.tweet,
+        threadLength
+      }
+    });
+  };
+
+  const handleThreadPartChange = (index: number, value: string) => {
+    const { tweet } = modalState;
+    if (tweet.stage === "generating" || tweet.stage === "posting") return;
+
+    const threadParts = [...tweet.threadParts];
+    threadParts[index] = value.slice(0, 280);
+
+    setModalState({
+      ...modalState,
+      tweet: {
+        ...tweet,
+        threadParts
+      }
+    });
+  };
+
+  const addThreadPart = () => {
+    const { tweet } = modalState;
+    if (tweet.threadParts.length >= MAX_THREAD_PARTS) return;
+
+    setModalState({
+      ...modalState,
+      tweet: {
+        ...tweet,
+        threadParts: [...tweet.threadParts, '']
+      }
+    });
+  };
+
+  const removeThreadPart = (index: number) => {
+    const { tweet } = modalState;
+    if (tweet.threadParts.length <= MIN_THREAD_PARTS) return;
+
+    setModalState({
+      ...modalState,
+      tweet: {
+        ...tweet,
+        threadParts: tweet.threadParts.filter((_, i) => i !== index)
+      }
+    });
+  };
+
+  const generateThread = async () => {
+    const { tweet } = modalState;
+
+    if (!tweet.agentId || tweet.isLoading || !tweet.context.trim()) return;
+
+    setModalState({
+      ...modalState,
+      tweet: {
+        ...tweet,
+        isLoading: true,
+        stage: "generating",
+        progress: 5
+      }
+    });
+
+    try {
+      const isRegeneration = !!tweet.generatedText;
+
+      const response = await axios.post(`/api/agents/${tweet.agentId}/generate-thread`, {
+        topic: tweet.context,
+        parts: tweet.threadLength,
+        isRegeneration
+      });
+
+      const parts: string[] | undefined = response.data?.thread?.parts;
+
+      if (!Array.isArray(parts) || parts.length < MIN_THREAD_PARTS) {
+        throw new Error("Received invalid content from generation service.");
+      }
+
+      setModalState({
+        ...modalState,
+        tweet: {
+          ...modalState.tweet,
+          threadParts: parts,
+          generatedText: parts.join('\n\n'),
+          progress: 70,
+          stage: "idle",
+          isLoading: false,
+          generationsInfo: response.data?.generationsInfo || modalState.tweet.generationsInfo
+        }
+      });
+
+      toast({
+        title: "Thread Generated",
+        description: `Review the ${parts.length} tweets before posting.`
+      });
+    } catch (error) {
+      console.error("Error generating thread:", error);
+
+      let errorMessage = "An unknown error occurred during thread generation.";
+
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 403 && error.response?.data?.error === "Custom generation limit reached") {
+          errorMessage = "You've reached your custom generation limit. Please upgrade your plan for more.";
+        } else {
+          errorMessage = error.response?.data?.details || error.response?.data?.error || "Server connection error during generation.";
+        }
+      } else if (error instanceof Error) {
+        errorMessage = error.message;
+      }
+
+      setModalState({
+        ...modalState,
+        tweet: {
+          ...modalState.tweet,
+          stage: "error",
+          progress: 0,
+          isLoading: false
+        }
+      });
+
+      toast({
+        title: "Thread Generation Failed",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const postThread = async () => {
+    const { tweet } = modalState;
+    const parts = tweet.threadParts.map(part => part.trim());
+
+    if (!tweet.agentId || tweet.isLoading) return;
+
+    if (parts.some(part => !part)) {
+      toast({
+        title: "Empty Tweet in Thread",
+        description: "Fill in or remove the empty tweets before posting.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (tweet.isScheduleEnabled && (!tweet.scheduleTime || new Date(tweet.scheduleTime) < new Date())) {
+      toast({
+        title: "Invalid Schedule Time",
+        description: "Please select a future date and time to schedule the thread.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setModalState({
+      ...modalState,
+      tweet: {
+        ...tweet,
+        isLoading: true,
+        stage: "posting",
+        progress: 75
+      }
+    });
+
+    const isScheduling = tweet.isScheduleEnabled;
+
+    try {
+      const response = await axios.post(`/api/agents/${tweet.agentId}/threads`, {
+        parts,
+        context: tweet.context || undefined,
+        ...(isScheduling && { scheduledAt: new Date(tweet.scheduleTime).toISOString() })
+      });
+
+      if (!response.data?.success) {
+        throw new Error("Unexpected API response");
+      }
+
+      setModalState({
+        ...modalState,
+        tweet: {
+          ...tweet,
+          progress: 100,
+          stage: "complete"
+        }
+      });
+
+      toast({
+        title: isScheduling ? "Thread Scheduled" : "Thread Posted",
+        description: isScheduling
+          ? `Your ${parts.length}-tweet thread is scheduled for ${new Date(tweet.scheduleTime).toLocaleString()}.`
+          : `All ${parts.length} tweets were posted to X.`
+      });
+
+      setTimeout(() => {
+        closeTweetModal();
+      }, 1500);
+    } catch (error) {
+      console.error(`Error ${isScheduling ? 'scheduling' : 'posting'} thread:`, error);
+
+      let errorMessage = `An unknown error occurred while ${isScheduling ? 'scheduling' : 'posting'}.`;
+
+      if (axios.isAxiosError(error)) {
+        const thread = error.response?.data?.thread;
+        errorMessage = error.response?.data?.details || error.response?.data?.error || errorMessage;
+
+        // The thread stopped part-way; the first tweets are already live on X
+        if (thread && thread.postedCount > 0) {
+          errorMessage = `${thread.postedCount} of ${thread.totalParts} tweets were posted before it stopped: ${errorMessage}`;
+        }
+      } else if (error instanceof Error) {
+        errorMessage = error.message;
+      }
+
+      setModalState({
+        ...modalState,
+        tweet: {
+          ...tweet,
+          stage: "error",
+          progress: 0,
+          isLoading: false
+        }
+      });
+
+      toast({
+        title: `Failed to ${isScheduling ? 'Schedule' : 'Post'} Thread`,
+        description: errorMessage,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const generateQuoteTweet = async () => {
+    const { tweet } = modalState;
+
+    if (!tweet.agentId || tweet.isLoading || !tweet.quotedTweet) return;
+
+    setModalState({
+      ...modalState,
+      tweet: {
+        ...tweet,
+        isLoading: true,
+        stage: "generating",
+        progress: 5
+      }
+    });
+
+    try {
+      const response = await axios.post(`/api/agents/${tweet.agentId}/generate-quote`, {
+        quotedTweetId: tweet.quotedTweet,
+        context: tweet.context || undefined,
+        isRegeneration: !!tweet.generatedText
+      });
+
+      const generatedText = response.data?.tweet?.text;
+
+      if (!generatedText || typeof generatedText !== 'string') {
+        throw new Error("Received invalid content from generation service.");
+      }
+
+      setModalState({
+        ...modalState,
+        tweet: {
+          ...modalState.tweet,
+          generatedText,
+          text: generatedText,
+          progress: 70,
+          stage: "idle",
+          isLoading: false,
+          generationsInfo: response.data?.generationsInfo || modalState.tweet.generationsInfo
+        }
+      });
+
+      toast({
+        title: "Quote Tweet Generated",
+        description: "Review the commentary before posting."
+      });
+    } catch (error) {
+      console.error("Error generating quote tweet:", error);
+
+      let errorMessage = "An unknown error occurred during quote tweet generation.";
+
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 403 && error.response?.data?.error === "Custom generation limit reached") {
+          errorMessage = "You've reached your custom generation limit. Please upgrade your plan for more.";
+        } else {
+          errorMessage = error.response?.data?.details || error.response?.data?.error || "Server connection error during generation.";
+        }
+      } else if (error instanceof Error) {
+        errorMessage = error.message;
+      }
+
+      setModalState({
+        ...modalState,
+        tweet: {
+          ...modalState.tweet,
+          stage: "error",
+          progress: 0,
+          isLoading: false
+        }
+      });
+
+      toast({
+        title: "Quote Tweet Generation Failed",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    }
+  };
+
   return {
     fetchGenerationsInfo,
     closeTweetModal,
     handleTweetTextChange,
     handleTweetInputChange,
     generateTweet,
-    postTweet
+    postTweet,
+    setComposeMode,
+    setThreadLength,
+    handleThreadPartChange,
+    addThreadPart,
+    removeThreadPart,
+    generateThread,
+    postThread,
+    generateQuoteTweet,
+    uploadMedia,
+    removeMedia
   };
 }; 
\ No newline at end of file
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
@@ -10,9 +10,13 @@ import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Bot, Globe, ImageIcon, Film, ListChecks, Smile, CalendarDays, Sparkles, Clock, Send } from "lucide-react";
-import { ModalProps } from "./modal-types";
-import { useTweetModalUtils } from "./tweet-modal-utils";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Bot, Globe, ImageIcon, Film, ListChecks, Smile, CalendarDays, Sparkles, Clock, Send, MessageSquare, ListOrdered, Quote } from "lucide-react";
+import { ModalProps, TweetComposeMode } from "./modal-types";
+import { useTweetModalUtils, MAX_THREAD_PARTS, MIN_THREAD_PARTS, MEDIA_ACCEPT } from "./tweet-modal-utils";
+import { ThreadComposer } from "./thread-composer";
+import { MediaAttachments } from "./media-attachments";
 
 export function TweetModal({ modalState, setModalState }: ModalProps) {
   const {
@@ -21,9 +25,29 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
     handleTweetTextChange,
     handleTweetInputChange,
     generateTweet,
-    postTweet
+    postTweet,
+    setComposeMode,
+    setThreadLength,
+    handleThreadPartChange,
+    addThreadPart,
+    removeThreadPart,
+    generateThread,
+    postThread,
+    generateQuoteTweet,
+    uploadMedia,
+    removeMedia
   } = useTweetModalUtils(modalState, setModalState);
 
+  const mediaInputRef = useRef<HTMLInputElement>(null);
+  const canAttachMedia = modalState.tweet.stage !== "posting" &&
+    modalState.tweet.stage !== "complete" &&
+    !modalState.tweet.isUploadingMedia;
+
+  const isThread = modalState.tweet.isThread;
+  const isQuote = modalState.tweet.isQuote;
+  const itemLabel = isThread ? "Thread" : isQuote ? "Quote Tweet" : "Tweet";
+  const threadIsValid = modalState.tweet.threadParts.every(part => part.trim().length > 0 && part.length <= 280);
+
   // Fetch generations info when modal opens
   useEffect(() => {
     if (modalState.tweet.isOpen && !modalState.tweet.generationsInfo) {
@@ -76,10 +100,14 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
           <div className="flex items-center justify-between">
             <div>
               <DialogTitle className="text-xl font-semibold">
-                {modalState.tweet.isScheduleEnabled ? "Schedule Tweet" : "Create Tweet"}
+                {modalState.tweet.isScheduleEnabled ? `Schedule ${itemLabel}` : `Create ${itemLabel}`}
               </DialogTitle>
               <DialogDescription className="text-sm text-muted-foreground mt-1">
-                {modalState.tweet.isScheduleEnabled 
+                {isThread
+                  ? "Each tweet is posted as a reply to the one before it"
+                  : isQuote
+                  ? "Share another tweet with your agent's take on it"
+                  : modalState.tweet.isScheduleEnabled 
                   ? "Schedule your tweet"
                   : "Write your own engaging tweet"
                 }
@@ -115,6 +143,27 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
           </div>
         </DialogHeader>
         
+        {/* Tweet / Thread / Quote Mode */}
+        <Tabs
+          value={isThread ? "thread" : isQuote ? "quote" : "tweet"}
+          onValueChange={(value) => setComposeMode(value as TweetComposeMode)}
+        >
+          <TabsList className="grid w-full max-w-md grid-cols-3">
+            <TabsTrigger value="tweet" disabled={modalState.tweet.isLoading} className="gap-2">
+              <MessageSquare className="w-4 h-4" />
+              Single Tweet
+            </TabsTrigger>
+            <TabsTrigger value="thread" disabled={modalState.tweet.isLoading} className="gap-2">
+              <ListOrdered className="w-4 h-4" />
+              Thread
+            </TabsTrigger>
+            <TabsTrigger value="quote" disabled={modalState.tweet.isLoading} className="gap-2">
+              <Quote className="w-4 h-4" />
+              Quote
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+
         {/* Enhanced Progress Indicator */}
         {(modalState.tweet.stage === "generating" || modalState.tweet.stage === "posting") && (
           <Card className="mb-4 border-l-4 border-l-blue-500 bg-gradient-to-r from-blue-50/50 to-indigo-50/50 dark:from-blue-950/20 dark:to-indigo-950/20">
@@ -144,7 +193,7 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
                     </div>
                     <span>
                       {modalState.tweet.stage === "generating" 
-                        ? "Crafting your perfect tweet" 
+                        ? `Crafting your perfect ${itemLabel.toLowerCase()}` 
                         : "Publishing to X"
                       }
                     </span>
@@ -177,12 +226,17 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
               <div className="space-y-4">
                 <div className="space-y-2">
                   <Label htmlFor="context" className="text-sm font-medium">
-                    Context <span className="text-red-500">*</span>
+                    {isThread ? "Thread Topic" : isQuote ? "Your Angle" : "Context"} {!isQuote && <span className="text-red-500">*</span>}
                   </Label>
                   <Textarea
                     id="context"
                     name="context"
-                    placeholder="What should your tweet be about? Share a topic, event, or specific instruction..."
+                    placeholder={isThread
+                      ? "What should the thread cover? The agent will expand it into a series of tweets..."
+                      : isQuote
+                      ? "Optional: agree, push back, add a tip... The agent will comment in its own voice"
+                      : "What should your tweet be about? Share a topic, event, or specific instruction..."
+                    }
                     value={modalState.tweet.context}
                     onChange={handleTweetTextChange}
                     rows={3}
@@ -191,6 +245,44 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
                   />
                 </div>
                 
+                {isThread ? (
+                <div className="space-y-2">
+                  <Label htmlFor="thread-length" className="text-sm font-medium">Number of Tweets</Label>
+                  <Select
+                    value={String(modalState.tweet.threadLength)}
+                    onValueChange={(value) => setThreadLength(Number(value))}
+                    disabled={modalState.tweet.isLoading || modalState.tweet.stage !== "idle"}
+                  >
+                    <SelectTrigger id="thread-length">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: MAX_THREAD_PARTS - MIN_THREAD_PARTS + 1 }, (_, i) => i + MIN_THREAD_PARTS).map(count => (
+                        <SelectItem key={count} value={String(count)}>{count} tweets</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                ) : isQuote ? (
+                <div className="space-y-2">
+                  <Label htmlFor="quotedTweet" className="text-sm font-medium">
+                    Tweet to Quote <span className="text-red-500">*</span>
+                  </Label>
+                  <Input
+                    id="quotedTweet"
+                    name="quotedTweet"
+                    placeholder="https://x.com/username/status/..."
+                    value={modalState.tweet.quotedTweet}
+                    onChange={handleTweetInputChange}
+                    disabled={modalState.tweet.isLoading || modalState.tweet.stage !== "idle"}
+                    className="focus:ring-2 focus:ring-blue-500/20"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Paste the tweet&apos;s link or ID. It appears under your text when posted.
+                  </p>
+                </div>
+                ) : (
+                <>
                 <div className="space-y-2">
                   <Label htmlFor="url" className="text-sm font-medium">Reference URL</Label>
                   <Input 
@@ -227,6 +319,8 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
                     </p>
                   )}
                 </div>
+                </>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -236,9 +330,20 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
             <CardContent className="p-4 flex-1">
               <div className="flex items-center gap-2 mb-3">
                 <Bot className="w-4 h-4 text-orange-500" />
-                <h3 className="font-medium text-sm">Tweet Preview</h3>
+                <h3 className="font-medium text-sm">{itemLabel} Preview</h3>
               </div>
               
+              {isThread ? (
+                <ThreadComposer
+                  parts={modalState.tweet.threadParts}
+                  isGenerating={modalState.tweet.stage === "generating"}
+                  disabled={modalState.tweet.stage === "posting" || modalState.tweet.stage === "complete"}
+                  onPartChange={handleThreadPartChange}
+                  onAddPart={addThreadPart}
+                  onRemovePart={removeThreadPart}
+                />
+              ) : (
+              <>
               {/* Tweet Content Area */}
               <div className="border rounded-xl p-4 bg-gradient-to-br from-gray-50/50 to-white dark:from-gray-900/50 dark:to-gray-800/50 min-h-[200px] flex flex-col">
                 <div className="flex gap-3 flex-1">
@@ -271,7 +376,23 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
                         className={`w-full border-none bg-transparent resize-none text-base placeholder:text-gray-400 focus:ring-0 focus:outline-none ${
                           modalState.tweet.text.length > 280 ? 'text-red-500' : 'text-foreground'
                         }`}
-                        disabled={modalState.tweet.stage === "posting" || (!modalState.tweet.generatedText && !modalState.tweet.text && modalState.tweet.stage === "idle" && !modalState.tweet.context && !modalState.tweet.url && !modalState.tweet.xAccountToTag)}
+                        disabled={modalState.tweet.stage === "posting" || (!modalState.tweet.generatedText && !modalState.tweet.text && modalState.tweet.stage === "idle" && !modalState.tweet.context && !modalState.tweet.url && !modalState.tweet.xAccountToTag && !modalState.tweet.quotedTweet)}
+                      />
+                    )}
+
+                    {isQuote && modalState.tweet.quotedTweet && modalState.tweet.stage !== "generating" && (
+                      <div className="flex items-center gap-2 rounded-lg border border-dashed px-3 py-2 text-xs text-muted-foreground">
+                        <Quote className="w-3 h-3 flex-shrink-0" />
+                        <span className="truncate">Quoting {modalState.tweet.quotedTweet}</span>
+                      </div>
+                    )}
+
+                    {modalState.tweet.stage !== "generating" && (
+                      <MediaAttachments
+                        media={modalState.tweet.media}
+                        isUploading={modalState.tweet.isUploadingMedia}
+                        disabled={!canAttachMedia}
+                        onRemove={removeMedia}
                       />
                     )}
                   </div>
@@ -290,7 +411,32 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
                     {/* Bottom Toolbar */}
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-1">
-                        {[ImageIcon, Film, ListChecks, Smile, CalendarDays].map((Icon, idx) => (
+                        <input
+                          ref={mediaInputRef}
+                          type="file"
+                          accept={MEDIA_ACCEPT}
+                          multiple
+                          className="hidden"
+                          onChange={(e) => {
+                            uploadMedia(Array.from(e.target.files || []));
+                            e.target.value = '';
+                          }}
+                        />
+                        {[ImageIcon, Film].map((Icon, idx) => (
+                          <Button
+                            key={idx}
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="rounded-full hover:bg-blue-50 dark:hover:bg-blue-900/20 text-blue-500 w-8 h-8 p-0"
+                            onClick={() => mediaInputRef.current?.click()}
+                            disabled={!canAttachMedia}
+                          >
+                            <Icon className="w-4 h-4" />
+                            <span className="sr-only">{idx === 0 ? "Add images" : "Add GIF or video"}</span>
+                          </Button>
+                        ))}
+                        {[ListChecks, Smile, CalendarDays].map((Icon, idx) => (
                           <Button key={idx} variant="ghost" size="sm" className="rounded-full hover:bg-blue-50 dark:hover:bg-blue-900/20 text-blue-500 w-8 h-8 p-0">
                             <Icon className="w-4 h-4" />
                           </Button>
@@ -343,6 +489,8 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
                   Tweet exceeds character limit
                 </p>
               )}
+              </>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -443,8 +591,8 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
                 </div>
                 <span className="font-medium">
                   {modalState.tweet.isScheduleEnabled 
-                    ? "Tweet successfully scheduled!" 
-                    : "Tweet successfully posted!"
+                    ? `${itemLabel} successfully scheduled!` 
+                    : `${itemLabel} successfully posted!`
                   }
                 </span>
               </div>
@@ -463,8 +611,8 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
                 </div>
                 <span className="font-medium">
                   {modalState.tweet.isScheduleEnabled 
-                    ? "Failed to schedule tweet" 
-                    : "Failed to post tweet"
+                    ? `Failed to schedule ${itemLabel.toLowerCase()}` 
+                    : `Failed to post ${itemLabel.toLowerCase()}`
                   }. Please try again.
                 </span>
               </div>
@@ -489,7 +637,7 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
              <div className="flex gap-2 flex-1">
                {/* Generate Button */}
                {modalState.tweet.stage === "idle" && 
-                 !(modalState.tweet.isScheduleEnabled && modalState.tweet.text.trim()) && (
+                 !(!isThread && modalState.tweet.isScheduleEnabled && modalState.tweet.text.trim()) && (
                  <Button 
                    type="button"
                    variant={modalState.tweet.generatedText ? "secondary" : "default"}
@@ -501,7 +649,13 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
                        hasTag: !!modalState.tweet.xAccountToTag,
                        generationsRemaining: modalState.tweet.generationsInfo?.remaining
                      });
-                     generateTweet();
+                     if (isThread) {
+                       generateThread();
+                     } else if (isQuote) {
+                       generateQuoteTweet();
+                     } else {
+                       generateTweet();
+                     }
                    }}
                    disabled={
                      modalState.tweet.isLoading || 
@@ -510,14 +664,17 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
                        modalState.tweet.generatedText && 
                        modalState.tweet.generationsInfo.remaining <= 0
                      ) || 
-                     (!modalState.tweet.generatedText && 
+                     (isThread && !modalState.tweet.context.trim()) ||
+                     (isQuote && !modalState.tweet.quotedTweet) ||
+                     (!isQuote &&
+                       !modalState.tweet.generatedText && 
                        !modalState.tweet.context && 
                        !modalState.tweet.url && 
                        !modalState.tweet.xAccountToTag
                      )
                    }
                    className={`flex-1 gap-2 font-medium transition-all duration-200 ${ 
-                     !modalState.tweet.generatedText && !modalState.tweet.isLoading && (modalState.tweet.context || modalState.tweet.url || modalState.tweet.xAccountToTag)
+                     !modalState.tweet.generatedText && !modalState.tweet.isLoading && (modalState.tweet.context || modalState.tweet.url || modalState.tweet.xAccountToTag || (isQuote && modalState.tweet.quotedTweet))
                        ? 'bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5' 
                        : ''
                    }`}
@@ -543,7 +700,7 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
                    ) : (
                      <>
                        <Sparkles className="w-4 h-4" />
-                       <span>Generate Tweet</span>
+                       <span>Generate {itemLabel}</span>
                      </>
                    )}
                  </Button>
@@ -552,12 +709,15 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
                {/* Post Button */}
                <Button 
                  type="button"
-                 onClick={postTweet} 
+                 onClick={isThread ? postThread : postTweet} 
                  disabled={
                    modalState.tweet.isLoading || 
-                   !modalState.tweet.text.trim() || 
-                   modalState.tweet.text.length > 280 || 
+                   modalState.tweet.isUploadingMedia ||
+                   (isThread
+                     ? !threadIsValid
+                     : !modalState.tweet.text.trim() || modalState.tweet.text.length > 280) || 
                    modalState.tweet.stage === "complete" || 
+                   (isQuote && !modalState.tweet.quotedTweet) ||
                    (modalState.tweet.isScheduleEnabled && 
                      (!modalState.tweet.scheduleTime || 
                       new Date(modalState.tweet.scheduleTime) < new Date())
@@ -572,7 +732,7 @@ export function TweetModal({ modalState, setModalState }: ModalProps) {
                  ) : (
                    <Send className="h-4 w-4" />
                  )}
-                 {modalState.tweet.isScheduleEnabled ? "Schedule Tweet" : "Post Tweet"}
+                 {modalState.tweet.isScheduleEnabled ? `Schedule ${itemLabel}` : `Post ${itemLabel}`}
                </Button>
              </div>
            </div>
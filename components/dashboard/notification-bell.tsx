@@ -0,0 +1,133 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import axios from "axios";
+import { Bell, CheckCheck, Loader2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { API_ENDPOINTS, POLLING_INTERVALS } from "@/app/config/constants";
+
+interface Notification {
+  notificationId: string;
+  agentId: string | null;
+  type: string;
+  title: string;
+  message: string;
+  readAt: string | null;
+  createdAt: string;
+  agent: { name: string } | null;
+}
+
+export function NotificationBell() {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const response = await axios.get(API_ENDPOINTS.NOTIFICATIONS);
+      if (response.data.success) {
+        setNotifications(response.data.notifications);
+        setUnreadCount(response.data.unreadCount);
+      }
+    } catch (error) {
+      console.error("Error loading notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+    const intervalId = setInterval(loadNotifications, POLLING_INTERVALS.NOTIFICATIONS);
+    return () => clearInterval(intervalId);
+  }, [loadNotifications]);
+
+  const markRead = async (body: { notificationIds: string[] } | { all: true }) => {
+    setLoading(true);
+    try {
+      await axios.patch(API_ENDPOINTS.NOTIFICATIONS, body);
+      await loadNotifications();
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      loadNotifications();
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative h-8 w-8 p-0">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-[1rem] items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80 p-0" align="end">
+        <div className="flex items-center justify-between px-3 py-2">
+          <DropdownMenuLabel className="p-0">Notifications</DropdownMenuLabel>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => markRead({ all: true })}
+            disabled={unreadCount === 0 || loading}
+          >
+            {loading ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <CheckCheck className="h-3 w-3 mr-1" />}
+            Mark all read
+          </Button>
+        </div>
+        <DropdownMenuSeparator className="m-0" />
+        {notifications.length === 0 ? (
+          <div className="px-3 py-8 text-center text-sm text-muted-foreground">
+            You&apos;re all caught up.
+          </div>
+        ) : (
+          <ScrollArea className="max-h-96">
+            {notifications.map(notification => (
+              <button
+                key={notification.notificationId}
+                type="button"
+                onClick={() => !notification.readAt && markRead({ notificationIds: [notification.notificationId] })}
+                className={`w-full text-left px-3 py-2 border-b last:border-b-0 hover:bg-muted/50 transition-colors ${
+                  notification.readAt ? "opacity-60" : ""
+                }`}
+              >
+                <div className="flex items-start gap-2">
+                  {!notification.readAt && (
+                    <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-[hsl(var(--primary))]" />
+                  )}
+                  <div className="flex-1 space-y-0.5">
+                    <p className="text-sm font-medium leading-tight">{notification.title}</p>
+                    <p className="text-xs text-muted-foreground">{notification.message}</p>
+                    <p className="text-[11px] text-muted-foreground">
+                      {notification.agent?.name && `${notification.agent.name} · `}
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </ScrollArea>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
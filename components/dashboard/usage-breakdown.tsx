@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Bar, BarChart, ResponsiveContainer, XAxis, YAxis, Tooltip, Legend } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+
+interface UsageCounts {
+  tweet: number;
+  reply: number;
+  generation: number;
+}
+
+interface UsageBreakdownData {
+  periodStart: string;
+  totals: UsageCounts;
+  byAgent: Array<UsageCounts & { agentId: string | null; agentName: string }>;
+  byDay: Array<UsageCounts & { date: string }>;
+  ledgerComplete: boolean;
+}
+
+interface UsageBreakdownProps {
+  className?: string;
+}
+
+export function UsageBreakdown({ className }: UsageBreakdownProps) {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [usage, setUsage] = useState<UsageBreakdownData | null>(null);
+
+  useEffect(() => {
+    async function fetchUsage() {
+      try {
+        const response = await fetch('/api/profile/usage');
+
+        if (!response.ok) {
+          throw new Error('Could not fetch usage data');
+        }
+
+        setUsage(await response.json());
+      } catch (err) {
+        console.error('Error fetching usage breakdown:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load usage data');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchUsage();
+  }, []);
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-2xl">Usage Breakdown</CardTitle>
+        <CardDescription>
+          {usage
+            ? `Tweets, replies and custom generations since ${format(parseISO(usage.periodStart), 'MMM d, yyyy')}`
+            : 'Tweets, replies and custom generations this billing period'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center h-40">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !usage ? (
+          <div className="text-center text-muted-foreground text-sm">
+            Could not load usage data
+          </div>
+        ) : (
+          <>
+            {!usage.ledgerComplete && (
+              <p className="text-xs text-muted-foreground">
+                Some usage this period was recorded before per-agent tracking started, so the breakdown may be lower than your totals.
+              </p>
+            )}
+
+            {usage.byDay.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No usage recorded this period yet.</p>
+            ) : (
+              <div className="h-[220px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={usage.byDay.map(day => ({ ...day, label: format(parseISO(day.date), 'MMM d') }))}>
+                    <XAxis dataKey="label" fontSize={12} />
+                    <YAxis allowDecimals={false} fontSize={12} />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="tweet" name="Tweets" stackId="usage" fill="hsl(var(--primary))" />
+                    <Bar dataKey="reply" name="Replies" stackId="usage" fill="hsl(var(--accent-blue))" />
+                    <Bar dataKey="generation" name="Generations" stackId="usage" fill="hsl(var(--accent-purple))" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            {usage.byAgent.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 font-medium">Agent</th>
+                      <th className="py-2 font-medium text-right">Tweets</th>
+                      <th className="py-2 font-medium text-right">Replies</th>
+                      <th className="py-2 font-medium text-right">Generations</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {usage.byAgent.map(agent => (
+                      <tr key={agent.agentId ?? 'none'} className="border-b last:border-0">
+                        <td className="py-2 font-medium">{agent.agentName}</td>
+                        <td className="py-2 text-right">{agent.tweet}</td>
+                        <td className="py-2 text-right">{agent.reply}</td>
+                        <td className="py-2 text-right">{agent.generation}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
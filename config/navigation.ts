@@ -4,6 +4,7 @@ import {
   PlusCircle,
   Settings,
   CreditCard,
+  CalendarDays,
 } from "lucide-react";
 import type { NavItem } from "@/types/nav";
 
@@ -36,6 +37,11 @@ export const navigation: NavGroup[] = [
         href: "/dashboard/agents/new",
         icon: PlusCircle,
       },
+      {
+        title: "Calendar",
+        href: "/dashboard/calendar",
+        icon: CalendarDays,
+      },
     ],
   },
   {
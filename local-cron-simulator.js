@@ -140,11 +140,53 @@ const cronJobs = [
     schedule: '*/30 * * * *', // Every 30 minutes
     intervalMs: 30 * 60 * 1000
   },
+  {
+    name: 'Auto Tweet Slots',
+    path: '/api/cron/auto-tweet-slots',
+    schedule: '* * * * *', // Every minute
+    intervalMs: 60 * 1000
+  },
   {
     name: 'Auto Engage',
     path: '/api/cron/auto-engage', 
     schedule: '*/5 * * * *', // Every 5 minutes
     intervalMs: 5 * 60 * 1000
+  },
+  {
+    name: 'Approved Replies',
+    path: '/api/cron/approved-replies',
+    schedule: '* * * * *', // Every minute
+    intervalMs: 60 * 1000
+  },
+  {
+    name: 'Auto Follow',
+    path: '/api/cron/auto-follow',
+    schedule: '*/30 * * * *', // Every 30 minutes
+    intervalMs: 30 * 60 * 1000
+  },
+  {
+    name: 'Direct Messages',
+    path: '/api/cron/direct-messages',
+    schedule: '* * * * *', // Every minute
+    intervalMs: 60 * 1000
+  },
+  {
+    name: 'Mentions',
+    path: '/api/cron/mentions',
+    schedule: '*/5 * * * *', // Every 5 minutes
+    intervalMs: 5 * 60 * 1000
+  },
+  {
+    name: 'Tweet Metrics',
+    path: '/api/cron/tweet-metrics',
+    schedule: '*/15 * * * *', // Every 15 minutes
+    intervalMs: 15 * 60 * 1000
+  },
+  {
+    name: 'Usage Reset',
+    path: '/api/cron/usage-reset',
+    schedule: '0 * * * *', // Every hour
+    intervalMs: 60 * 60 * 1000
   }
 ];
 
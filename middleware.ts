@@ -96,6 +96,7 @@ export async function middleware(request: NextRequest) {
       url.pathname.startsWith('/api/agents/new') ||
       url.pathname.startsWith('/api/agents/edit') ||
       url.pathname.startsWith('/api/profile') ||
+      url.pathname.startsWith('/api/notifications') ||
       url.pathname.startsWith('/api/stripe') || 
       url.pathname.startsWith('/checkout') ||
       url.pathname.startsWith('/api/stripe/checkout') ||
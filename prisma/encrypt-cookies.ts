@@ -0,0 +1,85 @@
+import { PrismaClient } from '@prisma/client';
+import { getActiveCookieKeyId, rewrapCookieValue } from '../app/db/utils/cookieEncryption';
+
+// One-off: encrypts cookie rows stored before encryption (key_id IS NULL) and moves rows
+// on a retired key onto the active one. Safe to re-run, e.g. after every key rotation.
+//
+//   npm run db:encrypt-cookies
+
+// Constructing the client also loads .env, which holds the encryption keys
+const prisma = new PrismaClient();
+const BATCH_SIZE = 200;
+
+async function main() {
+  const activeKeyId = getActiveCookieKeyId();
+  console.log(`🔐 Encrypting cookies with key "${activeKeyId}"...`);
+
+  let lastId: bigint | undefined;
+  let updated = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  while (true) {
+    const cookies = await prisma.cookie.findMany({
+      // Rows are rewritten as they go, so they drop out of the filter; paging by ID (rather than
+      // a cursor row that may no longer match) keeps the next batch from skipping any
+      where: {
+        ...(lastId !== undefined && { cookieId: { gt: lastId } }),
+        OR: [
+          { keyId: null },
+          { keyId: { not: activeKeyId } }
+        ]
+      },
+      select: { cookieId: true, value: true, keyId: true },
+      orderBy: { cookieId: 'asc' },
+      take: BATCH_SIZE
+    });
+
+    if (cookies.length === 0) {
+      break;
+    }
+
+    for (const cookie of cookies) {
+      try {
+        const rewrapped = rewrapCookieValue(cookie.value, cookie.keyId);
+        if (!rewrapped) {
+          continue;
+        }
+
+        // Only touch the row if nothing rewrote the cookie since it was read
+        const result = await prisma.cookie.updateMany({
+          where: { cookieId: cookie.cookieId, keyId: cookie.keyId, value: cookie.value },
+          data: rewrapped
+        });
+
+        if (result.count > 0) {
+          updated++;
+        } else {
+          skipped++;
+        }
+      } catch (error) {
+        failed++;
+        console.error(`❌ Could not encrypt cookie ${cookie.cookieId} (key ID ${cookie.keyId}):`, error);
+      }
+    }
+
+    lastId = cookies[cookies.length - 1].cookieId;
+  }
+
+  console.log(`✅ Encrypted ${updated} cookie(s), ${skipped} changed meanwhile, ${failed} failed.`);
+
+  if (failed > 0) {
+    console.log('💡 Failed rows are usually on a key missing from COOKIE_ENCRYPTION_KEYS; add it back and re-run.');
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect()
+  })
+  .catch(async (e) => {
+    console.error(e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "reply_status" ADD VALUE 'approved';
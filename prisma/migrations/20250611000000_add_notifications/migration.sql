@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "notification_type" AS ENUM ('cloudflare_block', 'auth_expired', 'connection_error', 'quota_exhausted', 'tweet_failed', 'billing');
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "notification_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "agent_id" UUID,
+    "type" "notification_type" NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "read_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("notification_id")
+);
+
+-- CreateIndex
+CREATE INDEX "notifications_user_id_read_at_idx" ON "notifications"("user_id", "read_at");
+
+-- CreateIndex
+CREATE INDEX "notifications_user_id_created_at_idx" ON "notifications"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "notifications_user_id_type_created_at_idx" ON "notifications"("user_id", "type", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "profiles"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_agent_id_fkey" FOREIGN KEY ("agent_id") REFERENCES "agents"("agent_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row Level Security
+ALTER TABLE "notifications" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own notifications"
+  ON "notifications" FOR SELECT
+  USING (auth.uid() = user_id::uuid);
+
+CREATE POLICY "Users can update their own notifications"
+  ON "notifications" FOR UPDATE
+  USING (auth.uid() = user_id::uuid);
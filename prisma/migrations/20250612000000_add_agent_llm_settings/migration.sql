@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "llm_provider" AS ENUM ('openrouter', 'openai', 'local');
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN     "llm_provider" "llm_provider" NOT NULL DEFAULT 'openrouter',
+ADD COLUMN     "llm_model" TEXT,
+ADD COLUMN     "llm_temperature" DOUBLE PRECISION,
+ADD COLUMN     "llm_max_tokens" INTEGER;
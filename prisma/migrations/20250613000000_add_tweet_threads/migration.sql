@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "thread_status" AS ENUM ('scheduled', 'posting', 'posted', 'partial', 'failed');
+
+-- CreateTable
+CREATE TABLE "threads" (
+    "thread_id" UUID NOT NULL,
+    "agent_id" UUID NOT NULL,
+    "status" "thread_status" NOT NULL DEFAULT 'scheduled',
+    "post_time" TIMESTAMPTZ(6),
+    "context" TEXT,
+    "error" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "threads_pkey" PRIMARY KEY ("thread_id")
+);
+
+-- AlterTable
+ALTER TABLE "tweets" ADD COLUMN     "thread_id" UUID,
+ADD COLUMN     "thread_position" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "threads_agent_id_idx" ON "threads"("agent_id");
+
+-- CreateIndex
+CREATE INDEX "idx_threads_scheduled_lookup" ON "threads"("status", "post_time");
+
+-- CreateIndex
+CREATE INDEX "tweets_thread_id_thread_position_idx" ON "tweets"("thread_id", "thread_position");
+
+-- AddForeignKey
+ALTER TABLE "threads" ADD CONSTRAINT "threads_agent_id_fkey" FOREIGN KEY ("agent_id") REFERENCES "agents"("agent_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tweets" ADD CONSTRAINT "tweets_thread_id_fkey" FOREIGN KEY ("thread_id") REFERENCES "threads"("thread_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row Level Security
+ALTER TABLE "threads" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their threads"
+  ON "threads" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "agents"
+      WHERE agents.agent_id = threads.agent_id
+      AND agents.user_id::uuid = auth.uid()
+    )
+  );
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "media_type" AS ENUM ('image', 'gif', 'video');
+
+-- CreateTable
+CREATE TABLE "tweet_media" (
+    "media_id" UUID NOT NULL,
+    "agent_id" UUID NOT NULL,
+    "tweet_id" UUID,
+    "media_type" "media_type" NOT NULL,
+    "mime_type" TEXT NOT NULL,
+    "storage_key" TEXT NOT NULL,
+    "size_bytes" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tweet_media_pkey" PRIMARY KEY ("media_id")
+);
+
+-- CreateIndex
+CREATE INDEX "tweet_media_agent_id_idx" ON "tweet_media"("agent_id");
+
+-- CreateIndex
+CREATE INDEX "tweet_media_tweet_id_position_idx" ON "tweet_media"("tweet_id", "position");
+
+-- AddForeignKey
+ALTER TABLE "tweet_media" ADD CONSTRAINT "tweet_media_agent_id_fkey" FOREIGN KEY ("agent_id") REFERENCES "agents"("agent_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tweet_media" ADD CONSTRAINT "tweet_media_tweet_id_fkey" FOREIGN KEY ("tweet_id") REFERENCES "tweets"("tweet_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row Level Security
+ALTER TABLE "tweet_media" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their tweet media"
+  ON "tweet_media" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "agents"
+      WHERE agents.agent_id = tweet_media.agent_id
+      AND agents.user_id::uuid = auth.uid()
+    )
+  );
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "usage_periods" (
+    "usage_period_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "plan_id" BIGINT,
+    "period_start" TIMESTAMPTZ(6) NOT NULL,
+    "period_end" TIMESTAMPTZ(6) NOT NULL,
+    "tweets_used" INTEGER NOT NULL,
+    "replies_used" INTEGER NOT NULL,
+    "custom_generations_used" INTEGER NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "usage_periods_pkey" PRIMARY KEY ("usage_period_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "usage_periods_user_id_period_end_key" ON "usage_periods"("user_id", "period_end");
+
+-- CreateIndex
+CREATE INDEX "usage_periods_user_id_period_start_idx" ON "usage_periods"("user_id", "period_start");
+
+-- AddForeignKey
+ALTER TABLE "usage_periods" ADD CONSTRAINT "usage_periods_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "profiles"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row Level Security
+ALTER TABLE "usage_periods" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their usage periods"
+  ON "usage_periods" FOR SELECT
+  USING (auth.uid() = user_id::uuid);
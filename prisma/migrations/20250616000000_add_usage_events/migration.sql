@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "usage_kind" AS ENUM ('tweet', 'reply', 'generation');
+
+-- CreateTable
+CREATE TABLE "usage_events" (
+    "usage_event_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "agent_id" UUID,
+    "kind" "usage_kind" NOT NULL,
+    "tweet_id" UUID,
+    "reply_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "usage_events_pkey" PRIMARY KEY ("usage_event_id")
+);
+
+-- CreateIndex
+CREATE INDEX "usage_events_user_id_kind_created_at_idx" ON "usage_events"("user_id", "kind", "created_at");
+
+-- CreateIndex
+CREATE INDEX "usage_events_user_id_created_at_idx" ON "usage_events"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "usage_events_agent_id_created_at_idx" ON "usage_events"("agent_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "usage_events" ADD CONSTRAINT "usage_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "profiles"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "usage_events" ADD CONSTRAINT "usage_events_agent_id_fkey" FOREIGN KEY ("agent_id") REFERENCES "agents"("agent_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Row Level Security
+ALTER TABLE "usage_events" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their usage events"
+  ON "usage_events" FOR SELECT
+  USING (auth.uid() = user_id::uuid);
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "quota_mode" AS ENUM ('per_agent', 'pooled');
+
+-- AlterTable
+ALTER TABLE "plans" ADD COLUMN "quota_mode" "quota_mode" NOT NULL DEFAULT 'per_agent';
+
+-- CreateIndex
+CREATE INDEX "usage_events_agent_id_kind_created_at_idx" ON "usage_events"("agent_id", "kind", "created_at");
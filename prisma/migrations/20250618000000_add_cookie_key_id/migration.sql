@@ -0,0 +1,6 @@
+-- AlterTable
+-- NULL marks values stored before encryption; run prisma/encrypt-cookies.ts to encrypt them
+ALTER TABLE "cookies" ADD COLUMN "key_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "cookies_key_id_idx" ON "cookies"("key_id");
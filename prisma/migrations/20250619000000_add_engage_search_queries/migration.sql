@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "engage_source" AS ENUM ('timeline', 'search');
+
+-- CreateEnum
+CREATE TYPE "engage_search_mode" AS ENUM ('latest', 'top');
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "auto_engage_source" "engage_source" NOT NULL DEFAULT 'timeline';
+
+-- CreateTable
+CREATE TABLE "engage_search_queries" (
+    "query_id" UUID NOT NULL,
+    "agent_id" UUID NOT NULL,
+    "query" TEXT NOT NULL,
+    "search_mode" "engage_search_mode" NOT NULL DEFAULT 'latest',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "last_run_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "engage_search_queries_pkey" PRIMARY KEY ("query_id")
+);
+
+-- CreateIndex
+CREATE INDEX "engage_search_queries_agent_id_enabled_last_run_at_idx" ON "engage_search_queries"("agent_id", "enabled", "last_run_at");
+
+-- AddForeignKey
+ALTER TABLE "engage_search_queries" ADD CONSTRAINT "engage_search_queries_agent_id_fkey" FOREIGN KEY ("agent_id") REFERENCES "agents"("agent_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row Level Security
+ALTER TABLE "engage_search_queries" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their engage search queries"
+  ON "engage_search_queries" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "agents"
+      WHERE agents.agent_id = engage_search_queries.agent_id
+      AND agents.user_id::uuid = auth.uid()
+    )
+  );
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "engage_source" ADD VALUE 'lists';
+ALTER TYPE "engage_source" ADD VALUE 'accounts';
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "auto_engage_list_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "auto_engage_target_handles" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "auto_engage_freshness_minutes" INTEGER NOT NULL DEFAULT 180;
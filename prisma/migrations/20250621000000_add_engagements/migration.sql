@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "engagement_action" AS ENUM ('like', 'retweet');
+
+-- CreateEnum
+CREATE TYPE "engagement_status" AS ENUM ('done', 'failed');
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "auto_engage_like_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "auto_engage_like_min_score" INTEGER NOT NULL DEFAULT 6,
+ADD COLUMN "auto_engage_max_daily_likes" INTEGER NOT NULL DEFAULT 50,
+ADD COLUMN "auto_engage_retweet_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "auto_engage_retweet_min_score" INTEGER NOT NULL DEFAULT 9,
+ADD COLUMN "auto_engage_max_daily_retweets" INTEGER NOT NULL DEFAULT 5;
+
+-- CreateTable
+CREATE TABLE "engagements" (
+    "engagement_id" UUID NOT NULL,
+    "agent_id" UUID NOT NULL,
+    "action" "engagement_action" NOT NULL,
+    "status" "engagement_status" NOT NULL DEFAULT 'done',
+    "tweet_id" TEXT NOT NULL,
+    "tweet_user" TEXT,
+    "score" INTEGER,
+    "error" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "engagements_pkey" PRIMARY KEY ("engagement_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "engagements_agent_id_tweet_id_action_key" ON "engagements"("agent_id", "tweet_id", "action");
+
+-- CreateIndex
+CREATE INDEX "engagements_agent_id_action_created_at_idx" ON "engagements"("agent_id", "action", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "engagements" ADD CONSTRAINT "engagements_agent_id_fkey" FOREIGN KEY ("agent_id") REFERENCES "agents"("agent_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row Level Security
+ALTER TABLE "engagements" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their agents' engagements"
+  ON "engagements" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "agents"
+      WHERE agents.agent_id = engagements.agent_id
+      AND agents.user_id::uuid = auth.uid()
+    )
+  );
@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "tweet_kind" AS ENUM ('original', 'quote');
+
+-- AlterEnum
+ALTER TYPE "engagement_action" ADD VALUE 'quote';
+
+-- AlterTable
+ALTER TABLE "tweets" ADD COLUMN "kind" "tweet_kind" NOT NULL DEFAULT 'original',
+ADD COLUMN "quoted_tweet_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "auto_engage_quote_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "auto_engage_quote_min_score" INTEGER NOT NULL DEFAULT 9,
+ADD COLUMN "auto_engage_max_daily_quotes" INTEGER NOT NULL DEFAULT 2;
+
+-- CreateIndex
+CREATE INDEX "tweets_agent_id_quoted_tweet_id_idx" ON "tweets"("agent_id", "quoted_tweet_id");
@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "follow_source" AS ENUM ('engager', 'target_follower');
+
+-- CreateEnum
+CREATE TYPE "follow_status" AS ENUM ('following', 'followed_back', 'not_followed_back', 'failed');
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "auto_follow_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "auto_follow_max_daily" INTEGER NOT NULL DEFAULT 20,
+ADD COLUMN "auto_follow_from_engagers" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "auto_follow_from_target_followers" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "auto_follow_check_after_days" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN "last_auto_follow_time" TIMESTAMPTZ(6);
+
+-- CreateTable
+CREATE TABLE "follows" (
+    "follow_id" UUID NOT NULL,
+    "agent_id" UUID NOT NULL,
+    "twitter_user_id" TEXT NOT NULL,
+    "username" TEXT NOT NULL,
+    "source" "follow_source" NOT NULL,
+    "source_ref" TEXT,
+    "status" "follow_status" NOT NULL DEFAULT 'following',
+    "error" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "checked_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "follows_pkey" PRIMARY KEY ("follow_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "follows_agent_id_twitter_user_id_key" ON "follows"("agent_id", "twitter_user_id");
+
+-- CreateIndex
+CREATE INDEX "follows_agent_id_status_created_at_idx" ON "follows"("agent_id", "status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_agents_auto_follow_lookup" ON "agents"("status", "auto_follow_enabled", "last_auto_follow_time");
+
+-- AddForeignKey
+ALTER TABLE "follows" ADD CONSTRAINT "follows_agent_id_fkey" FOREIGN KEY ("agent_id") REFERENCES "agents"("agent_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row Level Security
+ALTER TABLE "follows" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their agents' follows"
+  ON "follows" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "agents"
+      WHERE agents.agent_id = follows.agent_id
+      AND agents.user_id::uuid = auth.uid()
+    )
+  );
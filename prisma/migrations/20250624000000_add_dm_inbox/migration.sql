@@ -0,0 +1,127 @@
+-- CreateEnum
+CREATE TYPE "dm_reply_status" AS ENUM ('pending', 'approved', 'sending', 'sent', 'rejected', 'failed');
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "dm_inbox_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "dm_auto_send_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "dm_faq" TEXT,
+ADD COLUMN "last_dm_sync_time" TIMESTAMPTZ(6);
+
+-- CreateTable
+CREATE TABLE "dm_conversations" (
+    "dm_conversation_id" UUID NOT NULL,
+    "agent_id" UUID NOT NULL,
+    "conversation_id" TEXT NOT NULL,
+    "participant_id" TEXT NOT NULL,
+    "participant_username" TEXT,
+    "last_message_at" TIMESTAMPTZ(6),
+    "needs_reply" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "dm_conversations_pkey" PRIMARY KEY ("dm_conversation_id")
+);
+
+-- CreateTable
+CREATE TABLE "direct_messages" (
+    "message_id" UUID NOT NULL,
+    "dm_conversation_id" UUID NOT NULL,
+    "x_message_id" TEXT NOT NULL,
+    "sender_id" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "from_agent" BOOLEAN NOT NULL DEFAULT false,
+    "sent_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "direct_messages_pkey" PRIMARY KEY ("message_id")
+);
+
+-- CreateTable
+CREATE TABLE "dm_replies" (
+    "dm_reply_id" UUID NOT NULL,
+    "dm_conversation_id" UUID NOT NULL,
+    "agent_id" UUID NOT NULL,
+    "in_reply_to_message_id" TEXT NOT NULL,
+    "reply_text" TEXT NOT NULL,
+    "status" "dm_reply_status" NOT NULL DEFAULT 'pending',
+    "auto_sent" BOOLEAN NOT NULL DEFAULT false,
+    "x_message_id" TEXT,
+    "error" TEXT,
+    "scheduled_time" TIMESTAMPTZ(6),
+    "sent_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "dm_replies_pkey" PRIMARY KEY ("dm_reply_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dm_conversations_agent_id_conversation_id_key" ON "dm_conversations"("agent_id", "conversation_id");
+
+-- CreateIndex
+CREATE INDEX "dm_conversations_agent_id_last_message_at_idx" ON "dm_conversations"("agent_id", "last_message_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "direct_messages_dm_conversation_id_x_message_id_key" ON "direct_messages"("dm_conversation_id", "x_message_id");
+
+-- CreateIndex
+CREATE INDEX "direct_messages_dm_conversation_id_sent_at_idx" ON "direct_messages"("dm_conversation_id", "sent_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dm_replies_dm_conversation_id_in_reply_to_message_id_key" ON "dm_replies"("dm_conversation_id", "in_reply_to_message_id");
+
+-- CreateIndex
+CREATE INDEX "dm_replies_agent_id_status_idx" ON "dm_replies"("agent_id", "status");
+
+-- CreateIndex
+CREATE INDEX "dm_replies_status_scheduled_time_idx" ON "dm_replies"("status", "scheduled_time");
+
+-- CreateIndex
+CREATE INDEX "idx_agents_dm_inbox_lookup" ON "agents"("status", "dm_inbox_enabled", "last_dm_sync_time");
+
+-- AddForeignKey
+ALTER TABLE "dm_conversations" ADD CONSTRAINT "dm_conversations_agent_id_fkey" FOREIGN KEY ("agent_id") REFERENCES "agents"("agent_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "direct_messages" ADD CONSTRAINT "direct_messages_dm_conversation_id_fkey" FOREIGN KEY ("dm_conversation_id") REFERENCES "dm_conversations"("dm_conversation_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dm_replies" ADD CONSTRAINT "dm_replies_dm_conversation_id_fkey" FOREIGN KEY ("dm_conversation_id") REFERENCES "dm_conversations"("dm_conversation_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dm_replies" ADD CONSTRAINT "dm_replies_agent_id_fkey" FOREIGN KEY ("agent_id") REFERENCES "agents"("agent_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row Level Security
+ALTER TABLE "dm_conversations" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "direct_messages" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "dm_replies" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their agents' DM conversations"
+  ON "dm_conversations" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "agents"
+      WHERE agents.agent_id = dm_conversations.agent_id
+      AND agents.user_id::uuid = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can read their agents' direct messages"
+  ON "direct_messages" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "dm_conversations"
+      JOIN "agents" ON agents.agent_id = dm_conversations.agent_id
+      WHERE dm_conversations.dm_conversation_id = direct_messages.dm_conversation_id
+      AND agents.user_id::uuid = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can read their agents' DM replies"
+  ON "dm_replies" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "agents"
+      WHERE agents.agent_id = dm_replies.agent_id
+      AND agents.user_id::uuid = auth.uid()
+    )
+  );
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "auto_tweet_trends_enabled" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "reply_source" AS ENUM ('engage', 'mention');
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "mentions_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "mentions_max_depth" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN "last_mentions_check_time" TIMESTAMPTZ(6),
+ADD COLUMN "last_mention_tweet_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "replies" ADD COLUMN "source" "reply_source" NOT NULL DEFAULT 'engage',
+ADD COLUMN "conversation_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "replies_agent_id_conversation_id_idx" ON "replies"("agent_id", "conversation_id");
+
+-- CreateIndex
+CREATE INDEX "idx_agents_mentions_lookup" ON "agents"("status", "mentions_enabled", "last_mentions_check_time");
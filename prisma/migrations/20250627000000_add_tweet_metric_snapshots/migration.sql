@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "tweets" ADD COLUMN "metrics_synced_at" TIMESTAMPTZ(6);
+
+-- CreateTable
+CREATE TABLE "tweet_metric_snapshots" (
+    "snapshot_id" UUID NOT NULL,
+    "tweet_id" UUID NOT NULL,
+    "likes" INTEGER NOT NULL DEFAULT 0,
+    "retweets" INTEGER NOT NULL DEFAULT 0,
+    "replies" INTEGER NOT NULL DEFAULT 0,
+    "views" INTEGER,
+    "captured_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tweet_metric_snapshots_pkey" PRIMARY KEY ("snapshot_id")
+);
+
+-- CreateIndex
+CREATE INDEX "tweet_metric_snapshots_tweet_id_captured_at_idx" ON "tweet_metric_snapshots"("tweet_id", "captured_at");
+
+-- CreateIndex
+CREATE INDEX "idx_tweets_metric_sync_lookup" ON "tweets"("status", "post_time", "metrics_synced_at");
+
+-- AddForeignKey
+ALTER TABLE "tweet_metric_snapshots" ADD CONSTRAINT "tweet_metric_snapshots_tweet_id_fkey" FOREIGN KEY ("tweet_id") REFERENCES "tweets"("tweet_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Row Level Security
+ALTER TABLE "tweet_metric_snapshots" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their agents' tweet metric snapshots"
+  ON "tweet_metric_snapshots" FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM "tweets"
+      JOIN "agents" ON agents.agent_id = tweets.agent_id
+      WHERE tweets.tweet_id = tweet_metric_snapshots.tweet_id
+      AND agents.user_id::uuid = auth.uid()
+    )
+  );
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "replies" ADD COLUMN "original_tweet_user_followers" INTEGER,
+ADD COLUMN "likes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "retweets" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "replies" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "views" INTEGER,
+ADD COLUMN "metrics_synced_at" TIMESTAMPTZ(6);
+
+-- CreateIndex
+CREATE INDEX "idx_replies_metric_sync_lookup" ON "replies"("status", "posted_time", "metrics_synced_at");
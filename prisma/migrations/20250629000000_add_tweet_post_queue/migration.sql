@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "tweets" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "next_attempt_at" TIMESTAMPTZ(6),
+ADD COLUMN "lease_expires_at" TIMESTAMPTZ(6),
+ADD COLUMN "last_error" TEXT;
+
+-- CreateIndex
+CREATE INDEX "idx_tweets_post_lease_lookup" ON "tweets"("status", "lease_expires_at");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "auto_engage_lease_expires_at" TIMESTAMPTZ(6);
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "tweet_status" ADD VALUE 'reserved' BEFORE 'scheduled';
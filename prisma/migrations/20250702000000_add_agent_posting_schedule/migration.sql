@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN "active_hours" JSONB,
+ADD COLUMN "blackout_dates" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "schedule_jitter_minutes" INTEGER NOT NULL DEFAULT 0;
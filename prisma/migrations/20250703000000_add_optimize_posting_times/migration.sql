@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "optimize_posting_times" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "threads" ADD COLUMN "lease_expires_at" TIMESTAMPTZ(6);
+
+-- CreateIndex
+CREATE INDEX "idx_threads_post_lease_lookup" ON "threads"("status", "lease_expires_at");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "replies" ADD COLUMN "lease_expires_at" TIMESTAMPTZ(6);
+
+-- CreateIndex
+CREATE INDEX "idx_replies_post_lease_lookup" ON "replies"("status", "lease_expires_at");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "dm_replies" ADD COLUMN "lease_expires_at" TIMESTAMPTZ(6);
+
+-- CreateIndex
+CREATE INDEX "idx_dm_replies_send_lease_lookup" ON "dm_replies"("status", "lease_expires_at");